@@ -1,15 +1,28 @@
+import { Switch, Route } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import OeconomiaDashboard from "./components/OeconomiaDashboard";
+import TransactionsPage from "./pages/transactions";
+import NotFound from "./pages/not-found";
+
+function Router() {
+  return (
+    <Switch>
+      <Route path="/" component={OeconomiaDashboard} />
+      <Route path="/transactions" component={TransactionsPage} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <OeconomiaDashboard />
+        <Router />
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Button } from "./ui/button";
+import { useAuth } from "../hooks/useAuth";
+
+// Server errors come back as "<status>: <json body>"; show the body's message when there is one
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return "Something went wrong";
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details?.[0]?.message || parsed.error || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function AuthDialog({ open, onOpenChange, onAuthenticated }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAuthenticated?: () => void;
+}) {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const mutation = mode === "login" ? login : register;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await mutation.mutateAsync({ username, password });
+      setPassword("");
+      onOpenChange(false);
+      onAuthenticated?.();
+    } catch {
+      // Error is rendered from mutation state
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="dialog-auth">
+        <DialogHeader>
+          <DialogTitle>Sign in to Oeconomia</DialogTitle>
+          <DialogDescription>Wallets are linked to your account so only you can view or manage them.</DialogDescription>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "login" | "register")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+            <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value={mode}>
+            <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="auth-username">Username</Label>
+                <Input
+                  id="auth-username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  data-testid="input-username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auth-password">Password</Label>
+                <Input
+                  id="auth-password"
+                  type="password"
+                  autoComplete={mode === "login" ? "current-password" : "new-password"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  data-testid="input-password"
+                />
+              </div>
+              {mutation.isError ? (
+                <p className="text-sm text-red-400" data-testid="text-auth-error">{errorMessage(mutation.error)}</p>
+              ) : null}
+              <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid="button-auth-submit">
+                {mutation.isPending ? "Please wait..." : mode === "login" ? "Log in" : "Create account"}
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
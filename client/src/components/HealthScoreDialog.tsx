@@ -0,0 +1,43 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Progress } from "./ui/progress";
+import type { HealthReport } from "../hooks/useBlockchainData";
+
+export default function HealthScoreDialog({ open, onOpenChange, report }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: HealthReport | null | undefined;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-health-score">
+        <DialogHeader>
+          <DialogTitle>
+            Health Score{report?.score != null && `: ${report.score}/100`}
+          </DialogTitle>
+          <DialogDescription>
+            {report ? `${report.label} · assessed ${new Date(report.assessedAt).toLocaleString()}` : "No assessment yet"}
+          </DialogDescription>
+        </DialogHeader>
+        {!report || report.factors.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Hold or stake tokens to get a health breakdown</div>
+        ) : (
+          <div className="space-y-4">
+            {report.factors.map((factor) => (
+              <div key={factor.key} data-testid={`health-factor-${factor.key}`}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium">
+                    {factor.label}
+                    <span className="ml-2 text-xs text-muted-foreground">{Math.round(factor.weight * 100)}% weight</span>
+                  </span>
+                  <span className="text-muted-foreground">{factor.score === null ? "n/a" : factor.score}</span>
+                </div>
+                <Progress value={factor.score ?? 0} className="h-2" />
+                <p className="text-xs text-muted-foreground mt-1">{factor.explanation}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { getAddress } from "ethers";
+import { Link } from "wouter";
 import { 
   Wallet, 
   UserCircle2, 
@@ -13,7 +15,6 @@ import {
   PiggyBank,
   ArrowDownRight,
   ArrowUpRight,
-  Vote,
   ChevronDown
 } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
@@ -32,7 +33,18 @@ import {
   SidebarProvider,
   SidebarTrigger,
 } from "./ui/sidebar";
-import { useTokenPrices, usePortfolio, useStakingPositions, useWalletConnection, formatCurrency, formatPercentageChange } from "../hooks/useBlockchainData";
+import PortfolioHistoryChart from "./PortfolioHistoryChart";
+import TokenPriceChart from "./TokenPriceChart";
+import HealthScoreDialog from "./HealthScoreDialog";
+import AuthDialog from "./AuthDialog";
+import WalletPickerDialog from "./WalletPickerDialog";
+import { useAuth } from "../hooks/useAuth";
+import { useToast } from "../hooks/use-toast";
+import { useInjectedWallet } from "../hooks/useInjectedWallet";
+import { useRealtime } from "../hooks/useRealtime";
+import { signInWithEthereum } from "../lib/siwe";
+import { networkForChainId, type DiscoveredWallet, type WalletSession } from "../lib/walletConnector";
+import { useTokenPrices, usePortfolio, useAggregatePortfolio, useStakingPositions, useGovernanceProposals, useVotingPower, useTransactionPage, useWalletConnection, formatCurrency, formatTokenAmount, formatPercentageChange, type CostBasisMethod, type StakingPosition } from "../hooks/useBlockchainData";
 
 interface PortfolioData {
   netWorth: string;
@@ -85,21 +97,35 @@ interface StakeData {
   rewards: string;
 }
 
-interface TransactionData {
-  type: string;
-  time: string;
-  amount: string;
-  usd: string;
-  icon: string;
-  status?: string;
-}
-
 interface WalletData {
   isConnected: boolean;
   address: string;
   network: string;
 }
 
+// Sum a reward field across positions in USD, falling back to token amounts when a reward token is unpriced
+function formatRewards(positions: StakingPosition[], field: "rewardsEarned" | "unclaimedRewards"): string {
+  if (positions.length === 0) return "—";
+  const usdValues = positions.map(p => p[field === "rewardsEarned" ? "rewardsEarnedUsd" : "unclaimedRewardsUsd"]);
+  if (usdValues.every(v => v !== null)) {
+    return formatCurrency(usdValues.reduce((sum: number, v) => sum + (v as number), 0));
+  }
+  const amount = positions.reduce((sum, p) => sum + parseFloat(p[field]), 0);
+  return `${amount.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${positions[0].rewardToken?.symbol ?? ""}`.trim();
+}
+
+function formatStakedAmount(positions: StakingPosition[]): string {
+  if (positions.length === 0) return "—";
+  const amount = positions.reduce((sum, p) => sum + parseFloat(p.stakedAmount), 0);
+  return `${amount.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${positions[0].token?.symbol ?? ""}`.trim();
+}
+
+function formatAverageApy(positions: StakingPosition[]): string {
+  if (positions.length === 0) return "—";
+  const average = positions.reduce((sum, p) => sum + parseFloat(p.apy), 0) / positions.length;
+  return `${average.toFixed(2)}%`;
+}
+
 // Small helper for a tidy label/value row
 function InfoRow({ label, value, hint }: { label: string; value?: React.ReactNode; hint?: string }) {
   return (
@@ -207,49 +233,151 @@ export default function OeconomiaDashboard() {
   const [isStakesOpen, setIsStakesOpen] = useState(true);
 
   // Fetch real blockchain data
-  const { data: tokenPrices = {}, isLoading: pricesLoading } = useTokenPrices();
-  const { data: portfolioData, isLoading: portfolioLoading } = usePortfolio(walletData.address);
-  const { data: stakingData, isLoading: stakingLoading } = useStakingPositions(walletData.address);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>("fifo");
   const { connectWallet, disconnectWallet } = useWalletConnection();
+  const { user, logout } = useAuth();
+
+  // "all" shows the combined portfolio across the user's wallets; an address drills into one wallet
+  const [selectedWallet, setSelectedWallet] = useState<string>("all");
+  const isAggregateView = selectedWallet === "all";
+  const detailAddress = isAggregateView ? walletData.address : selectedWallet;
+  const { data: aggregateData, isLoading: aggregateLoading } = useAggregatePortfolio(!!user, costBasisMethod);
+  const { data: portfolioData, isLoading: portfolioLoading } = usePortfolio(isAggregateView ? null : selectedWallet, costBasisMethod);
+  const { data: stakingData, isLoading: stakingLoading } = useStakingPositions(detailAddress);
+  const { data: votingPowerData, isLoading: votingPowerLoading } = useVotingPower(detailAddress);
+  const { data: recentTransactionData, isLoading: recentTransactionsLoading } = useTransactionPage(detailAddress, { sort: "timestamp", order: "desc", limit: 5 });
+  const { data: activeProposalsData, isLoading: activeProposalsLoading } = useGovernanceProposals("active");
+  const userWallets = aggregateData?.wallets || [];
+
+  // Server push for prices, blocks and the user's wallets; price polling only runs while it's down
+  const realtime = useRealtime(userWallets.map(wallet => wallet.address), user?.id ?? null);
+  const { data: tokenPrices = {}, isLoading: pricesLoading } = useTokenPrices(realtime.isLive);
+
+  // Fall back to the combined view when the selected wallet is removed
+  useEffect(() => {
+    if (!isAggregateView && aggregateData && !aggregateData.wallets.some(wallet => wallet.address === selectedWallet)) {
+      setSelectedWallet("all");
+    }
+  }, [aggregateData, selectedWallet]);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const [isHealthOpen, setIsHealthOpen] = useState(false);
+  const { toast } = useToast();
 
   // Extract price data for OEC and ELOQ
-  const oecPrice = tokenPrices.OEC || { price: 0, change24h: 0 };
-  const eloqPrice = tokenPrices.ELOQ || { price: 0, change24h: 0 };
+  const oecPrice = tokenPrices.OEC || { price: null, change24h: null, stale: false };
+  const eloqPrice = tokenPrices.ELOQ || { price: null, change24h: null, stale: false };
+
+  const injectedWallet = useInjectedWallet();
+  const [isWalletPickerOpen, setIsWalletPickerOpen] = useState(false);
+  // Set while an explicit connect is running so session events don't trigger a second sync
+  const isLinking = useRef(false);
+
+  // Prove ownership of the session's account with a SIWE signature, then link it to the account
+  const verifyAndConnect = async (session: WalletSession) => {
+    const address = await signInWithEthereum(session.wallet.provider, getAddress(session.address), session.chainId);
+    const network = networkForChainId(session.chainId);
+    await connectWallet.mutateAsync({ address, network });
+    setWalletData({ isConnected: true, address, network });
+  };
+
+  const linkWallet = async (wallet: DiscoveredWallet) => {
+    setIsWalletPickerOpen(false);
+    isLinking.current = true;
+    try {
+      await verifyAndConnect(await injectedWallet.connect(wallet));
+    } catch (error) {
+      console.error("Failed to connect wallet:", error);
+      toast({ title: "Wallet not connected", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    } finally {
+      isLinking.current = false;
+    }
+  };
+
+  // Follow account and chain switches made inside the wallet, and pick up a remembered wallet on reload
+  useEffect(() => {
+    if (isLinking.current || injectedWallet.isRestoring || !user) return;
+    const session = injectedWallet.session;
+
+    const sync = async () => {
+      if (!session) {
+        if (walletData.isConnected) {
+          setWalletData(prev => ({ ...prev, isConnected: false, address: "" }));
+        }
+        return;
+      }
+
+      const address = getAddress(session.address);
+      const network = networkForChainId(session.chainId);
+      if (walletData.isConnected && address !== walletData.address) {
+        // A different account needs its own signature
+        await verifyAndConnect(session);
+      } else if (!walletData.isConnected || network !== walletData.network) {
+        // Works without a signature when this login session already verified the address
+        await connectWallet.mutateAsync({ address, network });
+        setWalletData({ isConnected: true, address, network });
+      }
+    };
+
+    sync().catch(error => console.error("Failed to sync wallet connection:", error));
+  }, [injectedWallet.session, injectedWallet.isRestoring, user]);
 
   const handleWalletConnect = async () => {
     try {
       if (walletData.isConnected) {
         // Disconnect wallet
         await disconnectWallet.mutateAsync({ address: walletData.address });
+        injectedWallet.disconnect();
         setWalletData(prev => ({
           ...prev,
           isConnected: false,
           address: ""
         }));
+      } else if (!user) {
+        // Wallets belong to an account, so sign in first
+        setIsAuthOpen(true);
+      } else if (injectedWallet.wallets.length === 0) {
+        toast({ title: "No wallet found", description: "Install a browser wallet such as MetaMask to connect.", variant: "destructive" });
+      } else if (injectedWallet.wallets.length === 1) {
+        await linkWallet(injectedWallet.wallets[0]);
       } else {
-        // Connect wallet (simulated for demo)
-        const mockAddress = "0x1234567890123456789012345678901234567890";
-        await connectWallet.mutateAsync({ address: mockAddress });
-        setWalletData(prev => ({
-          ...prev,
-          isConnected: true,
-          address: mockAddress
-        }));
+        setIsWalletPickerOpen(true);
       }
     } catch (error) {
       console.error("Failed to connect/disconnect wallet:", error);
     }
   };
 
+  const handleLogout = async () => {
+    try {
+      await logout.mutateAsync();
+      setWalletData(prev => ({
+        ...prev,
+        isConnected: false,
+        address: ""
+      }));
+    } catch (error) {
+      console.error("Failed to log out:", error);
+    }
+  };
+
   // Calculate derived data with safe fallbacks
-  const netWorth = portfolioLoading ? "Loading..." : 
-    (portfolioData && typeof portfolioData.netWorth === 'number') ? formatCurrency(portfolioData.netWorth) : "—";
-  const healthScore = portfolioLoading ? "Loading..." : (portfolioData?.healthScore || "—");
-  const lastUpdated = portfolioLoading ? "Loading..." : 
-    (portfolioData?.lastUpdated || (walletData.isConnected ? "Connect wallet for live data" : "Not connected"));
+  const overview = isAggregateView ? aggregateData : portfolioData;
+  const overviewLoading = isAggregateView ? aggregateLoading && !!user : portfolioLoading;
+  const netWorth = overviewLoading ? "Loading..." : 
+    (overview && typeof overview.netWorth === 'number') ? formatCurrency(overview.netWorth) : "—";
+  const healthReport = overviewLoading ? null : overview?.healthReport;
+  const healthScore = overviewLoading ? "Loading..." :
+    healthReport?.score != null ? `${healthReport.score}/100` : (overview?.healthScore || "—");
+  const lastUpdated = overviewLoading ? "Loading..." : 
+    (overview?.lastUpdated || (walletData.isConnected ? "Connect wallet for live data" : "Not connected"));
 
   const stakes = stakingData?.stakingPositions || [];
-  const transactions: TransactionData[] = []; // Will be populated when transaction API is implemented
+  const stakesFor = (symbol: string, stakingType: string) =>
+    stakes.filter(stake => stake.token?.symbol === symbol && stake.stakingType === stakingType);
+  const oecStakes = stakesFor("OEC", "staking");
+  const eloqSoloStakes = stakesFor("ELOQ", "staking");
+  const eloqFarms = stakesFor("ELOQ", "farming");
+  const transactions = recentTransactionData?.transactions || [];
 
   return (
     <SidebarProvider>
@@ -340,14 +468,25 @@ export default function OeconomiaDashboard() {
                     <p className="text-sm text-muted-foreground mt-1">Portfolio Management • Real-time DeFi Analytics</p>
                   </div>
                 </div>
-                <button 
-                  onClick={handleWalletConnect}
-                  className="inline-flex items-center gap-2 rounded-xl border border-border bg-card/50 backdrop-blur px-4 py-2 text-sm hover:bg-card/70 transition-colors"
-                  data-testid="button-connect-wallet"
-                >
-                  <Wallet className="h-4 w-4" />
-                  <span>{walletData.isConnected ? "Disconnect" : "Connect Wallet"}</span>
-                </button>
+                <div className="flex items-center gap-2">
+                  {user ? (
+                    <button
+                      onClick={handleLogout}
+                      className="inline-flex items-center gap-2 rounded-xl border border-border bg-card/50 backdrop-blur px-4 py-2 text-sm hover:bg-card/70 transition-colors"
+                      data-testid="button-logout"
+                    >
+                      Sign out
+                    </button>
+                  ) : null}
+                  <button 
+                    onClick={handleWalletConnect}
+                    className="inline-flex items-center gap-2 rounded-xl border border-border bg-card/50 backdrop-blur px-4 py-2 text-sm hover:bg-card/70 transition-colors"
+                    data-testid="button-connect-wallet"
+                  >
+                    <Wallet className="h-4 w-4" />
+                    <span>{walletData.isConnected ? "Disconnect" : "Connect Wallet"}</span>
+                  </button>
+                </div>
               </header>
             </div>
           </div>
@@ -361,7 +500,7 @@ export default function OeconomiaDashboard() {
           </div>
           <div className="flex-1">
             <div className="text-sm text-muted-foreground">Profile Name</div>
-            <div className="text-lg font-semibold" data-testid="text-profile-name">Connect wallet to view profile</div>
+            <div className="text-lg font-semibold" data-testid="text-profile-name">{user ? user.username : "Sign in to view profile"}</div>
           </div>
         </div>
 
@@ -376,6 +515,22 @@ export default function OeconomiaDashboard() {
                     <h2 className="text-lg font-semibold tracking-tight text-foreground">Portfolio Overview</h2>
                   </div>
                   <div className="flex items-center gap-2">
+                    {userWallets.length > 0 ? (
+                      <select
+                        value={selectedWallet}
+                        onChange={(e) => setSelectedWallet(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-xs rounded-full border border-border bg-card/50 px-3 py-1.5 text-muted-foreground"
+                        data-testid="select-wallet"
+                      >
+                        <option value="all">All wallets ({userWallets.length})</option>
+                        {userWallets.map((wallet) => (
+                          <option key={wallet.id} value={wallet.address}>
+                            {wallet.address.slice(0, 6)}…{wallet.address.slice(-4)} · {formatCurrency(wallet.netWorth)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
                     <span className="text-xs rounded-full border border-border px-3 py-1.5 bg-card/50">
                       Last updated: <span data-testid="text-last-update">{lastUpdated}</span>
                     </span>
@@ -385,6 +540,7 @@ export default function OeconomiaDashboard() {
               </CollapsibleTrigger>
               <CollapsibleContent>
                 <div className="px-6 border-t border-border/50">
+                  <PortfolioHistoryChart address={detailAddress} />
                   <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
                     <div className="rounded-2xl bg-card backdrop-blur p-5 shadow-lg hover:shadow-xl transition-shadow" data-testid="stat-net-worth">
                       <div className="flex items-center justify-between mb-3">
@@ -396,7 +552,9 @@ export default function OeconomiaDashboard() {
                         </div>
                       </div>
                       <div className="text-2xl font-semibold text-foreground" data-testid="value-net-worth">{netWorth}</div>
-                      <div className="text-xs text-muted-foreground mt-1">Total portfolio value</div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {isAggregateView && userWallets.length > 1 ? `Across ${userWallets.length} wallets` : "Total portfolio value"}
+                      </div>
                     </div>
 
                     <div className="rounded-2xl bg-card backdrop-blur p-5 shadow-lg hover:shadow-xl transition-shadow" data-testid="stat-p&l">
@@ -407,9 +565,24 @@ export default function OeconomiaDashboard() {
                           </div>
                           <span className="text-xs uppercase tracking-wide text-muted-foreground">P&L</span>
                         </div>
+                        <select
+                          value={costBasisMethod}
+                          onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-xs rounded-md border border-border bg-card/50 px-2 py-1 text-muted-foreground"
+                          data-testid="select-cost-basis-method"
+                        >
+                          <option value="fifo">FIFO</option>
+                          <option value="lifo">LIFO</option>
+                          <option value="average">Average</option>
+                        </select>
+                      </div>
+                      <div className="text-2xl font-semibold text-foreground" data-testid="value-p&l">{overviewLoading ? "Loading..." : (typeof overview?.pnl === 'number' ? formatCurrency(overview.pnl) : (walletData.isConnected ? "—" : "Connect wallet"))}</div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {typeof overview?.pnlPercentage === 'number'
+                          ? <><span className={formatPercentageChange(overview.pnlPercentage).color}>{formatPercentageChange(overview.pnlPercentage).text}</span> since first transaction</>
+                          : "Since first transaction"}
                       </div>
-                      <div className="text-2xl font-semibold text-foreground" data-testid="value-p&l">{portfolioLoading ? "Loading..." : (portfolioData?.pnl ? formatCurrency(portfolioData.pnl) : (walletData.isConnected ? "—" : "Connect wallet"))}</div>
-                      <div className="text-xs text-muted-foreground mt-1">Since first transaction</div>
                     </div>
 
                     <div className="rounded-2xl bg-card backdrop-blur p-5 shadow-lg hover:shadow-xl transition-shadow" data-testid="stat-total-trades">
@@ -421,11 +594,18 @@ export default function OeconomiaDashboard() {
                           <span className="text-xs uppercase tracking-wide text-muted-foreground">Total Trades</span>
                         </div>
                       </div>
-                      <div className="text-2xl font-semibold text-foreground" data-testid="value-total-trades">{portfolioLoading ? "Loading..." : (portfolioData?.totalTrades?.toString() || (walletData.isConnected ? "—" : "Connect wallet"))}</div>
+                      <div className="text-2xl font-semibold text-foreground" data-testid="value-total-trades">{overviewLoading ? "Loading..." : (overview?.totalTrades?.toString() || (walletData.isConnected ? "—" : "Connect wallet"))}</div>
                       <div className="text-xs text-muted-foreground mt-1">Lifetime transactions</div>
                     </div>
 
-                    <div className="rounded-2xl bg-card backdrop-blur p-5 shadow-lg hover:shadow-xl transition-shadow" data-testid="stat-health-score">
+                    <div
+                      className="rounded-2xl bg-card backdrop-blur p-5 shadow-lg hover:shadow-xl transition-shadow cursor-pointer"
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => setIsHealthOpen(true)}
+                      onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && setIsHealthOpen(true)}
+                      data-testid="stat-health-score"
+                    >
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex items-center gap-2">
                           <div className="h-8 w-8 rounded-xl bg-secondary/10 text-secondary grid place-items-center">
@@ -435,7 +615,7 @@ export default function OeconomiaDashboard() {
                         </div>
                       </div>
                       <div className="text-2xl font-semibold text-foreground" data-testid="value-health-score">{healthScore}</div>
-                      <div className="text-xs text-muted-foreground mt-1">Portfolio diversification</div>
+                      <div className="text-xs text-muted-foreground mt-1">{healthReport?.score != null ? `${healthReport.label} · view breakdown` : "Portfolio diversification"}</div>
                     </div>
                   </div>
                 </div>
@@ -469,7 +649,7 @@ export default function OeconomiaDashboard() {
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-xs rounded-full border border-border px-3 py-1.5 bg-card/50">
-                      Price: <span data-testid="text-oec-price">{pricesLoading ? "Loading..." : formatCurrency(oecPrice.price)}</span>
+                      Price: <span data-testid="text-oec-price">{pricesLoading ? "Loading..." : formatCurrency(oecPrice.price)}{oecPrice.stale && " (stale)"}</span>
                     </span>
                     <ChevronDown className={`h-4 w-4 transition-transform ${isOECOpen ? 'rotate-180' : ''}`} />
                   </div>
@@ -477,6 +657,7 @@ export default function OeconomiaDashboard() {
               </CollapsibleTrigger>
               <CollapsibleContent>
                 <div className="px-6 border-t border-border/50">
+                  <TokenPriceChart symbol="OEC" />
                   <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
                     <div className="rounded-xl bg-muted/20 p-6" data-testid="card-oec-wallet">
                       <div className="flex items-center gap-2 mb-4">
@@ -496,9 +677,9 @@ export default function OeconomiaDashboard() {
                         <h3 className="font-semibold">Staking</h3>
                       </div>
                       <div className="space-y-3">
-                        <InfoRow label="Active Stakes" value={stakingLoading ? "Loading..." : stakes.filter((s: any) => s.stakingType === 'staking').length.toString()} />
-                        <InfoRow label="Total Yield" value={stakingLoading ? "Loading..." : "—"} />
-                        <InfoRow label="Unclaimed" value={stakingLoading ? "Loading..." : "—"} />
+                        <InfoRow label="Active Stakes" value={stakingLoading ? "Loading..." : oecStakes.length.toString()} />
+                        <InfoRow label="Total Yield" value={stakingLoading ? "Loading..." : formatRewards(oecStakes, "rewardsEarned")} />
+                        <InfoRow label="Unclaimed" value={stakingLoading ? "Loading..." : formatRewards(oecStakes, "unclaimedRewards")} />
                       </div>
                     </div>
 
@@ -508,9 +689,18 @@ export default function OeconomiaDashboard() {
                         <h3 className="font-semibold">Governance</h3>
                       </div>
                       <div className="space-y-3">
-                        <InfoRow label="Voting Power" value={walletData.isConnected ? "—" : "Connect wallet"} />
-                        <InfoRow label="Total Worth" value={walletData.isConnected ? "—" : "Connect wallet"} />
-                        <InfoRow label="Active Proposals" value={walletData.isConnected ? "—" : "Connect wallet"} />
+                        <InfoRow
+                          label="Voting Power"
+                          value={!detailAddress ? "Connect wallet" : votingPowerLoading ? "Loading..." : votingPowerData ? `${formatTokenAmount(votingPowerData.votingPower)} votes` : "—"}
+                        />
+                        <InfoRow
+                          label="Total Worth"
+                          value={!detailAddress ? "Connect wallet" : votingPowerLoading ? "Loading..." : formatCurrency(votingPowerData?.votingPowerUsd)}
+                        />
+                        <InfoRow
+                          label="Active Proposals"
+                          value={activeProposalsLoading ? "Loading..." : (activeProposalsData?.proposals.length ?? 0).toString()}
+                        />
                       </div>
                     </div>
                   </div>
@@ -545,7 +735,7 @@ export default function OeconomiaDashboard() {
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-xs rounded-full border border-border px-3 py-1.5 bg-card/50">
-                      Price: <span data-testid="text-eloq-price">{pricesLoading ? "Loading..." : formatCurrency(eloqPrice.price)}</span>
+                      Price: <span data-testid="text-eloq-price">{pricesLoading ? "Loading..." : formatCurrency(eloqPrice.price)}{eloqPrice.stale && " (stale)"}</span>
                     </span>
                     <ChevronDown className={`h-4 w-4 transition-transform ${isELOQOpen ? 'rotate-180' : ''}`} />
                   </div>
@@ -553,6 +743,7 @@ export default function OeconomiaDashboard() {
               </CollapsibleTrigger>
               <CollapsibleContent>
                 <div className="px-6 border-t border-border/50">
+                  <TokenPriceChart symbol="ELOQ" />
                   <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
                     <div className="rounded-xl bg-muted/20 p-6" data-testid="card-eloq-wallet">
                       <div className="flex items-center gap-2 mb-4">
@@ -572,9 +763,9 @@ export default function OeconomiaDashboard() {
                         <h3 className="font-semibold">Solo Staking</h3>
                       </div>
                       <div className="space-y-3">
-                        <InfoRow label="Staked Amount" value={stakingLoading ? "Loading..." : "—"} />
-                        <InfoRow label="Total Yield" value={stakingLoading ? "Loading..." : "—"} />
-                        <InfoRow label="Unclaimed" value={stakingLoading ? "Loading..." : "—"} />
+                        <InfoRow label="Staked Amount" value={stakingLoading ? "Loading..." : formatStakedAmount(eloqSoloStakes)} />
+                        <InfoRow label="Total Yield" value={stakingLoading ? "Loading..." : formatRewards(eloqSoloStakes, "rewardsEarned")} />
+                        <InfoRow label="Unclaimed" value={stakingLoading ? "Loading..." : formatRewards(eloqSoloStakes, "unclaimedRewards")} />
                       </div>
                     </div>
 
@@ -584,9 +775,9 @@ export default function OeconomiaDashboard() {
                         <h3 className="font-semibold">Liquidity Farming</h3>
                       </div>
                       <div className="space-y-3">
-                        <InfoRow label="Active Pools" value={stakingLoading ? "Loading..." : stakes.filter((s: any) => s.stakingType === 'farming').length.toString()} />
-                        <InfoRow label="Avg APY" value={stakingLoading ? "Loading..." : "—"} />
-                        <InfoRow label="Unclaimed" value={stakingLoading ? "Loading..." : "—"} />
+                        <InfoRow label="Active Pools" value={stakingLoading ? "Loading..." : eloqFarms.length.toString()} />
+                        <InfoRow label="Avg APY" value={stakingLoading ? "Loading..." : formatAverageApy(eloqFarms)} />
+                        <InfoRow label="Unclaimed" value={stakingLoading ? "Loading..." : formatRewards(eloqFarms, "unclaimedRewards")} />
                       </div>
                     </div>
                   </div>
@@ -636,13 +827,13 @@ export default function OeconomiaDashboard() {
                                 </td>
                               </tr>
                             ) : (
-                              stakes.map((stake: any, index: number) => (
-                                <tr key={index} className="hover:bg-muted/30" data-testid={`row-stake-${index}`}>
-                                  <td className="p-3">{stake.pool}</td>
-                                  <td className="p-3">{stake.token}</td>
-                                  <td className="p-3 text-right font-mono">{stake.amount}</td>
-                                  <td className="p-3 text-right">{stake.apy}</td>
-                                  <td className="p-3 text-right text-green-400">{stake.rewards}</td>
+                              stakes.map((stake, index) => (
+                                <tr key={stake.id} className="hover:bg-muted/30" data-testid={`row-stake-${index}`}>
+                                  <td className="p-3">{stake.poolName}</td>
+                                  <td className="p-3">{stake.token ? `${stake.token.symbol}${stake.lpToken ? " LP" : ""}` : "—"}</td>
+                                  <td className="p-3 text-right font-mono">{parseFloat(stake.stakedAmount).toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                  <td className="p-3 text-right">{parseFloat(stake.apy).toFixed(2)}%</td>
+                                  <td className="p-3 text-right text-green-400">{formatRewards([stake], "unclaimedRewards")}</td>
                                 </tr>
                               ))
                             )}
@@ -654,37 +845,43 @@ export default function OeconomiaDashboard() {
                     <div className="rounded-xl bg-muted/20 p-6" data-testid="card-recent-transactions">
                       <div className="flex items-center justify-between mb-4">
                         <h3 className="font-semibold">Recent Transactions</h3>
-                        <button className="text-xs text-primary hover:text-primary/80" data-testid="button-view-all">View All</button>
+                        <Link
+                          href={detailAddress ? `/transactions?address=${detailAddress}` : "/transactions"}
+                          className="text-xs text-primary hover:text-primary/80"
+                          data-testid="button-view-all"
+                        >
+                          View All
+                        </Link>
                       </div>
                       <div className="space-y-3" data-testid="list-transactions">
                         {transactions.length === 0 ? (
                           <div className="text-center text-muted-foreground py-8">
-                            Connect wallet to view transaction history
+                            {!detailAddress ? "Connect wallet to view transaction history" : recentTransactionsLoading ? "Loading..." : "No transactions yet"}
                           </div>
                         ) : (
-                          transactions.map((tx, index) => (
-                            <div key={index} className="flex items-center justify-between p-3 rounded-lg bg-background/50" data-testid={`transaction-${index}`}>
-                              <div className="flex items-center gap-3">
-                                <div className={`h-8 w-8 rounded-lg grid place-items-center ${
-                                  tx.icon === "reward" ? "bg-green-500/10" :
-                                  tx.icon === "deposit" ? "bg-blue-500/10" :
-                                  "bg-purple-500/10"
-                                }`}>
-                                  {tx.icon === "reward" && <ArrowDownRight className="h-4 w-4 text-green-400" />}
-                                  {tx.icon === "deposit" && <ArrowUpRight className="h-4 w-4 text-blue-400" />}
-                                  {tx.icon === "vote" && <Vote className="h-4 w-4 text-purple-400" />}
+                          transactions.map((tx, index) => {
+                            // Tokens coming into the wallet vs. leaving it
+                            const incoming = tx.metadata?.direction === "in" || ["buy", "unstake", "claim"].includes(tx.type);
+                            return (
+                              <div key={tx.id} className="flex items-center justify-between p-3 rounded-lg bg-background/50" data-testid={`transaction-${index}`}>
+                                <div className="flex items-center gap-3">
+                                  <div className={`h-8 w-8 rounded-lg grid place-items-center ${incoming ? "bg-green-500/10" : "bg-blue-500/10"}`}>
+                                    {incoming
+                                      ? <ArrowDownRight className="h-4 w-4 text-green-400" />
+                                      : <ArrowUpRight className="h-4 w-4 text-blue-400" />}
+                                  </div>
+                                  <div>
+                                    <div className="text-sm font-medium capitalize">{tx.type}</div>
+                                    <div className="text-xs text-muted-foreground">{new Date(tx.timestamp).toLocaleString()}</div>
+                                  </div>
                                 </div>
-                                <div>
-                                  <div className="text-sm font-medium">{tx.type}</div>
-                                  <div className="text-xs text-muted-foreground">{tx.time}</div>
+                                <div className="text-right">
+                                  <div className="text-sm font-medium">{formatTokenAmount(tx.amount)} {tx.symbol ?? ""}</div>
+                                  <div className="text-xs text-muted-foreground">{formatCurrency(tx.usdValue)}</div>
                                 </div>
                               </div>
-                              <div className="text-right">
-                                <div className="text-sm font-medium">{tx.amount}</div>
-                                <div className="text-xs text-muted-foreground">{tx.usd}</div>
-                              </div>
-                            </div>
-                          ))
+                            );
+                          })
                         )}
                       </div>
                     </div>
@@ -700,10 +897,10 @@ export default function OeconomiaDashboard() {
               <div className="flex items-center justify-between text-sm text-muted-foreground">
                 <div>© 2024 Oeconomia Dashboard. Portfolio management made simple.</div>
                 <div className="flex items-center gap-4">
-                  <span>Last sync: <span data-testid="text-last-sync">Connect wallet for live sync</span></span>
+                  <span>Last sync: <span data-testid="text-last-sync">{realtime.lastEventAt ? realtime.lastEventAt.toLocaleTimeString() : realtime.isLive ? "Waiting for updates" : "Not connected"}</span></span>
                   <div className="flex items-center gap-1">
-                    <span className={`h-2 w-2 rounded-full ${walletData.isConnected ? 'bg-green-400' : 'bg-yellow-500'}`}></span>
-                    <span data-testid="status-live">{walletData.isConnected ? "Live" : "Offline"}</span>
+                    <span className={`h-2 w-2 rounded-full ${realtime.isLive ? 'bg-green-400' : 'bg-yellow-500'}`}></span>
+                    <span data-testid="status-live">{realtime.isLive ? "Live" : realtime.status === "connecting" ? "Connecting" : "Offline"}</span>
                   </div>
                 </div>
               </div>
@@ -711,6 +908,14 @@ export default function OeconomiaDashboard() {
           </div>
         </SidebarInset>
       </div>
+      <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+      <HealthScoreDialog open={isHealthOpen} onOpenChange={setIsHealthOpen} report={healthReport} />
+      <WalletPickerDialog
+        open={isWalletPickerOpen}
+        onOpenChange={setIsWalletPickerOpen}
+        wallets={injectedWallet.wallets}
+        onSelect={linkWallet}
+      />
     </SidebarProvider>
   );
 }
\ No newline at end of file
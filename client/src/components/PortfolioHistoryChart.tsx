@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "./ui/chart";
+import { usePortfolioHistory, formatCurrency, type HistoryRange } from "../hooks/useBlockchainData";
+
+const ranges: HistoryRange[] = ["7d", "30d", "1y"];
+
+const chartConfig = {
+  netWorth: {
+    label: "Net Worth",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+function formatTick(timestamp: string, range: HistoryRange) {
+  const date = new Date(timestamp);
+  return range === "1y"
+    ? date.toLocaleDateString("en-US", { month: "short", year: "2-digit" })
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+export default function PortfolioHistoryChart({ address }: { address: string }) {
+  const [range, setRange] = useState<HistoryRange>("7d");
+  const { data, isLoading } = usePortfolioHistory(address || null, range);
+  const points = data?.points || [];
+
+  return (
+    <div className="rounded-2xl bg-card backdrop-blur p-5 shadow-lg mb-4" data-testid="chart-portfolio-history">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs uppercase tracking-wide text-muted-foreground">Net Worth History</span>
+        <div className="flex items-center gap-1">
+          {ranges.map((r) => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`text-xs rounded-full border border-border px-3 py-1 transition-colors ${
+                range === r ? "bg-primary/20 text-primary" : "bg-card/50 text-muted-foreground hover:bg-card/70"
+              }`}
+              data-testid={`button-history-range-${r}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+      {!address ? (
+        <div className="h-48 grid place-items-center text-sm text-muted-foreground">Connect wallet to view history</div>
+      ) : isLoading ? (
+        <div className="h-48 grid place-items-center text-sm text-muted-foreground">Loading...</div>
+      ) : points.length < 2 ? (
+        <div className="h-48 grid place-items-center text-sm text-muted-foreground">Not enough snapshots yet</div>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+          <AreaChart data={points} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="timestamp"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={32}
+              tickFormatter={(value) => formatTick(value, range)}
+            />
+            <YAxis
+              dataKey="netWorth"
+              tickLine={false}
+              axisLine={false}
+              width={64}
+              tickFormatter={(value) => formatCurrency(value)}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => new Date(payload?.[0]?.payload?.timestamp).toLocaleString()}
+                  formatter={(value) => formatCurrency(value as number)}
+                />
+              }
+            />
+            <Area
+              dataKey="netWorth"
+              type="monotone"
+              stroke="var(--color-netWorth)"
+              fill="var(--color-netWorth)"
+              fillOpacity={0.15}
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Area, AreaChart, CartesianGrid, ReferenceDot, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "./ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { useTokenChart, formatCurrency, formatTokenAmount, type ChartRange, type TokenChartTrade } from "../hooks/useBlockchainData";
+
+const ranges: ChartRange[] = ["24h", "7d", "30d", "1y"];
+
+const chartConfig = {
+  close: {
+    label: "Price",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const tradeColors = {
+  buy: "hsl(142 71% 45%)",
+  sell: "hsl(0 84% 60%)",
+};
+
+function formatTick(time: number, range: ChartRange) {
+  const date = new Date(time);
+  if (range === "24h") return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+  return range === "1y"
+    ? date.toLocaleDateString("en-US", { month: "short", year: "2-digit" })
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+// Trades without a recorded value sit on the price line at the closest point
+function tradePrice(trade: TokenChartTrade, points: Array<{ time: number; close: number }>) {
+  if (trade.price !== null) return parseFloat(trade.price);
+  const time = new Date(trade.timestamp).getTime();
+  return points.reduce((best, point) => (Math.abs(point.time - time) < Math.abs(best.time - time) ? point : best)).close;
+}
+
+export default function TokenPriceChart({ symbol }: { symbol: string }) {
+  const [range, setRange] = useState<ChartRange>("7d");
+  // Price under the cursor, drawn as the horizontal half of the crosshair
+  const [hoverPrice, setHoverPrice] = useState<number | null>(null);
+  const { data, isLoading, isError } = useTokenChart(symbol, range);
+
+  const points = (data?.points || []).map((point) => ({
+    time: new Date(point.timestamp).getTime(),
+    close: parseFloat(point.close),
+  }));
+  const first = points[0]?.time ?? 0;
+  const trades = points.length < 2 ? [] : (data?.trades || []).filter((trade) => new Date(trade.timestamp).getTime() >= first);
+
+  return (
+    <div className="rounded-xl bg-muted/20 p-6 mt-4 mb-4" data-testid={`chart-token-${symbol.toLowerCase()}`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs uppercase tracking-wide text-muted-foreground">{symbol} Price</span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={range}
+          onValueChange={(value) => value && setRange(value as ChartRange)}
+        >
+          {ranges.map((r) => (
+            <ToggleGroupItem
+              key={r}
+              value={r}
+              className="text-xs h-7 px-3 rounded-full data-[state=on]:bg-primary/20 data-[state=on]:text-primary"
+              data-testid={`button-${symbol.toLowerCase()}-range-${r}`}
+            >
+              {r}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      {isLoading ? (
+        <div className="h-56 grid place-items-center text-sm text-muted-foreground">Loading...</div>
+      ) : isError ? (
+        <div className="h-56 grid place-items-center text-sm text-muted-foreground">Price chart unavailable</div>
+      ) : points.length < 2 ? (
+        <div className="h-56 grid place-items-center text-sm text-muted-foreground">Not enough price history yet</div>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+          <AreaChart
+            data={points}
+            margin={{ left: 8, right: 8 }}
+            onMouseMove={(state) => setHoverPrice(state?.activePayload?.[0]?.payload?.close ?? null)}
+            onMouseLeave={() => setHoverPrice(null)}
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={32}
+              tickFormatter={(value) => formatTick(value, range)}
+            />
+            <YAxis
+              dataKey="close"
+              domain={["auto", "auto"]}
+              tickLine={false}
+              axisLine={false}
+              width={64}
+              tickFormatter={(value) => formatCurrency(value)}
+            />
+            <ChartTooltip
+              cursor={{ strokeDasharray: "3 3" }}
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => new Date(payload?.[0]?.payload?.time).toLocaleString()}
+                  formatter={(value) => formatCurrency(value as number)}
+                />
+              }
+            />
+            {hoverPrice !== null && <ReferenceLine y={hoverPrice} stroke="hsl(var(--border))" strokeDasharray="3 3" />}
+            <Area
+              dataKey="close"
+              type="monotone"
+              stroke="var(--color-close)"
+              fill="var(--color-close)"
+              fillOpacity={0.15}
+            />
+            {trades.map((trade) => (
+              <ReferenceDot
+                key={trade.txHash}
+                x={new Date(trade.timestamp).getTime()}
+                y={tradePrice(trade, points)}
+                r={5}
+                fill={tradeColors[trade.type]}
+                stroke="hsl(var(--background))"
+                ifOverflow="extendDomain"
+                shape={(props: { cx?: number; cy?: number; r?: number; fill?: string; stroke?: string }) => (
+                  <circle cx={props.cx} cy={props.cy} r={props.r} fill={props.fill} stroke={props.stroke} data-testid={`marker-trade-${trade.txHash}`}>
+                    <title>{`${trade.type === "buy" ? "Bought" : "Sold"} ${formatTokenAmount(trade.amount)} ${symbol}${trade.price !== null ? ` at ${formatCurrency(trade.price)}` : ""}`}</title>
+                  </circle>
+                )}
+              />
+            ))}
+          </AreaChart>
+        </ChartContainer>
+      )}
+      {trades.length > 0 && (
+        <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full" style={{ background: tradeColors.buy }} />Your buys</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full" style={{ background: tradeColors.sell }} />Your sells</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { formatUnits } from "ethers";
+import { ExternalLink } from "lucide-react";
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { formatCurrency, type Transaction } from "@/hooks/useBlockchainData";
+import { explorerBlockUrl, explorerTxUrl, nativeSymbol } from "@/lib/explorer";
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4 py-2 border-b border-border/50 text-sm">
+      <span className="text-muted-foreground shrink-0">{label}</span>
+      <span className="text-right break-all">{children}</span>
+    </div>
+  );
+}
+
+// Gas paid in the chain's native token; only known when the wallet sent the transaction
+function formatGasFee(tx: Transaction): string {
+  if (tx.gasUsed === null || tx.gasPrice === null) return "—";
+  const fee = BigInt(tx.gasUsed) * BigInt(tx.gasPrice);
+  return `${parseFloat(formatUnits(fee, 18)).toLocaleString(undefined, { maximumFractionDigits: 8 })} ${nativeSymbol(tx)}`;
+}
+
+export default function TransactionDetailDrawer({ transaction, onOpenChange }: {
+  transaction: Transaction | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const txUrl = transaction && explorerTxUrl(transaction);
+  const blockUrl = transaction && explorerBlockUrl(transaction);
+
+  return (
+    <Drawer open={!!transaction} onOpenChange={onOpenChange}>
+      <DrawerContent data-testid="drawer-transaction">
+        {transaction && (
+          <div className="mx-auto w-full max-w-2xl px-4 pb-8 overflow-y-auto max-h-[80vh]">
+            <DrawerHeader className="px-0">
+              <DrawerTitle className="capitalize">
+                {transaction.type} {transaction.symbol ?? ""}
+              </DrawerTitle>
+              <DrawerDescription>{new Date(transaction.timestamp).toLocaleString()}</DrawerDescription>
+            </DrawerHeader>
+
+            <DetailRow label="Hash">
+              {txUrl ? (
+                <a href={txUrl} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 font-mono text-primary hover:underline" data-testid="link-transaction-explorer">
+                  {transaction.txHash} <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              ) : (
+                <span className="font-mono">{transaction.txHash}</span>
+              )}
+            </DetailRow>
+            <DetailRow label="Status"><span className="capitalize">{transaction.status}</span></DetailRow>
+            <DetailRow label="Amount">
+              <span className="font-mono">{parseFloat(transaction.amount).toLocaleString(undefined, { maximumFractionDigits: 8 })} {transaction.symbol ?? ""}</span>
+            </DetailRow>
+            <DetailRow label="Value">{formatCurrency(transaction.usdValue)}</DetailRow>
+            <DetailRow label="Block">
+              {transaction.blockNumber === null ? "Off-chain" : blockUrl ? (
+                <a href={blockUrl} target="_blank" rel="noreferrer" className="font-mono text-primary hover:underline">
+                  {transaction.blockNumber.toLocaleString()}
+                </a>
+              ) : (
+                <span className="font-mono">{transaction.blockNumber.toLocaleString()}</span>
+              )}
+            </DetailRow>
+            <DetailRow label="Gas used">
+              <span className="font-mono">{transaction.gasUsed === null ? "—" : parseInt(transaction.gasUsed, 10).toLocaleString()}</span>
+            </DetailRow>
+            <DetailRow label="Gas price">
+              <span className="font-mono">{transaction.gasPrice === null ? "—" : `${parseFloat(formatUnits(transaction.gasPrice, "gwei")).toLocaleString(undefined, { maximumFractionDigits: 4 })} gwei`}</span>
+            </DetailRow>
+            <DetailRow label="Network fee"><span className="font-mono">{formatGasFee(transaction)}</span></DetailRow>
+
+            <div className="mt-4">
+              <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2">Metadata</div>
+              <pre className="rounded-lg bg-muted/30 p-3 text-xs overflow-x-auto" data-testid="text-transaction-metadata">
+                {transaction.metadata ? JSON.stringify(transaction.metadata, null, 2) : "None"}
+              </pre>
+            </div>
+          </div>
+        )}
+      </DrawerContent>
+    </Drawer>
+  );
+}
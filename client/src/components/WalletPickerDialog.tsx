@@ -0,0 +1,38 @@
+import { Wallet } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import type { DiscoveredWallet } from "../lib/walletConnector";
+
+export default function WalletPickerDialog({ open, onOpenChange, wallets, onSelect }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wallets: DiscoveredWallet[];
+  onSelect: (wallet: DiscoveredWallet) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm" data-testid="dialog-wallet-picker">
+        <DialogHeader>
+          <DialogTitle>Connect a wallet</DialogTitle>
+          <DialogDescription>Choose one of the wallets installed in this browser.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {wallets.map((wallet) => (
+            <button
+              key={wallet.info.rdns}
+              onClick={() => onSelect(wallet)}
+              className="w-full flex items-center gap-3 rounded-xl border border-border bg-card/50 px-4 py-3 text-sm hover:bg-card/70 transition-colors"
+              data-testid={`button-wallet-${wallet.info.rdns}`}
+            >
+              {wallet.info.icon ? (
+                <img src={wallet.info.icon} alt="" className="h-6 w-6 rounded" />
+              ) : (
+                <Wallet className="h-6 w-6" />
+              )}
+              <span className="font-medium text-foreground">{wallet.info.name}</span>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, getQueryFn } from '@/lib/queryClient';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+// Hook for the current session user plus login/register/logout mutations
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ user: AuthUser } | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onAuthenticated = (result: { user: AuthUser }) => {
+    queryClient.setQueryData(['/api/auth/me'], result);
+    queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/governance'] });
+  };
+
+  const login = useMutation({
+    mutationFn: async (credentials: Credentials) =>
+      (await apiRequest('POST', '/api/auth/login', credentials)).json(),
+    onSuccess: onAuthenticated,
+  });
+
+  const register = useMutation({
+    mutationFn: async (credentials: Credentials) =>
+      (await apiRequest('POST', '/api/auth/register', credentials)).json(),
+    onSuccess: onAuthenticated,
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => (await apiRequest('POST', '/api/auth/logout')).json(),
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/auth/me'], null);
+      queryClient.removeQueries({ queryKey: ['/api/blockchain'] });
+      queryClient.removeQueries({ queryKey: ['/api/portfolio'] });
+      queryClient.removeQueries({ queryKey: ['/api/governance'] });
+    },
+  });
+
+  return {
+    user: data?.user ?? null,
+    isLoading,
+    login,
+    register,
+    logout,
+  };
+}
@@ -1,4 +1,4 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 
 // Add proper return types for TanStack Query v5 compatibility
@@ -7,71 +7,263 @@ import { apiRequest } from '@/lib/queryClient';
 interface TokenPrice {
   symbol: string;
   name: string;
-  price: number;
-  change24h: number;
-  lastUpdated: string;
+  price: number | null; // null when no price provider could answer
+  change24h: number | null;
+  provider: string | null;
+  asOf: string | null; // when the provider last updated the price
+  stale: boolean; // last known price, served while the providers are failing
 }
 
 interface WalletBalance {
   tokenId: string;
+  chainId: number;
   symbol: string;
-  balance: string;
+  balance: string | null; // null when the on-chain read failed
+  usdValue: number | null;
   decimals: number;
   address: string;
 }
 
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export interface HealthReport {
+  score: number | null; // 0–100; null when there is nothing to score
+  label: string;
+  factors: Array<{
+    key: string;
+    label: string;
+    score: number | null; // null when there wasn't enough data to judge
+    weight: number;
+    value: number | null;
+    explanation: string;
+  }>;
+  assessedAt: string;
+}
+
 interface Portfolio {
   address: string;
   netWorth: number;
+  pnl: number;
+  pnlPercentage: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  costBasisMethod: CostBasisMethod;
+  totalTrades: number;
   healthScore: string;
+  healthReport: HealthReport;
   tokens: Array<{
     address: string;
     balance: string;
     usdValue: number;
     percentage: number;
   }>;
+  pricesAsOf: string | null;
+  pricesStale: boolean;
   lastUpdated: string;
 }
 
-interface StakingPosition {
+export interface WalletSummary {
+  id: string;
+  address: string;
+  network: string;
+  isConnected: boolean;
+  netWorth: number;
+  stakedValue: number;
+}
+
+interface AggregatePortfolio {
+  wallets: WalletSummary[];
+  tokens: Array<{
+    tokenId: string;
+    chainId: number;
+    symbol: string;
+    name: string;
+    priceUsd: number | null;
+    balance: number;
+    stakedAmount: number;
+    unclaimedRewards: number;
+    usdValue: number;
+    stakedUsdValue: number;
+    percentage: number;
+  }>;
+  netWorth: number;
+  stakedValue: number;
+  healthScore: string;
+  healthReport: HealthReport;
+  pnl: number;
+  pnlPercentage: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  costBasisMethod: CostBasisMethod;
+  totalTrades: number;
+  internalTransfers: number;
+  lastUpdated: string;
+}
+
+export type HistoryRange = '7d' | '30d' | '1y';
+
+interface PortfolioHistory {
+  address: string;
+  range: HistoryRange;
+  points: Array<{
+    timestamp: string;
+    netWorth: number;
+  }>;
+  lastUpdated: string;
+}
+
+export type ChartRange = '24h' | '7d' | '30d' | '1y';
+
+export interface TokenChartTrade {
+  timestamp: string;
+  type: 'buy' | 'sell';
+  amount: string;
+  price: string | null; // USD per token, when the trade's value is known
+  txHash: string;
+}
+
+interface TokenChart {
+  symbol: string;
+  range: ChartRange;
+  resolution: string;
+  points: Array<{
+    timestamp: string;
+    open: string;
+    high: string;
+    low: string;
+    close: string;
+  }>;
+  trades: TokenChartTrade[]; // Only the signed-in user's own trades
+  backfilled: number;
+  lastUpdated: string;
+}
+
+export interface StakingPosition {
   id: string;
   poolName: string;
+  poolAddress: string;
+  chainId: number;
   stakingType: string;
   token: {
     symbol: string;
     name: string;
   } | null;
+  rewardToken: {
+    symbol: string;
+    name: string;
+  } | null;
   stakedAmount: string;
+  // Farm stakes in LP units of the token's pair
+  lpToken: boolean;
+  stakedUsd: number | null; // null when the staked token or pair has no price
   rewardsEarned: string;
   unclaimedRewards: string;
+  rewardsEarnedUsd: number | null; // null when the reward token has no price
+  unclaimedRewardsUsd: number | null;
   apy: string;
   isActive: boolean;
   createdAt: string;
+  updatedAt: string;
+}
+
+export interface GovernanceProposal {
+  id: string;
+  chainId: number;
+  governorAddress: string;
+  proposalId: string;
+  proposer: string;
+  title: string;
+  description: string;
+  snapshotBlock: number;
+  endBlock: number;
+  status: string;
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  createdBlock: number;
+  createdAt: string;
+}
+
+interface VotingPower {
+  address: string;
+  votingPower: number;
+  votingPowerUsd: number | null; // null when the voting token has no price
+  activeProposals: number;
+  governors: Array<{
+    governor: string;
+    chainId: number;
+    address: string;
+    tokenSymbol: string;
+    currentBlock: number;
+    delegate: string;
+    votingPower: string;
+    proposals: Array<{
+      id: string;
+      proposalId: string;
+      title: string;
+      status: string;
+      snapshotBlock: number;
+      votingPower: string;
+      vote: { support: number; weight: string } | null;
+    }>;
+  }>;
+  lastUpdated: string;
 }
 
-interface Transaction {
+export interface Transaction {
   id: string;
   txHash: string;
   type: string;
+  tokenId: string;
+  symbol: string | null;
+  chainId: number | null;
   amount: string;
-  usdValue: string;
-  timestamp: string;
+  usdValue: string | null;
+  gasUsed: string | null; // Only set when the wallet sent the transaction
+  gasPrice: string | null; // Wei
+  blockNumber: number | null; // Null for off-chain (imported) rows
   status: string;
+  metadata: Record<string, unknown> | null;
+  timestamp: string;
+}
+
+export interface TransactionHistory {
+  address: string;
+  transactions: Transaction[];
+  nextCursor: string | null; // Pass back as `cursor` for the next page
+  indexedThroughBlock: Record<string, number>;
+  lastUpdated: string;
 }
 
-// Hook for fetching token prices
-export function useTokenPrices() {
+export type TransactionSortField = 'timestamp' | 'amount' | 'usdValue';
+
+export interface TransactionFilters {
+  type?: string;
+  status?: string;
+  token?: string; // Symbol, matched on every chain
+  from?: string; // ISO timestamps
+  to?: string;
+  minUsd?: string;
+  search?: string; // Part of the transaction hash
+  sort: TransactionSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+}
+
+// Hook for fetching token prices; polling is only a fallback while the realtime channel is down
+export function useTokenPrices(live: boolean = false) {
   return useQuery<Record<string, TokenPrice>>({
     queryKey: ['/api/blockchain/prices'],
     queryFn: async () => (await apiRequest('GET', '/api/blockchain/prices')).json(),
     staleTime: 30000, // Cache for 30 seconds
-    refetchInterval: 60000, // Refetch every minute
+    refetchInterval: live ? false : 60000, // Refetch every minute
   });
 }
 
 // Hook for fetching wallet balances
 export function useWalletBalances(address: string | null) {
-  return useQuery({
+  // Balances are keyed by token id since a symbol can exist on several chains
+  return useQuery<{ address: string; balances: Record<string, WalletBalance> } | null>({
     queryKey: ['/api/blockchain/balances', address],
     queryFn: async () => {
       if (!address) return null;
@@ -83,21 +275,53 @@ export function useWalletBalances(address: string | null) {
 }
 
 // Hook for fetching portfolio metrics
-export function usePortfolio(address: string | null) {
-  return useQuery({
-    queryKey: ['/api/blockchain/portfolio', address],
+export function usePortfolio(address: string | null, method: CostBasisMethod = 'fifo') {
+  return useQuery<Portfolio | null>({
+    queryKey: ['/api/blockchain/portfolio', address, method],
     queryFn: async () => {
       if (!address) return null;
-      return (await apiRequest('POST', '/api/blockchain/portfolio', { address })).json();
+      return (await apiRequest('POST', '/api/blockchain/portfolio', { address, method })).json();
     },
     enabled: !!address,
     staleTime: 15000, // Cache for 15 seconds
   });
 }
 
+// Hook for the combined portfolio across all of the user's wallets
+export function useAggregatePortfolio(enabled: boolean, method: CostBasisMethod = 'fifo') {
+  return useQuery<AggregatePortfolio>({
+    queryKey: ['/api/portfolio/aggregate', method],
+    queryFn: async () => (await apiRequest('GET', `/api/portfolio/aggregate?method=${method}`)).json(),
+    enabled,
+    staleTime: 15000, // Cache for 15 seconds
+  });
+}
+
+// Hook for fetching the historical net-worth series
+export function usePortfolioHistory(address: string | null, range: HistoryRange) {
+  return useQuery<PortfolioHistory | null>({
+    queryKey: ['/api/blockchain/portfolio', address, 'history', range],
+    queryFn: async () => {
+      if (!address) return null;
+      return (await apiRequest('GET', `/api/blockchain/portfolio/${address}/history?range=${range}`)).json();
+    },
+    enabled: !!address,
+    staleTime: 60000, // Snapshots are written every few minutes
+  });
+}
+
+// Hook for fetching a token's price chart
+export function useTokenChart(symbol: string, range: ChartRange) {
+  return useQuery<TokenChart>({
+    queryKey: ['/api/tokens', symbol, 'chart', range],
+    queryFn: async () => (await apiRequest('GET', `/api/tokens/${symbol}/chart?range=${range}`)).json(),
+    staleTime: 60000, // Candles fill in as prices are polled
+  });
+}
+
 // Hook for fetching transaction history
 export function useTransactionHistory(address: string | null) {
-  return useQuery({
+  return useQuery<TransactionHistory | null>({
     queryKey: ['/api/blockchain/transactions', address],
     queryFn: async () => {
       if (!address) return null;
@@ -108,9 +332,28 @@ export function useTransactionHistory(address: string | null) {
   });
 }
 
+// Hook for one filtered page of transaction history; `cursor` is null for the first page
+export function useTransactionPage(address: string | null, filters: TransactionFilters, cursor: string | null = null) {
+  return useQuery<TransactionHistory | null>({
+    queryKey: ['/api/blockchain/transactions', address, 'page', filters, cursor],
+    queryFn: async () => {
+      if (!address) return null;
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+      }
+      if (cursor) params.set('cursor', cursor);
+      return (await apiRequest('GET', `/api/blockchain/transactions/${address}?${params}`)).json();
+    },
+    enabled: !!address,
+    placeholderData: keepPreviousData, // Keep the table in place while the next page loads
+    staleTime: 30000, // Cache for 30 seconds
+  });
+}
+
 // Hook for fetching staking positions
 export function useStakingPositions(address: string | null) {
-  return useQuery({
+  return useQuery<{ address: string; stakingPositions: StakingPosition[]; lastUpdated: string } | null>({
     queryKey: ['/api/blockchain/staking', address],
     queryFn: async () => {
       if (!address) return null;
@@ -121,15 +364,40 @@ export function useStakingPositions(address: string | null) {
   });
 }
 
+// Hook for fetching governance proposals, optionally filtered by status
+export function useGovernanceProposals(status?: string) {
+  return useQuery<{ proposals: GovernanceProposal[]; lastUpdated: string }>({
+    queryKey: ['/api/governance/proposals', status],
+    queryFn: async () =>
+      (await apiRequest('GET', `/api/governance/proposals${status ? `?status=${status}` : ''}`)).json(),
+    staleTime: 60000, // Proposals are synced every few minutes
+  });
+}
+
+// Hook for fetching a wallet's delegated voting power
+export function useVotingPower(address: string | null) {
+  return useQuery<VotingPower | null>({
+    queryKey: ['/api/governance', address, 'power'],
+    queryFn: async () => {
+      if (!address) return null;
+      return (await apiRequest('GET', `/api/governance/${address}/power`)).json();
+    },
+    enabled: !!address,
+    staleTime: 60000, // Cache for 1 minute
+  });
+}
+
 // Hook for wallet connection
 export function useWalletConnection() {
   const queryClient = useQueryClient();
 
   const connectWallet = useMutation({
-    mutationFn: async (data: { address: string; userId?: string; network?: string }) =>
+    mutationFn: async (data: { address: string; network?: string }) =>
       (await apiRequest('POST', '/api/blockchain/wallet/connect', data)).json(),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/governance'] });
     }
   });
 
@@ -138,6 +406,8 @@ export function useWalletConnection() {
       (await apiRequest('POST', '/api/blockchain/wallet/disconnect', data)).json(),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/blockchain'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/governance'] });
     }
   });
 
@@ -148,7 +418,8 @@ export function useWalletConnection() {
 }
 
 // Utility function to format currency
-export function formatCurrency(value: number | string): string {
+export function formatCurrency(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) return '—';
   const num = typeof value === 'string' ? parseFloat(value) : value;
   if (isNaN(num)) return '$0.00';
   
@@ -180,7 +451,8 @@ export function formatTokenAmount(amount: string | number, decimals: number = 18
 }
 
 // Utility function to format percentage change
-export function formatPercentageChange(change: number): { text: string; color: string } {
+export function formatPercentageChange(change: number | null | undefined): { text: string; color: string } {
+  if (change === null || change === undefined) return { text: '—', color: 'text-muted-foreground' };
   const formatted = `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
   const color = change >= 0 ? 'text-green-400' : 'text-red-400';
   return { text: formatted, color };
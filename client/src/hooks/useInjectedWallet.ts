@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useState } from 'react';
+import { WalletConnector, discoverWallets, type DiscoveredWallet, type WalletSession } from '@/lib/walletConnector';
+
+// Hook for the browser wallets discovered via EIP-6963 and the currently connected one.
+// Reconnects to the wallet chosen on a previous visit without prompting.
+export function useInjectedWallet() {
+  const connector = useMemo(() => new WalletConnector(), []);
+  const [wallets, setWallets] = useState<DiscoveredWallet[]>([]);
+  const [session, setSession] = useState<WalletSession | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = connector.subscribe(setSession);
+
+    discoverWallets().then(async found => {
+      if (cancelled) return;
+      setWallets(found);
+      try {
+        await connector.restore(found);
+      } catch (error) {
+        console.error('Failed to restore wallet connection:', error);
+      } finally {
+        if (!cancelled) setIsRestoring(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      connector.release();
+    };
+  }, [connector]);
+
+  return {
+    wallets,
+    session,
+    isRestoring,
+    connect: (wallet: DiscoveredWallet) => connector.connect(wallet),
+    disconnect: () => connector.disconnect(),
+  };
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { RealtimeConnection, walletChannel, type RealtimeMessage, type RealtimeStatus } from '@/lib/realtime';
+
+// Latest block number per chain id, fed by the realtime channel
+export const LATEST_BLOCKS_QUERY_KEY = ['/api/realtime', 'blocks'] as const;
+
+function channelsFor(addresses: string[]): string[] {
+  return ['prices', 'blocks', ...addresses.map(walletChannel)];
+}
+
+// Subscribes to price ticks, new blocks and updates for `addresses`, writing each event into the
+// query cache under the same key the matching REST hook uses. The socket is authenticated when it
+// opens, so it reconnects whenever `sessionKey` (the logged-in user) changes.
+export function useRealtime(addresses: string[], sessionKey: string | null) {
+  const queryClient = useQueryClient();
+  const connectionRef = useRef<RealtimeConnection | null>(null);
+  const addressesRef = useRef<string[]>(addresses);
+  const [status, setStatus] = useState<RealtimeStatus>('closed');
+  const [lastEventAt, setLastEventAt] = useState<Date | null>(null);
+
+  addressesRef.current = addresses;
+
+  useEffect(() => {
+    const connection = new RealtimeConnection();
+    connectionRef.current = connection;
+
+    // Cache keys use the address as the dashboard has it, which may differ in case from the server's
+    const cacheAddress = (address: string) =>
+      addressesRef.current.find(candidate => candidate.toLowerCase() === address.toLowerCase()) || address;
+
+    const handleMessage = (message: RealtimeMessage) => {
+      switch (message.type) {
+        case 'prices':
+          queryClient.setQueryData(['/api/blockchain/prices'], message.prices);
+          break;
+        case 'block':
+          queryClient.setQueryData<Record<number, number>>(LATEST_BLOCKS_QUERY_KEY, old => ({
+            ...old,
+            [message.chainId]: message.blockNumber
+          }));
+          break;
+        case 'balances': {
+          const address = cacheAddress(message.address);
+          queryClient.setQueryData(['/api/blockchain/balances', address], { address, balances: message.balances });
+          // Portfolio metrics are derived from the stored balances
+          queryClient.invalidateQueries({ queryKey: ['/api/blockchain/portfolio', address] });
+          queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+          break;
+        }
+        case 'transactions': {
+          const address = cacheAddress(message.address);
+          queryClient.setQueryData(['/api/blockchain/transactions', address], message.history);
+          // Filtered pages on the Transactions page may now be missing rows
+          queryClient.invalidateQueries({ queryKey: ['/api/blockchain/transactions', address, 'page'] });
+          break;
+        }
+        case 'error':
+          console.warn('Realtime:', message.message, message.channels ?? '');
+          return;
+        default:
+          return;
+      }
+      setLastEventAt(new Date(message.at));
+    };
+
+    const offMessage = connection.onMessage(handleMessage);
+    const offStatus = connection.onStatus(setStatus);
+    connection.setChannels(channelsFor(addressesRef.current));
+    connection.start();
+
+    return () => {
+      offMessage();
+      offStatus();
+      connection.stop();
+      connectionRef.current = null;
+    };
+  }, [queryClient, sessionKey]);
+
+  const channelKey = addresses.join(',');
+  useEffect(() => {
+    connectionRef.current?.setChannels(channelsFor(addresses));
+  }, [channelKey]);
+
+  return {
+    status,
+    isLive: status === 'open',
+    lastEventAt
+  };
+}
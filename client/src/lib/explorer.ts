@@ -0,0 +1,32 @@
+import { getChain } from "@shared/chains";
+import type { Transaction } from "../hooks/useBlockchainData";
+
+const TX_HASH = /^0x[0-9a-fA-F]{64}$/;
+
+function chainOf(tx: Transaction) {
+  const chainId = tx.chainId ?? (typeof tx.metadata?.chainId === "number" ? tx.metadata.chainId : null);
+  return chainId !== null ? getChain(chainId) : undefined;
+}
+
+// On-chain hash of a stored transaction; the indexer suffixes the log index when one tx moved several tokens
+export function onchainHash(tx: Transaction): string | null {
+  if (tx.metadata?.offchain) return null;
+  const hash = typeof tx.metadata?.onchainTxHash === "string" ? tx.metadata.onchainTxHash : tx.txHash;
+  return TX_HASH.test(hash) ? hash : null;
+}
+
+// Block explorer page for the transaction, or null for imported and unknown-chain rows
+export function explorerTxUrl(tx: Transaction): string | null {
+  const chain = chainOf(tx);
+  const hash = onchainHash(tx);
+  return chain && hash ? `${chain.explorerUrl}/tx/${hash}` : null;
+}
+
+export function explorerBlockUrl(tx: Transaction): string | null {
+  const chain = chainOf(tx);
+  return chain && tx.blockNumber !== null ? `${chain.explorerUrl}/block/${tx.blockNumber}` : null;
+}
+
+export function nativeSymbol(tx: Transaction): string {
+  return chainOf(tx)?.nativeCurrency.symbol ?? "ETH";
+}
@@ -0,0 +1,130 @@
+export const REALTIME_PATH = "/api/realtime";
+
+export type RealtimeStatus = "connecting" | "open" | "closed";
+
+// Messages pushed by the server; payload shapes match the corresponding REST responses
+export type RealtimeMessage =
+  | { type: "prices"; channel: string; prices: Record<string, unknown>; at: string }
+  | { type: "block"; channel: string; chainId: number; blockNumber: number; at: string }
+  | { type: "balances"; channel: string; address: string; balances: Record<string, unknown>; at: string }
+  | { type: "transactions"; channel: string; address: string; history: unknown; at: string }
+  | { type: "subscribed"; channels: string[] }
+  | { type: "error"; message: string; channels?: string[] };
+
+export function walletChannel(address: string): string {
+  return `wallet:${address}`;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Single WebSocket to the server that resubscribes to its channels after every reconnect
+export class RealtimeConnection {
+  private socket: WebSocket | null = null;
+  private channels = new Set<string>();
+  private messageListeners = new Set<(message: RealtimeMessage) => void>();
+  private statusListeners = new Set<(status: RealtimeStatus) => void>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private stopped = true;
+  private status: RealtimeStatus = "closed";
+
+  constructor(private url: string = defaultRealtimeUrl()) {}
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.open();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.setStatus("closed");
+  }
+
+  // Replaces the subscribed channel set, sending only the difference
+  setChannels(channels: string[]): void {
+    const next = new Set(channels);
+    const added = channels.filter(channel => !this.channels.has(channel));
+    const removed = Array.from(this.channels).filter(channel => !next.has(channel));
+    this.channels = next;
+
+    if (removed.length) this.send({ type: "unsubscribe", channels: removed });
+    if (added.length) this.send({ type: "subscribe", channels: added });
+  }
+
+  onMessage(listener: (message: RealtimeMessage) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  onStatus(listener: (status: RealtimeStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private open(): void {
+    this.setStatus("connecting");
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.setStatus("open");
+      if (this.channels.size) this.send({ type: "subscribe", channels: Array.from(this.channels) });
+    };
+    socket.onmessage = event => {
+      let message: RealtimeMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      this.messageListeners.forEach(listener => listener(message));
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setStatus("closed");
+      if (!this.stopped) this.scheduleReconnect();
+    };
+  }
+
+  // Exponential backoff, capped, so a restarting server isn't hammered
+  private scheduleReconnect(): void {
+    const delay = Math.min(1000 * 2 ** this.attempts, MAX_RECONNECT_DELAY_MS);
+    this.attempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.open();
+    }, delay);
+  }
+
+  private send(message: { type: "subscribe" | "unsubscribe"; channels: string[] }): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+function defaultRealtimeUrl(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${REALTIME_PATH}`;
+}
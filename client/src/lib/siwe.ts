@@ -0,0 +1,16 @@
+import { apiRequest } from "./queryClient";
+import type { Eip1193Provider } from "./walletConnector";
+
+// Prove control of `address` to the server: fetch a SIWE challenge, sign it, and verify.
+// Resolves to the checksummed address the server bound to the session.
+export async function signInWithEthereum(provider: Eip1193Provider, address: string, chainId: number): Promise<string> {
+  const { message } = await (await apiRequest("POST", "/api/auth/siwe/nonce", { address, chainId })).json();
+
+  const signature: string = await provider.request({
+    method: "personal_sign",
+    params: [message, address],
+  });
+
+  const result = await (await apiRequest("POST", "/api/auth/siwe/verify", { message, signature })).json();
+  return result.address;
+}
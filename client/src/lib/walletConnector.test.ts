@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WalletConnector, discoverWallets, type DiscoveredWallet, type Eip1193Provider, type WalletSession } from './walletConnector';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+// EIP-1193 provider answering from `accounts` and `chainId`, with a working event emitter
+class FakeProvider implements Eip1193Provider {
+  accounts = [ALICE];
+  chainId = '0x1';
+  private handlers = new Map<string, Set<(...args: any[]) => void>>();
+
+  async request({ method }: { method: string }): Promise<any> {
+    if (method === 'eth_requestAccounts' || method === 'eth_accounts') return this.accounts;
+    if (method === 'eth_chainId') return this.chainId;
+    throw new Error(`Unexpected ${method}`);
+  }
+
+  on(event: string, listener: (...args: any[]) => void): void {
+    if (!this.handlers.has(event)) this.handlers.set(event, new Set());
+    this.handlers.get(event)!.add(listener);
+  }
+
+  removeListener(event: string, listener: (...args: any[]) => void): void {
+    this.handlers.get(event)?.delete(listener);
+  }
+
+  emit(event: string, ...args: unknown[]): void {
+    this.handlers.get(event)?.forEach(listener => listener(...args));
+  }
+
+  listenerCount(event: string): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+}
+
+function walletFor(provider: Eip1193Provider, rdns = 'io.metamask'): DiscoveredWallet {
+  return { info: { uuid: rdns, name: rdns, icon: '', rdns }, provider };
+}
+
+// Answers EIP-6963 discovery requests the way an extension does
+function announceOnRequest(wallet: DiscoveredWallet): () => void {
+  const onRequest = () => window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: wallet }));
+  window.addEventListener('eip6963:requestProvider', onRequest);
+  return () => window.removeEventListener('eip6963:requestProvider', onRequest);
+}
+
+let provider: FakeProvider;
+let connector: WalletConnector;
+let sessions: Array<WalletSession | null>;
+
+beforeEach(() => {
+  window.localStorage.clear();
+  provider = new FakeProvider();
+  connector = new WalletConnector();
+  sessions = [];
+  connector.subscribe(session => sessions.push(session));
+});
+
+afterEach(() => {
+  delete (window as Window & { ethereum?: Eip1193Provider }).ethereum;
+});
+
+describe('discoverWallets', () => {
+  it('collects providers announced via EIP-6963, one per rdns', async () => {
+    const stopMetaMask = announceOnRequest(walletFor(provider));
+    const stopRabby = announceOnRequest(walletFor(new FakeProvider(), 'io.rabby'));
+    const stopDuplicate = announceOnRequest(walletFor(provider));
+
+    const found = await discoverWallets(window, 10);
+    stopMetaMask();
+    stopRabby();
+    stopDuplicate();
+
+    expect(found.map(wallet => wallet.info.rdns)).toEqual(['io.metamask', 'io.rabby']);
+  });
+
+  it('falls back to window.ethereum when nothing announces', async () => {
+    (window as Window & { ethereum?: Eip1193Provider }).ethereum = provider;
+
+    const found = await discoverWallets(window, 10);
+
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ info: { rdns: 'injected' }, provider });
+  });
+});
+
+describe('WalletConnector', () => {
+  it('connects, remembers the wallet and restores it without prompting', async () => {
+    const wallet = walletFor(provider);
+
+    const session = await connector.connect(wallet);
+
+    expect(session).toMatchObject({ address: ALICE, chainId: 1 });
+    expect(connector.getRememberedWallet()).toBe('io.metamask');
+
+    const request = vi.spyOn(provider, 'request');
+    const restored = await new WalletConnector().restore([wallet]);
+    expect(restored).toMatchObject({ address: ALICE, chainId: 1 });
+    expect(request).not.toHaveBeenCalledWith({ method: 'eth_requestAccounts' });
+  });
+
+  it('follows account and chain changes from the wallet', async () => {
+    await connector.connect(walletFor(provider));
+
+    provider.emit('accountsChanged', [BOB]);
+    provider.emit('chainChanged', '0x38');
+
+    expect(connector.getSession()).toMatchObject({ address: BOB, chainId: 56 });
+    expect(sessions.map(session => session && [session.address, session.chainId])).toEqual([[ALICE, 1], [BOB, 1], [BOB, 56]]);
+  });
+
+  it('disconnects and forgets the wallet when access is revoked', async () => {
+    await connector.connect(walletFor(provider));
+
+    provider.emit('accountsChanged', []);
+
+    expect(connector.getSession()).toBeNull();
+    expect(connector.getRememberedWallet()).toBeNull();
+    expect(provider.listenerCount('accountsChanged')).toBe(0);
+  });
+
+  it('stops listening on release but keeps the wallet remembered', async () => {
+    await connector.connect(walletFor(provider));
+
+    connector.release();
+    provider.emit('chainChanged', '0x38');
+
+    expect(provider.listenerCount('accountsChanged')).toBe(0);
+    expect(provider.listenerCount('chainChanged')).toBe(0);
+    expect(connector.getSession()).toBeNull();
+    expect(connector.getRememberedWallet()).toBe('io.metamask');
+  });
+});
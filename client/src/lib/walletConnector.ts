@@ -0,0 +1,169 @@
+import { getChain } from "@shared/chains";
+
+// Minimal EIP-1193 provider surface used by the dashboard
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<any>;
+  on?(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+// EIP-6963 wallet metadata announced alongside each provider
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface DiscoveredWallet {
+  info: WalletInfo;
+  provider: Eip1193Provider;
+}
+
+export interface WalletSession {
+  wallet: DiscoveredWallet;
+  address: string;
+  chainId: number;
+}
+
+const STORAGE_KEY = "oec:wallet-rdns";
+
+// Fallback entry for wallets that only inject window.ethereum
+const LEGACY_WALLET_INFO: WalletInfo = {
+  uuid: "injected",
+  name: "Browser Wallet",
+  icon: "",
+  rdns: "injected",
+};
+
+// Network name the server stores for a chain id
+export function networkForChainId(chainId: number): string {
+  return getChain(chainId)?.network || `eip155:${chainId}`;
+}
+
+function parseChainId(value: string | number): number {
+  return typeof value === "number" ? value : parseInt(value, value.startsWith("0x") ? 16 : 10);
+}
+
+// Collects providers announced via EIP-6963 within `timeoutMs`, plus window.ethereum if nothing announced
+export function discoverWallets(target: Window = window, timeoutMs = 200): Promise<DiscoveredWallet[]> {
+  return new Promise(resolve => {
+    const wallets = new Map<string, DiscoveredWallet>();
+
+    const onAnnounce = (event: Event) => {
+      const detail = (event as CustomEvent<DiscoveredWallet>).detail;
+      if (detail?.info?.rdns && detail.provider) {
+        wallets.set(detail.info.rdns, { info: detail.info, provider: detail.provider });
+      }
+    };
+
+    target.addEventListener("eip6963:announceProvider", onAnnounce);
+    target.dispatchEvent(new Event("eip6963:requestProvider"));
+
+    setTimeout(() => {
+      target.removeEventListener("eip6963:announceProvider", onAnnounce);
+      const legacy = (target as Window & { ethereum?: Eip1193Provider }).ethereum;
+      if (wallets.size === 0 && legacy) {
+        wallets.set(LEGACY_WALLET_INFO.rdns, { info: LEGACY_WALLET_INFO, provider: legacy });
+      }
+      resolve(Array.from(wallets.values()));
+    }, timeoutMs);
+  });
+}
+
+// Connects to one injected wallet at a time, remembers the choice and relays account/chain changes
+export class WalletConnector {
+  private session: WalletSession | null = null;
+  private listeners = new Set<(session: WalletSession | null) => void>();
+
+  constructor(private store: Pick<Storage, "getItem" | "setItem" | "removeItem"> = window.localStorage) {}
+
+  getSession(): WalletSession | null {
+    return this.session;
+  }
+
+  getRememberedWallet(): string | null {
+    return this.store.getItem(STORAGE_KEY);
+  }
+
+  subscribe(listener: (session: WalletSession | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Prompts the wallet for account access
+  async connect(wallet: DiscoveredWallet): Promise<WalletSession> {
+    const accounts: string[] = await wallet.provider.request({ method: "eth_requestAccounts" });
+    if (!accounts.length) throw new Error("Wallet returned no accounts");
+
+    const session = await this.open(wallet, accounts[0]);
+    this.store.setItem(STORAGE_KEY, wallet.info.rdns);
+    return session;
+  }
+
+  // Reconnects to the remembered wallet without prompting; null if it's gone or no longer authorized
+  async restore(wallets: DiscoveredWallet[]): Promise<WalletSession | null> {
+    const rdns = this.getRememberedWallet();
+    const wallet = wallets.find(w => w.info.rdns === rdns);
+    if (!wallet) return null;
+
+    const accounts: string[] = await wallet.provider.request({ method: "eth_accounts" });
+    if (!accounts.length) {
+      this.store.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return await this.open(wallet, accounts[0]);
+  }
+
+  disconnect(): void {
+    this.detach();
+    this.store.removeItem(STORAGE_KEY);
+    this.emit(null);
+  }
+
+  // Stops listening to the wallet but keeps it remembered, for when the UI using it goes away
+  release(): void {
+    this.detach();
+  }
+
+  private async open(wallet: DiscoveredWallet, address: string): Promise<WalletSession> {
+    const chainId = parseChainId(await wallet.provider.request({ method: "eth_chainId" }));
+
+    this.detach();
+    this.session = { wallet, address, chainId };
+    wallet.provider.on?.("accountsChanged", this.handleAccountsChanged);
+    wallet.provider.on?.("chainChanged", this.handleChainChanged);
+    this.emit(this.session);
+    return this.session;
+  }
+
+  private detach(): void {
+    if (!this.session) return;
+    this.session.wallet.provider.removeListener?.("accountsChanged", this.handleAccountsChanged);
+    this.session.wallet.provider.removeListener?.("chainChanged", this.handleChainChanged);
+    this.session = null;
+  }
+
+  private handleAccountsChanged = (accounts: string[]) => {
+    if (!this.session) return;
+    if (!accounts.length) {
+      // The user revoked access from inside the wallet
+      this.disconnect();
+      return;
+    }
+    this.session = { ...this.session, address: accounts[0] };
+    this.emit(this.session);
+  };
+
+  private handleChainChanged = (chainId: string) => {
+    if (!this.session) return;
+    this.session = { ...this.session, chainId: parseChainId(chainId) };
+    this.emit(this.session);
+  };
+
+  private emit(session: WalletSession | null): void {
+    this.listeners.forEach(listener => listener(session));
+  }
+}
@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, ExternalLink } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import TransactionDetailDrawer from "@/components/TransactionDetailDrawer";
+import { useAuth } from "@/hooks/useAuth";
+import { explorerTxUrl } from "@/lib/explorer";
+import {
+  useAggregatePortfolio,
+  useTransactionPage,
+  formatCurrency,
+  type Transaction,
+  type TransactionFilters,
+  type TransactionSortField
+} from "@/hooks/useBlockchainData";
+
+const PAGE_SIZE = 25;
+const transactionTypes = ["buy", "sell", "stake", "unstake", "claim", "transfer"];
+const statuses = ["confirmed", "pending", "failed"];
+
+const statusColors: Record<string, string> = {
+  confirmed: "text-green-400",
+  pending: "text-yellow-400",
+  failed: "text-red-400",
+};
+
+function shortHash(hash: string) {
+  return hash.length > 14 ? `${hash.slice(0, 8)}…${hash.slice(-4)}` : hash;
+}
+
+// Date inputs are in the viewer's timezone; the range covers both whole days
+function dayBoundary(date: string, end: boolean): string | undefined {
+  if (!date) return undefined;
+  return new Date(`${date}T${end ? "23:59:59.999" : "00:00:00"}`).toISOString();
+}
+
+function SortableHead({ field, label, sort, order, onSort, className }: {
+  field: TransactionSortField;
+  label: string;
+  sort: TransactionSortField;
+  order: "asc" | "desc";
+  onSort: (field: TransactionSortField) => void;
+  className?: string;
+}) {
+  const Icon = sort !== field ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className} aria-sort={sort === field ? (order === "asc" ? "ascending" : "descending") : "none"}>
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 hover:text-foreground ${sort === field ? "text-foreground" : ""}`}
+        data-testid={`button-sort-${field}`}
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+}
+
+export default function TransactionsPage() {
+  const search = useSearch();
+  const { user } = useAuth();
+  const { data: aggregateData } = useAggregatePortfolio(!!user);
+  const wallets = aggregateData?.wallets || [];
+
+  const [address, setAddress] = useState<string>(() => new URLSearchParams(search).get("address") || "");
+  const [type, setType] = useState("all");
+  const [status, setStatus] = useState("all");
+  const [token, setToken] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [minUsd, setMinUsd] = useState("");
+  const [hashSearch, setHashSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sort, setSort] = useState<TransactionSortField>("timestamp");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  // Cursors of the pages visited under one set of filters; the last one is the page on screen
+  const [pages, setPages] = useState<{ key: string; cursors: Array<string | null> }>({ key: "", cursors: [null] });
+  const [selected, setSelected] = useState<Transaction | null>(null);
+
+  // Default to the first linked wallet when the URL didn't name one
+  useEffect(() => {
+    if (!address && wallets.length > 0) setAddress(wallets[0].address);
+  }, [address, wallets]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(hashSearch.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [hashSearch]);
+
+  const filters: TransactionFilters = {
+    type: type === "all" ? undefined : type,
+    status: status === "all" ? undefined : status,
+    token: token.trim() || undefined,
+    from: dayBoundary(from, false),
+    to: dayBoundary(to, true),
+    minUsd: minUsd || undefined,
+    search: debouncedSearch || undefined,
+    sort,
+    order,
+    limit: PAGE_SIZE,
+  };
+
+  // Any change to what is listed starts again from the first page
+  const filterKey = JSON.stringify([address, filters]);
+  const cursors = pages.key === filterKey ? pages.cursors : [null];
+  const setCursors = (next: Array<string | null>) => setPages({ key: filterKey, cursors: next });
+
+  const cursor = cursors[cursors.length - 1];
+  const { data, isLoading, isFetching, isPlaceholderData, error } = useTransactionPage(address || null, filters, cursor);
+  const transactions = data?.transactions || [];
+  // The previous page stays on screen while the next loads, but its cursor is already spent
+  const nextCursor = isPlaceholderData ? null : data?.nextCursor ?? null;
+
+  const toggleSort = (field: TransactionSortField) => {
+    if (field === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder("desc");
+    }
+  };
+
+  const inputClass = "h-9 bg-card/50";
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-b from-gray-950 to-gray-900 text-foreground">
+      <div className="mx-auto max-w-7xl px-4 py-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="rounded-lg p-2 hover:bg-muted/30 transition-colors" data-testid="link-back-dashboard">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <h1 className="text-2xl font-semibold tracking-tight">Transactions</h1>
+          </div>
+          {wallets.length > 0 && (
+            <select
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className="rounded-lg border border-border bg-card/50 px-3 py-2 text-sm"
+              data-testid="select-transactions-wallet"
+            >
+              {wallets.map((wallet) => (
+                <option key={wallet.id} value={wallet.address}>
+                  {wallet.address.slice(0, 6)}…{wallet.address.slice(-4)} · {formatCurrency(wallet.netWorth)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="rounded-2xl border border-border bg-card backdrop-blur shadow-lg p-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-3 mb-4" data-testid="transaction-filters">
+            <Input
+              placeholder="Search tx hash"
+              value={hashSearch}
+              onChange={(e) => setHashSearch(e.target.value)}
+              className={`${inputClass} col-span-2`}
+              data-testid="input-search-hash"
+            />
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger className={inputClass} data-testid="select-type"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {transactionTypes.map((t) => (
+                  <SelectItem key={t} value={t} className="capitalize">{t}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className={inputClass} data-testid="select-status"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {statuses.map((s) => (
+                  <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Token" value={token} onChange={(e) => setToken(e.target.value)} className={inputClass} data-testid="input-token" />
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} aria-label="From date" data-testid="input-from" />
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} aria-label="To date" data-testid="input-to" />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Min USD"
+              value={minUsd}
+              onChange={(e) => setMinUsd(e.target.value)}
+              className={inputClass}
+              data-testid="input-min-usd"
+            />
+          </div>
+
+          <Table data-testid="table-transactions">
+            <TableHeader>
+              <TableRow>
+                <SortableHead field="timestamp" label="Date" sort={sort} order={order} onSort={toggleSort} />
+                <TableHead>Type</TableHead>
+                <TableHead>Token</TableHead>
+                <SortableHead field="amount" label="Amount" sort={sort} order={order} onSort={toggleSort} className="text-right" />
+                <SortableHead field="usdValue" label="Value" sort={sort} order={order} onSort={toggleSort} className="text-right" />
+                <TableHead>Status</TableHead>
+                <TableHead>Hash</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!user || (!address && wallets.length === 0) ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="p-8 text-center text-muted-foreground">
+                    {user ? "Link a wallet to view its transactions" : "Sign in to view transaction history"}
+                  </TableCell>
+                </TableRow>
+              ) : isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="p-8 text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="p-8 text-center text-red-400">Failed to load transactions</TableCell>
+                </TableRow>
+              ) : transactions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="p-8 text-center text-muted-foreground">No transactions match these filters</TableCell>
+                </TableRow>
+              ) : (
+                transactions.map((tx) => {
+                  const txUrl = explorerTxUrl(tx);
+                  return (
+                    <TableRow
+                      key={tx.id}
+                      onClick={() => setSelected(tx)}
+                      className={`cursor-pointer ${isFetching ? "opacity-60" : ""}`}
+                      data-testid={`row-transaction-${tx.id}`}
+                    >
+                      <TableCell className="whitespace-nowrap">{new Date(tx.timestamp).toLocaleString()}</TableCell>
+                      <TableCell className="capitalize">
+                        {tx.type}
+                        {tx.metadata?.offchain ? <span className="ml-2 text-xs text-muted-foreground">imported</span> : null}
+                      </TableCell>
+                      <TableCell>{tx.symbol ?? "—"}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {parseFloat(tx.amount).toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(tx.usdValue)}</TableCell>
+                      <TableCell className={`capitalize ${statusColors[tx.status] ?? ""}`}>{tx.status}</TableCell>
+                      <TableCell className="font-mono">
+                        {txUrl ? (
+                          <a
+                            href={txUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="inline-flex items-center gap-1 text-primary hover:underline"
+                          >
+                            {shortHash(tx.txHash)} <ExternalLink className="h-3 w-3" />
+                          </a>
+                        ) : (
+                          shortHash(tx.txHash)
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between mt-4">
+            <span className="text-xs text-muted-foreground" data-testid="text-page-number">Page {cursors.length}</span>
+            <Pagination className="mx-0 w-auto justify-end">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (cursors.length > 1) setCursors(cursors.slice(0, -1));
+                    }}
+                    aria-disabled={cursors.length <= 1}
+                    className={cursors.length <= 1 ? "pointer-events-none opacity-50" : ""}
+                    data-testid="button-previous-page"
+                  />
+                </PaginationItem>
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (nextCursor) setCursors([...cursors, nextCursor]);
+                    }}
+                    aria-disabled={!nextCursor}
+                    className={!nextCursor ? "pointer-events-none opacity-50" : ""}
+                    data-testid="button-next-page"
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          </div>
+        </div>
+      </div>
+      <TransactionDetailDrawer transaction={selected} onOpenChange={(open) => !open && setSelected(null)} />
+    </div>
+  );
+}
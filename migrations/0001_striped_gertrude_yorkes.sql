@@ -0,0 +1,16 @@
+CREATE TABLE "token_price_sources" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token_id" varchar NOT NULL,
+	"source_type" text NOT NULL,
+	"source_ref" text,
+	"peg_price" numeric(20, 8),
+	"config" jsonb,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "token_price_sources_token_source_unique" UNIQUE("token_id","source_type","source_ref")
+);
+--> statement-breakpoint
+ALTER TABLE "token_price_sources" ADD CONSTRAINT "token_price_sources_token_id_tokens_id_fk" FOREIGN KEY ("token_id") REFERENCES "public"."tokens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "token_price_sources_token_id_idx" ON "token_price_sources" USING btree ("token_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "portfolio_snapshots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_id" varchar NOT NULL,
+	"net_worth" numeric(20, 8) DEFAULT '0' NOT NULL,
+	"token_values" jsonb,
+	"unpriced_token_ids" text[] DEFAULT ARRAY[]::text[] NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "portfolio_snapshots" ADD CONSTRAINT "portfolio_snapshots_wallet_id_wallets_id_fk" FOREIGN KEY ("wallet_id") REFERENCES "public"."wallets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "portfolio_snapshots_wallet_timestamp_idx" ON "portfolio_snapshots" USING btree ("wallet_id","timestamp");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "wallet_index_cursors" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_id" varchar NOT NULL,
+	"last_indexed_block" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "wallet_index_cursors_wallet_id_unique" UNIQUE("wallet_id")
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" DROP CONSTRAINT "transactions_tx_hash_unique";--> statement-breakpoint
+ALTER TABLE "wallet_index_cursors" ADD CONSTRAINT "wallet_index_cursors_wallet_id_wallets_id_fk" FOREIGN KEY ("wallet_id") REFERENCES "public"."wallets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_wallet_tx_hash_unique" UNIQUE("wallet_id","tx_hash");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "siwe_nonces" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"nonce" text NOT NULL,
+	"address" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"chain_id" integer DEFAULT 1 NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "siwe_nonces_nonce_unique" UNIQUE("nonce")
+);
+--> statement-breakpoint
+ALTER TABLE "wallets" ADD COLUMN "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "siwe_nonces" ADD CONSTRAINT "siwe_nonces_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "siwe_nonces_expires_at_idx" ON "siwe_nonces" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "tokens" DROP CONSTRAINT "tokens_symbol_unique";--> statement-breakpoint
+ALTER TABLE "wallet_index_cursors" DROP CONSTRAINT "wallet_index_cursors_wallet_id_unique";--> statement-breakpoint
+ALTER TABLE "tokens" ADD COLUMN "chain_id" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "wallet_index_cursors" ADD COLUMN "chain_id" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tokens" ADD CONSTRAINT "tokens_chain_address_unique" UNIQUE("chain_id","address");--> statement-breakpoint
+ALTER TABLE "wallet_index_cursors" ADD CONSTRAINT "wallet_index_cursors_wallet_chain_unique" UNIQUE("wallet_id","chain_id");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "staking_positions" ADD COLUMN "reward_token_id" varchar;--> statement-breakpoint
+ALTER TABLE "staking_positions" ADD COLUMN "chain_id" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "staking_positions" ADD COLUMN "pool_address" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "staking_positions" ADD COLUMN "pool_id" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "staking_positions" ADD COLUMN "lp_token" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "staking_positions" ADD COLUMN "staked_usd_value" numeric(20, 8);--> statement-breakpoint
+ALTER TABLE "staking_positions" ADD CONSTRAINT "staking_positions_reward_token_id_tokens_id_fk" FOREIGN KEY ("reward_token_id") REFERENCES "public"."tokens"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "staking_positions" ADD CONSTRAINT "staking_positions_wallet_pool_unique" UNIQUE("wallet_id","chain_id","pool_address","pool_id");
\ No newline at end of file
@@ -0,0 +1,46 @@
+CREATE TABLE "governance_cursors" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chain_id" integer DEFAULT 1 NOT NULL,
+	"governor_address" text NOT NULL,
+	"last_scanned_block" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "governance_cursors_governor_unique" UNIQUE("chain_id","governor_address")
+);
+--> statement-breakpoint
+CREATE TABLE "proposals" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chain_id" integer DEFAULT 1 NOT NULL,
+	"governor_address" text NOT NULL,
+	"proposal_id" text NOT NULL,
+	"proposer" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"snapshot_block" integer NOT NULL,
+	"end_block" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"for_votes" numeric(40, 18) DEFAULT '0' NOT NULL,
+	"against_votes" numeric(40, 18) DEFAULT '0' NOT NULL,
+	"abstain_votes" numeric(40, 18) DEFAULT '0' NOT NULL,
+	"created_block" integer NOT NULL,
+	"created_tx_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "proposals_governor_proposal_unique" UNIQUE("chain_id","governor_address","proposal_id")
+);
+--> statement-breakpoint
+CREATE TABLE "votes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"proposal_id" varchar NOT NULL,
+	"voter" text NOT NULL,
+	"support" integer NOT NULL,
+	"weight" numeric(40, 18) NOT NULL,
+	"reason" text,
+	"tx_hash" text NOT NULL,
+	"block_number" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "votes_proposal_voter_unique" UNIQUE("proposal_id","voter")
+);
+--> statement-breakpoint
+ALTER TABLE "votes" ADD CONSTRAINT "votes_proposal_id_proposals_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."proposals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "proposals_status_idx" ON "proposals" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "votes_voter_idx" ON "votes" USING btree ("voter");
\ No newline at end of file
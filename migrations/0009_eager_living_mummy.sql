@@ -0,0 +1,45 @@
+CREATE TABLE "price_candles_1d" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token_id" varchar NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"open" numeric(20, 8) NOT NULL,
+	"high" numeric(20, 8) NOT NULL,
+	"low" numeric(20, 8) NOT NULL,
+	"close" numeric(20, 8) NOT NULL,
+	"samples" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "price_candles_1d_token_bucket_unique" UNIQUE("token_id","bucket_start")
+);
+--> statement-breakpoint
+CREATE TABLE "price_candles_1h" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token_id" varchar NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"open" numeric(20, 8) NOT NULL,
+	"high" numeric(20, 8) NOT NULL,
+	"low" numeric(20, 8) NOT NULL,
+	"close" numeric(20, 8) NOT NULL,
+	"samples" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "price_candles_1h_token_bucket_unique" UNIQUE("token_id","bucket_start")
+);
+--> statement-breakpoint
+CREATE TABLE "price_candles_1m" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token_id" varchar NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"open" numeric(20, 8) NOT NULL,
+	"high" numeric(20, 8) NOT NULL,
+	"low" numeric(20, 8) NOT NULL,
+	"close" numeric(20, 8) NOT NULL,
+	"samples" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "price_candles_1m_token_bucket_unique" UNIQUE("token_id","bucket_start")
+);
+--> statement-breakpoint
+ALTER TABLE "price_candles_1d" ADD CONSTRAINT "price_candles_1d_token_id_tokens_id_fk" FOREIGN KEY ("token_id") REFERENCES "public"."tokens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_candles_1h" ADD CONSTRAINT "price_candles_1h_token_id_tokens_id_fk" FOREIGN KEY ("token_id") REFERENCES "public"."tokens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_candles_1m" ADD CONSTRAINT "price_candles_1m_token_id_tokens_id_fk" FOREIGN KEY ("token_id") REFERENCES "public"."tokens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "price_candles_1d_bucket_start_idx" ON "price_candles_1d" USING btree ("bucket_start");--> statement-breakpoint
+CREATE INDEX "price_candles_1h_bucket_start_idx" ON "price_candles_1h" USING btree ("bucket_start");--> statement-breakpoint
+CREATE INDEX "price_candles_1m_bucket_start_idx" ON "price_candles_1m" USING btree ("bucket_start");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "portfolios" ADD COLUMN "health_report" jsonb;
\ No newline at end of file
@@ -0,0 +1,114 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { ethers } from "ethers";
+import { storage, type IStorage } from "./storage";
+import type { User as SelectUser, Wallet } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Wallet addresses whose ownership was proven with SIWE during this session
+    verifiedWallets?: string[];
+    // Written by passport.serializeUser; read directly where passport isn't in the chain (WebSocket upgrades)
+    passport?: { user?: string };
+  }
+}
+
+// Returns the session middleware so non-Express entry points can share the session
+export function setupAuth(app: Express): RequestHandler {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret || "oeconomia-dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  const sessionParser = session(sessionSettings);
+
+  app.set("trust proxy", 1);
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await storage.verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  return sessionParser;
+}
+
+// Rejects requests without a logged-in session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+// Rejects requests from anyone but a logged-in admin
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+  next();
+}
+
+// Public view of a user; never expose the password hash
+export function toPublicUser(user: SelectUser) {
+  return { id: user.id, username: user.username };
+}
+
+// Whether this session has proven control of the address via SIWE
+export function isWalletVerified(req: Request, address: string): boolean {
+  return !!req.session.verifiedWallets?.some(verified => verified.toLowerCase() === address.toLowerCase());
+}
+
+// Look up a wallet by address in any letter case, but only when it belongs to the logged-in user.
+// Wallets owned by someone else are indistinguishable from missing ones.
+export async function getOwnedWallet(req: Request, address: string, store: IStorage = storage): Promise<Wallet | undefined> {
+  if (!ethers.isAddress(address)) return undefined;
+  // Wallets are stored under their checksummed address
+  const wallet = await store.getWalletByAddress(ethers.getAddress(address));
+  return wallet && req.user && wallet.userId === req.user.id ? wallet : undefined;
+}
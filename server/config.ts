@@ -0,0 +1,143 @@
+import path from 'path';
+import { z } from 'zod';
+
+export interface CoinGeckoConfig {
+  baseUrl: string;
+  // Sent as x-cg-demo-api-key or x-cg-pro-api-key depending on the plan
+  apiKey?: string;
+  apiKeyHeader: 'x-cg-demo-api-key' | 'x-cg-pro-api-key';
+  timeoutMs: number;
+  // Minimum spacing between requests, to stay under the plan's rate limit
+  minIntervalMs: number;
+}
+
+export interface PriceConfig {
+  // Drop the network providers and price from the fixture file only
+  offline: boolean;
+  // Fixture file used as a last-resort price provider
+  fixturePath?: string;
+  // How long a resolved price is served before providers are asked again
+  cacheTtlMs: number;
+  // How long a cached price may stand in, flagged stale, while providers are failing
+  maxStaleMs: number;
+}
+
+export interface PriceHistoryConfig {
+  // At most one raw price_history point is written per token per interval
+  recordIntervalMs: number;
+  // How long raw points and 1m/1h candles are kept; daily candles are never compacted
+  retentionMs: { raw: number; '1m': number; '1h': number };
+}
+
+export interface JobsConfig {
+  // Turns every background job off, e.g. for one-off scripts or multiple replicas
+  disabled: boolean;
+  intervalsMs: {
+    snapshots: number;
+    indexer: number;
+    stakingSync: number;
+    pricePush: number;
+    governanceSync: number;
+  };
+}
+
+export interface IndexerConfig {
+  // Native transfers need every block read in full, which many public RPCs throttle
+  scanNativeTransfers: boolean;
+}
+
+export interface AppConfig {
+  // RPC endpoint overrides keyed by chain id; chains without one use the registry default
+  rpcUrls: Record<number, string>;
+  coinGecko: CoinGeckoConfig;
+  prices: PriceConfig;
+  priceHistory: PriceHistoryConfig;
+  jobs: JobsConfig;
+  indexer: IndexerConfig;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const envSchema = z.object({
+  COINGECKO_API_KEY: z.string().min(1).optional(),
+  COINGECKO_API_PLAN: z.enum(['demo', 'pro']).optional().default('demo'),
+  COINGECKO_TIMEOUT_MS: z.coerce.number().int().positive().optional().default(15000),
+  COINGECKO_MIN_INTERVAL_MS: z.coerce.number().int().nonnegative().optional().default(1000),
+  PRICE_OFFLINE: z.enum(['true', 'false']).optional().default('false'),
+  PRICE_FIXTURE_PATH: z.string().min(1).optional(),
+  PRICE_CACHE_TTL_MS: z.coerce.number().int().nonnegative().optional().default(60000),
+  PRICE_MAX_STALE_MS: z.coerce.number().int().nonnegative().optional().default(DAY_MS),
+  PRICE_RECORD_INTERVAL_MS: z.coerce.number().int().nonnegative().optional().default(5 * 60 * 1000),
+  PRICE_RAW_RETENTION_MS: z.coerce.number().int().positive().optional().default(7 * DAY_MS),
+  PRICE_1M_RETENTION_MS: z.coerce.number().int().positive().optional().default(2 * DAY_MS),
+  PRICE_1H_RETENTION_MS: z.coerce.number().int().positive().optional().default(90 * DAY_MS),
+  DISABLE_JOBS: z.enum(['true', 'false']).optional().default('false'),
+  SNAPSHOT_INTERVAL_MS: z.coerce.number().int().positive().optional().default(15 * 60 * 1000),
+  INDEXER_INTERVAL_MS: z.coerce.number().int().positive().optional().default(5 * 60 * 1000),
+  STAKING_SYNC_INTERVAL_MS: z.coerce.number().int().positive().optional().default(10 * 60 * 1000),
+  PRICE_PUSH_INTERVAL_MS: z.coerce.number().int().positive().optional().default(30 * 1000),
+  GOVERNANCE_SYNC_INTERVAL_MS: z.coerce.number().int().positive().optional().default(10 * 60 * 1000),
+  INDEXER_SCAN_NATIVE: z.enum(['true', 'false']).optional().default('false')
+});
+
+const RPC_URL_PATTERN = /^RPC_URL_(\d+)$/;
+
+// Reads server settings from the environment. Invalid values fail fast with the offending variable named.
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const parsed = envSchema.safeParse(env);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid configuration: ${issues}`);
+  }
+  const vars = parsed.data;
+
+  const rpcUrls: Record<number, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    const match = RPC_URL_PATTERN.exec(key);
+    if (match && value) rpcUrls[Number(match[1])] = value;
+  }
+
+  const pro = vars.COINGECKO_API_PLAN === 'pro';
+  const offline = vars.PRICE_OFFLINE === 'true';
+
+  return {
+    rpcUrls,
+    coinGecko: {
+      baseUrl: pro ? 'https://pro-api.coingecko.com/api/v3' : 'https://api.coingecko.com/api/v3',
+      apiKey: vars.COINGECKO_API_KEY,
+      apiKeyHeader: pro ? 'x-cg-pro-api-key' : 'x-cg-demo-api-key',
+      timeoutMs: vars.COINGECKO_TIMEOUT_MS,
+      minIntervalMs: vars.COINGECKO_MIN_INTERVAL_MS
+    },
+    prices: {
+      offline,
+      fixturePath: vars.PRICE_FIXTURE_PATH
+        || (offline ? path.resolve(process.cwd(), 'server', 'fixtures', 'prices.json') : undefined),
+      cacheTtlMs: vars.PRICE_CACHE_TTL_MS,
+      maxStaleMs: vars.PRICE_MAX_STALE_MS
+    },
+    priceHistory: {
+      recordIntervalMs: vars.PRICE_RECORD_INTERVAL_MS,
+      retentionMs: {
+        raw: vars.PRICE_RAW_RETENTION_MS,
+        '1m': vars.PRICE_1M_RETENTION_MS,
+        '1h': vars.PRICE_1H_RETENTION_MS
+      }
+    },
+    jobs: {
+      disabled: vars.DISABLE_JOBS === 'true',
+      intervalsMs: {
+        snapshots: vars.SNAPSHOT_INTERVAL_MS,
+        indexer: vars.INDEXER_INTERVAL_MS,
+        stakingSync: vars.STAKING_SYNC_INTERVAL_MS,
+        pricePush: vars.PRICE_PUSH_INTERVAL_MS,
+        governanceSync: vars.GOVERNANCE_SYNC_INTERVAL_MS
+      }
+    },
+    indexer: {
+      scanNativeTransfers: vars.INDEXER_SCAN_NATIVE === 'true'
+    }
+  };
+}
+
+export const config = loadConfig();
@@ -5,11 +5,17 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Connects lazily so modules that only need MemStorage can be imported without a database
+export function createDatabase(connectionString: string | undefined = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle({ client: pool, schema }) };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export type DatabaseConnection = ReturnType<typeof createDatabase>;
+export type Database = DatabaseConnection["db"];
@@ -1,6 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobs } from "./jobs";
+import { storage, storageDriver } from "./storage";
+import { seedDatabase } from "./seed";
+import { chainServices } from "./services/blockchain";
+import { tokenPriceResolver } from "./services/priceSources";
+import { priceHistoryRecorder } from "./services/priceHistory";
+import { balanceSyncService } from "./services/balanceSync";
+import { portfolioTracker } from "./services/portfolioTracker";
+import { transactionIndexer } from "./services/transactionIndexer";
+import { stakingSyncService } from "./services/stakingSync";
+import { portfolioAggregator } from "./services/portfolioAggregator";
+import { governanceService } from "./services/governance";
+import { tokenChartService } from "./services/tokenChart";
+import { riskAnalyticsService } from "./services/riskAnalytics";
+import { taxReportService } from "./services/taxReport";
+import { transactionImporter } from "./services/transactionImport";
+import { realtimeHub } from "./services/realtime";
+import { siweService } from "./services/siwe";
 
 const app = express();
 app.use(express.json());
@@ -37,7 +55,38 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  // In-memory storage starts empty every run, so give it the default token registry
+  if (storageDriver === "memory") {
+    log("DATABASE_URL is not set; using in-memory storage");
+    await seedDatabase();
+  }
+
+  const server = await registerRoutes(app, {
+    auth: { storage, siwe: siweService },
+    blockchain: {
+      storage,
+      prices: tokenPriceResolver,
+      priceHistory: priceHistoryRecorder,
+      chain: chainServices,
+      portfolio: portfolioTracker,
+      balances: balanceSyncService,
+      transactions: transactionIndexer,
+      staking: stakingSyncService
+    },
+    portfolio: { aggregator: portfolioAggregator },
+    governance: {
+      storage,
+      prices: tokenPriceResolver,
+      chain: chainServices,
+      governance: governanceService
+    },
+    admin: { storage, prices: tokenPriceResolver },
+    tokens: { storage, charts: tokenChartService },
+    analytics: { storage, risk: riskAnalyticsService },
+    reports: { taxReports: taxReportService },
+    imports: { storage, importer: transactionImporter },
+    realtime: realtimeHub
+  });
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -75,5 +124,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobs();
   });
 })();
@@ -0,0 +1,119 @@
+import { storage } from '../storage';
+import { portfolioTracker } from '../services/portfolioTracker';
+import { transactionIndexer } from '../services/transactionIndexer';
+import { stakingSyncService } from '../services/stakingSync';
+import { governanceService } from '../services/governance';
+import { tokenPriceResolver, buildPriceTable } from '../services/priceSources';
+import { priceHistoryRecorder } from '../services/priceHistory';
+import { realtimeHub, PRICES_CHANNEL } from '../services/realtime';
+import { siweService } from '../services/siwe';
+import { config } from '../config';
+import { JobScheduler } from './scheduler';
+
+export const scheduler = new JobScheduler();
+
+const { intervalsMs } = config.jobs;
+
+// Push fresh prices to realtime subscribers; skipped while nobody is listening
+scheduler.register({
+  name: 'price-ticks',
+  intervalMs: intervalsMs.pricePush,
+  run: async () => {
+    if (!realtimeHub.hasSubscribers(PRICES_CHANNEL)) return;
+    const tokens = await storage.getAllTokens();
+    const priceData = await tokenPriceResolver.resolvePrices(tokens);
+    await priceHistoryRecorder.record(priceData);
+    realtimeHub.publish(PRICES_CHANNEL, {
+      type: 'prices',
+      prices: buildPriceTable(tokens, priceData),
+      at: new Date().toISOString()
+    });
+  }
+});
+
+// Refresh balances and prices for every connected wallet and record a net-worth snapshot
+scheduler.register({
+  name: 'portfolio-snapshots',
+  intervalMs: intervalsMs.snapshots,
+  runOnStart: true,
+  run: async () => {
+    const wallets = await storage.getConnectedWallets();
+    for (const wallet of wallets) {
+      try {
+        await portfolioTracker.recordSnapshot(wallet);
+      } catch (error) {
+        console.error(`Failed to snapshot portfolio for ${wallet.address}:`, error);
+      }
+    }
+  }
+});
+
+// Pick up new on-chain transfers for every connected wallet from its persisted cursor
+scheduler.register({
+  name: 'transaction-indexer',
+  intervalMs: intervalsMs.indexer,
+  runOnStart: true,
+  run: async () => {
+    // All wallets in one pass, so block ranges read for native transfers are shared between them
+    const wallets = await storage.getConnectedWallets();
+    const results = await transactionIndexer.indexWallets(wallets);
+    results.forEach((result, index) => {
+      const failed = result.chains.filter(chain => chain.error);
+      if (failed.length > 0) {
+        console.error(`Failed to index transactions for ${wallets[index].address} on chains ${failed.map(chain => chain.chainId).join(', ')}`);
+      }
+    });
+  }
+});
+
+// Read staked amounts, pending rewards and APY from the staking pools for every connected wallet
+scheduler.register({
+  name: 'staking-sync',
+  intervalMs: intervalsMs.stakingSync,
+  runOnStart: true,
+  run: async () => {
+    const wallets = await storage.getConnectedWallets();
+    for (const wallet of wallets) {
+      try {
+        await stakingSyncService.syncWallet(wallet);
+      } catch (error) {
+        console.error(`Failed to sync staking positions for ${wallet.address}:`, error);
+      }
+    }
+  }
+});
+
+// Index new proposals and votes and refresh the state of open proposals
+scheduler.register({
+  name: 'governance-sync',
+  intervalMs: intervalsMs.governanceSync,
+  runOnStart: true,
+  run: async () => {
+    await governanceService.syncAll();
+  }
+});
+
+// Compact raw price points and fine-grained candles past their retention
+scheduler.register({
+  name: 'price-history-retention',
+  intervalMs: 60 * 60 * 1000,
+  runOnStart: true,
+  run: async () => {
+    await priceHistoryRecorder.compact();
+  }
+});
+
+// Drop expired sign-in challenges
+scheduler.register({
+  name: 'siwe-nonce-cleanup',
+  intervalMs: 60 * 60 * 1000,
+  run: async () => {
+    await siweService.pruneExpiredNonces();
+  }
+});
+
+// Background jobs can be turned off, e.g. for one-off scripts or multiple replicas
+export function startJobs(): void {
+  if (config.jobs.disabled) return;
+  scheduler.start();
+}
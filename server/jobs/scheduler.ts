@@ -0,0 +1,82 @@
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  // Run once at startup instead of waiting for the first interval
+  runOnStart?: boolean;
+  run: () => Promise<void>;
+}
+
+interface JobState {
+  job: ScheduledJob;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastError: string | null;
+}
+
+// Minimal in-process interval scheduler; a job never overlaps with its own previous run
+export class JobScheduler {
+  private jobs = new Map<string, JobState>();
+  private started = false;
+
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, { job, timer: null, running: false, lastRunAt: null, lastError: null });
+    if (this.started) this.schedule(job.name);
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.jobs.forEach((_, name) => this.schedule(name));
+  }
+
+  stop(): void {
+    this.started = false;
+    this.jobs.forEach(state => {
+      if (state.timer) clearInterval(state.timer);
+      state.timer = null;
+    });
+  }
+
+  async runNow(name: string): Promise<void> {
+    const state = this.jobs.get(name);
+    if (!state) throw new Error(`Unknown job ${name}`);
+    await this.execute(state);
+  }
+
+  getStatus() {
+    return Array.from(this.jobs.values()).map(state => ({
+      name: state.job.name,
+      intervalMs: state.job.intervalMs,
+      running: state.running,
+      lastRunAt: state.lastRunAt?.toISOString() ?? null,
+      lastError: state.lastError
+    }));
+  }
+
+  private schedule(name: string): void {
+    const state = this.jobs.get(name)!;
+    state.timer = setInterval(() => { void this.execute(state); }, state.job.intervalMs);
+    // Don't keep the process alive just for background jobs
+    state.timer.unref();
+    if (state.job.runOnStart) void this.execute(state);
+  }
+
+  private async execute(state: JobState): Promise<void> {
+    if (state.running) return;
+    state.running = true;
+    try {
+      await state.job.run();
+      state.lastError = null;
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${state.job.name} failed:`, error);
+    } finally {
+      state.running = false;
+      state.lastRunAt = new Date();
+    }
+  }
+}
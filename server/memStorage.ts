@@ -0,0 +1,816 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  InsertUser,
+  Wallet,
+  InsertWallet,
+  SiweNonce,
+  InsertSiweNonce,
+  Token,
+  InsertToken,
+  TokenPriceSource,
+  InsertTokenPriceSource,
+  Portfolio,
+  InsertPortfolio,
+  PortfolioSnapshot,
+  InsertPortfolioSnapshot,
+  TokenBalance,
+  InsertTokenBalance,
+  StakingPosition,
+  InsertStakingPosition,
+  Transaction,
+  InsertTransaction,
+  WalletIndexCursor,
+  InsertWalletIndexCursor,
+  Proposal,
+  InsertProposal,
+  Vote,
+  InsertVote,
+  GovernanceCursor,
+  InsertGovernanceCursor,
+  PriceHistory,
+  InsertPriceHistory,
+  PriceCandle,
+  InsertPriceCandle,
+  CandleResolution
+} from "@shared/schema";
+import { DEFAULT_CHAIN_ID } from "@shared/chains";
+import type { IStorage, PriceHistoryQuery, PricePoint, TransactionQuery } from "./storage";
+import bcrypt from "bcrypt";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+
+const MemoryStore = createMemoryStore(session);
+
+// Mirrors the Postgres error codes so callers can treat both backends alike
+export class StorageConstraintError extends Error {
+  constructor(
+    readonly code: "23505" | "23503",
+    readonly constraint: string
+  ) {
+    super(code === "23505"
+      ? `duplicate key value violates unique constraint "${constraint}"`
+      : `insert or update violates foreign key constraint "${constraint}"`);
+    this.name = "StorageConstraintError";
+  }
+}
+
+// Copies rows in and out so callers can't mutate stored state
+function clone<T extends object>(row: T): T {
+  return { ...row };
+}
+
+// Partial updates skip undefined fields, as drizzle's .set() does
+function definedFields<T extends object>(updates: T): Partial<T> {
+  return Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// In-process IStorage for tests and offline development. Enforces the schema's unique
+// constraints, foreign keys and ON DELETE behaviour; data is lost when the process exits.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+
+  private users = new Map<string, User>();
+  private wallets = new Map<string, Wallet>();
+  private siweNonces = new Map<string, SiweNonce>();
+  private tokens = new Map<string, Token>();
+  private tokenPriceSources = new Map<string, TokenPriceSource>();
+  private portfolios = new Map<string, Portfolio>();
+  private portfolioSnapshots = new Map<string, PortfolioSnapshot>();
+  private tokenBalances = new Map<string, TokenBalance>();
+  private stakingPositions = new Map<string, StakingPosition>();
+  private transactions = new Map<string, Transaction>();
+  private walletIndexCursors = new Map<string, WalletIndexCursor>();
+  private proposals = new Map<string, Proposal>();
+  private votes = new Map<string, Vote>();
+  private governanceCursors = new Map<string, GovernanceCursor>();
+  private priceHistory = new Map<string, PriceHistory>();
+  private priceCandles: Record<CandleResolution, Map<string, PriceCandle>> = {
+    '1m': new Map(),
+    '1h': new Map(),
+    '1d': new Map()
+  };
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000 // Prune expired sessions daily
+    });
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user ? clone(user) : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = this.find(this.users, u => u.username === username);
+    return user ? clone(user) : undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    this.assertUnique(this.users, "users_username_unique", u => u.username === insertUser.username);
+    const saltRounds = 12;
+    const hashedPassword = await bcrypt.hash(insertUser.password, saltRounds);
+    const user: User = { id: randomUUID(), username: insertUser.username, password: hashedPassword, isAdmin: false };
+    this.users.set(user.id, user);
+    return clone(user);
+  }
+
+  async setUserAdmin(id: string, isAdmin: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    user.isAdmin = isAdmin;
+    return clone(user);
+  }
+
+  async verifyPassword(plainPassword: string, hashedPassword: string): Promise<boolean> {
+    return await bcrypt.compare(plainPassword, hashedPassword);
+  }
+
+  // Wallet operations
+  async getWallet(id: string): Promise<Wallet | undefined> {
+    const wallet = this.wallets.get(id);
+    return wallet ? clone(wallet) : undefined;
+  }
+
+  async getWalletByAddress(address: string): Promise<Wallet | undefined> {
+    const wallet = this.find(this.wallets, w => w.address === address);
+    return wallet ? clone(wallet) : undefined;
+  }
+
+  async getUserWallets(userId: string): Promise<Wallet[]> {
+    return this.filter(this.wallets, w => w.userId === userId);
+  }
+
+  async getConnectedWallets(): Promise<Wallet[]> {
+    return this.filter(this.wallets, w => w.isConnected);
+  }
+
+  async createWallet(wallet: InsertWallet): Promise<Wallet> {
+    const now = new Date();
+    const row: Wallet = {
+      id: randomUUID(),
+      userId: wallet.userId ?? null,
+      address: wallet.address,
+      network: wallet.network ?? "ethereum",
+      isConnected: wallet.isConnected ?? false,
+      verifiedAt: wallet.verifiedAt ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.checkWallet(row);
+    this.wallets.set(row.id, row);
+    return clone(row);
+  }
+
+  async updateWallet(id: string, updates: Partial<InsertWallet>): Promise<Wallet | undefined> {
+    const existing = this.wallets.get(id);
+    if (!existing) return undefined;
+    const row: Wallet = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.checkWallet(row);
+    this.wallets.set(id, row);
+    return clone(row);
+  }
+
+  async deleteWallet(address: string): Promise<boolean> {
+    const wallet = this.find(this.wallets, w => w.address === address);
+    if (!wallet) return false;
+
+    // ON DELETE CASCADE for every table keyed by wallet
+    const walletTables: Array<Map<string, { walletId: string }>> = [
+      this.portfolios,
+      this.portfolioSnapshots,
+      this.tokenBalances,
+      this.stakingPositions,
+      this.transactions,
+      this.walletIndexCursors
+    ];
+    walletTables.forEach(table => this.deleteWhere(table, row => row.walletId === wallet.id));
+    this.wallets.delete(wallet.id);
+    return true;
+  }
+
+  // SIWE nonce operations
+  async createSiweNonce(nonce: InsertSiweNonce): Promise<SiweNonce> {
+    this.assertUnique(this.siweNonces, "siwe_nonces_nonce_unique", n => n.nonce === nonce.nonce);
+    this.assertReference(this.users, nonce.userId, "siwe_nonces_user_id_users_id_fk");
+    const row: SiweNonce = {
+      id: randomUUID(),
+      nonce: nonce.nonce,
+      address: nonce.address,
+      userId: nonce.userId,
+      chainId: nonce.chainId ?? 1,
+      expiresAt: nonce.expiresAt,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.siweNonces.set(row.id, row);
+    return clone(row);
+  }
+
+  async getSiweNonce(nonce: string): Promise<SiweNonce | undefined> {
+    const row = this.find(this.siweNonces, n => n.nonce === nonce);
+    return row ? clone(row) : undefined;
+  }
+
+  // Marks a nonce used; returns false if it was already consumed, so each nonce verifies once
+  async consumeSiweNonce(id: string): Promise<boolean> {
+    const row = this.siweNonces.get(id);
+    if (!row || row.usedAt) return false;
+    this.siweNonces.set(id, { ...row, usedAt: new Date() });
+    return true;
+  }
+
+  async deleteExpiredSiweNonces(): Promise<number> {
+    const now = new Date();
+    return this.deleteWhere(this.siweNonces, n => n.expiresAt < now);
+  }
+
+  // Token operations
+  async getToken(id: string): Promise<Token | undefined> {
+    const token = this.tokens.get(id);
+    return token ? clone(token) : undefined;
+  }
+
+  async getTokenBySymbol(symbol: string, chainId: number = DEFAULT_CHAIN_ID): Promise<Token | undefined> {
+    const token = this.find(this.tokens, t => t.symbol === symbol && t.chainId === chainId);
+    return token ? clone(token) : undefined;
+  }
+
+  async getTokenByAddress(chainId: number, address: string): Promise<Token | undefined> {
+    const token = this.find(this.tokens, t => t.chainId === chainId && t.address.toLowerCase() === address.toLowerCase());
+    return token ? clone(token) : undefined;
+  }
+
+  async getAllTokens(): Promise<Token[]> {
+    return this.filter(this.tokens, () => true);
+  }
+
+  async createToken(token: InsertToken): Promise<Token> {
+    const row: Token = {
+      id: randomUUID(),
+      chainId: token.chainId ?? DEFAULT_CHAIN_ID,
+      symbol: token.symbol,
+      name: token.name,
+      address: token.address,
+      decimals: token.decimals ?? 18,
+      logoUrl: token.logoUrl ?? null,
+      createdAt: new Date()
+    };
+    this.checkToken(row);
+    this.tokens.set(row.id, row);
+    return clone(row);
+  }
+
+  async updateToken(id: string, updates: Partial<InsertToken>): Promise<Token | undefined> {
+    const existing = this.tokens.get(id);
+    if (!existing) return undefined;
+    const row: Token = { ...existing, ...definedFields(updates) };
+    this.checkToken(row);
+    this.tokens.set(id, row);
+    return clone(row);
+  }
+
+  // Token price source operations
+  async getTokenPriceSources(tokenId: string): Promise<TokenPriceSource[]> {
+    return this.filter(this.tokenPriceSources, s => s.tokenId === tokenId).sort((a, b) => a.priority - b.priority);
+  }
+
+  async getActiveTokenPriceSources(): Promise<TokenPriceSource[]> {
+    return this.filter(this.tokenPriceSources, s => s.isActive).sort((a, b) => a.priority - b.priority);
+  }
+
+  async getTokenPriceSource(id: string): Promise<TokenPriceSource | undefined> {
+    const source = this.tokenPriceSources.get(id);
+    return source ? clone(source) : undefined;
+  }
+
+  async createTokenPriceSource(source: InsertTokenPriceSource): Promise<TokenPriceSource> {
+    const now = new Date();
+    const row: TokenPriceSource = {
+      id: randomUUID(),
+      tokenId: source.tokenId,
+      sourceType: source.sourceType,
+      sourceRef: source.sourceRef ?? null,
+      pegPrice: source.pegPrice ?? null,
+      config: source.config ?? null,
+      priority: source.priority ?? 0,
+      isActive: source.isActive ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.checkTokenPriceSource(row);
+    this.tokenPriceSources.set(row.id, row);
+    return clone(row);
+  }
+
+  async updateTokenPriceSource(id: string, updates: Partial<InsertTokenPriceSource>): Promise<TokenPriceSource | undefined> {
+    const existing = this.tokenPriceSources.get(id);
+    if (!existing) return undefined;
+    const row: TokenPriceSource = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.checkTokenPriceSource(row);
+    this.tokenPriceSources.set(id, row);
+    return clone(row);
+  }
+
+  async deleteTokenPriceSource(id: string): Promise<boolean> {
+    return this.tokenPriceSources.delete(id);
+  }
+
+  // Portfolio operations
+  async getPortfolio(walletId: string): Promise<Portfolio | undefined> {
+    const portfolio = this.find(this.portfolios, p => p.walletId === walletId);
+    return portfolio ? clone(portfolio) : undefined;
+  }
+
+  async createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio> {
+    this.assertReference(this.wallets, portfolio.walletId, "portfolios_wallet_id_wallets_id_fk");
+    this.assertUnique(this.portfolios, "portfolios_wallet_id_unique", p => p.walletId === portfolio.walletId);
+    const row: Portfolio = {
+      id: randomUUID(),
+      walletId: portfolio.walletId,
+      netWorth: portfolio.netWorth ?? "0",
+      pnl: portfolio.pnl ?? "0",
+      pnlPercentage: portfolio.pnlPercentage ?? "0",
+      totalTrades: portfolio.totalTrades ?? 0,
+      healthScore: portfolio.healthScore ?? "Unknown",
+      healthReport: portfolio.healthReport ?? null,
+      lastUpdated: new Date()
+    };
+    this.portfolios.set(row.id, row);
+    return clone(row);
+  }
+
+  async updatePortfolio(walletId: string, updates: Partial<InsertPortfolio>): Promise<Portfolio | undefined> {
+    const existing = this.find(this.portfolios, p => p.walletId === walletId);
+    if (!existing) return undefined;
+    const row: Portfolio = { ...existing, ...definedFields(updates), lastUpdated: new Date() };
+    this.portfolios.set(row.id, row);
+    return clone(row);
+  }
+
+  // Portfolio snapshot operations
+  async getPortfolioSnapshots(walletId: string, since: Date): Promise<PortfolioSnapshot[]> {
+    return this.filter(this.portfolioSnapshots, s => s.walletId === walletId && s.timestamp >= since)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async createPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    this.assertReference(this.wallets, snapshot.walletId, "portfolio_snapshots_wallet_id_wallets_id_fk");
+    const row: PortfolioSnapshot = {
+      id: randomUUID(),
+      walletId: snapshot.walletId,
+      netWorth: snapshot.netWorth ?? "0",
+      tokenValues: snapshot.tokenValues ?? null,
+      unpricedTokenIds: snapshot.unpricedTokenIds ?? [],
+      timestamp: snapshot.timestamp ?? new Date()
+    };
+    this.portfolioSnapshots.set(row.id, row);
+    return clone(row);
+  }
+
+  // Token balance operations
+  async getTokenBalances(walletId: string): Promise<TokenBalance[]> {
+    return this.filter(this.tokenBalances, b => b.walletId === walletId);
+  }
+
+  async getTokenBalance(walletId: string, tokenId: string): Promise<TokenBalance | undefined> {
+    const balance = this.find(this.tokenBalances, b => b.walletId === walletId && b.tokenId === tokenId);
+    return balance ? clone(balance) : undefined;
+  }
+
+  // ON CONFLICT (wallet_id, token_id) updates balance, usd value and timestamp only
+  async upsertTokenBalance(balance: InsertTokenBalance): Promise<TokenBalance> {
+    this.assertReference(this.wallets, balance.walletId, "token_balances_wallet_id_wallets_id_fk");
+    this.assertReference(this.tokens, balance.tokenId, "token_balances_token_id_tokens_id_fk");
+
+    const existing = this.find(this.tokenBalances, b => b.walletId === balance.walletId && b.tokenId === balance.tokenId);
+    const row: TokenBalance = existing
+      ? {
+        ...existing,
+        balance: balance.balance ?? existing.balance,
+        usdValue: balance.usdValue ?? existing.usdValue,
+        lastUpdated: new Date()
+      }
+      : {
+        id: randomUUID(),
+        walletId: balance.walletId,
+        tokenId: balance.tokenId,
+        balance: balance.balance ?? "0",
+        usdValue: balance.usdValue ?? "0",
+        lastUpdated: new Date()
+      };
+    this.tokenBalances.set(row.id, row);
+    return clone(row);
+  }
+
+  // Staking operations
+  async getStakingPositions(walletId: string): Promise<StakingPosition[]> {
+    return this.filter(this.stakingPositions, p => p.walletId === walletId);
+  }
+
+  async getActiveStakingPositions(walletId: string): Promise<StakingPosition[]> {
+    return this.filter(this.stakingPositions, p => p.walletId === walletId && p.isActive);
+  }
+
+  async createStakingPosition(position: InsertStakingPosition): Promise<StakingPosition> {
+    const now = new Date();
+    const row = this.buildStakingPosition(position, randomUUID(), now, now);
+    this.checkStakingPosition(row);
+    this.stakingPositions.set(row.id, row);
+    return clone(row);
+  }
+
+  async updateStakingPosition(id: string, updates: Partial<InsertStakingPosition>): Promise<StakingPosition | undefined> {
+    const existing = this.stakingPositions.get(id);
+    if (!existing) return undefined;
+    const row: StakingPosition = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.checkStakingPosition(row);
+    this.stakingPositions.set(id, row);
+    return clone(row);
+  }
+
+  // ON CONFLICT on the wallet/pool key overwrites every supplied column
+  async upsertStakingPosition(position: InsertStakingPosition): Promise<StakingPosition> {
+    const chainId = position.chainId ?? DEFAULT_CHAIN_ID;
+    const poolId = position.poolId ?? 0;
+    const existing = this.find(this.stakingPositions, p =>
+      p.walletId === position.walletId
+      && p.chainId === chainId
+      && p.poolAddress === position.poolAddress
+      && p.poolId === poolId
+    );
+
+    const row: StakingPosition = existing
+      ? { ...existing, ...definedFields(position), updatedAt: new Date() }
+      : this.buildStakingPosition(position, randomUUID(), new Date(), new Date());
+    this.checkStakingPosition(row);
+    this.stakingPositions.set(row.id, row);
+    return clone(row);
+  }
+
+  // Transaction operations
+  async getTransactions(walletId: string, limit: number = 50): Promise<Transaction[]> {
+    return this.filter(this.transactions, tx => tx.walletId === walletId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
+  }
+
+  async getAllTransactions(walletId: string): Promise<Transaction[]> {
+    return this.filter(this.transactions, tx => tx.walletId === walletId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async queryTransactions(walletId: string, query: TransactionQuery): Promise<Transaction[]> {
+    const sortValue = (tx: Transaction) => query.sort === "timestamp" ? tx.timestamp.getTime()
+      : query.sort === "amount" ? parseFloat(tx.amount)
+      : parseFloat(tx.usdValue ?? "0");
+    const sign = query.order === "asc" ? 1 : -1;
+    const compare = (a: Transaction, b: Transaction) =>
+      sign * (sortValue(a) - sortValue(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    const search = query.search?.toLowerCase();
+    const after = query.after && {
+      id: query.after.id,
+      value: query.sort === "timestamp" ? new Date(query.after.value).getTime() : parseFloat(query.after.value)
+    };
+
+    return this.filter(this.transactions, tx =>
+      tx.walletId === walletId
+      && (!query.types?.length || query.types.includes(tx.type))
+      && (!query.statuses?.length || query.statuses.includes(tx.status))
+      && (!query.tokenIds?.length || query.tokenIds.includes(tx.tokenId))
+      && (!query.from || tx.timestamp >= query.from)
+      && (!query.to || tx.timestamp <= query.to)
+      && (query.minUsdValue === undefined || (tx.usdValue !== null && parseFloat(tx.usdValue) >= query.minUsdValue))
+      && (!search || tx.txHash.toLowerCase().includes(search))
+      && (!after || sign * (sortValue(tx) - after.value || (tx.id < after.id ? -1 : tx.id > after.id ? 1 : 0)) > 0)
+    )
+      .sort(compare)
+      .slice(0, query.limit);
+  }
+
+  async getTransaction(walletId: string, txHash: string): Promise<Transaction | undefined> {
+    const transaction = this.find(this.transactions, tx => tx.walletId === walletId && tx.txHash === txHash);
+    return transaction ? clone(transaction) : undefined;
+  }
+
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    this.assertReference(this.wallets, transaction.walletId, "transactions_wallet_id_wallets_id_fk");
+    this.assertReference(this.tokens, transaction.tokenId, "transactions_token_id_tokens_id_fk");
+    this.assertUnique(this.transactions, "transactions_wallet_tx_hash_unique", tx =>
+      tx.walletId === transaction.walletId && tx.txHash === transaction.txHash);
+    const row: Transaction = {
+      id: randomUUID(),
+      walletId: transaction.walletId,
+      txHash: transaction.txHash,
+      type: transaction.type,
+      tokenId: transaction.tokenId,
+      amount: transaction.amount,
+      usdValue: transaction.usdValue ?? null,
+      gasUsed: transaction.gasUsed ?? null,
+      gasPrice: transaction.gasPrice ?? null,
+      blockNumber: transaction.blockNumber ?? null,
+      status: transaction.status ?? "confirmed",
+      metadata: transaction.metadata ?? null,
+      timestamp: transaction.timestamp,
+      createdAt: new Date()
+    };
+    this.transactions.set(row.id, row);
+    return clone(row);
+  }
+
+  // Indexer cursor operations
+  async getIndexCursor(walletId: string, chainId: number): Promise<WalletIndexCursor | undefined> {
+    const cursor = this.find(this.walletIndexCursors, c => c.walletId === walletId && c.chainId === chainId);
+    return cursor ? clone(cursor) : undefined;
+  }
+
+  async getIndexCursors(walletId: string): Promise<WalletIndexCursor[]> {
+    return this.filter(this.walletIndexCursors, c => c.walletId === walletId);
+  }
+
+  async upsertIndexCursor(cursor: InsertWalletIndexCursor): Promise<WalletIndexCursor> {
+    this.assertReference(this.wallets, cursor.walletId, "wallet_index_cursors_wallet_id_wallets_id_fk");
+    const chainId = cursor.chainId ?? DEFAULT_CHAIN_ID;
+    const existing = this.find(this.walletIndexCursors, c => c.walletId === cursor.walletId && c.chainId === chainId);
+    const row: WalletIndexCursor = existing
+      ? { ...existing, lastIndexedBlock: cursor.lastIndexedBlock, updatedAt: new Date() }
+      : { id: randomUUID(), walletId: cursor.walletId, chainId, lastIndexedBlock: cursor.lastIndexedBlock, updatedAt: new Date() };
+    this.walletIndexCursors.set(row.id, row);
+    return clone(row);
+  }
+
+  // Governance operations
+  async getProposals(filters: { status?: string; limit?: number } = {}): Promise<Proposal[]> {
+    return this.filter(this.proposals, p => !filters.status || p.status === filters.status)
+      .sort((a, b) => b.createdBlock - a.createdBlock)
+      .slice(0, filters.limit ?? 100);
+  }
+
+  async getProposal(id: string): Promise<Proposal | undefined> {
+    const proposal = this.proposals.get(id);
+    return proposal ? clone(proposal) : undefined;
+  }
+
+  async getProposalByOnchainId(chainId: number, governorAddress: string, proposalId: string): Promise<Proposal | undefined> {
+    const proposal = this.find(this.proposals, p =>
+      p.chainId === chainId && p.governorAddress === governorAddress && p.proposalId === proposalId
+    );
+    return proposal ? clone(proposal) : undefined;
+  }
+
+  // ON CONFLICT on the governor/proposal key refreshes status and tallies only
+  async upsertProposal(proposal: InsertProposal): Promise<Proposal> {
+    const chainId = proposal.chainId ?? DEFAULT_CHAIN_ID;
+    const existing = this.find(this.proposals, p =>
+      p.chainId === chainId && p.governorAddress === proposal.governorAddress && p.proposalId === proposal.proposalId
+    );
+    const now = new Date();
+    const row: Proposal = existing
+      ? {
+        ...existing,
+        status: proposal.status ?? existing.status,
+        forVotes: proposal.forVotes ?? existing.forVotes,
+        againstVotes: proposal.againstVotes ?? existing.againstVotes,
+        abstainVotes: proposal.abstainVotes ?? existing.abstainVotes,
+        updatedAt: now
+      }
+      : {
+        id: randomUUID(),
+        chainId,
+        governorAddress: proposal.governorAddress,
+        proposalId: proposal.proposalId,
+        proposer: proposal.proposer,
+        title: proposal.title,
+        description: proposal.description,
+        snapshotBlock: proposal.snapshotBlock,
+        endBlock: proposal.endBlock,
+        status: proposal.status ?? "pending",
+        forVotes: proposal.forVotes ?? "0",
+        againstVotes: proposal.againstVotes ?? "0",
+        abstainVotes: proposal.abstainVotes ?? "0",
+        createdBlock: proposal.createdBlock,
+        createdTxHash: proposal.createdTxHash,
+        createdAt: now,
+        updatedAt: now
+      };
+    this.proposals.set(row.id, row);
+    return clone(row);
+  }
+
+  async updateProposal(id: string, updates: Partial<InsertProposal>): Promise<Proposal | undefined> {
+    const existing = this.proposals.get(id);
+    if (!existing) return undefined;
+    const row: Proposal = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.assertUnique(this.proposals, "proposals_governor_proposal_unique", p =>
+      p.id !== id && p.chainId === row.chainId && p.governorAddress === row.governorAddress && p.proposalId === row.proposalId
+    );
+    this.proposals.set(id, row);
+    return clone(row);
+  }
+
+  async getProposalVotes(proposalId: string): Promise<Vote[]> {
+    return this.filter(this.votes, v => v.proposalId === proposalId).sort((a, b) => b.blockNumber - a.blockNumber);
+  }
+
+  async getVotesByVoter(voter: string): Promise<Vote[]> {
+    return this.filter(this.votes, v => v.voter.toLowerCase() === voter.toLowerCase())
+      .sort((a, b) => b.blockNumber - a.blockNumber);
+  }
+
+  // A voter can only vote once per proposal, so a replayed VoteCast event is ignored
+  async createVote(vote: InsertVote): Promise<Vote | undefined> {
+    this.assertReference(this.proposals, vote.proposalId, "votes_proposal_id_proposals_id_fk");
+    if (this.find(this.votes, v => v.proposalId === vote.proposalId && v.voter === vote.voter)) return undefined;
+    const row: Vote = {
+      id: randomUUID(),
+      proposalId: vote.proposalId,
+      voter: vote.voter,
+      support: vote.support,
+      weight: vote.weight,
+      reason: vote.reason ?? null,
+      txHash: vote.txHash,
+      blockNumber: vote.blockNumber,
+      createdAt: new Date()
+    };
+    this.votes.set(row.id, row);
+    return clone(row);
+  }
+
+  async getGovernanceCursor(chainId: number, governorAddress: string): Promise<GovernanceCursor | undefined> {
+    const cursor = this.find(this.governanceCursors, c => c.chainId === chainId && c.governorAddress === governorAddress);
+    return cursor ? clone(cursor) : undefined;
+  }
+
+  async upsertGovernanceCursor(cursor: InsertGovernanceCursor): Promise<GovernanceCursor> {
+    const chainId = cursor.chainId ?? DEFAULT_CHAIN_ID;
+    const existing = this.find(this.governanceCursors, c => c.chainId === chainId && c.governorAddress === cursor.governorAddress);
+    const row: GovernanceCursor = existing
+      ? { ...existing, lastScannedBlock: cursor.lastScannedBlock, updatedAt: new Date() }
+      : { id: randomUUID(), chainId, governorAddress: cursor.governorAddress, lastScannedBlock: cursor.lastScannedBlock, updatedAt: new Date() };
+    this.governanceCursors.set(row.id, row);
+    return clone(row);
+  }
+
+  // Price history operations
+  async getLatestPrice(tokenId: string): Promise<PriceHistory | undefined> {
+    return this.filter(this.priceHistory, p => p.tokenId === tokenId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+  }
+
+  async getPriceHistory(tokenId: string, { from, to = new Date(), resolution }: PriceHistoryQuery): Promise<PricePoint[]> {
+    if (resolution === 'raw') {
+      return this.filter(this.priceHistory, p => p.tokenId === tokenId && p.timestamp >= from && p.timestamp <= to)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .map(p => ({ timestamp: p.timestamp, open: p.price, high: p.price, low: p.price, close: p.price }));
+    }
+    return this.filter(this.priceCandles[resolution], c => c.tokenId === tokenId && c.bucketStart >= from && c.bucketStart <= to)
+      .sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime())
+      .map(c => ({ timestamp: c.bucketStart, open: c.open, high: c.high, low: c.low, close: c.close }));
+  }
+
+  async createPriceHistory(priceData: InsertPriceHistory): Promise<PriceHistory> {
+    this.assertReference(this.tokens, priceData.tokenId, "price_history_token_id_tokens_id_fk");
+    this.assertUnique(this.priceHistory, "price_history_token_timestamp_unique", p =>
+      p.tokenId === priceData.tokenId && p.timestamp.getTime() === priceData.timestamp.getTime()
+    );
+    const row: PriceHistory = {
+      id: randomUUID(),
+      tokenId: priceData.tokenId,
+      price: priceData.price,
+      marketCap: priceData.marketCap ?? null,
+      volume24h: priceData.volume24h ?? null,
+      timestamp: priceData.timestamp,
+      createdAt: new Date()
+    };
+    this.priceHistory.set(row.id, row);
+    return clone(row);
+  }
+
+  async deletePriceHistoryBefore(before: Date): Promise<number> {
+    return this.deleteWhere(this.priceHistory, p => p.timestamp < before);
+  }
+
+  async upsertPriceCandle(resolution: CandleResolution, tokenId: string, bucketStart: Date, price: string): Promise<PriceCandle> {
+    const table = this.priceCandles[resolution];
+    this.assertReference(this.tokens, tokenId, `price_candles_${resolution}_token_id_tokens_id_fk`);
+    const existing = this.find(table, c => c.tokenId === tokenId && c.bucketStart.getTime() === bucketStart.getTime());
+    const value = parseFloat(price);
+    const row: PriceCandle = existing
+      ? {
+        ...existing,
+        high: value > parseFloat(existing.high) ? price : existing.high,
+        low: value < parseFloat(existing.low) ? price : existing.low,
+        close: price,
+        samples: existing.samples + 1,
+        updatedAt: new Date()
+      }
+      : { id: randomUUID(), tokenId, bucketStart, open: price, high: price, low: price, close: price, samples: 1, updatedAt: new Date() };
+    table.set(row.id, row);
+    return clone(row);
+  }
+
+  async insertPriceCandles(resolution: CandleResolution, candles: InsertPriceCandle[]): Promise<number> {
+    const table = this.priceCandles[resolution];
+    let inserted = 0;
+    for (const candle of candles) {
+      this.assertReference(this.tokens, candle.tokenId, `price_candles_${resolution}_token_id_tokens_id_fk`);
+      const exists = this.find(table, c => c.tokenId === candle.tokenId && c.bucketStart.getTime() === candle.bucketStart.getTime());
+      if (exists) continue;
+      const row: PriceCandle = { id: randomUUID(), ...candle, samples: candle.samples ?? 1, updatedAt: new Date() };
+      table.set(row.id, row);
+      inserted += 1;
+    }
+    return inserted;
+  }
+
+  async deletePriceCandlesBefore(resolution: CandleResolution, before: Date): Promise<number> {
+    return this.deleteWhere(this.priceCandles[resolution], c => c.bucketStart < before);
+  }
+
+  // Row-level constraint checks shared by inserts and updates
+  private checkWallet(row: Wallet): void {
+    if (row.userId) this.assertReference(this.users, row.userId, "wallets_user_id_users_id_fk");
+    this.assertUnique(this.wallets, "wallets_address_unique", w => w.id !== row.id && w.address === row.address);
+  }
+
+  private checkToken(row: Token): void {
+    this.assertUnique(this.tokens, "tokens_chain_address_unique", t =>
+      t.id !== row.id && t.chainId === row.chainId && t.address === row.address
+    );
+  }
+
+  private checkTokenPriceSource(row: TokenPriceSource): void {
+    this.assertReference(this.tokens, row.tokenId, "token_price_sources_token_id_tokens_id_fk");
+    // NULL source refs never collide, as in Postgres
+    if (row.sourceRef === null) return;
+    this.assertUnique(this.tokenPriceSources, "token_price_sources_token_source_unique", s =>
+      s.id !== row.id && s.tokenId === row.tokenId && s.sourceType === row.sourceType && s.sourceRef === row.sourceRef
+    );
+  }
+
+  private checkStakingPosition(row: StakingPosition): void {
+    this.assertReference(this.wallets, row.walletId, "staking_positions_wallet_id_wallets_id_fk");
+    this.assertReference(this.tokens, row.tokenId, "staking_positions_token_id_tokens_id_fk");
+    if (row.rewardTokenId) this.assertReference(this.tokens, row.rewardTokenId, "staking_positions_reward_token_id_tokens_id_fk");
+    this.assertUnique(this.stakingPositions, "staking_positions_wallet_pool_unique", p =>
+      p.id !== row.id
+      && p.walletId === row.walletId
+      && p.chainId === row.chainId
+      && p.poolAddress === row.poolAddress
+      && p.poolId === row.poolId
+    );
+  }
+
+  private buildStakingPosition(position: InsertStakingPosition, id: string, createdAt: Date, updatedAt: Date): StakingPosition {
+    return {
+      id,
+      walletId: position.walletId,
+      tokenId: position.tokenId,
+      rewardTokenId: position.rewardTokenId ?? null,
+      chainId: position.chainId ?? DEFAULT_CHAIN_ID,
+      poolAddress: position.poolAddress,
+      poolId: position.poolId ?? 0,
+      poolName: position.poolName,
+      stakingType: position.stakingType,
+      stakedAmount: position.stakedAmount ?? "0",
+      lpToken: position.lpToken ?? false,
+      stakedUsdValue: position.stakedUsdValue ?? null,
+      rewardsEarned: position.rewardsEarned ?? "0",
+      unclaimedRewards: position.unclaimedRewards ?? "0",
+      apy: position.apy ?? "0",
+      isActive: position.isActive ?? true,
+      createdAt,
+      updatedAt
+    };
+  }
+
+  private assertUnique<T>(table: Map<string, T>, constraint: string, conflicts: (row: T) => boolean): void {
+    if (this.find(table, conflicts)) throw new StorageConstraintError("23505", constraint);
+  }
+
+  private assertReference(table: Map<string, unknown>, id: string, constraint: string): void {
+    if (!table.has(id)) throw new StorageConstraintError("23503", constraint);
+  }
+
+  private find<T>(table: Map<string, T>, predicate: (row: T) => boolean): T | undefined {
+    return Array.from(table.values()).find(predicate);
+  }
+
+  private filter<T extends object>(table: Map<string, T>, predicate: (row: T) => boolean): T[] {
+    return Array.from(table.values()).filter(predicate).map(clone);
+  }
+
+  private deleteWhere<T>(table: Map<string, T>, predicate: (row: T) => boolean): number {
+    let deleted = 0;
+    Array.from(table.entries()).forEach(([id, row]) => {
+      if (predicate(row)) {
+        table.delete(id);
+        deleted += 1;
+      }
+    });
+    return deleted;
+  }
+}
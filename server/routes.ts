@@ -1,11 +1,61 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import blockchainRoutes from "./routes/blockchain";
+import { createBlockchainRouter, type BlockchainRouterDeps } from "./routes/blockchain";
+import { createAdminRouter, type AdminRouterDeps } from "./routes/admin";
+import { createAuthRouter, type AuthRouterDeps } from "./routes/auth";
+import { createPortfolioRouter, type PortfolioRouterDeps } from "./routes/portfolio";
+import { createGovernanceRouter, type GovernanceRouterDeps } from "./routes/governance";
+import { createTokenRouter, type TokenRouterDeps } from "./routes/tokens";
+import { createAnalyticsRouter, type AnalyticsRouterDeps } from "./routes/analytics";
+import { createReportRouter, type ReportRouterDeps } from "./routes/reports";
+import { createImportRouter, type ImportRouterDeps } from "./routes/imports";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import type { RealtimeHub } from "./services/realtime";
+
+// Services the API is built from; server/index.ts passes the real ones, tests pass fakes
+export interface AppServices {
+  auth: AuthRouterDeps;
+  blockchain: BlockchainRouterDeps;
+  portfolio: PortfolioRouterDeps;
+  governance: GovernanceRouterDeps;
+  admin: AdminRouterDeps;
+  tokens: TokenRouterDeps;
+  analytics: AnalyticsRouterDeps;
+  reports: ReportRouterDeps;
+  imports: ImportRouterDeps;
+  realtime: RealtimeHub;
+}
+
+export async function registerRoutes(app: Express, services: AppServices): Promise<Server> {
+  // Sessions and passport must be in place before any route reads req.user
+  const sessionParser = setupAuth(app);
+
+  // Register authentication routes
+  app.use("/api/auth", createAuthRouter(services.auth));
 
-export async function registerRoutes(app: Express): Promise<Server> {
   // Register blockchain API routes
-  app.use("/api/blockchain", blockchainRoutes);
+  app.use("/api/blockchain", createBlockchainRouter(services.blockchain));
+
+  // Register cross-wallet portfolio routes
+  app.use("/api/portfolio", requireAuth, createPortfolioRouter(services.portfolio));
+
+  // Register per-wallet risk analytics routes
+  app.use("/api/analytics", requireAuth, createAnalyticsRouter(services.analytics));
+
+  // Register tax report routes
+  app.use("/api/reports", requireAuth, createReportRouter(services.reports));
+
+  // Register exchange and tracker transaction import routes
+  app.use("/api/imports", requireAuth, createImportRouter(services.imports));
+
+  // Register governance routes; wallet-specific ones check auth themselves
+  app.use("/api/governance", createGovernanceRouter(services.governance));
+
+  // Register public token chart routes; signed-in users also get their trades
+  app.use("/api/tokens", createTokenRouter(services.tokens));
+
+  // Register token registry admin routes; these edit tokens and price sources for every user
+  app.use("/api/admin", requireAdmin, createAdminRouter(services.admin));
 
   // Health check endpoint
   app.get("/api/health", (req, res) => res.json({ ok: true }));
@@ -15,5 +65,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
+  // Push channel for price ticks, new blocks and wallet updates
+  services.realtime.attach(httpServer, sessionParser);
+
   return httpServer;
 }
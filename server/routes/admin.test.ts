@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { seedDatabase } from '../seed';
+import request from 'supertest';
+import { createTestApp, loggedInAgent, serverUrl, type TestApp } from '../test/app';
+
+let app: TestApp;
+let userCount = 0;
+
+async function newUser() {
+  userCount += 1;
+  const username = `admin-test-user-${userCount}`;
+  return { agent: await loggedInAgent(app.server, username), username };
+}
+
+async function newAdmin() {
+  const { agent, username } = await newUser();
+  const user = await storage.getUserByUsername(username);
+  await storage.setUserAdmin(user!.id, true);
+  return agent;
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await seedDatabase();
+  app = await createTestApp();
+});
+
+afterAll(async () => {
+  await app.close();
+  vi.restoreAllMocks();
+});
+
+describe('/api/admin access', () => {
+  it('requires a session', async () => {
+    await request(serverUrl(app.server)).get('/api/admin/tokens').expect(401);
+  });
+
+  it('rejects users without the admin flag', async () => {
+    const { agent } = await newUser();
+
+    await agent.get('/api/admin/tokens').expect(403);
+    await agent.post('/api/admin/tokens').send({ chainId: 1, symbol: 'BAD', name: 'Bad', address: '0x9999999999999999999999999999999999999999', decimals: 18 }).expect(403);
+  });
+
+  it('lets admins through', async () => {
+    const agent = await newAdmin();
+
+    await agent.get('/api/admin/tokens').expect(200);
+  });
+});
+
+describe('PATCH /api/admin/price-sources/:id', () => {
+  async function coinGeckoSource() {
+    const token = await storage.createToken({
+      chainId: 1,
+      symbol: `T${userCount}`,
+      name: 'Test',
+      address: `0x${String(userCount).padStart(40, '7')}`,
+      decimals: 18
+    });
+    return storage.createTokenPriceSource({ tokenId: token.id, sourceType: 'coingecko', sourceRef: 'test-token', priority: 0 });
+  }
+
+  it('rejects switching to a fixed peg without a peg price', async () => {
+    const agent = await newAdmin();
+    const source = await coinGeckoSource();
+
+    const res = await agent.patch(`/api/admin/price-sources/${source.id}`).send({ sourceType: 'fixed_peg' }).expect(400);
+
+    expect(res.body.details[0].path).toEqual(['pegPrice']);
+    expect((await storage.getTokenPriceSource(source.id))!.sourceType).toBe('coingecko');
+  });
+
+  it('rejects clearing the sourceRef a CoinGecko source needs', async () => {
+    const agent = await newAdmin();
+    const source = await coinGeckoSource();
+
+    await agent.patch(`/api/admin/price-sources/${source.id}`).send({ sourceRef: null }).expect(400);
+  });
+
+  it('accepts edits that leave the merged row valid', async () => {
+    const agent = await newAdmin();
+    const source = await coinGeckoSource();
+
+    const res = await agent.patch(`/api/admin/price-sources/${source.id}`).send({ sourceType: 'fixed_peg', pegPrice: '1' }).expect(200);
+
+    expect(res.body.priceSource).toMatchObject({ sourceType: 'fixed_peg', pegPrice: '1' });
+  });
+});
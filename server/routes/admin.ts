@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import type { IStorage } from '../storage';
+import type { TokenPriceResolver } from '../services/priceSources';
+import { insertTokenSchema, insertTokenPriceSourceSchema } from '@shared/schema';
+import { getChain } from '@shared/chains';
+import { z } from 'zod';
+
+export interface AdminRouterDeps {
+  storage: IStorage;
+  prices: TokenPriceResolver;
+}
+
+// Body of POST /tokens: a new token on one of the registry's chains
+const createTokenSchema = insertTokenSchema.refine(token => !!getChain(token.chainId ?? 1), {
+  path: ['chainId'],
+  message: 'Unsupported chain'
+});
+
+// Fields a source type depends on; checked on create and on the merged row when editing
+function checkSourceFields(source: { sourceType: string; sourceRef?: string | null; pegPrice?: string | null }, ctx: z.RefinementCtx) {
+  if (source.sourceType === 'fixed_peg' && !source.pegPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pegPrice'], message: 'Fixed peg sources require a pegPrice' });
+  }
+  if (source.sourceType !== 'fixed_peg' && !source.sourceRef) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sourceRef'], message: 'This source type requires a sourceRef' });
+  }
+}
+
+// Body of POST /tokens/:id/price-sources
+const createPriceSourceSchema = insertTokenPriceSourceSchema.omit({ tokenId: true }).superRefine(checkSourceFields);
+
+// Body of PATCH /price-sources/:id, and the row it must leave behind
+const updatePriceSourceSchema = insertTokenPriceSourceSchema.omit({ tokenId: true }).partial();
+const mergedPriceSourceSchema = z.object({
+  sourceType: z.string(),
+  sourceRef: z.string().nullish(),
+  pegPrice: z.string().nullish()
+}).superRefine(checkSourceFields);
+
+// Routes under /api/admin; the app mounts them behind requireAdmin
+export function createAdminRouter({ storage, prices: tokenPriceResolver }: AdminRouterDeps): Router {
+  const router = Router();
+
+  // List all tokens with their price source mappings
+  router.get('/tokens', async (req, res) => {
+    try {
+      const tokens = await storage.getAllTokens();
+      const tokensWithSources = await Promise.all(tokens.map(async token => ({
+        ...token,
+        priceSources: await storage.getTokenPriceSources(token.id)
+      })));
+
+      res.json({ tokens: tokensWithSources });
+    } catch (error) {
+      console.error('Error fetching tokens:', error);
+      res.status(500).json({ error: 'Failed to fetch tokens' });
+    }
+  });
+
+  // Register a new token
+  router.post('/tokens', async (req, res) => {
+    try {
+      const tokenData = createTokenSchema.parse(req.body);
+
+      const existingToken = await storage.getTokenByAddress(tokenData.chainId ?? 1, tokenData.address);
+      if (existingToken) {
+        return res.status(409).json({ error: 'Token already exists' });
+      }
+
+      const token = await storage.createToken(tokenData);
+      res.status(201).json({ token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
+      console.error('Error creating token:', error);
+      res.status(500).json({ error: 'Failed to create token' });
+    }
+  });
+
+  // Get price source mappings for a token
+  router.get('/tokens/:id/price-sources', async (req, res) => {
+    try {
+      const token = await storage.getToken(req.params.id);
+      if (!token) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+
+      const priceSources = await storage.getTokenPriceSources(token.id);
+      res.json({ tokenId: token.id, chainId: token.chainId, symbol: token.symbol, priceSources });
+    } catch (error) {
+      console.error('Error fetching price sources:', error);
+      res.status(500).json({ error: 'Failed to fetch price sources' });
+    }
+  });
+
+  // Add a price source mapping to a token
+  router.post('/tokens/:id/price-sources', async (req, res) => {
+    try {
+      const sourceData = createPriceSourceSchema.parse(req.body);
+
+      const token = await storage.getToken(req.params.id);
+      if (!token) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+
+      const priceSource = await storage.createTokenPriceSource({
+        ...sourceData,
+        tokenId: token.id
+      });
+      tokenPriceResolver.invalidate(token.id);
+      res.status(201).json({ priceSource });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
+      console.error('Error creating price source:', error);
+      res.status(500).json({ error: 'Failed to create price source' });
+    }
+  });
+
+  // Edit an existing price source mapping
+  router.patch('/price-sources/:id', async (req, res) => {
+    try {
+      const updates = updatePriceSourceSchema.parse(req.body);
+
+      const existingSource = await storage.getTokenPriceSource(req.params.id);
+      if (!existingSource) {
+        return res.status(404).json({ error: 'Price source not found' });
+      }
+      mergedPriceSourceSchema.parse({ ...existingSource, ...updates });
+
+      const priceSource = await storage.updateTokenPriceSource(existingSource.id, updates);
+      tokenPriceResolver.invalidate(existingSource.tokenId);
+      res.json({ priceSource });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
+      console.error('Error updating price source:', error);
+      res.status(500).json({ error: 'Failed to update price source' });
+    }
+  });
+
+  // Remove a price source mapping
+  router.delete('/price-sources/:id', async (req, res) => {
+    try {
+      const existingSource = await storage.getTokenPriceSource(req.params.id);
+      if (!existingSource || !await storage.deleteTokenPriceSource(existingSource.id)) {
+        return res.status(404).json({ error: 'Price source not found' });
+      }
+      tokenPriceResolver.invalidate(existingSource.tokenId);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting price source:', error);
+      res.status(500).json({ error: 'Failed to delete price source' });
+    }
+  });
+
+  return router;
+}
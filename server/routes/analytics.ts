@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { riskRanges, type RiskAnalyticsService } from '../services/riskAnalytics';
+import type { IStorage } from '../storage';
+import { getOwnedWallet } from '../auth';
+import { z } from 'zod';
+
+export interface AnalyticsRouterDeps {
+  storage: IStorage;
+  risk: RiskAnalyticsService;
+}
+
+const riskQuerySchema = z.object({
+  range: z.enum(riskRanges).optional().default('90d'),
+  // Annual rate, e.g. 0.04 for 4%
+  riskFreeRate: z.coerce.number().min(0).max(1).optional().default(0)
+});
+
+// Routes under /api/analytics; the app mounts them behind requireAuth
+export function createAnalyticsRouter({ storage, risk: riskAnalyticsService }: AnalyticsRouterDeps): Router {
+  const router = Router();
+
+  // Volatility, drawdown, risk-adjusted return, VaR and benchmark betas for one wallet
+  router.get('/:address/risk', async (req, res) => {
+    try {
+      const { range, riskFreeRate } = riskQuerySchema.parse(req.query);
+
+      const wallet = await getOwnedWallet(req, req.params.address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      const report = await riskAnalyticsService.analyze(wallet, range, riskFreeRate);
+
+      res.json({
+        address: wallet.address,
+        ...report,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Error calculating risk analytics:', error);
+      res.status(500).json({ error: 'Failed to calculate risk analytics' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import { ethers } from 'ethers';
+import { storage } from '../storage';
+import { createTestApp, loggedInAgent, serverUrl, verifyWallet, type TestApp } from '../test/app';
+
+let app: TestApp;
+let userCount = 0;
+
+async function newUser() {
+  userCount += 1;
+  return loggedInAgent(app.server, `auth-test-user-${userCount}`);
+}
+
+beforeAll(async () => {
+  app = await createTestApp();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('POST /api/auth/siwe/nonce', () => {
+  it('requires a session', async () => {
+    await request(serverUrl(app.server))
+      .post('/api/auth/siwe/nonce')
+      .send({ address: ethers.Wallet.createRandom().address })
+      .expect(401);
+  });
+
+  it('rejects invalid addresses and unsupported chains', async () => {
+    const agent = await newUser();
+    const address = ethers.Wallet.createRandom().address;
+
+    await agent.post('/api/auth/siwe/nonce').send({ address: '0x123' }).expect(400);
+    const res = await agent.post('/api/auth/siwe/nonce').send({ address, chainId: 999999 }).expect(400);
+    expect(res.body.error).toBe('Unsupported chain 999999');
+  });
+
+  it('issues a challenge for this host and the requested chain', async () => {
+    const agent = await newUser();
+    const signer = ethers.Wallet.createRandom();
+
+    const res = await agent.post('/api/auth/siwe/nonce').send({ address: signer.address.toLowerCase(), chainId: 56 }).expect(200);
+
+    expect(res.body.message).toMatch(new RegExp(`^127\\.0\\.0\\.1:\\d+ wants you to sign in`));
+    expect(res.body.message).toContain(`\n${signer.address}\n`);
+    expect(res.body.message).toContain('Chain ID: 56');
+    expect(res.body.message).toContain(`Nonce: ${res.body.nonce}`);
+  });
+});
+
+describe('POST /api/auth/siwe/verify', () => {
+  async function signedChallenge(agent: ReturnType<typeof request.agent>, signer: ethers.HDNodeWallet) {
+    const nonce = await agent.post('/api/auth/siwe/nonce').send({ address: signer.address }).expect(200);
+    return { message: nonce.body.message as string, signature: await signer.signMessage(nonce.body.message) };
+  }
+
+  it('links the wallet to the user and marks it verified for the session', async () => {
+    const agent = await newUser();
+    const signer = ethers.Wallet.createRandom();
+
+    const res = await agent.post('/api/auth/siwe/verify').send(await signedChallenge(agent, signer)).expect(200);
+
+    expect(res.body).toMatchObject({ success: true, address: signer.address, wallet: { address: signer.address } });
+    await agent.post('/api/blockchain/wallet/connect').send({ address: signer.address }).expect(200);
+  });
+
+  it('refuses to verify the same signed challenge twice', async () => {
+    const agent = await newUser();
+    const body = await signedChallenge(agent, ethers.Wallet.createRandom());
+
+    await agent.post('/api/auth/siwe/verify').send(body).expect(200);
+    const res = await agent.post('/api/auth/siwe/verify').send(body).expect(401);
+    expect(res.body.error).toBe('Nonce already used');
+  });
+
+  it('rejects a challenge presented to another host', async () => {
+    const agent = await newUser();
+    const body = await signedChallenge(agent, ethers.Wallet.createRandom());
+
+    const res = await agent.post('/api/auth/siwe/verify').set('Host', 'evil.example').send(body).expect(401);
+    expect(res.body.error).toBe('Sign-in message domain mismatch');
+  });
+
+  it('rejects a challenge another user requested', async () => {
+    const agent = await newUser();
+    const body = await signedChallenge(agent, ethers.Wallet.createRandom());
+    const other = await newUser();
+
+    const res = await other.post('/api/auth/siwe/verify').send(body).expect(401);
+    expect(res.body.error).toBe('Unknown nonce');
+  });
+
+  it('moves a wallet linked to another account to the user who proves control of it', async () => {
+    const signer = ethers.Wallet.createRandom();
+    const previous = await newUser();
+    await verifyWallet(previous, signer);
+    const current = await newUser();
+
+    await verifyWallet(current, signer);
+
+    const me = await current.get('/api/auth/me').expect(200);
+    expect((await storage.getWalletByAddress(signer.address))!.userId).toBe(me.body.user.id);
+    await previous.get(`/api/blockchain/transactions/${signer.address}`).expect(404);
+    await current.get(`/api/blockchain/transactions/${signer.address}`).expect(200);
+  });
+});
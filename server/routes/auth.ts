@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import passport from 'passport';
+import type { IStorage } from '../storage';
+import { insertUserSchema, type User } from '@shared/schema';
+import { requireAuth, toPublicUser } from '../auth';
+import { SiweError, type SiweService } from '../services/siwe';
+import { z } from 'zod';
+
+export interface AuthRouterDeps {
+  storage: IStorage;
+  siwe: SiweService;
+}
+
+const registerSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, 'Username must be at least 3 characters').max(64),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+// Body of POST /siwe/nonce
+const siweNonceSchema = z.object({
+  address: z.string().min(1, 'Wallet address is required'),
+  chainId: z.number().int().positive().optional().default(1)
+});
+
+// Body of POST /siwe/verify
+const siweVerifySchema = z.object({
+  message: z.string().min(1, 'Message is required'),
+  signature: z.string().min(1, 'Signature is required')
+});
+
+// Routes under /api/auth: password accounts, sessions and SIWE wallet verification
+export function createAuthRouter({ storage, siwe: siweService }: AuthRouterDeps): Router {
+  const router = Router();
+
+  router.post('/register', async (req, res, next) => {
+    try {
+      const userData = registerSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(userData.username);
+      if (existingUser) {
+        return res.status(409).json({ error: 'Username already exists' });
+      }
+
+      const user = await storage.createUser(userData);
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json({ user: toPublicUser(user) });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
+      console.error('Error registering user:', error);
+      res.status(500).json({ error: 'Failed to register user' });
+    }
+  });
+
+  router.post('/login', (req, res, next) => {
+    passport.authenticate('local', (error: unknown, user: User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+
+      // Issue a fresh session id on login to prevent fixation
+      req.session.regenerate((regenerateError) => {
+        if (regenerateError) return next(regenerateError);
+        req.login(user, (loginError) => {
+          if (loginError) return next(loginError);
+          res.json({ user: toPublicUser(user) });
+        });
+      });
+    })(req, res, next);
+  });
+
+  router.post('/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie('connect.sid');
+        res.json({ success: true });
+      });
+    });
+  });
+
+  router.get('/me', requireAuth, (req, res) => {
+    res.json({ user: toPublicUser(req.user!) });
+  });
+
+  // Sign-In With Ethereum: issue a single-use challenge for the user to sign with their wallet
+  router.post('/siwe/nonce', requireAuth, async (req, res) => {
+    try {
+      const { address, chainId } = siweNonceSchema.parse(req.body);
+      const domain = req.get('host') || 'localhost';
+
+      const challenge = await siweService.createChallenge({
+        address,
+        userId: req.user!.id,
+        domain,
+        uri: `${req.protocol}://${domain}`,
+        chainId
+      });
+
+      res.json({
+        message: challenge.message,
+        nonce: challenge.nonce,
+        expiresAt: challenge.expiresAt.toISOString()
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
+      if (error instanceof SiweError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error creating SIWE nonce:', error);
+      res.status(500).json({ error: 'Failed to create sign-in challenge' });
+    }
+  });
+
+  // Verify the signed challenge and bind the wallet to this user and session
+  router.post('/siwe/verify', requireAuth, async (req, res) => {
+    try {
+      const { message, signature } = siweVerifySchema.parse(req.body);
+      const userId = req.user!.id;
+
+      const address = await siweService.verify({
+        message,
+        signature,
+        userId,
+        domain: req.get('host') || 'localhost'
+      });
+
+      // A valid signature proves control, so it also takes over a wallet linked to another account
+      const existingWallet = await storage.getWalletByAddress(address);
+      const wallet = existingWallet
+        ? await storage.updateWallet(existingWallet.id, { userId, verifiedAt: new Date() })
+        : await storage.createWallet({ address, userId, verifiedAt: new Date(), isConnected: false });
+
+      const verifiedWallets = req.session.verifiedWallets || [];
+      if (!verifiedWallets.includes(address)) {
+        req.session.verifiedWallets = [...verifiedWallets, address];
+      }
+
+      res.json({ success: true, address, wallet });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
+      if (error instanceof SiweError) {
+        return res.status(401).json({ error: error.message });
+      }
+      console.error('Error verifying SIWE signature:', error);
+      res.status(500).json({ error: 'Failed to verify signature' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,457 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { ethers } from 'ethers';
+import { storage } from '../storage';
+import { seedDatabase } from '../seed';
+import { createTestApp, loggedInAgent, serverUrl, verifyWallet, type TestApp } from '../test/app';
+
+const ZERO_ADDRESS = ethers.ZeroAddress;
+const OEC_ADDRESS = '0x1234567890123456789012345678901234567890';
+
+// CoinGecko ids the seed maps OEC, ELOQ/ETH and BNB to
+const coinGeckoPrices = {
+  bitcoin: { usd: 60000, usd_24h_change: 1.5 },
+  ethereum: { usd: 3000, usd_24h_change: -2 },
+  binancecoin: { usd: 500, usd_24h_change: 0.5 }
+};
+
+// Every chain reports 2 of its native token and 10 OEC; ELOQ reads fail
+const onchainBalances: Record<string, string> = {
+  [ZERO_ADDRESS]: '2.0',
+  [OEC_ADDRESS]: '10.0'
+};
+
+let app: TestApp;
+let userCount = 0;
+
+async function newUser() {
+  userCount += 1;
+  return loggedInAgent(app.server, `route-test-user-${userCount}`);
+}
+
+async function newVerifiedWallet() {
+  const agent = await newUser();
+  const signer = ethers.Wallet.createRandom();
+  const address = await verifyWallet(agent, signer);
+  const wallet = (await storage.getWalletByAddress(address))!;
+  return { agent, address, wallet };
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await seedDatabase();
+  app = await createTestApp();
+});
+
+afterAll(async () => {
+  await app.close();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  app.coinGecko.prices = coinGeckoPrices;
+  app.coinGecko.failure = null;
+  app.rpc.balances = onchainBalances;
+  app.rpc.failure = null;
+});
+
+afterEach(() => {
+  vi.mocked(console.error).mockRestore();
+});
+
+describe('GET /api/blockchain/prices', () => {
+  it('returns prices keyed by symbol and records price history', async () => {
+    const res = await request(serverUrl(app.server)).get('/api/blockchain/prices').expect(200);
+
+    expect(res.body.OEC).toMatchObject({ symbol: 'OEC', price: 60000, change24h: 1.5, provider: 'coingecko' });
+    expect(res.body.ETH).toMatchObject({ price: 3000, provider: 'coingecko' });
+    expect(res.body.BNB).toMatchObject({ price: 500, provider: 'coingecko' });
+
+    const oec = (await storage.getTokenBySymbol('OEC', 1))!;
+    const latest = await storage.getLatestPrice(oec.id);
+    expect(parseFloat(latest!.price)).toBe(60000);
+  });
+
+  it('reports tokens as unpriced rather than failing when the provider is down', async () => {
+    app.coinGecko.failure = new Error('CoinGecko API error: 503');
+
+    const res = await request(serverUrl(app.server)).get('/api/blockchain/prices').expect(200);
+
+    expect(res.body.OEC).toMatchObject({ symbol: 'OEC', price: null, change24h: null, provider: null });
+    expect(res.body.BNB.price).toBeNull();
+  });
+});
+
+describe('POST /api/blockchain/balances', () => {
+  it('requires a session', async () => {
+    await request(serverUrl(app.server))
+      .post('/api/blockchain/balances')
+      .send({ address: OEC_ADDRESS })
+      .expect(401);
+  });
+
+  it('rejects a missing address', async () => {
+    const agent = await newUser();
+    const res = await agent.post('/api/blockchain/balances').send({}).expect(400);
+    expect(Array.isArray(res.body.error)).toBe(true);
+  });
+
+  it('rejects an invalid address', async () => {
+    const agent = await newUser();
+    const res = await agent.post('/api/blockchain/balances').send({ address: 'not-an-address' }).expect(400);
+    expect(res.body).toEqual({ error: 'Invalid Ethereum address' });
+  });
+
+  it('returns 404 for a wallet the user does not own', async () => {
+    const { address } = await newVerifiedWallet();
+    const other = await newUser();
+    await other.post('/api/blockchain/balances').send({ address }).expect(404);
+  });
+
+  it('reads balances on every chain and persists them', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+
+    const res = await agent.post('/api/blockchain/balances').send({ address }).expect(200);
+
+    const bySymbol = Object.fromEntries(
+      Object.values(res.body.balances as Record<string, { symbol: string }>).map(b => [b.symbol, b])
+    );
+    expect(bySymbol.ETH).toMatchObject({ chainId: 1, balance: '2.0', usdValue: 6000 });
+    expect(bySymbol.BNB).toMatchObject({ chainId: 56, balance: '2.0', usdValue: 1000 });
+    expect(bySymbol.OEC).toMatchObject({ balance: '10.0', usdValue: 600000 });
+    expect(bySymbol.ELOQ).toMatchObject({ balance: null, usdValue: null });
+
+    const stored = await storage.getTokenBalances(wallet.id);
+    expect(stored).toHaveLength(3);
+  });
+
+  it('keeps stored balances when the RPC read fails', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    await agent.post('/api/blockchain/balances').send({ address }).expect(200);
+
+    app.rpc.failure = new Error('RPC unavailable');
+    const res = await agent.post('/api/blockchain/balances').send({ address }).expect(200);
+
+    const balances = Object.values(res.body.balances as Record<string, { balance: string | null }>);
+    expect(balances.every(b => b.balance === null)).toBe(true);
+
+    const stored = await storage.getTokenBalances(wallet.id);
+    expect(stored.map(b => parseFloat(b.balance)).sort((a, b) => a - b)).toEqual([2, 2, 10]);
+  });
+
+  it('keeps the stored USD value when a token has no price', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    const eth = (await storage.getTokenBySymbol('ETH', 1))!;
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: eth.id, balance: '1', usdValue: '2500' });
+
+    app.coinGecko.prices = {};
+    const res = await agent.post('/api/blockchain/balances').send({ address }).expect(200);
+
+    expect(res.body.balances[eth.id]).toMatchObject({ balance: '2.0', usdValue: null });
+    const stored = (await storage.getTokenBalances(wallet.id)).find(b => b.tokenId === eth.id)!;
+    expect(stored).toMatchObject({ balance: '2.0', usdValue: '2500' });
+  });
+});
+
+describe('POST /api/blockchain/portfolio', () => {
+  it('rejects an unknown cost basis method', async () => {
+    const { agent, address } = await newVerifiedWallet();
+    const res = await agent.post('/api/blockchain/portfolio').send({ address, method: 'hifo' }).expect(400);
+    expect(Array.isArray(res.body.error)).toBe(true);
+  });
+
+  it('returns 404 for an unknown wallet', async () => {
+    const agent = await newUser();
+    await agent
+      .post('/api/blockchain/portfolio')
+      .send({ address: ethers.Wallet.createRandom().address })
+      .expect(404);
+  });
+
+  it('values stored balances at current prices', async () => {
+    const { agent, address } = await newVerifiedWallet();
+    await agent.post('/api/blockchain/balances').send({ address }).expect(200);
+
+    const res = await agent.post('/api/blockchain/portfolio').send({ address }).expect(200);
+
+    expect(res.body).toMatchObject({ address, netWorth: 607000, costBasisMethod: 'fifo', totalTrades: 0 });
+    expect(res.body.tokens).toHaveLength(3);
+  });
+
+  it('fails with 500 when the portfolio cannot be saved', async () => {
+    const { agent, address } = await newVerifiedWallet();
+    const spy = vi.spyOn(storage, 'createPortfolio').mockRejectedValue(new Error('write failed'));
+
+    const res = await agent.post('/api/blockchain/portfolio').send({ address }).expect(500);
+
+    expect(res.body).toEqual({ error: 'Failed to calculate portfolio metrics' });
+    spy.mockRestore();
+  });
+});
+
+describe('GET /api/blockchain/transactions/:address', () => {
+  it('rejects an invalid address', async () => {
+    const agent = await newUser();
+    await agent.get('/api/blockchain/transactions/0x123').expect(400);
+  });
+
+  it('returns 404 for a wallet the user does not own', async () => {
+    const { address } = await newVerifiedWallet();
+    const other = await newUser();
+    await other.get(`/api/blockchain/transactions/${address}`).expect(404);
+  });
+
+  it('returns indexed transactions and cursors', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    const eth = (await storage.getTokenBySymbol('ETH', 1))!;
+    await storage.createTransaction({
+      walletId: wallet.id,
+      txHash: `0x${'ab'.repeat(32)}`,
+      type: 'buy',
+      tokenId: eth.id,
+      amount: '1.5',
+      usdValue: '4500',
+      timestamp: new Date('2024-01-01T00:00:00Z')
+    });
+    await storage.upsertIndexCursor({ walletId: wallet.id, chainId: 1, lastIndexedBlock: 19000000 });
+
+    const res = await agent.get(`/api/blockchain/transactions/${address}`).expect(200);
+
+    expect(res.body.address).toBe(address);
+    expect(res.body.transactions).toHaveLength(1);
+    expect(res.body.transactions[0]).toMatchObject({ type: 'buy', status: 'confirmed' });
+    expect(parseFloat(res.body.transactions[0].amount)).toBe(1.5);
+    expect(res.body.indexedThroughBlock).toEqual({ 1: 19000000 });
+  });
+
+  it('finds the wallet when the address is not checksummed', async () => {
+    const { agent, address } = await newVerifiedWallet();
+    const res = await agent.get(`/api/blockchain/transactions/${address.toLowerCase()}`).expect(200);
+    expect(res.body.transactions).toEqual([]);
+  });
+
+  async function seedHistory() {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    const eth = (await storage.getTokenBySymbol('ETH', 1))!;
+    const oec = (await storage.getTokenBySymbol('OEC', 1))!;
+    const rows = [
+      { type: 'buy', tokenId: eth.id, amount: '1', usdValue: '3000', day: 1 },
+      { type: 'sell', tokenId: eth.id, amount: '0.5', usdValue: '1600', day: 2 },
+      { type: 'claim', tokenId: oec.id, amount: '20', usdValue: null, day: 3 },
+      { type: 'buy', tokenId: oec.id, amount: '100', usdValue: '50', day: 4, status: 'failed' },
+      { type: 'transfer', tokenId: oec.id, amount: '10', usdValue: '5', day: 5 }
+    ];
+    for (const [i, row] of rows.entries()) {
+      await storage.createTransaction({
+        walletId: wallet.id,
+        txHash: `0x${wallet.id.slice(0, 8)}${i}`,
+        type: row.type,
+        tokenId: row.tokenId,
+        amount: row.amount,
+        usdValue: row.usdValue,
+        status: row.status ?? 'confirmed',
+        timestamp: new Date(Date.UTC(2024, 0, row.day))
+      });
+    }
+    return { agent, address, wallet };
+  }
+
+  it('pages through history with a cursor', async () => {
+    const { agent, address } = await seedHistory();
+
+    const first = await agent.get(`/api/blockchain/transactions/${address}?limit=2`).expect(200);
+    expect(first.body.transactions.map((tx: any) => tx.type)).toEqual(['transfer', 'buy']);
+    expect(first.body.transactions[0]).toMatchObject({ symbol: 'OEC', chainId: 1, blockNumber: null });
+
+    const second = await agent.get(`/api/blockchain/transactions/${address}?limit=2&cursor=${first.body.nextCursor}`).expect(200);
+    expect(second.body.transactions.map((tx: any) => tx.type)).toEqual(['claim', 'sell']);
+
+    const last = await agent.get(`/api/blockchain/transactions/${address}?limit=2&cursor=${second.body.nextCursor}`).expect(200);
+    expect(last.body.transactions.map((tx: any) => tx.type)).toEqual(['buy']);
+    expect(last.body.nextCursor).toBeNull();
+  });
+
+  it('filters by type, status, token, date, value and hash', async () => {
+    const { agent, address, wallet } = await seedHistory();
+    const types = async (query: string) =>
+      (await agent.get(`/api/blockchain/transactions/${address}?${query}`).expect(200)).body.transactions.map((tx: any) => tx.type);
+
+    expect(await types('type=buy,sell')).toEqual(['buy', 'sell', 'buy']);
+    expect(await types('status=failed')).toEqual(['buy']);
+    expect(await types('token=eth')).toEqual(['sell', 'buy']);
+    expect(await types('from=2024-01-02&to=2024-01-03')).toEqual(['claim', 'sell']);
+    expect(await types('minUsd=50')).toEqual(['buy', 'sell', 'buy']);
+    expect(await types(`search=${wallet.id.slice(0, 8).toUpperCase()}2`)).toEqual(['claim']);
+    expect(await types('token=NOPE')).toEqual([]);
+  });
+
+  it('sorts by USD value, treating a missing value as zero', async () => {
+    const { agent, address } = await seedHistory();
+
+    const asc = await agent.get(`/api/blockchain/transactions/${address}?sort=usdValue&order=asc&limit=3`).expect(200);
+    expect(asc.body.transactions.map((tx: any) => tx.usdValue)).toEqual([null, '5', '50']);
+
+    const rest = await agent.get(`/api/blockchain/transactions/${address}?sort=usdValue&order=asc&cursor=${asc.body.nextCursor}`).expect(200);
+    expect(rest.body.transactions.map((tx: any) => tx.usdValue)).toEqual(['1600', '3000']);
+  });
+
+  it('rejects bad filters and cursors made for another sort', async () => {
+    const { agent, address } = await seedHistory();
+    await agent.get(`/api/blockchain/transactions/${address}?type=swap`).expect(400);
+    await agent.get(`/api/blockchain/transactions/${address}?cursor=garbage`).expect(400);
+
+    const page = await agent.get(`/api/blockchain/transactions/${address}?limit=1`).expect(200);
+    const res = await agent.get(`/api/blockchain/transactions/${address}?sort=amount&cursor=${page.body.nextCursor}`).expect(400);
+    expect(res.body.error).toBe('Invalid or expired cursor');
+  });
+});
+
+describe('GET /api/blockchain/staking/:address', () => {
+  it('rejects an invalid address', async () => {
+    const agent = await newUser();
+    await agent.get('/api/blockchain/staking/not-an-address').expect(400);
+  });
+
+  it('returns 404 for a wallet the user does not own', async () => {
+    const { address } = await newVerifiedWallet();
+    const other = await newUser();
+    await other.get(`/api/blockchain/staking/${address}`).expect(404);
+  });
+
+  it('values rewards with the reward token price', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    const oec = (await storage.getTokenBySymbol('OEC', 1))!;
+    await storage.upsertStakingPosition({
+      walletId: wallet.id,
+      tokenId: oec.id,
+      rewardTokenId: oec.id,
+      chainId: 1,
+      poolAddress: '0x2222222222222222222222222222222222222222',
+      poolName: 'OEC Staking',
+      stakingType: 'staking',
+      stakedAmount: '100',
+      rewardsEarned: '2',
+      unclaimedRewards: '0.5',
+      apy: '12.5'
+    });
+
+    const res = await agent.get(`/api/blockchain/staking/${address}`).expect(200);
+
+    expect(res.body.stakingPositions).toHaveLength(1);
+    expect(res.body.stakingPositions[0]).toMatchObject({
+      poolName: 'OEC Staking',
+      token: { symbol: 'OEC' },
+      rewardToken: { symbol: 'OEC' },
+      stakedUsd: 6000000,
+      rewardsEarnedUsd: 120000,
+      unclaimedRewardsUsd: 30000
+    });
+  });
+
+  it('values LP farm stakes from the synced pair value', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    const oec = (await storage.getTokenBySymbol('OEC', 1))!;
+    await storage.upsertStakingPosition({
+      walletId: wallet.id,
+      tokenId: oec.id,
+      chainId: 1,
+      poolAddress: '0x4444444444444444444444444444444444444444',
+      poolName: 'OEC/ETH Farm',
+      stakingType: 'farming',
+      stakedAmount: '3',
+      lpToken: true,
+      stakedUsdValue: '1500'
+    });
+
+    const res = await agent.get(`/api/blockchain/staking/${address}`).expect(200);
+
+    expect(res.body.stakingPositions[0]).toMatchObject({ lpToken: true, stakedAmount: '3', stakedUsd: 1500 });
+  });
+
+  it('reports reward values as unknown when the reward token has no price', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    const oec = (await storage.getTokenBySymbol('OEC', 1))!;
+    await storage.upsertStakingPosition({
+      walletId: wallet.id,
+      tokenId: oec.id,
+      rewardTokenId: oec.id,
+      chainId: 1,
+      poolAddress: '0x2222222222222222222222222222222222222222',
+      poolName: 'OEC Staking',
+      stakingType: 'staking',
+      rewardsEarned: '2'
+    });
+    app.coinGecko.failure = new Error('CoinGecko API error: 429');
+
+    const res = await agent.get(`/api/blockchain/staking/${address}`).expect(200);
+
+    expect(res.body.stakingPositions[0]).toMatchObject({ rewardsEarnedUsd: null, unclaimedRewardsUsd: null });
+  });
+});
+
+describe('POST /api/blockchain/wallet/connect', () => {
+  it('rejects a missing address', async () => {
+    const agent = await newUser();
+    const res = await agent.post('/api/blockchain/wallet/connect').send({}).expect(400);
+    expect(res.body.error).toBe('Invalid request data');
+  });
+
+  it('refuses wallets that were not verified with SIWE', async () => {
+    const agent = await newUser();
+    const res = await agent
+      .post('/api/blockchain/wallet/connect')
+      .send({ address: ethers.Wallet.createRandom().address })
+      .expect(403);
+    expect(res.body).toEqual({ error: 'Wallet ownership not verified' });
+  });
+
+  it('connects a verified wallet once', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+
+    const first = await agent.post('/api/blockchain/wallet/connect').send({ address, network: 'bsc' }).expect(200);
+    expect(first.body).toMatchObject({ success: true, message: 'Wallet connected successfully' });
+    expect(first.body.wallet).toMatchObject({ id: wallet.id, isConnected: true, network: 'bsc' });
+
+    const second = await agent.post('/api/blockchain/wallet/connect').send({ address }).expect(200);
+    expect(second.body.message).toBe('Wallet already connected');
+  });
+});
+
+describe('POST /api/blockchain/wallet/disconnect', () => {
+  it('rejects a missing address', async () => {
+    const agent = await newUser();
+    const res = await agent.post('/api/blockchain/wallet/disconnect').send({}).expect(400);
+    expect(res.body.error).toBe('Invalid request data');
+  });
+
+  it('returns 404 for an unknown wallet', async () => {
+    const agent = await newUser();
+    await agent
+      .post('/api/blockchain/wallet/disconnect')
+      .send({ address: ethers.Wallet.createRandom().address })
+      .expect(404);
+  });
+
+  it('removes the wallet and its data', async () => {
+    const { agent, address, wallet } = await newVerifiedWallet();
+    await agent.post('/api/blockchain/balances').send({ address }).expect(200);
+
+    const res = await agent.post('/api/blockchain/wallet/disconnect').send({ address }).expect(200);
+
+    expect(res.body).toEqual({ success: true, message: 'Wallet disconnected successfully' });
+    expect(await storage.getWalletByAddress(address)).toBeUndefined();
+    expect(await storage.getTokenBalances(wallet.id)).toHaveLength(0);
+  });
+
+  it('removes a wallet given in lowercase', async () => {
+    const { agent, address } = await newVerifiedWallet();
+    await agent.post('/api/blockchain/wallet/disconnect').send({ address: address.toLowerCase() }).expect(200);
+    expect(await storage.getWalletByAddress(address)).toBeUndefined();
+  });
+
+  it('rejects an invalid address', async () => {
+    const agent = await newUser();
+    await agent.post('/api/blockchain/wallet/disconnect').send({ address: '0x123' }).expect(400);
+  });
+});
@@ -1,358 +1,426 @@
 import { Router } from 'express';
-import { coinGeckoService, ethereumService, portfolioService } from '../services/blockchain';
-import { storage } from '../storage';
-import { insertPriceHistorySchema, insertTokenBalanceSchema, insertPortfolioSchema } from '@shared/schema';
+import { DEFAULT_CHAIN_ID } from '@shared/chains';
+import { transactionSortFields, type IStorage } from '../storage';
+import type { ChainServiceRegistry } from '../services/blockchain';
+import { buildPriceTable, type TokenPriceResolver } from '../services/priceSources';
+import type { BalanceSyncService } from '../services/balanceSync';
+import { historyRanges, type PortfolioTracker } from '../services/portfolioTracker';
+import { costBasisMethods } from '../services/costBasis';
+import { loadTransactionHistory, transactionTypes, InvalidTransactionCursorError, type TransactionIndexer } from '../services/transactionIndexer';
+import { stakedUsdValue, type StakingSyncService } from '../services/stakingSync';
+import type { PriceHistoryRecorder } from '../services/priceHistory';
+import { requireAuth, isWalletVerified, getOwnedWallet } from '../auth';
 import { z } from 'zod';
 
-const router = Router();
-
-// Get live token prices
-router.get('/prices', async (req, res) => {
-  try {
-    const tokens = await storage.getAllTokens();
-    const prices: Record<string, any> = {};
-
-    // Map token symbols to CoinGecko IDs (in real implementation, this would be in the database)
-    const tokenIdMap: Record<string, string> = {
-      'OEC': 'bitcoin', // Using real tokens for demo - Bitcoin for OEC
-      'ELOQ': 'ethereum', // Using real tokens for demo - Ethereum for ELOQ
-      'ETH': 'ethereum'
-    };
-
-    // Fetch prices for all tokens
-    const coinGeckoIds = Object.values(tokenIdMap);
-    const priceData = await coinGeckoService.getMultipleTokenPrices(coinGeckoIds);
-
-    // Format response
-    for (const token of tokens) {
-      const coinGeckoId = tokenIdMap[token.symbol];
-      if (coinGeckoId && priceData[coinGeckoId]) {
-        prices[token.symbol] = {
-          symbol: token.symbol,
-          name: token.name,
-          price: priceData[coinGeckoId].usd,
-          change24h: priceData[coinGeckoId].usd_24h_change,
-          lastUpdated: new Date().toISOString()
-        };
-
-        // Store price history in database
-        try {
-          await storage.createPriceHistory({
-            tokenId: token.id,
-            price: priceData[coinGeckoId].usd.toString(),
-            timestamp: new Date()
-          });
-        } catch (error) {
-          console.error(`Failed to store price history for ${token.symbol}:`, error);
-        }
-      } else {
-        // Return placeholder data for tokens not found in CoinGecko
-        prices[token.symbol] = {
-          symbol: token.symbol,
-          name: token.name,
-          price: 0,
-          change24h: 0,
-          lastUpdated: new Date().toISOString()
-        };
-      }
-    }
-
-    res.json(prices);
-  } catch (error) {
-    console.error('Error fetching token prices:', error);
-    res.status(500).json({ error: 'Failed to fetch token prices' });
-  }
+export interface BlockchainRouterDeps {
+  storage: IStorage;
+  prices: TokenPriceResolver;
+  priceHistory: PriceHistoryRecorder;
+  chain: ChainServiceRegistry;
+  portfolio: PortfolioTracker;
+  balances: BalanceSyncService;
+  transactions: TransactionIndexer;
+  staking: StakingSyncService;
+}
+
+// Comma-separated ("buy,sell") or repeated (?type=buy&type=sell) query values
+function listParam<T extends [string, ...string[]]>(values: T) {
+  return z.union([z.string(), z.array(z.string())])
+    .transform(value => (Array.isArray(value) ? value : value.split(',')).map(item => item.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)));
+}
+
+// Query of GET /transactions/:address
+const transactionQuerySchema = z.object({
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  sort: z.enum(transactionSortFields).optional().default('timestamp'),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+  type: listParam([...transactionTypes]).optional(),
+  status: listParam(['pending', 'confirmed', 'failed']).optional(),
+  // Token symbol, matched on every chain
+  token: z.string().trim().min(1).max(20).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minUsd: z.coerce.number().min(0).optional(),
+  // Substring of the transaction hash
+  search: z.string().trim().min(1).max(100).optional()
 });
 
-// Get wallet balances
+// Body of POST /balances
 const getWalletBalancesSchema = z.object({
   address: z.string().min(1, 'Wallet address is required')
 });
 
-router.post('/balances', async (req, res) => {
-  try {
-    const { address } = getWalletBalancesSchema.parse(req.body);
+// Body of POST /portfolio
+const portfolioRequestSchema = getWalletBalancesSchema.extend({
+  method: z.enum(costBasisMethods).optional().default('fifo')
+});
+
+// Query of GET /portfolio/:address/history
+const portfolioHistoryQuerySchema = z.object({
+  range: z.enum(historyRanges).optional().default('7d')
+});
+
+// Blocks per chain an on-demand sync may scan; the scheduled indexer job covers the rest
+const SYNC_MAX_BLOCKS = 500;
+
+// Bodies of the wallet connect/disconnect endpoints
+const connectWalletSchema = z.object({
+  address: z.string().min(1, 'Wallet address is required'),
+  network: z.string().optional().default('ethereum')
+});
+
+const disconnectWalletSchema = z.object({
+  address: z.string().min(1, 'Wallet address is required')
+});
 
-    // Validate Ethereum address
-    if (!await ethereumService.isValidAddress(address)) {
-      return res.status(400).json({ error: 'Invalid Ethereum address' });
+// Routes under /api/blockchain, built from the services they call so tests can pass fakes
+export function createBlockchainRouter({
+  storage,
+  prices: tokenPriceResolver,
+  priceHistory: priceHistoryRecorder,
+  chain,
+  portfolio: portfolioTracker,
+  balances: balanceSyncService,
+  transactions: transactionIndexer,
+  staking: stakingSyncService
+}: BlockchainRouterDeps): Router {
+  const router = Router();
+  const ethereumService = chain.get(DEFAULT_CHAIN_ID);
+
+  // Get live token prices
+  router.get('/prices', async (req, res) => {
+    try {
+      const tokens = await storage.getAllTokens();
+
+      // Resolve prices through the token price source registry
+      const priceData = await tokenPriceResolver.resolvePrices(tokens);
+      const prices = buildPriceTable(tokens, priceData);
+
+      // Fold new quotes into price history and candles
+      await priceHistoryRecorder.record(priceData);
+
+      res.json(prices);
+    } catch (error) {
+      console.error('Error fetching token prices:', error);
+      res.status(500).json({ error: 'Failed to fetch token prices' });
     }
+  });
 
-    const tokens = await storage.getAllTokens();
-    const balances: Record<string, any> = {};
+  // Get health of the price provider chain
+  router.get('/prices/providers', (req, res) => {
+    res.json({ providers: tokenPriceResolver.getProviderHealth() });
+  });
 
-    // Get ETH balance
-    const ethBalance = await ethereumService.getETHBalance(address);
-    
-    // Get token balances (for now, we'll use placeholder addresses)
-    for (const token of tokens) {
-      if (token.symbol === 'ETH') {
-        balances[token.symbol] = {
-          tokenId: token.id,
-          symbol: token.symbol,
-          balance: ethBalance,
-          decimals: token.decimals,
-          address: token.address
-        };
-      } else {
-        // For OEC and ELOQ, we'll use placeholder balances since we don't have real contract addresses
-        balances[token.symbol] = {
-          tokenId: token.id,
-          symbol: token.symbol,
-          balance: '0', // Would fetch from contract in real implementation
-          decimals: token.decimals,
-          address: token.address
-        };
+  // Get wallet balances
+  router.post('/balances', requireAuth, async (req, res) => {
+    try {
+      const { address } = getWalletBalancesSchema.parse(req.body);
+
+      // Validate Ethereum address
+      if (!await ethereumService.isValidAddress(address)) {
+        return res.status(400).json({ error: 'Invalid Ethereum address' });
       }
-    }
 
-    res.json({ address, balances });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ error: error.errors });
-    }
-    console.error('Error fetching wallet balances:', error);
-    res.status(500).json({ error: 'Failed to fetch wallet balances' });
-  }
-});
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
 
-// Calculate and get portfolio metrics
-router.post('/portfolio', async (req, res) => {
-  try {
-    const { address } = getWalletBalancesSchema.parse(req.body);
+      // Read every registered token's balance on-chain and persist it
+      const balances = await balanceSyncService.syncBalances(address, wallet);
 
-    // Get wallet from database
-    let wallet = await storage.getWalletByAddress(address);
-    if (!wallet) {
-      return res.status(404).json({ error: 'Wallet not found' });
+      res.json({ address, balances });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Error fetching wallet balances:', error);
+      res.status(500).json({ error: 'Failed to fetch wallet balances' });
     }
+  });
 
-    // Get current token balances from database
-    const tokenBalances = await storage.getTokenBalances(wallet.id);
-    const tokens = await storage.getAllTokens();
-    
-    // Get current prices
-    const tokenIdMap: Record<string, string> = {
-      'OEC': 'bitcoin', // Using real tokens for demo - Bitcoin for OEC
-      'ELOQ': 'ethereum', // Using real tokens for demo - Ethereum for ELOQ
-      'ETH': 'ethereum'
-    };
-    
-    const coinGeckoIds = Object.values(tokenIdMap);
-    const priceData = await coinGeckoService.getMultipleTokenPrices(coinGeckoIds);
-
-    // Calculate portfolio metrics
-    const portfolioTokens = tokenBalances.map(balance => {
-      const token = tokens.find(t => t.id === balance.tokenId);
-      const coinGeckoId = token ? tokenIdMap[token.symbol] : null;
-      const price = coinGeckoId && priceData[coinGeckoId] ? priceData[coinGeckoId].usd : 0;
-
-      return {
-        tokenAddress: token?.address || '',
-        balance: balance.balance,
-        decimals: token?.decimals || 18,
-        priceUsd: price
-      };
-    });
-
-    const metrics = await portfolioService.calculatePortfolioMetrics(address, portfolioTokens);
-    const healthScore = portfolioService.calculateHealthScore(metrics);
-
-    // Update or create portfolio record
-    const portfolioData = {
-      walletId: wallet.id,
-      netWorth: metrics.netWorth.toString(),
-      pnl: '0', // Would calculate based on historical data
-      pnlPercentage: '0',
-      totalTrades: 0, // Would get from transaction history
-      healthScore
-    };
-
-    const existingPortfolio = await storage.getPortfolio(wallet.id);
-    if (existingPortfolio) {
-      await storage.updatePortfolio(wallet.id, portfolioData);
-    } else {
-      await storage.createPortfolio(portfolioData);
+  // Calculate and get portfolio metrics
+  router.post('/portfolio', requireAuth, async (req, res) => {
+    try {
+      const { address, method } = portfolioRequestSchema.parse(req.body);
+
+      // Get wallet from database
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      // Recalculate metrics from stored balances and persist the portfolio record
+      const { metrics, healthScore, healthReport, pnl, prices } = await portfolioTracker.refreshPortfolio(wallet, method);
+
+      res.json({
+        address,
+        netWorth: metrics.netWorth,
+        pnl: pnl.totalPnl,
+        pnlPercentage: pnl.pnlPercentage,
+        realizedPnl: pnl.realizedPnl,
+        unrealizedPnl: pnl.unrealizedPnl,
+        costBasisMethod: pnl.method,
+        totalTrades: pnl.totalTrades,
+        healthScore,
+        healthReport,
+        tokens: metrics.tokens,
+        pricesAsOf: prices.asOf,
+        pricesStale: prices.stale,
+        unpricedTokens: prices.unpriced,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Error calculating portfolio:', error);
+      res.status(500).json({ error: 'Failed to calculate portfolio metrics' });
     }
+  });
+
+  // Get historical net-worth series for a wallet
+  router.get('/portfolio/:address/history', requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
+      const { range } = portfolioHistoryQuerySchema.parse(req.query);
+
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      const points = await portfolioTracker.getHistory(wallet.id, range);
 
-    res.json({
-      address,
-      netWorth: metrics.netWorth,
-      healthScore,
-      tokens: metrics.tokens,
-      lastUpdated: new Date().toISOString()
-    });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ error: error.errors });
+      res.json({
+        address,
+        range,
+        points,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Error fetching portfolio history:', error);
+      res.status(500).json({ error: 'Failed to fetch portfolio history' });
     }
-    console.error('Error calculating portfolio:', error);
-    res.status(500).json({ error: 'Failed to calculate portfolio metrics' });
-  }
-});
+  });
+
+  // Get a page of a wallet's transaction history, filtered and sorted
+  router.get('/transactions/:address', requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
 
-// Get transaction history for a wallet
-router.get('/transactions/:address', async (req, res) => {
-  try {
-    const { address } = req.params;
+      if (!await ethereumService.isValidAddress(address)) {
+        return res.status(400).json({ error: 'Invalid Ethereum address' });
+      }
 
-    if (!await ethereumService.isValidAddress(address)) {
-      return res.status(400).json({ error: 'Invalid Ethereum address' });
+      const { type, status, minUsd, ...query } = transactionQuerySchema.parse(req.query);
+
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      const history = await loadTransactionHistory(storage, wallet, { ...query, types: type, statuses: status, minUsdValue: minUsd });
+
+      res.json({ ...history, address });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof InvalidTransactionCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error fetching transactions:', error);
+      res.status(500).json({ error: 'Failed to fetch transaction history' });
     }
+  });
 
-    // Get transactions from blockchain
-    const blockchainTxs = await ethereumService.getTransactionHistory(address);
-    
-    // Get stored transactions from database
-    const wallet = await storage.getWalletByAddress(address);
-    const storedTxs = wallet ? await storage.getTransactions(wallet.id, 50) : [];
-
-    res.json({
-      address,
-      transactions: storedTxs.map(tx => ({
-        id: tx.id,
-        txHash: tx.txHash,
-        type: tx.type,
-        amount: tx.amount,
-        usdValue: tx.usdValue,
-        timestamp: tx.timestamp,
-        status: tx.status
-      })),
-      blockchainData: blockchainTxs.length,
-      lastUpdated: new Date().toISOString()
-    });
-  } catch (error) {
-    console.error('Error fetching transactions:', error);
-    res.status(500).json({ error: 'Failed to fetch transaction history' });
-  }
-});
+  // Index new on-chain transfers for a wallet on demand
+  router.post('/transactions/:address/sync', requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
+
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
 
-// Get staking positions for a wallet
-router.get('/staking/:address', async (req, res) => {
-  try {
-    const { address } = req.params;
+      const result = await transactionIndexer.indexWallet(wallet, SYNC_MAX_BLOCKS);
 
-    if (!await ethereumService.isValidAddress(address)) {
-      return res.status(400).json({ error: 'Invalid Ethereum address' });
+      res.json({
+        address,
+        ...result,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error indexing transactions:', error);
+      res.status(500).json({ error: 'Failed to index transactions' });
     }
+  });
+
+  // Get staking positions for a wallet
+  router.get('/staking/:address', requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
+
+      if (!await ethereumService.isValidAddress(address)) {
+        return res.status(400).json({ error: 'Invalid Ethereum address' });
+      }
+
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      const stakingPositions = await storage.getActiveStakingPositions(wallet.id);
+      const tokens = await storage.getAllTokens();
+      const priceData = await tokenPriceResolver.resolvePrices(tokens);
+      const stakedPrices: Record<string, number> = {};
+      for (const [tokenId, price] of Object.entries(priceData)) {
+        stakedPrices[tokenId] = price.usd;
+      }
+
+      const positionsWithTokenData = stakingPositions.map(position => {
+        const token = tokens.find(t => t.id === position.tokenId);
+        const rewardToken = tokens.find(t => t.id === position.rewardTokenId);
+        const rewardPrice = position.rewardTokenId ? priceData[position.rewardTokenId]?.usd : undefined;
+        return {
+          id: position.id,
+          poolName: position.poolName,
+          poolAddress: position.poolAddress,
+          chainId: position.chainId,
+          stakingType: position.stakingType,
+          token: token ? {
+            symbol: token.symbol,
+            name: token.name
+          } : null,
+          rewardToken: rewardToken ? {
+            symbol: rewardToken.symbol,
+            name: rewardToken.name
+          } : null,
+          stakedAmount: position.stakedAmount,
+          lpToken: position.lpToken,
+          // null when the staked token (or LP pair) has no price
+          stakedUsd: stakedUsdValue(position, stakedPrices),
+          rewardsEarned: position.rewardsEarned,
+          unclaimedRewards: position.unclaimedRewards,
+          // null when the reward token has no price
+          rewardsEarnedUsd: rewardPrice !== undefined ? parseFloat(position.rewardsEarned) * rewardPrice : null,
+          unclaimedRewardsUsd: rewardPrice !== undefined ? parseFloat(position.unclaimedRewards) * rewardPrice : null,
+          apy: position.apy,
+          isActive: position.isActive,
+          createdAt: position.createdAt,
+          updatedAt: position.updatedAt
+        };
+      });
 
-    const wallet = await storage.getWalletByAddress(address);
-    if (!wallet) {
-      return res.status(404).json({ error: 'Wallet not found' });
+      res.json({
+        address,
+        stakingPositions: positionsWithTokenData,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error fetching staking positions:', error);
+      res.status(500).json({ error: 'Failed to fetch staking positions' });
     }
+  });
 
-    const stakingPositions = await storage.getActiveStakingPositions(wallet.id);
-    const tokens = await storage.getAllTokens();
-
-    const positionsWithTokenData = stakingPositions.map(position => {
-      const token = tokens.find(t => t.id === position.tokenId);
-      return {
-        id: position.id,
-        poolName: position.poolName,
-        stakingType: position.stakingType,
-        token: token ? {
-          symbol: token.symbol,
-          name: token.name
-        } : null,
-        stakedAmount: position.stakedAmount,
-        rewardsEarned: position.rewardsEarned,
-        unclaimedRewards: position.unclaimedRewards,
-        apy: position.apy,
-        isActive: position.isActive,
-        createdAt: position.createdAt
-      };
-    });
-
-    res.json({
-      address,
-      stakingPositions: positionsWithTokenData,
-      lastUpdated: new Date().toISOString()
-    });
-  } catch (error) {
-    console.error('Error fetching staking positions:', error);
-    res.status(500).json({ error: 'Failed to fetch staking positions' });
-  }
-});
+  // Read a wallet's staking pool positions on demand
+  router.post('/staking/:address/sync', requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
 
-// Wallet connection endpoints
-const connectWalletSchema = z.object({
-  address: z.string().min(1, 'Wallet address is required'),
-  userId: z.string().optional(),
-  network: z.string().optional().default('ethereum')
-});
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
 
-const disconnectWalletSchema = z.object({
-  address: z.string().min(1, 'Wallet address is required')
-});
+      const positions = await stakingSyncService.syncWallet(wallet);
 
-router.post('/wallet/connect', async (req, res) => {
-  try {
-    const { address, userId, network } = connectWalletSchema.parse(req.body);
-    
-    // Check if wallet already exists
-    const existingWallet = await storage.getWalletByAddress(address);
-    if (existingWallet) {
-      // Update to connected state and return
-      const updatedWallet = await storage.updateWallet(existingWallet.id, {
+      res.json({
+        address,
+        synced: positions.length,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error syncing staking positions:', error);
+      res.status(500).json({ error: 'Failed to sync staking positions' });
+    }
+  });
+
+  // Wallet connection endpoints
+  router.post('/wallet/connect', requireAuth, async (req, res) => {
+    try {
+      const { address, network } = connectWalletSchema.parse(req.body);
+
+      // Only wallets this session has proven control of via SIWE can be connected
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet || !wallet.verifiedAt || !isWalletVerified(req, address)) {
+        return res.status(403).json({ error: 'Wallet ownership not verified' });
+      }
+
+      const alreadyConnected = wallet.isConnected;
+      const updatedWallet = await storage.updateWallet(wallet.id, {
+        network,
         isConnected: true
       });
-      return res.json({ 
+
+      res.json({ 
         success: true, 
         wallet: updatedWallet,
-        message: 'Wallet already connected' 
+        message: alreadyConnected ? 'Wallet already connected' : 'Wallet connected successfully' 
       });
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to connect wallet' });
     }
+  });
 
-    // Create new wallet with connected state
-    const newWallet = await storage.createWallet({
-      address,
-      userId: userId || null,
-      network,
-      isConnected: true
-    });
-
-    res.json({ 
-      success: true, 
-      wallet: newWallet,
-      message: 'Wallet connected successfully' 
-    });
-  } catch (error) {
-    console.error('Error connecting wallet:', error);
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ error: 'Invalid request data', details: error.errors });
-    }
-    res.status(500).json({ error: 'Failed to connect wallet' });
-  }
-});
+  router.post('/wallet/disconnect', requireAuth, async (req, res) => {
+    try {
+      const { address } = disconnectWalletSchema.parse(req.body);
 
-router.post('/wallet/disconnect', async (req, res) => {
-  try {
-    const { address } = disconnectWalletSchema.parse(req.body);
-    
-    // Check if wallet exists
-    const existingWallet = await storage.getWalletByAddress(address);
-    if (!existingWallet) {
-      return res.status(404).json({ error: 'Wallet not found' });
-    }
+      if (!await ethereumService.isValidAddress(address)) {
+        return res.status(400).json({ error: 'Invalid Ethereum address' });
+      }
+
+      // Check if wallet exists
+      const existingWallet = await getOwnedWallet(req, address, storage);
+      if (!existingWallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
 
-    // Delete wallet and related data
-    const deleted = await storage.deleteWallet(address);
+      if (!existingWallet.verifiedAt || !isWalletVerified(req, address)) {
+        return res.status(403).json({ error: 'Wallet ownership not verified' });
+      }
+
+      // Delete wallet and related data
+      const deleted = await storage.deleteWallet(existingWallet.address);
     
-    if (deleted) {
-      res.json({ 
-        success: true, 
-        message: 'Wallet disconnected successfully' 
-      });
-    } else {
+      if (deleted) {
+        res.json({ 
+          success: true, 
+          message: 'Wallet disconnected successfully' 
+        });
+      } else {
+        res.status(500).json({ error: 'Failed to disconnect wallet' });
+      }
+    } catch (error) {
+      console.error('Error disconnecting wallet:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+      }
       res.status(500).json({ error: 'Failed to disconnect wallet' });
     }
-  } catch (error) {
-    console.error('Error disconnecting wallet:', error);
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ error: 'Invalid request data', details: error.errors });
-    }
-    res.status(500).json({ error: 'Failed to disconnect wallet' });
-  }
-});
+  });
 
-export default router;
\ No newline at end of file
+  return router;
+}
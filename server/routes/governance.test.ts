@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+import { ethers } from 'ethers';
+import { storage } from '../storage';
+import { seedDatabase } from '../seed';
+import { GovernanceService } from '../services/governance';
+import { createTestApp, loggedInAgent, serverUrl, verifyWallet, type TestApp } from '../test/app';
+import { FakeGovernorAdapter, TEST_GOVERNOR, fakeGovernorChains, type FakeGovernorNode } from '../test/governance';
+
+let app: TestApp;
+let adapter: FakeGovernorAdapter;
+let node: FakeGovernorNode;
+let userCount = 0;
+
+async function newVerifiedWallet() {
+  userCount += 1;
+  const agent = await loggedInAgent(app.server, `governance-test-user-${userCount}`);
+  const address = await verifyWallet(agent, ethers.Wallet.createRandom());
+  return { agent, address };
+}
+
+function proposal(proposalId: string, status: string, snapshotBlock: number, createdBlock: number) {
+  return storage.upsertProposal({
+    chainId: TEST_GOVERNOR.chainId,
+    governorAddress: TEST_GOVERNOR.address,
+    proposalId,
+    proposer: TEST_GOVERNOR.address,
+    title: `Proposal ${proposalId}`,
+    description: `Proposal ${proposalId}`,
+    snapshotBlock,
+    endBlock: snapshotBlock + 100,
+    status,
+    createdBlock,
+    createdTxHash: `0x${proposalId}`
+  });
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await seedDatabase();
+  node = { head: 100, deployed: new Set([TEST_GOVERNOR.address.toLowerCase()]), logs: [] };
+  adapter = new FakeGovernorAdapter();
+  const governance = new GovernanceService(storage, fakeGovernorChains(node), [TEST_GOVERNOR], { oz_governor: adapter, compound_bravo: adapter });
+  app = await createTestApp({ governance });
+
+  await proposal('1', 'executed', 40, 30);
+  await proposal('2', 'active', 90, 80);
+  await proposal('3', 'active', 150, 95);
+});
+
+afterAll(async () => {
+  await app.close();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  app.coinGecko.prices = { bitcoin: { usd: 2, usd_24h_change: 0 } };
+  adapter.currentVotes = ethers.parseEther('7');
+  adapter.priorVotes = new Map([[90, ethers.parseEther('5')]]);
+});
+
+describe('GET /api/governance/proposals', () => {
+  it('lists proposals newest first without a session', async () => {
+    const res = await request(serverUrl(app.server)).get('/api/governance/proposals').expect(200);
+    expect(res.body.proposals.map((p: any) => p.proposalId)).toEqual(['3', '2', '1']);
+  });
+
+  it('filters by status and limit', async () => {
+    const res = await request(serverUrl(app.server)).get('/api/governance/proposals?status=active&limit=1').expect(200);
+    expect(res.body.proposals.map((p: any) => p.proposalId)).toEqual(['3']);
+  });
+
+  it('rejects an unknown status', async () => {
+    await request(serverUrl(app.server)).get('/api/governance/proposals?status=passed').expect(400);
+  });
+});
+
+describe('GET /api/governance/:address/power', () => {
+  it('requires a session', async () => {
+    await request(serverUrl(app.server)).get(`/api/governance/${TEST_GOVERNOR.address}/power`).expect(401);
+  });
+
+  it('rejects an invalid address', async () => {
+    const { agent } = await newVerifiedWallet();
+    await agent.get('/api/governance/0x123/power').expect(400);
+  });
+
+  it('returns 404 for a wallet the user does not own', async () => {
+    const { address } = await newVerifiedWallet();
+    const { agent } = await newVerifiedWallet();
+    await agent.get(`/api/governance/${address}/power`).expect(404);
+  });
+
+  it('reports votes now and at each snapshot, valued at the voting token price', async () => {
+    const { agent, address } = await newVerifiedWallet();
+
+    const res = await agent.get(`/api/governance/${address.toLowerCase()}/power`).expect(200);
+
+    // Seeded OEC is priced from the `bitcoin` feed
+    expect(res.body).toMatchObject({ votingPower: 7, votingPowerUsd: 14, activeProposals: 2 });
+    expect(res.body.governors[0].proposals.map((p: any) => [p.proposalId, p.votingPower])).toEqual([
+      ['3', '7.0'],
+      ['2', '5.0'],
+      ['1', '0.0']
+    ]);
+  });
+
+  it('reports the USD value as unknown when the voting token has no price', async () => {
+    const { agent, address } = await newVerifiedWallet();
+    app.coinGecko.prices = {};
+
+    const res = await agent.get(`/api/governance/${address}/power`).expect(200);
+
+    expect(res.body).toMatchObject({ votingPower: 7, votingPowerUsd: null });
+  });
+});
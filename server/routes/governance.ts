@@ -0,0 +1,152 @@
+import { Router } from 'express';
+import { DEFAULT_CHAIN_ID } from '@shared/chains';
+import type { IStorage } from '../storage';
+import type { ChainServiceRegistry } from '../services/blockchain';
+import type { GovernanceService } from '../services/governance';
+import { proposalStates } from '../services/governanceAdapters';
+import type { TokenPriceResolver } from '../services/priceSources';
+import { requireAuth, getOwnedWallet } from '../auth';
+import { z } from 'zod';
+
+export interface GovernanceRouterDeps {
+  storage: IStorage;
+  prices: TokenPriceResolver;
+  chain: ChainServiceRegistry;
+  governance: GovernanceService;
+}
+
+const proposalsQuerySchema = z.object({
+  status: z.enum(proposalStates).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50)
+});
+
+// Routes under /api/governance; proposal lists are public, wallet routes check auth themselves
+export function createGovernanceRouter({
+  storage,
+  prices: tokenPriceResolver,
+  chain,
+  governance: governanceService
+}: GovernanceRouterDeps): Router {
+  const router = Router();
+  const ethereumService = chain.get(DEFAULT_CHAIN_ID);
+
+  // List indexed proposals, newest first
+  router.get('/proposals', async (req, res) => {
+    try {
+      const { status, limit } = proposalsQuerySchema.parse(req.query);
+
+      const proposals = await storage.getProposals({ status, limit });
+
+      res.json({
+        proposals,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Error fetching proposals:', error);
+      res.status(500).json({ error: 'Failed to fetch proposals' });
+    }
+  });
+
+  // One proposal with every vote cast on it
+  router.get('/proposals/:id', async (req, res) => {
+    try {
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ error: 'Proposal not found' });
+      }
+
+      const votes = await storage.getProposalVotes(proposal.id);
+
+      res.json({ proposal, votes });
+    } catch (error) {
+      console.error('Error fetching proposal:', error);
+      res.status(500).json({ error: 'Failed to fetch proposal' });
+    }
+  });
+
+  // Delegated voting power now and at each proposal's snapshot block
+  router.get('/:address/power', requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
+
+      if (!await ethereumService.isValidAddress(address)) {
+        return res.status(400).json({ error: 'Invalid Ethereum address' });
+      }
+
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      const governors = await governanceService.getVotingPower(wallet.address);
+      const tokens = await storage.getAllTokens();
+      const priceData = await tokenPriceResolver.resolvePrices(tokens);
+
+      // Value the votes at the voting token's market price; null if any held votes can't be priced
+      let votingPowerUsd: number | null = 0;
+      for (const governor of governors) {
+        const votes = parseFloat(governor.votingPower);
+        if (votes === 0) continue;
+        const token = tokens.find(t => t.chainId === governor.chainId && t.symbol === governor.tokenSymbol);
+        const price = token ? priceData[token.id]?.usd : undefined;
+        votingPowerUsd = price !== undefined && votingPowerUsd !== null ? votingPowerUsd + votes * price : null;
+      }
+
+      res.json({
+        address,
+        votingPower: governors.reduce((sum, governor) => sum + parseFloat(governor.votingPower), 0),
+        votingPowerUsd,
+        activeProposals: (await storage.getProposals({ status: 'active', limit: 500 })).length,
+        governors,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error fetching voting power:', error);
+      res.status(500).json({ error: 'Failed to fetch voting power' });
+    }
+  });
+
+  // Votes cast by a wallet, with the proposal each one was on
+  router.get('/:address/votes', requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
+
+      if (!await ethereumService.isValidAddress(address)) {
+        return res.status(400).json({ error: 'Invalid Ethereum address' });
+      }
+
+      const wallet = await getOwnedWallet(req, address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      const votes = await storage.getVotesByVoter(wallet.address);
+      const votesWithProposals = await Promise.all(votes.map(async vote => {
+        const proposal = await storage.getProposal(vote.proposalId);
+        return {
+          ...vote,
+          proposal: proposal ? {
+            id: proposal.id,
+            proposalId: proposal.proposalId,
+            title: proposal.title,
+            status: proposal.status
+          } : null
+        };
+      }));
+
+      res.json({
+        address,
+        votes: votesWithProposals,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error fetching vote history:', error);
+      res.status(500).json({ error: 'Failed to fetch vote history' });
+    }
+  });
+
+  return router;
+}
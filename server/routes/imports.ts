@@ -0,0 +1,65 @@
+import express, { Router, type Request, type Response } from 'express';
+import { csvToRecords, importMappers, importSources, ImportError, type TransactionImporter } from '../services/transactionImport';
+import type { IStorage } from '../storage';
+import { CsvParseError } from '../services/csv';
+import { getOwnedWallet } from '../auth';
+import { z } from 'zod';
+
+export interface ImportRouterDeps {
+  storage: IStorage;
+  importer: TransactionImporter;
+}
+
+const importQuerySchema = z.object({
+  source: z.enum(importSources).optional().default('generic'),
+  chainId: z.coerce.number().int().positive().optional()
+});
+
+// Either a bare array of row objects or { rows: [...] }
+const jsonRowsSchema = z.union([
+  z.array(z.record(z.unknown())),
+  z.object({ rows: z.array(z.record(z.unknown())) }).transform(body => body.rows)
+]);
+
+// Routes under /api/imports; the app mounts them behind requireAuth
+export function createImportRouter({ storage, importer: transactionImporter }: ImportRouterDeps): Router {
+  const router = Router();
+
+  // CSV uploads arrive as plain text; JSON bodies are already parsed by the app-wide parser
+  router.use(express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }));
+
+  async function runImport(req: Request, res: Response, dryRun: boolean) {
+    try {
+      const { source, chainId } = importQuerySchema.parse(req.query);
+
+      const wallet = await getOwnedWallet(req, req.params.address, storage);
+      if (!wallet) {
+        return res.status(404).json({ error: 'Wallet not found' });
+      }
+
+      const records = typeof req.body === 'string'
+        ? csvToRecords(req.body, importMappers[source])
+        : jsonRowsSchema.parse(req.body);
+
+      const result = await transactionImporter.run(wallet, source, records, { dryRun, chainId });
+      res.status(dryRun || result.summary.imported === 0 ? 200 : 201).json({ address: wallet.address, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof ImportError || error instanceof CsvParseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error importing transactions:', error);
+      res.status(500).json({ error: 'Failed to import transactions' });
+    }
+  }
+
+  // Dry run: validates and dedupes every row and reports what an import would store, without writing
+  router.post('/:address/preview', (req, res) => runImport(req, res, true));
+
+  // Stores the valid, new rows as off-chain transactions; invalid and duplicate rows are reported and skipped
+  router.post('/:address', (req, res) => runImport(req, res, false));
+
+  return router;
+}
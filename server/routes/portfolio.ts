@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import type { PortfolioAggregator } from '../services/portfolioAggregator';
+import { costBasisMethods } from '../services/costBasis';
+import { z } from 'zod';
+
+export interface PortfolioRouterDeps {
+  aggregator: PortfolioAggregator;
+}
+
+const aggregateQuerySchema = z.object({
+  method: z.enum(costBasisMethods).optional().default('fifo')
+});
+
+// Routes under /api/portfolio; the app mounts them behind requireAuth
+export function createPortfolioRouter({ aggregator: portfolioAggregator }: PortfolioRouterDeps): Router {
+  const router = Router();
+
+  // Combined portfolio across every wallet the logged-in user has attached
+  router.get('/aggregate', async (req, res) => {
+    try {
+      const { method } = aggregateQuerySchema.parse(req.query);
+
+      const aggregate = await portfolioAggregator.aggregate(req.user!.id, method);
+
+      res.json({
+        ...aggregate,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Error aggregating portfolio:', error);
+      res.status(500).json({ error: 'Failed to aggregate portfolio' });
+    }
+  });
+
+  return router;
+}
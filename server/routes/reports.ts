@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import type { TaxReportService } from '../services/taxReport';
+import { taxReportCsv, taxReportPdf, taxCsvSections } from '../services/taxReportFormats';
+import { costBasisMethods } from '../services/costBasis';
+import { z } from 'zod';
+
+export interface ReportRouterDeps {
+  taxReports: TaxReportService;
+}
+
+const taxQuerySchema = z.object({
+  year: z.coerce.number().int().min(2009).refine(year => year <= new Date().getUTCFullYear(), {
+    message: 'Year is in the future'
+  }),
+  method: z.enum(costBasisMethods).optional().default('fifo'),
+  format: z.enum(['json', 'csv', 'pdf']).optional().default('json'),
+  // Which table a CSV holds; the JSON and PDF forms always have both
+  section: z.enum(taxCsvSections).optional().default('gains')
+});
+
+// Routes under /api/reports; the app mounts them behind requireAuth
+export function createReportRouter({ taxReports: taxReportService }: ReportRouterDeps): Router {
+  const router = Router();
+
+  // Realized gains per disposal and staking income for one tax year, across the user's wallets
+  router.get('/tax', async (req, res) => {
+    try {
+      const { year, method, format, section } = taxQuerySchema.parse(req.query);
+
+      const report = await taxReportService.generate(req.user!.id, year, method);
+      const filename = `tax-report-${year}-${method}`;
+
+      if (format === 'csv') {
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}-${section}.csv"`);
+        return res.type('text/csv').send(taxReportCsv(report, section));
+      }
+      if (format === 'pdf') {
+        const pdf = await taxReportPdf(report);
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+        return res.type('application/pdf').send(pdf);
+      }
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('Error generating tax report:', error);
+      res.status(500).json({ error: 'Failed to generate tax report' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { priceHistoryResolutions } from '@shared/schema';
+import { DEFAULT_CHAIN_ID } from '@shared/chains';
+import { chartRanges, InvalidChartResolutionError, type TokenChartService } from '../services/tokenChart';
+import type { IStorage } from '../storage';
+import { z } from 'zod';
+
+export interface TokenRouterDeps {
+  storage: IStorage;
+  charts: TokenChartService;
+}
+
+const chartQuerySchema = z.object({
+  range: z.enum(chartRanges).optional().default('24h'),
+  resolution: z.enum(priceHistoryResolutions).optional(),
+  chainId: z.coerce.number().int().positive().optional().default(DEFAULT_CHAIN_ID)
+});
+
+// Routes under /api/tokens
+export function createTokenRouter({ storage, charts: tokenChartService }: TokenRouterDeps): Router {
+  const router = Router();
+
+  // Price chart for a token; signed-in users also get their own buys and sells in the range
+  router.get('/:symbol/chart', async (req, res) => {
+    try {
+      const { range, resolution, chainId } = chartQuerySchema.parse(req.query);
+
+      const token = await storage.getTokenBySymbol(req.params.symbol.toUpperCase(), chainId);
+      if (!token) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+
+      const chart = await tokenChartService.getChart(token, range, resolution);
+      const trades = req.isAuthenticated()
+        ? await tokenChartService.getTrades(req.user!.id, token, chart.from)
+        : [];
+
+      res.json({
+        symbol: token.symbol,
+        ...chart,
+        trades,
+        lastUpdated: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof InvalidChartResolutionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error fetching token chart:', error);
+      res.status(500).json({ error: 'Failed to fetch token chart' });
+    }
+  });
+
+  return router;
+}
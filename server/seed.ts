@@ -1,10 +1,11 @@
-import { db } from './db';
-import { tokens } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { pathToFileURL } from 'url';
+import type { InsertTokenPriceSource } from '@shared/schema';
+import { storage, type IStorage } from './storage';
 
-// Initial token data for OEC and ELOQ
+// Initial token data for OEC and ELOQ, plus each seeded chain's native currency and WETH for LP pricing
 const initialTokens = [
   {
+    chainId: 1,
     symbol: 'OEC',
     name: 'Oeconomia Token',
     address: '0x1234567890123456789012345678901234567890', // Placeholder address
@@ -12,6 +13,7 @@ const initialTokens = [
     logoUrl: null,
   },
   {
+    chainId: 1,
     symbol: 'ELOQ',
     name: 'Eloquent Token', 
     address: '0x0987654321098765432109876543210987654321', // Placeholder address
@@ -19,31 +21,73 @@ const initialTokens = [
     logoUrl: null,
   },
   {
+    chainId: 1,
     symbol: 'ETH',
     name: 'Ethereum',
     address: '0x0000000000000000000000000000000000000000', // ETH native token
     decimals: 18,
     logoUrl: null,
+  },
+  {
+    chainId: 1,
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // ELOQ/ETH pairs hold WETH, not native ETH
+    decimals: 18,
+    logoUrl: null,
+  },
+  {
+    chainId: 56,
+    symbol: 'BNB',
+    name: 'BNB',
+    address: '0x0000000000000000000000000000000000000000', // BNB native token on BNB Smart Chain
+    decimals: 18,
+    logoUrl: null,
   }
 ];
 
-export async function seedDatabase() {
+// Default price source mappings, keyed by "<chainId>:<symbol>"
+const initialPriceSources: Record<string, Array<{ sourceType: InsertTokenPriceSource['sourceType']; sourceRef: string; priority: number }>> = {
+  '1:OEC': [{ sourceType: 'coingecko', sourceRef: 'bitcoin', priority: 0 }], // Using real tokens for demo - Bitcoin for OEC
+  '1:ELOQ': [{ sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 }], // Using real tokens for demo - Ethereum for ELOQ
+  '1:ETH': [{ sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 }],
+  '1:WETH': [{ sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 }],
+  '56:BNB': [{ sourceType: 'coingecko', sourceRef: 'binancecoin', priority: 0 }],
+};
+
+// Idempotent, so it's safe to run against a database that was seeded before
+export async function seedDatabase(target: IStorage = storage) {
   console.log('🌱 Seeding database with initial token data...');
   
   try {
     // Check if tokens already exist and insert only if they don't
     for (const tokenData of initialTokens) {
-      const existingToken = await db
-        .select()
-        .from(tokens)
-        .where(eq(tokens.symbol, tokenData.symbol))
-        .limit(1);
-
-      if (existingToken.length === 0) {
-        await db.insert(tokens).values(tokenData);
-        console.log(`✅ Inserted ${tokenData.symbol} token`);
+      const existingToken = await target.getTokenByAddress(tokenData.chainId, tokenData.address);
+
+      if (!existingToken) {
+        await target.createToken(tokenData);
+        console.log(`✅ Inserted ${tokenData.symbol} token on chain ${tokenData.chainId}`);
       } else {
-        console.log(`⏭️  ${tokenData.symbol} token already exists`);
+        console.log(`⏭️  ${tokenData.symbol} token on chain ${tokenData.chainId} already exists`);
+      }
+    }
+
+    // Seed price source mappings for tokens that have none of the defaults yet
+    for (const [key, sources] of Object.entries(initialPriceSources)) {
+      const [chainId, symbol] = key.split(':');
+      const token = await target.getTokenBySymbol(symbol, Number(chainId));
+      if (!token) continue;
+
+      const existingSources = await target.getTokenPriceSources(token.id);
+      for (const source of sources) {
+        const exists = existingSources.some(existing =>
+          existing.sourceType === source.sourceType && existing.sourceRef === source.sourceRef
+        );
+
+        if (!exists) {
+          await target.createTokenPriceSource({ ...source, tokenId: token.id });
+          console.log(`✅ Inserted ${source.sourceType} price source for ${key}`);
+        }
       }
     }
 
@@ -55,5 +99,7 @@ export async function seedDatabase() {
   }
 }
 
-// Auto-run seeding (ES module compatible)
-seedDatabase();
\ No newline at end of file
+// Auto-run seeding when executed directly (ES module compatible); the server imports it for in-memory storage
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  seedDatabase();
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignReturns,
+  annualizedVolatility,
+  beta,
+  correlation,
+  maxDrawdown,
+  periodReturns,
+  sharpeRatio,
+  sortinoRatio,
+  standardDeviation,
+  valueAtRisk
+} from './analytics';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse('2024-06-01T00:00:00Z');
+
+function series(values: number[]) {
+  return values.map((value, i) => ({ date: new Date(START + i * DAY), value }));
+}
+
+describe('periodReturns', () => {
+  it('keys simple returns by the later date and skips steps from zero', () => {
+    const returns = periodReturns(series([100, 110, 0, 50, 55]));
+
+    expect(Array.from(returns.entries())).toEqual([
+      [START + DAY, expect.closeTo(0.1)],
+      [START + 2 * DAY, -1],
+      [START + 4 * DAY, expect.closeTo(0.1)]
+    ]);
+  });
+});
+
+describe('standardDeviation and annualizedVolatility', () => {
+  it('uses the sample deviation and scales by the square root of periods per year', () => {
+    expect(standardDeviation([1, 2, 3, 4])).toBeCloseTo(1.2910, 4);
+    expect(annualizedVolatility([0.01, -0.01, 0.01, -0.01])).toBeCloseTo(0.011547 * Math.sqrt(365), 4);
+  });
+
+  it('is undefined below two observations', () => {
+    expect(standardDeviation([0.05])).toBeNull();
+    expect(annualizedVolatility([])).toBeNull();
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('finds the largest peak-to-trough fall, even after a new high', () => {
+    const result = maxDrawdown(series([100, 120, 90, 130, 78, 140]));
+
+    expect(result.maxDrawdown).toBeCloseTo(0.4);
+    expect(result.peak).toEqual(new Date(START + 3 * DAY));
+    expect(result.trough).toEqual(new Date(START + 4 * DAY));
+  });
+
+  it('is zero for a series that never falls', () => {
+    expect(maxDrawdown(series([1, 2, 3]))).toEqual({ maxDrawdown: 0, peak: null, trough: null });
+  });
+});
+
+describe('sharpeRatio and sortinoRatio', () => {
+  const returns = [0.02, -0.01, 0.03, -0.02, 0.01];
+
+  it('annualizes the mean excess return over volatility', () => {
+    const deviation = standardDeviation(returns)!;
+    expect(sharpeRatio(returns)).toBeCloseTo((0.006 / deviation) * Math.sqrt(365), 6);
+    expect(sharpeRatio(returns, 0.0365)).toBeCloseTo(((0.006 - 0.0001) / deviation) * Math.sqrt(365), 6);
+  });
+
+  it('only counts returns below the target as downside', () => {
+    const downside = Math.sqrt((0.01 ** 2 + 0.02 ** 2) / 5);
+    expect(sortinoRatio(returns)).toBeCloseTo((0.006 / downside) * Math.sqrt(365), 6);
+  });
+
+  it('is undefined without any risk', () => {
+    expect(sharpeRatio([0.01, 0.01, 0.01])).toBeNull();
+    expect(sortinoRatio([0.01, 0.02])).toBeNull();
+  });
+});
+
+describe('valueAtRisk', () => {
+  it('reads the loss at the lower tail of the historical returns', () => {
+    const returns = Array.from({ length: 100 }, (_, i) => (i - 50) / 1000);
+    // Sorted ascending, the 5th of 100 returns is -0.045
+    expect(valueAtRisk(returns, 0.95)).toBeCloseTo(0.045);
+  });
+
+  it('never reports a negative loss', () => {
+    expect(valueAtRisk([0.01, 0.02, 0.03])).toBe(0);
+    expect(valueAtRisk([])).toBeNull();
+  });
+});
+
+describe('beta and correlation', () => {
+  it('measure a series against its benchmark on shared dates', () => {
+    const benchmark = periodReturns(series([100, 102, 99, 104, 103, 107]));
+    const asset = periodReturns(series([50, 52, 49, 54, 53]));
+    const aligned = alignReturns(asset, benchmark);
+    expect(aligned.asset).toHaveLength(4);
+
+    const doubled = aligned.benchmark.map(r => r * 2);
+    expect(beta(doubled, aligned.benchmark)).toBeCloseTo(2);
+    expect(correlation(doubled, aligned.benchmark)).toBeCloseTo(1);
+    expect(correlation(doubled.map(r => -r), aligned.benchmark)).toBeCloseTo(-1);
+  });
+
+  it('is undefined against a flat benchmark', () => {
+    expect(beta([0.01, 0.02, 0.03], [0, 0, 0])).toBeNull();
+    expect(correlation([0.01, 0.02, 0.03], [0, 0, 0])).toBeNull();
+  });
+});
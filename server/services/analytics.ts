@@ -0,0 +1,119 @@
+// Pure risk math over value series. Nothing here touches storage or the network, so it can be
+// tested with plain numbers. Series are daily and crypto trades every day, hence 365 periods a year.
+
+export const PERIODS_PER_YEAR = 365;
+
+export interface SeriesPoint {
+  // UTC day the value was taken at
+  date: Date;
+  value: number;
+}
+
+export interface Drawdown {
+  // Largest peak-to-trough loss as a positive fraction, 0 when the series never fell
+  maxDrawdown: number;
+  peak: Date | null;
+  trough: Date | null;
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Sample standard deviation; null below two values
+export function standardDeviation(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+}
+
+// Simple returns between consecutive points, keyed by the later point's date.
+// A step from a non-positive value has no meaningful return and is skipped.
+export function periodReturns(series: SeriesPoint[]): Map<number, number> {
+  const returns = new Map<number, number>();
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1].value;
+    if (previous > 0) returns.set(series[i].date.getTime(), series[i].value / previous - 1);
+  }
+  return returns;
+}
+
+export function annualizedVolatility(returns: number[], periodsPerYear: number = PERIODS_PER_YEAR): number | null {
+  const deviation = standardDeviation(returns);
+  return deviation === null ? null : deviation * Math.sqrt(periodsPerYear);
+}
+
+export function maxDrawdown(series: SeriesPoint[]): Drawdown {
+  const result: Drawdown = { maxDrawdown: 0, peak: null, trough: null };
+  let peak: SeriesPoint | null = null;
+
+  for (const point of series) {
+    if (!peak || point.value > peak.value) peak = point;
+    if (peak.value <= 0) continue;
+    const drawdown = 1 - point.value / peak.value;
+    if (drawdown > result.maxDrawdown) {
+      result.maxDrawdown = drawdown;
+      result.peak = peak.date;
+      result.trough = point.date;
+    }
+  }
+
+  return result;
+}
+
+// Annualized excess return per unit of volatility; `riskFreeRate` is annual
+export function sharpeRatio(returns: number[], riskFreeRate: number = 0, periodsPerYear: number = PERIODS_PER_YEAR): number | null {
+  const deviation = standardDeviation(returns);
+  if (deviation === null || deviation === 0) return null;
+  return ((mean(returns) - riskFreeRate / periodsPerYear) / deviation) * Math.sqrt(periodsPerYear);
+}
+
+// Like Sharpe, but only returns below the risk-free rate count as risk
+export function sortinoRatio(returns: number[], riskFreeRate: number = 0, periodsPerYear: number = PERIODS_PER_YEAR): number | null {
+  if (returns.length < 2) return null;
+  const target = riskFreeRate / periodsPerYear;
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r - target) ** 2)));
+  if (downside === 0) return null;
+  return ((mean(returns) - target) / downside) * Math.sqrt(periodsPerYear);
+}
+
+// Historical one-period Value-at-Risk: the loss, as a positive fraction, that returns fell
+// short of only (1 - confidence) of the time. Uses the lower empirical quantile.
+export function valueAtRisk(returns: number[], confidence: number = 0.95): number | null {
+  if (returns.length === 0) return null;
+  const sorted = [...returns].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor((1 - confidence) * sorted.length));
+  return Math.max(0, -sorted[index]);
+}
+
+// Returns of two series on the dates both have one, in date order
+export function alignReturns(asset: Map<number, number>, benchmark: Map<number, number>): { asset: number[]; benchmark: number[] } {
+  const dates = Array.from(asset.keys()).filter(date => benchmark.has(date)).sort((a, b) => a - b);
+  return {
+    asset: dates.map(date => asset.get(date)!),
+    benchmark: dates.map(date => benchmark.get(date)!)
+  };
+}
+
+function covariance(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 2) return null;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+// Sensitivity of the asset's returns to the benchmark's
+export function beta(asset: number[], benchmark: number[]): number | null {
+  const cov = covariance(asset, benchmark);
+  const deviation = standardDeviation(benchmark);
+  if (cov === null || deviation === null || deviation === 0) return null;
+  return cov / deviation ** 2;
+}
+
+export function correlation(asset: number[], benchmark: number[]): number | null {
+  const cov = covariance(asset, benchmark);
+  const assetDeviation = standardDeviation(asset);
+  const benchmarkDeviation = standardDeviation(benchmark);
+  if (cov === null || !assetDeviation || !benchmarkDeviation) return null;
+  return cov / (assetDeviation * benchmarkDeviation);
+}
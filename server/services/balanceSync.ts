@@ -0,0 +1,99 @@
+import type { Token, Wallet } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { ChainServiceRegistry, chainServices } from './blockchain';
+import { TokenPriceResolver, tokenPriceResolver } from './priceSources';
+import { RealtimeHub, realtimeHub, walletChannel } from './realtime';
+
+export interface SyncedTokenBalance {
+  tokenId: string;
+  chainId: number;
+  symbol: string;
+  // null when the on-chain read failed; the stored balance is left untouched in that case
+  balance: string | null;
+  usdValue: number | null;
+  decimals: number;
+  address: string;
+}
+
+// Reads every registered token's on-chain balance for a wallet, on each token's chain,
+// and persists it to token_balances
+export class BalanceSyncService {
+  constructor(
+    private storage: IStorage,
+    private chains: ChainServiceRegistry,
+    private prices: TokenPriceResolver,
+    private realtime: RealtimeHub
+  ) {}
+
+  // Returns balances keyed by token id. Balances are persisted only when the address belongs to a known wallet.
+  async syncBalances(address: string, wallet?: Wallet): Promise<Record<string, SyncedTokenBalance>> {
+    const tokens = await this.storage.getAllTokens();
+    const [onchainBalances, priceData] = await Promise.all([
+      this.readBalancesPerChain(address, tokens),
+      this.prices.resolvePrices(tokens)
+    ]);
+
+    const balances: Record<string, SyncedTokenBalance> = {};
+
+    for (const token of tokens) {
+      const balance = onchainBalances[token.chainId]?.[token.address.toLowerCase()] ?? null;
+      const price = priceData[token.id];
+      const usdValue = balance !== null && price ? parseFloat(balance) * price.usd : null;
+
+      balances[token.id] = this.formatBalance(token, balance, usdValue);
+
+      if (wallet && balance !== null) {
+        // Without a price the previous value is kept rather than overwritten with $0
+        await this.storage.upsertTokenBalance({
+          walletId: wallet.id,
+          tokenId: token.id,
+          balance,
+          usdValue: usdValue !== null ? usdValue.toString() : undefined
+        });
+      }
+    }
+
+    if (wallet) {
+      this.realtime.publish(walletChannel(wallet.address), {
+        type: 'balances',
+        address: wallet.address,
+        balances,
+        at: new Date().toISOString()
+      });
+    }
+
+    return balances;
+  }
+
+  // One multicall per chain; chains that aren't in the registry or whose RPC fails are left out
+  private async readBalancesPerChain(address: string, tokens: Token[]): Promise<Record<number, Record<string, string>>> {
+    const chainIds = Array.from(new Set(tokens.map(token => token.chainId)));
+    const results: Record<number, Record<string, string>> = {};
+
+    await Promise.all(chainIds.map(async chainId => {
+      if (!this.chains.isSupported(chainId)) return;
+      try {
+        const chainTokens = tokens.filter(token => token.chainId === chainId);
+        results[chainId] = await this.chains.get(chainId).getTokenBalances(address, chainTokens);
+      } catch (error) {
+        console.error(`Error reading balances on chain ${chainId} for ${address}:`, error);
+      }
+    }));
+
+    return results;
+  }
+
+  private formatBalance(token: Token, balance: string | null, usdValue: number | null): SyncedTokenBalance {
+    return {
+      tokenId: token.id,
+      chainId: token.chainId,
+      symbol: token.symbol,
+      balance,
+      usdValue,
+      decimals: token.decimals,
+      address: token.address
+    };
+  }
+}
+
+export const balanceSyncService = new BalanceSyncService(storage, chainServices, tokenPriceResolver, realtimeHub);
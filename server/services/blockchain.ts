@@ -1,28 +1,95 @@
 import axios from 'axios';
 import { ethers } from 'ethers';
+import { getChain, DEFAULT_CHAIN_ID, type ChainConfig } from '@shared/chains';
+import { config, type CoinGeckoConfig } from '../config';
+
+export type CoinGeckoPrice = {
+  usd: number;
+  usd_24h_change: number;
+  // Unix seconds of CoinGecko's last update for this price
+  last_updated_at?: number;
+};
+
+// Thrown while CoinGecko is rate limiting us; no request is sent before `retryAt`
+export class RateLimitError extends Error {
+  constructor(readonly retryAt: Date) {
+    super(`Rate limited until ${retryAt.toISOString()}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+const DEFAULT_RETRY_AFTER_MS = 60000;
+
+// Retry-After is either delay seconds or an HTTP date
+function retryAfterMs(header: unknown): number {
+  if (typeof header !== 'string' || header.trim() === '') return DEFAULT_RETRY_AFTER_MS;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
+}
 
 // CoinGecko API service for token prices
 export class CoinGeckoService {
-  private readonly baseUrl = 'https://api.coingecko.com/api/v3';
-  private readonly rateLimitDelay = 1000; // 1 second between requests
+  private nextRequestAt = 0;
+  private retryAt = 0;
+
+  constructor(private options: CoinGeckoConfig) {}
+
+  private get baseUrl(): string {
+    return this.options.baseUrl;
+  }
+
+  // API key header, when a key is configured
+  private get headers(): Record<string, string> {
+    return this.options.apiKey ? { [this.options.apiKeyHeader]: this.options.apiKey } : {};
+  }
+
+  // Every request goes through here so spacing and 429 backoff apply across all callers
+  private async get(path: string, params: Record<string, unknown>): Promise<any> {
+    if (Date.now() < this.retryAt) throw new RateLimitError(new Date(this.retryAt));
+    await this.throttle();
 
-  async getTokenPrice(tokenId: string): Promise<{ usd: number; usd_24h_change: number } | null> {
     try {
-      const response = await axios.get(`${this.baseUrl}/simple/price`, {
-        params: {
-          ids: tokenId,
-          vs_currencies: 'usd',
-          include_24hr_change: true
-        },
-        timeout: 10000
+      const response = await axios.get(`${this.baseUrl}${path}`, {
+        params,
+        headers: this.headers,
+        timeout: this.options.timeoutMs
       });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 429) {
+        this.retryAt = Date.now() + retryAfterMs(error.response.headers['retry-after']);
+        throw new RateLimitError(new Date(this.retryAt));
+      }
+      throw error;
+    }
+  }
+
+  // Reserve the next request slot, waiting when the previous one was too recent
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = slot + this.options.minIntervalMs;
+    if (slot > now) await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
 
-      const priceData = response.data[tokenId];
+  async getTokenPrice(tokenId: string): Promise<CoinGeckoPrice | null> {
+    try {
+      const data = await this.get('/simple/price', {
+        ids: tokenId,
+        vs_currencies: 'usd',
+        include_24hr_change: true,
+        include_last_updated_at: true
+      });
+
+      const priceData = data[tokenId];
       if (!priceData) return null;
 
       return {
         usd: priceData.usd,
-        usd_24h_change: priceData.usd_24h_change || 0
+        usd_24h_change: priceData.usd_24h_change || 0,
+        last_updated_at: priceData.last_updated_at
       };
     } catch (error) {
       console.error(`Error fetching price for ${tokenId}:`, error);
@@ -30,33 +97,28 @@ export class CoinGeckoService {
     }
   }
 
-  async getMultipleTokenPrices(tokenIds: string[]): Promise<Record<string, { usd: number; usd_24h_change: number }>> {
-    try {
-      const response = await axios.get(`${this.baseUrl}/simple/price`, {
-        params: {
-          ids: tokenIds.join(','),
-          vs_currencies: 'usd',
-          include_24hr_change: true
-        },
-        timeout: 15000
-      });
+  // Throws on upstream failure so callers can fall back to another price provider
+  async getMultipleTokenPrices(tokenIds: string[]): Promise<Record<string, CoinGeckoPrice>> {
+    const data = await this.get('/simple/price', {
+      ids: tokenIds.join(','),
+      vs_currencies: 'usd',
+      include_24hr_change: true,
+      include_last_updated_at: true
+    });
 
-      const results: Record<string, { usd: number; usd_24h_change: number }> = {};
-      
-      for (const [tokenId, priceData] of Object.entries(response.data as Record<string, any>)) {
-        if (priceData && typeof priceData === 'object') {
-          results[tokenId] = {
-            usd: (priceData as any).usd || 0,
-            usd_24h_change: (priceData as any).usd_24h_change || 0
-          };
-        }
-      }
+    const results: Record<string, CoinGeckoPrice> = {};
 
-      return results;
-    } catch (error) {
-      console.error('Error fetching multiple token prices:', error);
-      return {};
+    for (const [tokenId, priceData] of Object.entries(data as Record<string, any>)) {
+      if (priceData && typeof priceData === 'object' && typeof (priceData as any).usd === 'number') {
+        results[tokenId] = {
+          usd: (priceData as any).usd,
+          usd_24h_change: (priceData as any).usd_24h_change || 0,
+          last_updated_at: (priceData as any).last_updated_at
+        };
+      }
     }
+
+    return results;
   }
 
   async getTokenMarketData(tokenId: string): Promise<{
@@ -66,19 +128,16 @@ export class CoinGeckoService {
     priceChange24h: number;
   } | null> {
     try {
-      const response = await axios.get(`${this.baseUrl}/coins/${tokenId}`, {
-        params: {
-          localization: false,
-          tickers: false,
-          market_data: true,
-          community_data: false,
-          developer_data: false,
-          sparkline: false
-        },
-        timeout: 10000
+      const data = await this.get(`/coins/${tokenId}`, {
+        localization: false,
+        tickers: false,
+        market_data: true,
+        community_data: false,
+        developer_data: false,
+        sparkline: false
       });
 
-      const marketData = response.data.market_data;
+      const marketData = data.market_data;
       if (!marketData) return null;
 
       return {
@@ -92,62 +151,198 @@ export class CoinGeckoService {
       return null;
     }
   }
+
+  // USD price series for the past `days`; CoinGecko picks the spacing (5m for 1 day, hourly up to 90, daily beyond).
+  // Throws on upstream failure.
+  async getMarketChart(tokenId: string, days: number): Promise<Array<{ timestamp: Date; price: number }>> {
+    const data = await this.get(`/coins/${encodeURIComponent(tokenId)}/market_chart`, {
+      vs_currency: 'usd',
+      days
+    });
+
+    const prices: unknown[] = Array.isArray(data?.prices) ? data.prices : [];
+    return prices
+      .filter((entry): entry is [number, number] =>
+        Array.isArray(entry) && typeof entry[0] === 'number' && typeof entry[1] === 'number'
+      )
+      .map(([timestamp, price]) => ({ timestamp: new Date(timestamp), price }));
+  }
 }
 
-// Ethereum blockchain service for wallet balances and transactions
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getEthBalance(address addr) view returns (uint256 balance)'
+];
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address) view returns (uint256)'];
+
+const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// EVM chain service for wallet balances and transactions on a single chain
 export class EthereumService {
   private provider: ethers.JsonRpcProvider;
 
-  constructor(rpcUrl?: string) {
-    // Use public RPC endpoint or provided URL
-    const defaultRpcUrl = 'https://ethereum-rpc.publicnode.com';
-    this.provider = new ethers.JsonRpcProvider(rpcUrl || defaultRpcUrl);
+  constructor(readonly chain: ChainConfig = getChain(DEFAULT_CHAIN_ID)!, rpcUrl?: string) {
+    // Use the chain's public RPC endpoint or provided URL; the network is known, so skip detection
+    this.provider = new ethers.JsonRpcProvider(rpcUrl || chain.rpcUrls[0], chain.id, { staticNetwork: true });
   }
 
+  getProvider(): ethers.JsonRpcProvider {
+    return this.provider;
+  }
+
+  // Throws when the read fails, so callers can't mistake an RPC error for an empty balance
   async getETHBalance(address: string): Promise<string> {
-    try {
-      const balance = await this.provider.getBalance(address);
-      return ethers.formatEther(balance);
-    } catch (error) {
-      console.error(`Error getting ETH balance for ${address}:`, error);
-      return '0';
-    }
+    const balance = await this.provider.getBalance(address);
+    return ethers.formatEther(balance);
   }
 
   async getERC20Balance(tokenAddress: string, walletAddress: string, decimals: number = 18): Promise<string> {
+    const contract = new ethers.Contract(tokenAddress, ERC20_BALANCE_ABI, this.provider);
+    const balance = await contract.balanceOf(walletAddress);
+    return ethers.formatUnits(balance, decimals);
+  }
+
+  // Fetch native and ERC20 balances for one wallet in a single Multicall3 round trip.
+  // Tokens at the zero address are treated as the chain's native currency.
+  // Returns formatted balances keyed by token address (lowercased); failed calls are omitted.
+  async getTokenBalances(walletAddress: string, tokens: Array<{ address: string; decimals: number }>): Promise<Record<string, string>> {
+    const multicallAddress = this.chain.multicallAddress;
+    const multicall = new ethers.Contract(multicallAddress, MULTICALL3_ABI, this.provider);
+    const erc20 = new ethers.Interface(ERC20_BALANCE_ABI);
+
+    const calls = tokens.map(token => token.address === ethers.ZeroAddress
+      ? { target: multicallAddress, allowFailure: true, callData: multicall.interface.encodeFunctionData('getEthBalance', [walletAddress]) }
+      : { target: token.address, allowFailure: true, callData: erc20.encodeFunctionData('balanceOf', [walletAddress]) }
+    );
+
+    const results: Record<string, string> = {};
+
     try {
-      // ERC20 balanceOf function selector
-      const balanceOfABI = ['function balanceOf(address) view returns (uint256)'];
-      const contract = new ethers.Contract(tokenAddress, balanceOfABI, this.provider);
-      
-      const balance = await contract.balanceOf(walletAddress);
-      return ethers.formatUnits(balance, decimals);
+      const responses: Array<{ success: boolean; returnData: string }> = await multicall.aggregate3.staticCall(calls);
+
+      responses.forEach((response, index) => {
+        const token = tokens[index];
+        // Calls to addresses without code succeed with empty return data
+        if (!response.success || response.returnData === '0x') return;
+        const [balance] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], response.returnData);
+        results[token.address.toLowerCase()] = ethers.formatUnits(balance, token.decimals);
+      });
     } catch (error) {
-      console.error(`Error getting ERC20 balance for ${walletAddress}:`, error);
-      return '0';
+      // Fall back to individual calls when Multicall3 is unavailable
+      console.error(`Multicall balance fetch failed for ${walletAddress}, falling back to individual calls:`, error);
+      for (const token of tokens) {
+        try {
+          results[token.address.toLowerCase()] = token.address === ethers.ZeroAddress
+            ? await this.getETHBalance(walletAddress)
+            : await this.getERC20Balance(token.address, walletAddress, token.decimals);
+        } catch (tokenError) {
+          console.error(`Error reading ${token.address} balance for ${walletAddress}:`, tokenError);
+        }
+      }
     }
+
+    return results;
   }
 
-  async getTransactionHistory(address: string, startBlock?: number, endBlock?: number): Promise<any[]> {
-    try {
-      // Get recent transactions for the address
-      const latestBlock = await this.provider.getBlockNumber();
-      const fromBlock = startBlock || Math.max(0, latestBlock - 1000); // Last 1000 blocks
-      const toBlock = endBlock || latestBlock;
-
-      // Get transactions where address is sender or receiver
-      const filter = {
-        fromBlock,
-        toBlock,
-        address: address
-      };
+  // ERC20 Transfer events where the wallet is sender or receiver, topic-filtered on from/to.
+  // Throws on RPC failure so indexers don't advance past an unscanned range.
+  async getTransferLogs(walletAddress: string, tokenAddresses: string[], fromBlock: number, toBlock: number): Promise<Array<{
+    tokenAddress: string;
+    from: string;
+    to: string;
+    value: bigint;
+    txHash: string;
+    logIndex: number;
+    blockNumber: number;
+  }>> {
+    if (tokenAddresses.length === 0) return [];
 
-      const logs = await this.provider.getLogs(filter);
-      return logs.slice(0, 50); // Limit to 50 most recent
-    } catch (error) {
-      console.error(`Error getting transaction history for ${address}:`, error);
-      return [];
+    const paddedWallet = ethers.zeroPadValue(walletAddress, 32);
+    const [outgoing, incoming] = await Promise.all([
+      this.provider.getLogs({ address: tokenAddresses, fromBlock, toBlock, topics: [ERC20_TRANSFER_TOPIC, paddedWallet] }),
+      this.provider.getLogs({ address: tokenAddresses, fromBlock, toBlock, topics: [ERC20_TRANSFER_TOPIC, null, paddedWallet] })
+    ]);
+
+    // Self-transfers match both filters
+    const seen = new Set<string>();
+    return [...outgoing, ...incoming]
+      .filter(log => {
+        const key = `${log.transactionHash}:${log.index}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map(log => ({
+        tokenAddress: log.address,
+        from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+        to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+        value: BigInt(log.data),
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber
+      }))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  // Native-currency transfers to or from any of the given wallets. There is no log for these, so each
+  // block in the range is fetched with its transactions; requests are sent in JSON-RPC batches.
+  // Callers pass every tracked wallet at once so a block range is only read once.
+  async getNativeTransfers(walletAddresses: string[], fromBlock: number, toBlock: number, batchSize: number = 50): Promise<Array<{
+    from: string;
+    to: string;
+    value: bigint;
+    txHash: string;
+    blockNumber: number;
+  }>> {
+    const wallets = new Set(walletAddresses.map(address => address.toLowerCase()));
+    const transfers: Array<{ from: string; to: string; value: bigint; txHash: string; blockNumber: number }> = [];
+    if (wallets.size === 0) return transfers;
+
+    for (let start = fromBlock; start <= toBlock; start += batchSize) {
+      const blockNumbers = Array.from({ length: Math.min(batchSize, toBlock - start + 1) }, (_, i) => start + i);
+      const blocks = await Promise.all(blockNumbers.map(n => this.provider.getBlock(n, true)));
+
+      for (const block of blocks) {
+        if (!block) continue;
+        for (const tx of block.prefetchedTransactions) {
+          if (tx.value === BigInt(0)) continue;
+          if (!wallets.has(tx.from.toLowerCase()) && !(tx.to && wallets.has(tx.to.toLowerCase()))) continue;
+          transfers.push({ from: tx.from, to: tx.to || ethers.ZeroAddress, value: tx.value, txHash: tx.hash, blockNumber: block.number });
+        }
+      }
     }
+
+    return transfers;
+  }
+
+  // Sender, call data, gas and block time for a transaction
+  async getTransactionDetails(txHash: string): Promise<{
+    from: string;
+    to: string | null;
+    input: string;
+    gasUsed: bigint | null;
+    gasPrice: bigint | null;
+    status: 'confirmed' | 'failed' | 'pending';
+    timestamp: Date;
+  } | null> {
+    const [tx, receipt] = await Promise.all([
+      this.provider.getTransaction(txHash),
+      this.provider.getTransactionReceipt(txHash)
+    ]);
+    if (!tx) return null;
+
+    const block = tx.blockNumber !== null ? await this.provider.getBlock(tx.blockNumber) : null;
+
+    return {
+      from: tx.from,
+      to: tx.to,
+      input: tx.data,
+      gasUsed: receipt?.gasUsed ?? null,
+      gasPrice: receipt?.gasPrice ?? tx.gasPrice ?? null,
+      status: !receipt ? 'pending' : receipt.status === 1 ? 'confirmed' : 'failed',
+      timestamp: block ? new Date(block.timestamp * 1000) : new Date()
+    };
   }
 
   async isValidAddress(address: string): Promise<boolean> {
@@ -176,6 +371,7 @@ export class PortfolioService {
   ) {}
 
   async calculatePortfolioMetrics(walletAddress: string, tokenBalances: Array<{
+    tokenId?: string;
     tokenAddress: string;
     balance: string;
     decimals: number;
@@ -184,6 +380,8 @@ export class PortfolioService {
     netWorth: number;
     totalValue: number;
     tokens: Array<{
+      // Registry id; the address alone is ambiguous for native currencies across chains
+      tokenId?: string;
       address: string;
       balance: string;
       usdValue: number;
@@ -192,6 +390,7 @@ export class PortfolioService {
   }> {
     let totalValue = 0;
     const tokenValues: Array<{
+      tokenId?: string;
       address: string;
       balance: string;
       usdValue: number;
@@ -204,6 +403,7 @@ export class PortfolioService {
       totalValue += usdValue;
       
       tokenValues.push({
+        tokenId: token.tokenId,
         address: token.tokenAddress,
         balance: token.balance,
         usdValue,
@@ -222,29 +422,36 @@ export class PortfolioService {
       tokens: tokenValues
     };
   }
+}
 
-  calculateHealthScore(portfolioData: {
-    tokens: Array<{ percentage: number }>;
-    totalValue: number;
-  }): string {
-    if (portfolioData.totalValue === 0) return "No Holdings";
-    
-    const tokenCount = portfolioData.tokens.length;
-    if (tokenCount === 0) return "No Holdings";
-    
-    // Calculate diversification score
-    const maxConcentration = Math.max(...portfolioData.tokens.map(t => t.percentage));
-    
-    if (maxConcentration > 80) return "High Risk";
-    if (maxConcentration > 60) return "Moderate Risk";
-    if (tokenCount >= 3 && maxConcentration < 50) return "Well Diversified";
-    if (tokenCount >= 2) return "Moderate";
-    
-    return "Concentrated";
+// One EthereumService per registered chain, created on first use.
+// `rpcUrls` overrides the registry's default endpoint per chain id.
+export class ChainServiceRegistry {
+  private services = new Map<number, EthereumService>();
+
+  constructor(
+    private rpcUrls: Record<number, string> = {},
+    private createService: (chain: ChainConfig, rpcUrl?: string) => EthereumService = (chain, rpcUrl) => new EthereumService(chain, rpcUrl)
+  ) {}
+
+  isSupported(chainId: number): boolean {
+    return !!getChain(chainId);
+  }
+
+  get(chainId: number): EthereumService {
+    let service = this.services.get(chainId);
+    if (!service) {
+      const chain = getChain(chainId);
+      if (!chain) throw new Error(`Unsupported chain ${chainId}`);
+      service = this.createService(chain, this.rpcUrls[chainId]);
+      this.services.set(chainId, service);
+    }
+    return service;
   }
 }
 
 // Export singleton instances
-export const coinGeckoService = new CoinGeckoService();
-export const ethereumService = new EthereumService();
+export const coinGeckoService = new CoinGeckoService(config.coinGecko);
+export const chainServices = new ChainServiceRegistry(config.rpcUrls);
+export const ethereumService = chainServices.get(DEFAULT_CHAIN_ID);
 export const portfolioService = new PortfolioService(coinGeckoService, ethereumService);
\ No newline at end of file
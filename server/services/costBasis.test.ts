@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { CostBasisEngine, type CostBasisTransaction } from './costBasis';
+
+const engine = new CostBasisEngine();
+let txCount = 0;
+
+function tx(
+  type: string,
+  amount: string,
+  usdValue: string | null,
+  day: number,
+  metadata: Record<string, unknown> | null = null
+): CostBasisTransaction {
+  txCount += 1;
+  return {
+    txHash: `0x${txCount}`,
+    type,
+    tokenId: 'eth',
+    amount,
+    usdValue,
+    timestamp: new Date(Date.UTC(2024, 0, day)),
+    metadata
+  };
+}
+
+// Two buys at $100 and $200, then a sale of 1.5 at $300 each
+function buysThenSale() {
+  return [
+    tx('buy', '1', '100', 1),
+    tx('buy', '1', '200', 2),
+    tx('sell', '1.5', '450', 3)
+  ];
+}
+
+describe('CostBasisEngine', () => {
+  it('matches sales against the oldest lots first with FIFO', () => {
+    const result = engine.calculate(buysThenSale(), { eth: 400 }, 'fifo');
+
+    // Basis 100 + 0.5 * 200 = 200 against 450 proceeds
+    expect(result.realizedPnl).toBeCloseTo(250);
+    expect(result.disposals.map(d => d.amount)).toEqual([1, 0.5]);
+    expect(result.tokens.eth).toMatchObject({ quantity: 0.5, costBasis: 100, marketValue: 200, unrealizedPnl: 100 });
+    expect(result.totalInvested).toBe(300);
+    expect(result.totalTrades).toBe(3);
+  });
+
+  it('matches sales against the newest lots first with LIFO', () => {
+    const result = engine.calculate(buysThenSale(), { eth: 400 }, 'lifo');
+
+    // Basis 200 + 0.5 * 100 = 250 against 450 proceeds
+    expect(result.realizedPnl).toBeCloseTo(200);
+    expect(result.disposals.map(d => d.amount)).toEqual([1, 0.5]);
+    expect(result.tokens.eth).toMatchObject({ quantity: 0.5, costBasis: 50, unrealizedPnl: 150 });
+  });
+
+  it('prices lots at their average cost with the average method, keeping each lot\'s date', () => {
+    const result = engine.calculate(buysThenSale(), { eth: 400 }, 'average');
+
+    // 1.5 at the pooled $150 against 450 proceeds
+    expect(result.realizedPnl).toBeCloseTo(225);
+    expect(result.disposals.map(d => [d.amount, d.costBasis, d.acquiredAt.getUTCDate()])).toEqual([[1, 150, 1], [0.5, 75, 2]]);
+    expect(result.tokens.eth.lots).toHaveLength(1);
+    expect(result.tokens.eth).toMatchObject({ quantity: 0.5, costBasis: 75, unrealizedPnl: 125 });
+  });
+
+  it('treats incoming transfers as acquisitions and outgoing ones as basis leaving without a gain', () => {
+    const result = engine.calculate([
+      tx('transfer', '2', '200', 1, { direction: 'in' }),
+      tx('transfer', '-1', '150', 2),
+      tx('sell', '1', '300', 3)
+    ], { eth: 400 });
+
+    expect(result.disposals).toHaveLength(1);
+    expect(result.realizedPnl).toBeCloseTo(200);
+    expect(result.tokens.eth.quantity).toBe(0);
+    expect(result.totalTrades).toBe(1);
+  });
+
+  it('books the part of a sale beyond the known lots at zero cost', () => {
+    const result = engine.calculate([
+      tx('buy', '1', '100', 1),
+      tx('sell', '3', '600', 2)
+    ], {});
+
+    expect(result.disposals).toHaveLength(2);
+    expect(result.disposals[1]).toMatchObject({ lotTxHash: '', amount: 2, costBasis: 0, proceeds: 400 });
+    expect(result.realizedPnl).toBeCloseTo(500);
+    expect(result.tokens.eth).toMatchObject({ quantity: 0, marketValue: 0, unrealizedPnl: 0 });
+  });
+
+  it('leaves unpriced holdings out of unrealized P&L instead of counting them as a loss', () => {
+    const result = engine.calculate([tx('buy', '1', '100', 1)], {});
+
+    expect(result.tokens.eth).toMatchObject({ quantity: 1, marketValue: null, unrealizedPnl: null });
+    expect(result.unrealizedPnl).toBe(0);
+    expect(result.unpricedTokens).toEqual(['eth']);
+  });
+});
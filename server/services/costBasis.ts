@@ -0,0 +1,212 @@
+import type { Transaction } from '@shared/schema';
+
+export const costBasisMethods = ['fifo', 'lifo', 'average'] as const;
+export type CostBasisMethod = typeof costBasisMethods[number];
+
+// The subset of a transaction row the engine needs, so fixtures can be built in memory
+export type CostBasisTransaction = Pick<Transaction, 'txHash' | 'type' | 'tokenId' | 'amount' | 'usdValue' | 'timestamp' | 'metadata'>;
+
+export interface TaxLot {
+  txHash: string;
+  amount: number;
+  costPerUnit: number;
+  acquiredAt: Date;
+}
+
+export interface Disposal {
+  txHash: string;
+  // Transaction that opened the consumed lot; empty when the sale exceeded the known lots
+  lotTxHash: string;
+  tokenId: string;
+  amount: number;
+  acquiredAt: Date;
+  disposedAt: Date;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+export interface TokenPnl {
+  tokenId: string;
+  quantity: number;
+  costBasis: number;
+  // Null when the token is held but has no current price
+  marketValue: number | null;
+  realizedPnl: number;
+  unrealizedPnl: number | null;
+  lots: TaxLot[];
+}
+
+export interface CostBasisResult {
+  method: CostBasisMethod;
+  tokens: Record<string, TokenPnl>;
+  disposals: Disposal[];
+  realizedPnl: number;
+  // Covers priced holdings only; unpriced ones are listed in unpricedTokens instead of counted as a loss
+  unrealizedPnl: number;
+  unpricedTokens: string[];
+  totalPnl: number;
+  // Total P&L relative to everything ever paid into lots
+  pnlPercentage: number;
+  totalInvested: number;
+  totalTrades: number;
+}
+
+// Incoming transfers are acquisitions, outgoing ones move basis out without realizing a gain.
+// Direction comes from metadata.direction, falling back to the sign of the amount.
+function transferDirection(tx: CostBasisTransaction): 'in' | 'out' {
+  const metadata = tx.metadata as { direction?: string } | null;
+  if (metadata?.direction === 'in' || metadata?.direction === 'out') return metadata.direction;
+  return parseFloat(tx.amount) < 0 ? 'out' : 'in';
+}
+
+// Builds tax lots from a wallet's transactions and computes realized and unrealized P&L
+export class CostBasisEngine {
+  // pricesUsd holds the current USD price per token id, used for unrealized P&L
+  calculate(
+    transactions: CostBasisTransaction[],
+    pricesUsd: Record<string, number>,
+    method: CostBasisMethod = 'fifo'
+  ): CostBasisResult {
+    const lotsByToken = new Map<string, TaxLot[]>();
+    const realizedByToken = new Map<string, number>();
+    const disposals: Disposal[] = [];
+    let totalInvested = 0;
+    let totalTrades = 0;
+
+    const ordered = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    for (const tx of ordered) {
+      const amount = Math.abs(parseFloat(tx.amount));
+      const usdValue = tx.usdValue !== null ? Math.abs(parseFloat(tx.usdValue)) : 0;
+      if (!amount) continue;
+
+      const lots = lotsByToken.get(tx.tokenId) || [];
+      lotsByToken.set(tx.tokenId, lots);
+
+      const isAcquisition = tx.type === 'buy' || tx.type === 'claim'
+        || (tx.type === 'transfer' && transferDirection(tx) === 'in');
+      const isDisposal = tx.type === 'sell';
+      const isTransferOut = tx.type === 'transfer' && transferDirection(tx) === 'out';
+
+      if (tx.type === 'buy' || tx.type === 'sell') totalTrades += 1;
+
+      if (isAcquisition) {
+        this.addLot(lots, { txHash: tx.txHash, amount, costPerUnit: usdValue / amount, acquiredAt: tx.timestamp }, method);
+        totalInvested += usdValue;
+      } else if (isDisposal || isTransferOut) {
+        const consumed = this.consumeLots(lots, amount, method, tx.timestamp);
+        const unitProceeds = usdValue / amount;
+
+        if (isDisposal) {
+          let realized = 0;
+          for (const part of consumed) {
+            const proceeds = part.amount * unitProceeds;
+            const costBasis = part.amount * part.costPerUnit;
+            realized += proceeds - costBasis;
+            disposals.push({
+              txHash: tx.txHash,
+              lotTxHash: part.txHash,
+              tokenId: tx.tokenId,
+              amount: part.amount,
+              acquiredAt: part.acquiredAt,
+              disposedAt: tx.timestamp,
+              proceeds,
+              costBasis,
+              gain: proceeds - costBasis
+            });
+          }
+          realizedByToken.set(tx.tokenId, (realizedByToken.get(tx.tokenId) || 0) + realized);
+        }
+      }
+      // stake/unstake keep ownership with the wallet and don't change lots
+    }
+
+    const tokens: Record<string, TokenPnl> = {};
+    let realizedPnl = 0;
+    let unrealizedPnl = 0;
+    const unpricedTokens: string[] = [];
+
+    const tokenIds = new Set([...Array.from(lotsByToken.keys()), ...Array.from(realizedByToken.keys())]);
+    tokenIds.forEach(tokenId => {
+      const lots = lotsByToken.get(tokenId) || [];
+      const quantity = lots.reduce((sum, lot) => sum + lot.amount, 0);
+      const costBasis = lots.reduce((sum, lot) => sum + lot.amount * lot.costPerUnit, 0);
+      const price = pricesUsd[tokenId];
+      const priced = price !== undefined || quantity <= 1e-12;
+      const marketValue = priced ? quantity * (price ?? 0) : null;
+      const realized = realizedByToken.get(tokenId) || 0;
+      const unrealized = marketValue !== null ? marketValue - costBasis : null;
+
+      tokens[tokenId] = {
+        tokenId,
+        quantity,
+        costBasis,
+        marketValue,
+        realizedPnl: realized,
+        unrealizedPnl: unrealized,
+        lots: lots.map(lot => ({ ...lot }))
+      };
+      realizedPnl += realized;
+      if (unrealized !== null) {
+        unrealizedPnl += unrealized;
+      } else {
+        unpricedTokens.push(tokenId);
+      }
+    });
+
+    const totalPnl = realizedPnl + unrealizedPnl;
+
+    return {
+      method,
+      tokens,
+      disposals,
+      realizedPnl,
+      unrealizedPnl,
+      unpricedTokens,
+      totalPnl,
+      pnlPercentage: totalInvested > 0 ? (totalPnl / totalInvested) * 100 : 0,
+      totalInvested,
+      totalTrades
+    };
+  }
+
+  private addLot(lots: TaxLot[], lot: TaxLot, method: CostBasisMethod): void {
+    lots.push(lot);
+    if (method !== 'average') return;
+
+    // Average cost re-prices every held lot at the pooled cost per unit, but each lot keeps its own
+    // acquisition date and lots are consumed oldest first, so holding periods stay correct
+    const totalAmount = lots.reduce((sum, held) => sum + held.amount, 0);
+    const totalCost = lots.reduce((sum, held) => sum + held.amount * held.costPerUnit, 0);
+    for (const held of lots) held.costPerUnit = totalCost / totalAmount;
+  }
+
+  // Removes `amount` from the lots in method order (oldest first for FIFO and average) and returns the consumed slices.
+  // Amounts beyond the held lots are returned as a zero-cost slice dated at disposal.
+  private consumeLots(lots: TaxLot[], amount: number, method: CostBasisMethod, disposedAt: Date): TaxLot[] {
+    const consumed: TaxLot[] = [];
+    let remaining = amount;
+
+    while (remaining > 0 && lots.length > 0) {
+      const index = method === 'lifo' ? lots.length - 1 : 0;
+      const lot = lots[index];
+      const take = Math.min(lot.amount, remaining);
+
+      consumed.push({ ...lot, amount: take });
+      lot.amount -= take;
+      remaining -= take;
+
+      // Drop exhausted lots, tolerating floating point dust
+      if (lot.amount <= 1e-12) lots.splice(index, 1);
+    }
+
+    if (remaining > 1e-12) {
+      consumed.push({ txHash: '', amount: remaining, costPerUnit: 0, acquiredAt: disposedAt });
+    }
+
+    return consumed;
+  }
+}
+
+export const costBasisEngine = new CostBasisEngine();
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import type { Proposal } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { FakeGovernorAdapter, TEST_GOVERNOR, fakeGovernorChains, governorLog, type FakeGovernorNode } from '../test/governance';
+import { GovernanceService, proposalTitle } from './governance';
+
+const VOTER = ethers.getAddress('0x1111111111111111111111111111111111111111');
+const ONE = ethers.parseEther('1');
+
+let storage: MemStorage;
+let node: FakeGovernorNode;
+let adapter: FakeGovernorAdapter;
+let service: GovernanceService;
+
+function proposal(proposalId: string, snapshotBlock: number, createdBlock: number): Promise<Proposal> {
+  return storage.upsertProposal({
+    chainId: TEST_GOVERNOR.chainId,
+    governorAddress: TEST_GOVERNOR.address,
+    proposalId,
+    proposer: VOTER,
+    title: `Proposal ${proposalId}`,
+    description: `Proposal ${proposalId}`,
+    snapshotBlock,
+    endBlock: snapshotBlock + 100,
+    status: 'active',
+    createdBlock,
+    createdTxHash: `0x${proposalId}`
+  });
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  await storage.createToken({ chainId: 1, symbol: 'OEC', name: 'Oeconomia', address: '0x1234567890123456789012345678901234567890', decimals: 18 });
+  node = { head: 100, deployed: new Set([TEST_GOVERNOR.address.toLowerCase()]), logs: [] };
+  adapter = new FakeGovernorAdapter();
+  service = new GovernanceService(storage, fakeGovernorChains(node), [TEST_GOVERNOR], { oz_governor: adapter, compound_bravo: adapter });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('proposalTitle', () => {
+  it('takes the first non-empty line without heading marks', () => {
+    expect(proposalTitle('\n\n## Raise the cap\nDetails')).toBe('Raise the cap');
+    expect(proposalTitle('   ')).toBe('Untitled proposal');
+  });
+});
+
+describe('GovernanceService.getVotingPower', () => {
+  it('reads current votes and the votes checkpointed at each past snapshot', async () => {
+    adapter.currentVotes = ONE * BigInt(7);
+    adapter.priorVotes.set(90, ONE * BigInt(5));
+    adapter.delegate = VOTER;
+    const past = await proposal('1', 90, 80);
+    await proposal('2', 150, 95);
+    await storage.createVote({ proposalId: past.id, voter: VOTER, support: 1, weight: '5.0', txHash: '0xvote', blockNumber: 91 });
+
+    const [governor] = await service.getVotingPower(VOTER);
+
+    expect(governor).toMatchObject({ governor: 'Test Governor', currentBlock: 100, delegate: VOTER, votingPower: '7.0' });
+    // A snapshot that isn't mined yet can't be read, so it shows the current votes
+    expect(governor.proposals).toMatchObject([
+      { proposalId: '2', snapshotBlock: 150, votingPower: '7.0', vote: null },
+      { proposalId: '1', snapshotBlock: 90, votingPower: '5.0', vote: { support: 1, weight: '5.0' } }
+    ]);
+    expect(adapter.priorVoteReads).toEqual([90]);
+  });
+
+  it('skips governors without deployed code', async () => {
+    node.deployed.clear();
+    expect(await service.getVotingPower(VOTER)).toEqual([]);
+  });
+});
+
+describe('GovernanceService.syncAll', () => {
+  it('indexes proposals and votes up to the head, then refreshes proposals that are still open', async () => {
+    const created = [BigInt(1), VOTER, [], [], [], [], BigInt(60), BigInt(200), '# Raise the cap\n\nDetails'];
+    node.logs = [
+      governorLog(TEST_GOVERNOR.address, 55, 'VoteCast', [VOTER, BigInt(1), 1, ONE * BigInt(3), 'yes']),
+      governorLog(TEST_GOVERNOR.address, 50, 'ProposalCreated', created),
+      // A vote on a proposal created before the scanned range
+      governorLog(TEST_GOVERNOR.address, 56, 'VoteCast', [VOTER, BigInt(9), 0, ONE, ''])
+    ];
+    adapter.states.set('1', 'active');
+    adapter.tallies.set('1', { forVotes: ONE * BigInt(3), againstVotes: BigInt(0), abstainVotes: BigInt(0) });
+
+    const [first] = await service.syncAll();
+
+    expect(first).toMatchObject({ fromBlock: 0, toBlock: 100, proposals: 1, votes: 1 });
+    const stored = (await storage.getProposalByOnchainId(1, TEST_GOVERNOR.address, '1'))!;
+    expect(stored).toMatchObject({ title: 'Raise the cap', status: 'active', snapshotBlock: 60, forVotes: '3.0', createdBlock: 50 });
+    expect(await storage.getProposalVotes(stored.id)).toMatchObject([{ voter: VOTER, support: 1, weight: '3.0', reason: 'yes' }]);
+
+    node.head = 120;
+    adapter.states.set('1', 'executed');
+    const [second] = await service.syncAll();
+
+    expect(second).toMatchObject({ fromBlock: 101, toBlock: 120, proposals: 0, votes: 0 });
+    expect((await storage.getProposal(stored.id))!.status).toBe('executed');
+    expect(await storage.getGovernanceCursor(1, TEST_GOVERNOR.address)).toMatchObject({ lastScannedBlock: 120 });
+  });
+
+  it('reports a failing governor without advancing its cursor', async () => {
+    node.logs = [governorLog(TEST_GOVERNOR.address, 50, 'ProposalCreated', [BigInt(1), VOTER, [], [], [], [], BigInt(60), BigInt(200), 'Title'])];
+    adapter.getState = async () => { throw new Error('RPC down'); };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const [result] = await service.syncAll();
+
+    expect(result).toMatchObject({ governor: 'Test Governor', error: 'RPC down' });
+    expect(await storage.getGovernanceCursor(1, TEST_GOVERNOR.address)).toBeUndefined();
+  });
+});
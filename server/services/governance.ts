@@ -0,0 +1,308 @@
+import { ethers } from 'ethers';
+import type { Proposal, Token } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { ChainServiceRegistry, chainServices } from './blockchain';
+import {
+  GOVERNOR_EVENTS_ABI,
+  finalProposalStates,
+  governorAdapters,
+  oeconomiaGovernors,
+  type GovernorAdapter,
+  type GovernorConfig,
+  type GovernorKind,
+  type ProposalStatus
+} from './governanceAdapters';
+
+export interface GovernorSyncResult {
+  governor: string;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  proposals: number;
+  votes: number;
+  // Set when this governor's RPC failed; its cursor is left where it was
+  error?: string;
+}
+
+export interface ProposalVotingPower {
+  id: string;
+  proposalId: string;
+  title: string;
+  status: string;
+  snapshotBlock: number;
+  // Delegated votes the wallet held at the snapshot block
+  votingPower: string;
+  vote: { support: number; weight: string } | null;
+}
+
+export interface GovernorVotingPower {
+  governor: string;
+  chainId: number;
+  address: string;
+  tokenSymbol: string;
+  currentBlock: number;
+  // Zero address when the wallet has never delegated, in which case it has no votes
+  delegate: string;
+  votingPower: string;
+  proposals: ProposalVotingPower[];
+}
+
+interface GovernanceOptions {
+  // Blocks to scan back from the chain head when a governor has no cursor and no deploy block
+  initialLookbackBlocks: number;
+  // Largest block range requested from eth_getLogs at once
+  logChunkSize: number;
+  // Upper bound on blocks processed per run
+  maxBlocksPerRun: number;
+}
+
+// First non-empty line of a proposal description, without markdown heading marks
+export function proposalTitle(description: string): string {
+  const line = description.split('\n').map(l => l.trim()).find(l => l.length > 0) || '';
+  return line.replace(/^#+\s*/, '').slice(0, 200) || 'Untitled proposal';
+}
+
+// Indexes proposals and votes from Governor contracts and reads delegated voting power
+export class GovernanceService {
+  private options: GovernanceOptions;
+  private events = new ethers.Interface(GOVERNOR_EVENTS_ABI);
+
+  constructor(
+    private storage: IStorage,
+    private chains: ChainServiceRegistry,
+    private governors: GovernorConfig[] = oeconomiaGovernors,
+    private adapters: Record<GovernorKind, GovernorAdapter> = governorAdapters,
+    options: Partial<GovernanceOptions> = {}
+  ) {
+    this.options = {
+      initialLookbackBlocks: 50000,
+      logChunkSize: 2000,
+      maxBlocksPerRun: 50000,
+      ...options
+    };
+  }
+
+  async syncAll(): Promise<GovernorSyncResult[]> {
+    const tokens = await this.storage.getAllTokens();
+    const results: GovernorSyncResult[] = [];
+
+    for (const governor of this.governors) {
+      if (!this.chains.isSupported(governor.chainId)) continue;
+      try {
+        const result = await this.syncGovernor(governor, tokens);
+        if (result) results.push(result);
+      } catch (error) {
+        console.error(`Error syncing governor ${governor.name}:`, error);
+        results.push({
+          governor: governor.name,
+          chainId: governor.chainId,
+          fromBlock: 0,
+          toBlock: 0,
+          proposals: 0,
+          votes: 0,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // Scans new ProposalCreated/VoteCast events from the cursor, then refreshes state and tallies
+  // of proposals that can still change. The cursor only advances after a range is fully written.
+  private async syncGovernor(governor: GovernorConfig, tokens: Token[]): Promise<GovernorSyncResult | null> {
+    const provider = this.chains.get(governor.chainId).getProvider();
+    if (await provider.getCode(governor.address) === '0x') return null;
+
+    const adapter = this.adapters[governor.kind];
+    const decimals = this.votingTokenDecimals(governor, tokens);
+    const head = await provider.getBlockNumber();
+    const cursor = await this.storage.getGovernanceCursor(governor.chainId, governor.address);
+    const fromBlock = cursor
+      ? cursor.lastScannedBlock + 1
+      : governor.deployBlock ?? Math.max(0, head - this.options.initialLookbackBlocks);
+    const toBlock = Math.min(head, fromBlock + this.options.maxBlocksPerRun - 1);
+
+    let proposalCount = 0;
+    let voteCount = 0;
+
+    for (let start = fromBlock; start <= toBlock; start += this.options.logChunkSize) {
+      const end = Math.min(toBlock, start + this.options.logChunkSize - 1);
+      const logs = await provider.getLogs({ address: governor.address, fromBlock: start, toBlock: end });
+
+      // Proposals are written before votes so a vote in the same range can find its proposal
+      const parsed = logs
+        .map(log => ({ log, event: this.events.parseLog({ topics: [...log.topics], data: log.data }) }))
+        .filter(entry => entry.event !== null)
+        .sort((a, b) => (a.event!.name === 'ProposalCreated' ? 0 : 1) - (b.event!.name === 'ProposalCreated' ? 0 : 1));
+
+      for (const { log, event } of parsed) {
+        if (event!.name === 'ProposalCreated') {
+          const proposalId: bigint = event!.args.proposalId;
+          const description: string = event!.args.description;
+          const [status, tallies] = await Promise.all([
+            adapter.getState(provider, governor, proposalId),
+            adapter.getTallies(provider, governor, proposalId)
+          ]);
+          await this.storage.upsertProposal({
+            chainId: governor.chainId,
+            governorAddress: governor.address,
+            proposalId: proposalId.toString(),
+            proposer: event!.args.proposer,
+            title: proposalTitle(description),
+            description,
+            snapshotBlock: Number(event!.args.voteStart),
+            endBlock: Number(event!.args.voteEnd),
+            status,
+            forVotes: ethers.formatUnits(tallies.forVotes, decimals),
+            againstVotes: ethers.formatUnits(tallies.againstVotes, decimals),
+            abstainVotes: ethers.formatUnits(tallies.abstainVotes, decimals),
+            createdBlock: log.blockNumber,
+            createdTxHash: log.transactionHash
+          });
+          proposalCount += 1;
+        } else if (event!.name === 'VoteCast') {
+          const proposal = await this.storage.getProposalByOnchainId(
+            governor.chainId,
+            governor.address,
+            (event!.args.proposalId as bigint).toString()
+          );
+          // Votes on proposals created before the scanned range have nothing to attach to
+          if (!proposal) continue;
+
+          const vote = await this.storage.createVote({
+            proposalId: proposal.id,
+            voter: event!.args.voter,
+            support: Number(event!.args.support),
+            weight: ethers.formatUnits(event!.args.weight, decimals),
+            reason: event!.args.reason || null,
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber
+          });
+          if (vote) voteCount += 1;
+        }
+      }
+
+      await this.storage.upsertGovernanceCursor({
+        chainId: governor.chainId,
+        governorAddress: governor.address,
+        lastScannedBlock: end
+      });
+    }
+
+    await this.refreshOpenProposals(governor, adapter, provider, decimals);
+
+    return {
+      governor: governor.name,
+      chainId: governor.chainId,
+      fromBlock,
+      toBlock,
+      proposals: proposalCount,
+      votes: voteCount
+    };
+  }
+
+  private async refreshOpenProposals(
+    governor: GovernorConfig,
+    adapter: GovernorAdapter,
+    provider: ethers.Provider,
+    decimals: number
+  ): Promise<void> {
+    const open = (await this.storage.getProposals({ limit: 500 })).filter(proposal =>
+      proposal.chainId === governor.chainId
+      && proposal.governorAddress === governor.address
+      && !finalProposalStates.includes(proposal.status as ProposalStatus)
+    );
+
+    for (const proposal of open) {
+      const proposalId = BigInt(proposal.proposalId);
+      const [status, tallies] = await Promise.all([
+        adapter.getState(provider, governor, proposalId),
+        adapter.getTallies(provider, governor, proposalId)
+      ]);
+      await this.storage.updateProposal(proposal.id, {
+        status,
+        forVotes: ethers.formatUnits(tallies.forVotes, decimals),
+        againstVotes: ethers.formatUnits(tallies.againstVotes, decimals),
+        abstainVotes: ethers.formatUnits(tallies.abstainVotes, decimals)
+      });
+    }
+  }
+
+  // Delegated votes for `address` at the current block and at the snapshot of every known proposal
+  async getVotingPower(address: string): Promise<GovernorVotingPower[]> {
+    const tokens = await this.storage.getAllTokens();
+    const proposals = await this.storage.getProposals({ limit: 500 });
+    const votes = await this.storage.getVotesByVoter(address);
+    const results: GovernorVotingPower[] = [];
+
+    for (const governor of this.governors) {
+      if (!this.chains.isSupported(governor.chainId)) continue;
+
+      const provider = this.chains.get(governor.chainId).getProvider();
+      if (await provider.getCode(governor.address) === '0x') continue;
+
+      const adapter = this.adapters[governor.kind];
+      const decimals = this.votingTokenDecimals(governor, tokens);
+      const token = await adapter.getVotingToken(provider, governor);
+      const [currentBlock, currentVotes, delegate] = await Promise.all([
+        provider.getBlockNumber(),
+        adapter.getCurrentVotes(provider, token, address),
+        adapter.getDelegate(provider, token, address)
+      ]);
+
+      const governorProposals = proposals.filter(proposal =>
+        proposal.chainId === governor.chainId && proposal.governorAddress === governor.address
+      );
+
+      const proposalPower: ProposalVotingPower[] = [];
+      for (const proposal of governorProposals) {
+        const power = await this.votesAtSnapshot(adapter, provider, token, address, proposal, currentBlock, currentVotes);
+        const vote = votes.find(v => v.proposalId === proposal.id);
+        proposalPower.push({
+          id: proposal.id,
+          proposalId: proposal.proposalId,
+          title: proposal.title,
+          status: proposal.status,
+          snapshotBlock: proposal.snapshotBlock,
+          votingPower: ethers.formatUnits(power, decimals),
+          vote: vote ? { support: vote.support, weight: vote.weight } : null
+        });
+      }
+
+      results.push({
+        governor: governor.name,
+        chainId: governor.chainId,
+        address: governor.address,
+        tokenSymbol: governor.tokenSymbol,
+        currentBlock,
+        delegate,
+        votingPower: ethers.formatUnits(currentVotes, decimals),
+        proposals: proposalPower
+      });
+    }
+
+    return results;
+  }
+
+  // Checkpoints can only be read for mined blocks; a snapshot still in the future uses current votes
+  private async votesAtSnapshot(
+    adapter: GovernorAdapter,
+    provider: ethers.Provider,
+    token: string,
+    address: string,
+    proposal: Proposal,
+    currentBlock: number,
+    currentVotes: bigint
+  ): Promise<bigint> {
+    if (proposal.snapshotBlock >= currentBlock) return currentVotes;
+    return await adapter.getPriorVotes(provider, token, address, proposal.snapshotBlock);
+  }
+
+  private votingTokenDecimals(governor: GovernorConfig, tokens: Token[]): number {
+    const token = tokens.find(t => t.chainId === governor.chainId && t.symbol === governor.tokenSymbol);
+    return token?.decimals ?? 18;
+  }
+}
+
+export const governanceService = new GovernanceService(storage, chainServices);
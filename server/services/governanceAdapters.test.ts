@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { CompoundBravoAdapter, OzGovernorAdapter, type GovernorConfig } from './governanceAdapters';
+
+const GOVERNOR = '0x5555555555555555555555555555555555555555';
+const TOKEN = '0x6666666666666666666666666666666666666666';
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+
+// Every function either governor family or its token is asked for
+const contracts = new ethers.Interface([
+  'function state(uint256 proposalId) view returns (uint8)',
+  'function proposalVotes(uint256 proposalId) view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes)',
+  'function proposals(uint256 proposalId) view returns (uint256 id, address proposer, uint256 eta, uint256 startBlock, uint256 endBlock, uint256 forVotes, uint256 againstVotes, uint256 abstainVotes, bool canceled, bool executed)',
+  'function token() view returns (address)',
+  'function comp() view returns (address)',
+  'function getVotes(address account) view returns (uint256)',
+  'function getPastVotes(address account, uint256 timepoint) view returns (uint256)',
+  'function getCurrentVotes(address account) view returns (uint96)',
+  'function getPriorVotes(address account, uint256 blockNumber) view returns (uint96)'
+]);
+
+let results: Record<string, unknown[]>;
+let calls: Array<{ to: string; name: string; args: unknown[] }>;
+
+// Answers eth_call from `results` by function name and records each call
+const provider = {
+  async call(tx: { to: string; data: string }) {
+    const parsed = contracts.parseTransaction({ data: tx.data })!;
+    calls.push({ to: tx.to, name: parsed.name, args: Array.from(parsed.args) });
+    return contracts.encodeFunctionResult(parsed.fragment, results[parsed.name]);
+  }
+} as unknown as ethers.Provider;
+
+function governor(kind: GovernorConfig['kind']): GovernorConfig {
+  return { name: 'Test Governor', kind, chainId: 1, address: GOVERNOR, tokenSymbol: 'OEC' };
+}
+
+beforeEach(() => {
+  results = {};
+  calls = [];
+});
+
+describe('OzGovernorAdapter', () => {
+  const adapter = new OzGovernorAdapter();
+
+  it('maps Governor.state() onto proposal statuses', async () => {
+    const statuses = [];
+    for (const state of [0, 1, 4, 7, 8]) {
+      results.state = [state];
+      statuses.push(await adapter.getState(provider, governor('oz_governor'), BigInt(1)));
+    }
+    // Out-of-range values from a non-standard governor read as pending
+    expect(statuses).toEqual(['pending', 'active', 'succeeded', 'executed', 'pending']);
+  });
+
+  it('reads tallies from proposalVotes, which lists against before for', async () => {
+    results.proposalVotes = [BigInt(2), BigInt(5), BigInt(1)];
+
+    expect(await adapter.getTallies(provider, governor('oz_governor'), BigInt(7))).toEqual({
+      forVotes: BigInt(5), againstVotes: BigInt(2), abstainVotes: BigInt(1)
+    });
+    expect(calls[0]).toMatchObject({ to: GOVERNOR, name: 'proposalVotes', args: [BigInt(7)] });
+  });
+
+  it('reads votes from the ERC20Votes token', async () => {
+    results = { token: [TOKEN], getVotes: [BigInt(10)], getPastVotes: [BigInt(4)] };
+
+    expect(await adapter.getVotingToken(provider, governor('oz_governor'))).toBe(TOKEN);
+    expect(await adapter.getCurrentVotes(provider, TOKEN, ACCOUNT)).toBe(BigInt(10));
+    expect(await adapter.getPriorVotes(provider, TOKEN, ACCOUNT, 90)).toBe(BigInt(4));
+    expect(calls[2]).toMatchObject({ to: TOKEN, name: 'getPastVotes', args: [ACCOUNT, BigInt(90)] });
+  });
+});
+
+describe('CompoundBravoAdapter', () => {
+  const adapter = new CompoundBravoAdapter();
+
+  it('maps GovernorBravo.state() onto the same statuses', async () => {
+    results.state = [5];
+    expect(await adapter.getState(provider, governor('compound_bravo'), BigInt(1))).toBe('queued');
+    results.state = [2];
+    expect(await adapter.getState(provider, governor('compound_bravo'), BigInt(1))).toBe('canceled');
+  });
+
+  it('reads tallies from the proposals() struct', async () => {
+    results.proposals = [BigInt(7), ACCOUNT, 0, 10, 20, BigInt(5), BigInt(2), BigInt(1), false, false];
+
+    expect(await adapter.getTallies(provider, governor('compound_bravo'), BigInt(7))).toEqual({
+      forVotes: BigInt(5), againstVotes: BigInt(2), abstainVotes: BigInt(1)
+    });
+  });
+
+  it('reads votes from the COMP-style token', async () => {
+    results = { comp: [TOKEN], getCurrentVotes: [BigInt(10)], getPriorVotes: [BigInt(4)] };
+
+    expect(await adapter.getVotingToken(provider, governor('compound_bravo'))).toBe(TOKEN);
+    expect(await adapter.getCurrentVotes(provider, TOKEN, ACCOUNT)).toBe(BigInt(10));
+    expect(await adapter.getPriorVotes(provider, TOKEN, ACCOUNT, 90)).toBe(BigInt(4));
+    expect(calls[2]).toMatchObject({ to: TOKEN, name: 'getPriorVotes', args: [ACCOUNT, BigInt(90)] });
+  });
+});
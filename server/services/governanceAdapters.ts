@@ -0,0 +1,143 @@
+import { ethers } from 'ethers';
+
+export type GovernorKind = 'oz_governor' | 'compound_bravo';
+
+// Governor.state() enum, shared by OpenZeppelin Governor and Compound GovernorBravo
+export const proposalStates = ['pending', 'active', 'canceled', 'defeated', 'succeeded', 'queued', 'expired', 'executed'] as const;
+export type ProposalStatus = typeof proposalStates[number];
+
+// Proposals in these states can no longer change, so they aren't re-read on every sync
+export const finalProposalStates: ProposalStatus[] = ['canceled', 'defeated', 'expired', 'executed'];
+
+export interface GovernorConfig {
+  name: string;
+  kind: GovernorKind;
+  chainId: number;
+  address: string;
+  // Registered token that carries the votes, used for decimals and USD value
+  tokenSymbol: string;
+  // First block worth scanning for ProposalCreated events
+  deployBlock?: number;
+}
+
+export interface ProposalTallies {
+  forVotes: bigint;
+  againstVotes: bigint;
+  abstainVotes: bigint;
+}
+
+export interface GovernorAdapter {
+  readonly kind: GovernorKind;
+  getState(provider: ethers.Provider, governor: GovernorConfig, proposalId: bigint): Promise<ProposalStatus>;
+  getTallies(provider: ethers.Provider, governor: GovernorConfig, proposalId: bigint): Promise<ProposalTallies>;
+  // Address of the token whose delegated balances count as votes
+  getVotingToken(provider: ethers.Provider, governor: GovernorConfig): Promise<string>;
+  getCurrentVotes(provider: ethers.Provider, token: string, account: string): Promise<bigint>;
+  getPriorVotes(provider: ethers.Provider, token: string, account: string, blockNumber: number): Promise<bigint>;
+  getDelegate(provider: ethers.Provider, token: string, account: string): Promise<string>;
+}
+
+// Both governor families emit the same ProposalCreated and VoteCast events
+export const GOVERNOR_EVENTS_ABI = [
+  'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)',
+  'event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)'
+];
+
+const STATE_ABI = ['function state(uint256 proposalId) view returns (uint8)'];
+
+async function readState(provider: ethers.Provider, governor: GovernorConfig, proposalId: bigint): Promise<ProposalStatus> {
+  const contract = new ethers.Contract(governor.address, STATE_ABI, provider);
+  const state: bigint = await contract.state(proposalId);
+  return proposalStates[Number(state)] ?? 'pending';
+}
+
+// OpenZeppelin Governor with GovernorCountingSimple and an ERC20Votes token.
+// Assumes the token uses the default block-number clock (ERC-6372).
+export class OzGovernorAdapter implements GovernorAdapter {
+  readonly kind = 'oz_governor' as const;
+
+  getState(provider: ethers.Provider, governor: GovernorConfig, proposalId: bigint): Promise<ProposalStatus> {
+    return readState(provider, governor, proposalId);
+  }
+
+  async getTallies(provider: ethers.Provider, governor: GovernorConfig, proposalId: bigint): Promise<ProposalTallies> {
+    const contract = new ethers.Contract(governor.address, [
+      'function proposalVotes(uint256 proposalId) view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes)'
+    ], provider);
+    const result = await contract.proposalVotes(proposalId);
+    return { forVotes: result.forVotes, againstVotes: result.againstVotes, abstainVotes: result.abstainVotes };
+  }
+
+  async getVotingToken(provider: ethers.Provider, governor: GovernorConfig): Promise<string> {
+    const contract = new ethers.Contract(governor.address, ['function token() view returns (address)'], provider);
+    return await contract.token();
+  }
+
+  async getCurrentVotes(provider: ethers.Provider, token: string, account: string): Promise<bigint> {
+    const contract = new ethers.Contract(token, ['function getVotes(address account) view returns (uint256)'], provider);
+    return await contract.getVotes(account);
+  }
+
+  async getPriorVotes(provider: ethers.Provider, token: string, account: string, blockNumber: number): Promise<bigint> {
+    const contract = new ethers.Contract(token, ['function getPastVotes(address account, uint256 timepoint) view returns (uint256)'], provider);
+    return await contract.getPastVotes(account, blockNumber);
+  }
+
+  async getDelegate(provider: ethers.Provider, token: string, account: string): Promise<string> {
+    const contract = new ethers.Contract(token, ['function delegates(address account) view returns (address)'], provider);
+    return await contract.delegates(account);
+  }
+}
+
+// Compound GovernorBravo with a COMP-style token
+export class CompoundBravoAdapter implements GovernorAdapter {
+  readonly kind = 'compound_bravo' as const;
+
+  getState(provider: ethers.Provider, governor: GovernorConfig, proposalId: bigint): Promise<ProposalStatus> {
+    return readState(provider, governor, proposalId);
+  }
+
+  async getTallies(provider: ethers.Provider, governor: GovernorConfig, proposalId: bigint): Promise<ProposalTallies> {
+    const contract = new ethers.Contract(governor.address, [
+      'function proposals(uint256 proposalId) view returns (uint256 id, address proposer, uint256 eta, uint256 startBlock, uint256 endBlock, uint256 forVotes, uint256 againstVotes, uint256 abstainVotes, bool canceled, bool executed)'
+    ], provider);
+    const result = await contract.proposals(proposalId);
+    return { forVotes: result.forVotes, againstVotes: result.againstVotes, abstainVotes: result.abstainVotes };
+  }
+
+  async getVotingToken(provider: ethers.Provider, governor: GovernorConfig): Promise<string> {
+    const contract = new ethers.Contract(governor.address, ['function comp() view returns (address)'], provider);
+    return await contract.comp();
+  }
+
+  async getCurrentVotes(provider: ethers.Provider, token: string, account: string): Promise<bigint> {
+    const contract = new ethers.Contract(token, ['function getCurrentVotes(address account) view returns (uint96)'], provider);
+    return await contract.getCurrentVotes(account);
+  }
+
+  async getPriorVotes(provider: ethers.Provider, token: string, account: string, blockNumber: number): Promise<bigint> {
+    const contract = new ethers.Contract(token, ['function getPriorVotes(address account, uint256 blockNumber) view returns (uint96)'], provider);
+    return await contract.getPriorVotes(account, blockNumber);
+  }
+
+  async getDelegate(provider: ethers.Provider, token: string, account: string): Promise<string> {
+    const contract = new ethers.Contract(token, ['function delegates(address account) view returns (address)'], provider);
+    return await contract.delegates(account);
+  }
+}
+
+export const governorAdapters: Record<GovernorKind, GovernorAdapter> = {
+  oz_governor: new OzGovernorAdapter(),
+  compound_bravo: new CompoundBravoAdapter()
+};
+
+// Oeconomia governors tracked by the dashboard. Governors without deployed code are skipped.
+export const oeconomiaGovernors: GovernorConfig[] = [
+  {
+    name: 'OEC Governor',
+    kind: 'oz_governor',
+    chainId: 1,
+    address: '0x5555555555555555555555555555555555555555', // Placeholder address
+    tokenSymbol: 'OEC'
+  }
+];
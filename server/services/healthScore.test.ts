@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { StakingPosition, Token } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { HealthScoreService, healthLabel } from './healthScore';
+
+const NOW = new Date('2024-06-30T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+let storage: MemStorage;
+let service: HealthScoreService;
+let eth: Token;
+let usdc: Token;
+let oec: Token;
+
+function stake(tokenId: string, stakedAmount: string, unclaimedRewards: string): StakingPosition {
+  return {
+    id: `stake-${tokenId}`,
+    walletId: 'wallet',
+    tokenId,
+    rewardTokenId: null,
+    chainId: 1,
+    poolAddress: '0x2222222222222222222222222222222222222222',
+    poolId: 0,
+    poolName: 'Pool',
+    stakingType: 'staking',
+    stakedAmount,
+    lpToken: false,
+    stakedUsdValue: null,
+    rewardsEarned: '0',
+    unclaimedRewards,
+    apy: '0',
+    isActive: true,
+    createdAt: NOW,
+    updatedAt: NOW
+  };
+}
+
+function factor(report: Awaited<ReturnType<HealthScoreService['assess']>>, key: string) {
+  return report.factors.find(f => f.key === key)!;
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  service = new HealthScoreService(storage);
+
+  eth = await storage.createToken({ chainId: 1, symbol: 'ETH', name: 'Ethereum', address: '0x0000000000000000000000000000000000000000', decimals: 18 });
+  usdc = await storage.createToken({ chainId: 1, symbol: 'USDC', name: 'USD Coin', address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', decimals: 6 });
+  oec = await storage.createToken({ chainId: 1, symbol: 'OEC', name: 'Oeconomia', address: '0x1234567890123456789012345678901234567890', decimals: 18 });
+  await storage.createTokenPriceSource({ tokenId: eth.id, sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 });
+  await storage.createTokenPriceSource({ tokenId: usdc.id, sourceType: 'fixed_peg', pegPrice: '1', priority: 0 });
+  await storage.createTokenPriceSource({ tokenId: oec.id, sourceType: 'onchain_pool', sourceRef: '0x3333333333333333333333333333333333333333', priority: 0 });
+});
+
+describe('HealthScoreService', () => {
+  it('reports no holdings for an empty portfolio', async () => {
+    const report = await service.assess({ holdings: [], stakes: [], prices: {} }, NOW);
+    expect(report).toMatchObject({ score: null, label: 'No Holdings', factors: [] });
+  });
+
+  it('scores concentration by HHI and flags a single-token portfolio', async () => {
+    const report = await service.assess({ holdings: [{ tokenId: eth.id, usdValue: 1000 }], stakes: [], prices: {} }, NOW);
+
+    expect(factor(report, 'concentration')).toMatchObject({ score: 0, value: 1 });
+    expect(factor(report, 'stablecoins')).toMatchObject({ score: 40, value: 0 });
+    expect(factor(report, 'unverified')).toMatchObject({ score: 100, value: 0 });
+  });
+
+  it('classifies stablecoins and unverified tokens from the price source registry', async () => {
+    const report = await service.assess({
+      holdings: [
+        { tokenId: eth.id, usdValue: 500 },
+        { tokenId: usdc.id, usdValue: 250 },
+        { tokenId: oec.id, usdValue: 250 }
+      ],
+      stakes: [],
+      prices: {}
+    }, NOW);
+
+    expect(factor(report, 'concentration').value).toBeCloseTo(0.375);
+    expect(factor(report, 'stablecoins')).toMatchObject({ score: 100, value: 0.25 });
+    expect(factor(report, 'unverified')).toMatchObject({ score: 50, value: 0.25 });
+  });
+
+  it('recognizes stablecoins priced from their CoinGecko listing', async () => {
+    const usdt = await storage.createToken({ chainId: 1, symbol: 'USDT', name: 'Tether', address: '0xdac17f958d2ee523a2206206994597c13d831ec7', decimals: 6 });
+    await storage.createTokenPriceSource({ tokenId: usdt.id, sourceType: 'coingecko', sourceRef: 'tether', priority: 0 });
+
+    const report = await service.assess({
+      holdings: [
+        { tokenId: eth.id, usdValue: 700 },
+        { tokenId: usdt.id, usdValue: 300 }
+      ],
+      stakes: [],
+      prices: {}
+    }, NOW);
+
+    expect(factor(report, 'stablecoins')).toMatchObject({ score: 100, value: 0.3 });
+    expect(factor(report, 'unverified').value).toBe(0);
+  });
+
+  it('counts staked value as illiquid and unclaimed rewards as drag', async () => {
+    const report = await service.assess({
+      holdings: [{ tokenId: eth.id, usdValue: 100 }],
+      stakes: [stake(oec.id, '900', '100')],
+      prices: { [oec.id]: 1 }
+    }, NOW);
+
+    expect(factor(report, 'liquidity')).toMatchObject({ value: 0.9 });
+    expect(factor(report, 'liquidity').score).toBe(13);
+    expect(factor(report, 'rewards').value).toBeCloseTo(100 / 1100);
+    expect(factor(report, 'rewards').score).toBe(10);
+  });
+
+  it('values LP stakes from their synced USD value rather than the filed token price', async () => {
+    const report = await service.assess({
+      holdings: [{ tokenId: eth.id, usdValue: 100 }],
+      stakes: [{ ...stake(oec.id, '10', '0'), lpToken: true, stakedUsdValue: '300' }],
+      prices: { [oec.id]: 1 }
+    }, NOW);
+
+    expect(factor(report, 'liquidity').value).toBeCloseTo(0.75);
+  });
+
+  it('measures volatility from daily price history and leaves it out when there is none', async () => {
+    const holdings = [{ tokenId: eth.id, usdValue: 1000 }];
+    const unmeasured = await service.assess({ holdings, stakes: [], prices: {} }, NOW);
+    expect(factor(unmeasured, 'volatility')).toMatchObject({ score: null, value: null });
+    expect(unmeasured.score).not.toBeNull();
+
+    // Alternating ±5% days
+    for (let i = 0; i < 10; i++) {
+      await storage.upsertPriceCandle('1d', eth.id, new Date(NOW.getTime() - (10 - i) * DAY), i % 2 === 0 ? '3000' : '3150');
+    }
+    const measured = await service.assess({ holdings, stakes: [], prices: {} }, NOW);
+
+    expect(factor(measured, 'volatility').value).toBeGreaterThan(0.9);
+    expect(factor(measured, 'volatility').score).toBeLessThan(50);
+  });
+
+  it('combines the measured factors by weight', async () => {
+    const report = await service.assess({
+      holdings: [
+        { tokenId: eth.id, usdValue: 500 },
+        { tokenId: usdc.id, usdValue: 500 }
+      ],
+      stakes: [],
+      prices: {}
+    }, NOW);
+
+    // Concentration 63, stablecoins 100, liquidity 100, rewards 100, unverified 100; volatility unmeasured
+    expect(report.score).toBe(Math.round((63 * 0.3 + 100 * 0.15 + 100 * 0.15 + 100 * 0.1 + 100 * 0.1) / 0.8));
+    expect(report.label).toBe(healthLabel(report.score));
+  });
+});
@@ -0,0 +1,250 @@
+import type { StakingPosition } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { annualizedVolatility, periodReturns } from './analytics';
+import { stakedUsdValue } from './stakingSync';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily closes looked at for volatility
+const VOLATILITY_WINDOW_MS = 30 * DAY_MS;
+// A fixed peg within this distance of $1 counts as a stablecoin
+const STABLE_PEG_TOLERANCE = 0.05;
+// CoinGecko ids of major USD stablecoins, which are priced from the market rather than a peg
+const USD_STABLECOIN_COINGECKO_IDS = new Set([
+  'tether',
+  'usd-coin',
+  'dai',
+  'usds',
+  'first-digital-usd',
+  'true-usd',
+  'paypal-usd',
+  'pax-dollar',
+  'gemini-dollar',
+  'binance-usd',
+  'frax',
+  'liquity-usd',
+  'crvusd',
+  'gho',
+  'ethena-usde'
+]);
+
+export const healthFactorKeys = ['concentration', 'volatility', 'stablecoins', 'liquidity', 'rewards', 'unverified'] as const;
+export type HealthFactorKey = typeof healthFactorKeys[number];
+
+// Share of the overall score; factors that can't be measured are left out and the rest reweighted
+const FACTOR_WEIGHTS: Record<HealthFactorKey, number> = {
+  concentration: 0.3,
+  volatility: 0.2,
+  stablecoins: 0.15,
+  liquidity: 0.15,
+  rewards: 0.1,
+  unverified: 0.1
+};
+
+const FACTOR_LABELS: Record<HealthFactorKey, string> = {
+  concentration: 'Concentration',
+  volatility: 'Volatility',
+  stablecoins: 'Stablecoin Share',
+  liquidity: 'Staking Lockups',
+  rewards: 'Unclaimed Rewards',
+  unverified: 'Unverified Tokens'
+};
+
+export interface HealthFactor {
+  key: HealthFactorKey;
+  label: string;
+  // 0–100, or null when there wasn't enough data to judge
+  score: number | null;
+  weight: number;
+  // The measured quantity behind the score (HHI, annualized volatility, or a share of the portfolio)
+  value: number | null;
+  explanation: string;
+}
+
+// Stored as JSON on the portfolio row next to the health score label
+export interface HealthReport {
+  score: number | null;
+  label: string;
+  factors: HealthFactor[];
+  assessedAt: string;
+}
+
+export interface HealthInput {
+  // USD value held per token
+  holdings: Array<{ tokenId: string; usdValue: number }>;
+  stakes: StakingPosition[];
+  // Current USD price per token id
+  prices: Record<string, number>;
+}
+
+function clamp(score: number): number {
+  return Math.round(Math.min(100, Math.max(0, score)));
+}
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+export function healthLabel(score: number | null): string {
+  if (score === null) return 'No Holdings';
+  if (score >= 80) return 'Healthy';
+  if (score >= 60) return 'Moderate';
+  if (score >= 40) return 'At Risk';
+  return 'High Risk';
+}
+
+// Scores a portfolio on several independent factors and combines them into one 0–100 score.
+// Everything is measured against total exposure: held plus staked value.
+export class HealthScoreService {
+  constructor(private storage: IStorage) {}
+
+  async assess(input: HealthInput, now: Date = new Date()): Promise<HealthReport> {
+    const exposure = new Map<string, number>();
+    const add = (tokenId: string, usd: number) => {
+      if (usd > 0) exposure.set(tokenId, (exposure.get(tokenId) ?? 0) + usd);
+    };
+
+    for (const holding of input.holdings) add(holding.tokenId, holding.usdValue);
+
+    let stakedUsd = 0;
+    let unclaimedUsd = 0;
+    for (const stake of input.stakes) {
+      const staked = stakedUsdValue(stake, input.prices) ?? 0;
+      add(stake.tokenId, staked);
+      stakedUsd += staked;
+      unclaimedUsd += parseFloat(stake.unclaimedRewards) * (input.prices[stake.rewardTokenId ?? stake.tokenId] ?? 0);
+    }
+
+    const total = Array.from(exposure.values()).reduce((sum, usd) => sum + usd, 0);
+    if (total <= 0) {
+      return { score: null, label: healthLabel(null), factors: [], assessedAt: now.toISOString() };
+    }
+
+    const { stablecoins, verified } = await this.classify(Array.from(exposure.keys()));
+    const shareOf = (tokenIds: Iterable<string>) => {
+      let usd = 0;
+      for (const tokenId of Array.from(tokenIds)) usd += exposure.get(tokenId) ?? 0;
+      return usd / total;
+    };
+
+    const factors: HealthFactor[] = [
+      this.concentration(exposure, total),
+      await this.volatility(exposure, stablecoins, now),
+      this.stablecoins(shareOf(stablecoins)),
+      this.liquidity(stakedUsd / total),
+      this.rewards(unclaimedUsd / (total + unclaimedUsd)),
+      this.unverified(1 - shareOf(verified))
+    ];
+
+    const scored = factors.filter(factor => factor.score !== null);
+    const weight = scored.reduce((sum, factor) => sum + factor.weight, 0);
+    const score = clamp(scored.reduce((sum, factor) => sum + factor.score! * factor.weight, 0) / weight);
+
+    return { score, label: healthLabel(score), factors, assessedAt: now.toISOString() };
+  }
+
+  // Herfindahl–Hirschman index of exposure shares: 1 for a single token, 1/n for n equal ones.
+  // Five or more evenly held tokens (HHI ≤ 0.2) score full marks.
+  private concentration(exposure: Map<string, number>, total: number): HealthFactor {
+    const hhi = Array.from(exposure.values()).reduce((sum, usd) => sum + (usd / total) ** 2, 0);
+    const largest = Math.max(...Array.from(exposure.values())) / total;
+    return this.factor('concentration', clamp(((1 - hhi) / 0.8) * 100), hhi,
+      `HHI ${hhi.toFixed(2)} across ${exposure.size} token${exposure.size === 1 ? '' : 's'}; the largest position is ${percent(largest)} of the portfolio.`);
+  }
+
+  // Value-weighted annualized volatility of daily closes; 20% or less scores full marks, 150% or more scores zero
+  private async volatility(exposure: Map<string, number>, stablecoins: Set<string>, now: Date): Promise<HealthFactor> {
+    let weighted = 0;
+    let covered = 0;
+    let coveredTokens = 0;
+    let volatileTokens = 0;
+    let measuredVolatile = 0;
+
+    for (const [tokenId, usd] of Array.from(exposure.entries())) {
+      let annualized = 0;
+      if (!stablecoins.has(tokenId)) {
+        volatileTokens += 1;
+        const points = await this.storage.getPriceHistory(tokenId, {
+          from: new Date(now.getTime() - VOLATILITY_WINDOW_MS),
+          to: now,
+          resolution: '1d'
+        });
+        const returns = periodReturns(points.map(point => ({ date: point.timestamp, value: parseFloat(point.close) })));
+        // Null below two returns, the least a standard deviation can be taken over
+        const measured = annualizedVolatility(Array.from(returns.values()));
+        if (measured === null) continue;
+        annualized = measured;
+        measuredVolatile += 1;
+      }
+      weighted += annualized * usd;
+      covered += usd;
+      coveredTokens += 1;
+    }
+
+    // Stablecoins alone would read as zero volatility for a portfolio whose risky part is unmeasured
+    if (covered === 0 || (volatileTokens > 0 && measuredVolatile === 0)) {
+      return this.factor('volatility', null, null, 'Not enough daily price history yet to measure volatility.');
+    }
+
+    const volatility = weighted / covered;
+    const coverage = coveredTokens < exposure.size ? ` (${coveredTokens} of ${exposure.size} tokens have enough history)` : '';
+    return this.factor('volatility', clamp(100 - ((volatility - 0.2) / 1.3) * 100), volatility,
+      `Annualized volatility of ${percent(volatility)} over the last 30 days${coverage}.`);
+  }
+
+  // A 10–50% stablecoin buffer is ideal; none at all scores 40, an all-stablecoin portfolio 60
+  private stablecoins(share: number): HealthFactor {
+    const score = share < 0.1 ? 40 + share * 600 : share <= 0.5 ? 100 : 100 - (share - 0.5) * 80;
+    const advice = share < 0.1 ? ' A small stablecoin buffer would soften drawdowns.' : '';
+    return this.factor('stablecoins', clamp(score), share, `${percent(share)} of the portfolio is in stablecoins.${advice}`);
+  }
+
+  // Staked value can't be sold until it is unstaked; up to a quarter of the portfolio staked is fine
+  private liquidity(share: number): HealthFactor {
+    return this.factor('liquidity', clamp(100 - (Math.max(0, share - 0.25) / 0.75) * 100), share,
+      `${percent(share)} of the portfolio is locked in staking positions.`);
+  }
+
+  // Rewards left unclaimed neither compound nor can be moved; up to 1% of the portfolio is fine, 10% scores zero
+  private rewards(share: number): HealthFactor {
+    const advice = share > 0.01 ? ' Claiming would put them to work.' : '';
+    return this.factor('rewards', clamp(100 - (Math.max(0, share - 0.01) / 0.09) * 100), share,
+      `Unclaimed rewards are ${percent(share)} of the portfolio.${advice}`);
+  }
+
+  // Tokens without a CoinGecko listing or registry peg are priced only from on-chain pools, if at all.
+  // Half the portfolio or more in them scores zero.
+  private unverified(share: number): HealthFactor {
+    return this.factor('unverified', clamp(100 - (share / 0.5) * 100), share,
+      `${percent(share)} of the portfolio is in tokens without a CoinGecko listing or registry peg.`);
+  }
+
+  private factor(key: HealthFactorKey, score: number | null, value: number | null, explanation: string): HealthFactor {
+    return { key, label: FACTOR_LABELS[key], score, weight: FACTOR_WEIGHTS[key], value, explanation };
+  }
+
+  // Classifies tokens from their active registry price sources: a peg near $1 or a known
+  // stablecoin CoinGecko listing marks a stablecoin
+  private async classify(tokenIds: string[]): Promise<{ stablecoins: Set<string>; verified: Set<string> }> {
+    const stablecoins = new Set<string>();
+    const verified = new Set<string>();
+
+    for (const tokenId of tokenIds) {
+      const sources = (await this.storage.getTokenPriceSources(tokenId)).filter(source => source.isActive);
+      for (const source of sources) {
+        if (source.sourceType === 'coingecko' && source.sourceRef) {
+          verified.add(tokenId);
+          if (USD_STABLECOIN_COINGECKO_IDS.has(source.sourceRef)) stablecoins.add(tokenId);
+        }
+        if (source.sourceType === 'fixed_peg' && source.pegPrice) {
+          verified.add(tokenId);
+          if (Math.abs(parseFloat(source.pegPrice) - 1) <= STABLE_PEG_TOLERANCE) stablecoins.add(tokenId);
+        }
+      }
+    }
+
+    return { stablecoins, verified };
+  }
+}
+
+export const healthScoreService = new HealthScoreService(storage);
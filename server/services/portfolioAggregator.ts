@@ -0,0 +1,194 @@
+import type { StakingPosition, Transaction, Wallet } from '@shared/schema';
+import { DEFAULT_CHAIN_ID } from '@shared/chains';
+import { storage, type IStorage } from '../storage';
+import { TokenPriceResolver, tokenPriceResolver } from './priceSources';
+import { CostBasisEngine, costBasisEngine, type CostBasisMethod } from './costBasis';
+import { HealthScoreService, healthScoreService, type HealthReport } from './healthScore';
+import { stakedUsdValue } from './stakingSync';
+
+export interface AggregatedTokenPosition {
+  tokenId: string;
+  chainId: number;
+  symbol: string;
+  name: string;
+  priceUsd: number | null;
+  balance: number;
+  stakedAmount: number;
+  unclaimedRewards: number;
+  usdValue: number;
+  stakedUsdValue: number;
+  // Share of the combined held value
+  percentage: number;
+}
+
+export interface WalletSummary {
+  id: string;
+  address: string;
+  network: string;
+  isConnected: boolean;
+  netWorth: number;
+  stakedValue: number;
+}
+
+export interface AggregatePortfolio {
+  wallets: WalletSummary[];
+  tokens: AggregatedTokenPosition[];
+  netWorth: number;
+  stakedValue: number;
+  healthScore: string;
+  healthReport: HealthReport;
+  pnl: number;
+  pnlPercentage: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  costBasisMethod: CostBasisMethod;
+  totalTrades: number;
+  // On-chain transfers between two of the user's own wallets, left out of P&L
+  internalTransfers: number;
+}
+
+// A transfer whose sender and recipient are both among `addresses` (lowercased)
+export function isInternalTransfer(tx: Transaction, addresses: Set<string>): boolean {
+  if (tx.type !== 'transfer') return false;
+  const metadata = tx.metadata as { from?: string; to?: string } | null;
+  if (!metadata?.from || !metadata?.to) return false;
+  return addresses.has(metadata.from.toLowerCase()) && addresses.has(metadata.to.toLowerCase());
+}
+
+// Combines every wallet a user has attached into one portfolio view
+export class PortfolioAggregator {
+  constructor(
+    private storage: IStorage,
+    private prices: TokenPriceResolver,
+    private costBasis: CostBasisEngine,
+    private health: HealthScoreService
+  ) {}
+
+  async aggregate(userId: string, method: CostBasisMethod = 'fifo'): Promise<AggregatePortfolio> {
+    const wallets = await this.storage.getUserWallets(userId);
+    const tokens = await this.storage.getAllTokens();
+    const priceData = await this.prices.resolvePrices(tokens);
+    const currentPrices: Record<string, number> = {};
+    for (const [tokenId, price] of Object.entries(priceData)) {
+      currentPrices[tokenId] = price.usd;
+    }
+
+    const positions = new Map<string, AggregatedTokenPosition>();
+    const positionFor = (tokenId: string) => {
+      let position = positions.get(tokenId);
+      if (!position) {
+        const token = tokens.find(t => t.id === tokenId);
+        position = {
+          tokenId,
+          chainId: token?.chainId ?? DEFAULT_CHAIN_ID,
+          symbol: token?.symbol || '',
+          name: token?.name || '',
+          priceUsd: priceData[tokenId]?.usd ?? null,
+          balance: 0,
+          stakedAmount: 0,
+          unclaimedRewards: 0,
+          usdValue: 0,
+          stakedUsdValue: 0,
+          percentage: 0
+        };
+        positions.set(tokenId, position);
+      }
+      return position;
+    };
+
+    const summaries: WalletSummary[] = [];
+    const transactions: Transaction[] = [];
+    const stakes: StakingPosition[] = [];
+
+    for (const wallet of wallets) {
+      const summary = await this.summarizeWallet(wallet, positionFor, stakes, currentPrices);
+      summaries.push(summary);
+      transactions.push(...await this.storage.getAllTransactions(wallet.id));
+    }
+
+    // Moving funds between the user's own wallets is neither an acquisition nor a disposal.
+    // Each wallet stores its own leg; both are dropped and the transfer is counted by its sending leg.
+    const addresses = new Set(wallets.map(wallet => wallet.address.toLowerCase()));
+    let internalTransfers = 0;
+    const external = transactions.filter(tx => {
+      if (tx.status !== 'confirmed') return false;
+      if (!isInternalTransfer(tx, addresses)) return true;
+      if ((tx.metadata as { direction?: string }).direction === 'out') internalTransfers += 1;
+      return false;
+    });
+
+    const pnl = this.costBasis.calculate(external, currentPrices, method);
+
+    const tokenPositions = Array.from(positions.values());
+    const netWorth = tokenPositions.reduce((sum, position) => sum + position.usdValue, 0);
+    const stakedValue = tokenPositions.reduce((sum, position) => sum + position.stakedUsdValue, 0);
+    tokenPositions.forEach(position => {
+      position.percentage = netWorth > 0 ? (position.usdValue / netWorth) * 100 : 0;
+    });
+
+    const healthReport = await this.health.assess({
+      holdings: tokenPositions.map(position => ({ tokenId: position.tokenId, usdValue: position.usdValue })),
+      stakes,
+      prices: currentPrices
+    });
+
+    return {
+      wallets: summaries,
+      tokens: tokenPositions.sort((a, b) => b.usdValue - a.usdValue),
+      netWorth,
+      stakedValue,
+      healthScore: healthReport.label,
+      healthReport,
+      pnl: pnl.totalPnl,
+      pnlPercentage: pnl.pnlPercentage,
+      realizedPnl: pnl.realizedPnl,
+      unrealizedPnl: pnl.unrealizedPnl,
+      costBasisMethod: pnl.method,
+      totalTrades: pnl.totalTrades,
+      internalTransfers
+    };
+  }
+
+  // Adds one wallet's stored balances and active staking positions into the per-token totals,
+  // collecting the positions into `stakes`
+  private async summarizeWallet(
+    wallet: Wallet,
+    positionFor: (tokenId: string) => AggregatedTokenPosition,
+    stakes: StakingPosition[],
+    prices: Record<string, number>
+  ): Promise<WalletSummary> {
+    let netWorth = 0;
+    let stakedValue = 0;
+
+    for (const balance of await this.storage.getTokenBalances(wallet.id)) {
+      const position = positionFor(balance.tokenId);
+      const amount = parseFloat(balance.balance);
+      const usdValue = amount * (position.priceUsd ?? 0);
+      position.balance += amount;
+      position.usdValue += usdValue;
+      netWorth += usdValue;
+    }
+
+    for (const stake of await this.storage.getActiveStakingPositions(wallet.id)) {
+      stakes.push(stake);
+      const position = positionFor(stake.tokenId);
+      const usdValue = stakedUsdValue(stake, prices) ?? 0;
+      // LP units aren't amounts of the token the farm is filed under
+      if (!stake.lpToken) position.stakedAmount += parseFloat(stake.stakedAmount);
+      position.unclaimedRewards += parseFloat(stake.unclaimedRewards);
+      position.stakedUsdValue += usdValue;
+      stakedValue += usdValue;
+    }
+
+    return {
+      id: wallet.id,
+      address: wallet.address,
+      network: wallet.network,
+      isConnected: wallet.isConnected,
+      netWorth,
+      stakedValue
+    };
+  }
+}
+
+export const portfolioAggregator = new PortfolioAggregator(storage, tokenPriceResolver, costBasisEngine, healthScoreService);
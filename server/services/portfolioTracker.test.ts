@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Token, Wallet } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { loadConfig } from '../config';
+import { CoinGeckoService, EthereumService, PortfolioService } from './blockchain';
+import { CoinGeckoPriceProvider, PriceProviderChain } from './priceProviders';
+import { TokenPriceResolver } from './priceSources';
+import type { BalanceSyncService } from './balanceSync';
+import { CostBasisEngine } from './costBasis';
+import { HealthScoreService } from './healthScore';
+import { PortfolioTracker } from './portfolioTracker';
+
+let storage: MemStorage;
+let tracker: PortfolioTracker;
+let wallet: Wallet;
+let eth: Token;
+let oec: Token;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  wallet = await storage.createWallet({ address: '0x1111111111111111111111111111111111111111' });
+  eth = await storage.createToken({ chainId: 1, symbol: 'ETH', name: 'Ethereum', address: '0x0000000000000000000000000000000000000000', decimals: 18 });
+  oec = await storage.createToken({ chainId: 1, symbol: 'OEC', name: 'Oeconomia', address: '0x1234567890123456789012345678901234567890', decimals: 18 });
+  await storage.createTokenPriceSource({ tokenId: eth.id, sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 });
+  await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: eth.id, balance: '2', usdValue: '0' });
+
+  const coinGecko = new CoinGeckoService(loadConfig({}).coinGecko);
+  vi.spyOn(coinGecko, 'getMultipleTokenPrices').mockResolvedValue({ ethereum: { usd: 3000, usd_24h_change: 0 } });
+  const prices = new TokenPriceResolver(
+    storage,
+    new PriceProviderChain([{ provider: new CoinGeckoPriceProvider(coinGecko) }], { failureThreshold: Infinity })
+  );
+  const balances = { syncBalances: vi.fn().mockResolvedValue({}) } as unknown as BalanceSyncService;
+
+  tracker = new PortfolioTracker(
+    storage,
+    new PortfolioService(coinGecko, new EthereumService()),
+    prices,
+    balances,
+    new CostBasisEngine(),
+    new HealthScoreService(storage)
+  );
+});
+
+describe('PortfolioTracker.recordSnapshot', () => {
+  it('records net worth when every held token is priced', async () => {
+    const snapshot = await tracker.recordSnapshot(wallet);
+
+    expect(snapshot).toMatchObject({ walletId: wallet.id, netWorth: '6000', unpricedTokenIds: [] });
+    expect(await storage.getPortfolioSnapshots(wallet.id, new Date(0))).toHaveLength(1);
+  });
+
+  it('records the priced tokens and lists held tokens that have no price', async () => {
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: oec.id, balance: '100', usdValue: '0' });
+
+    const snapshot = await tracker.recordSnapshot(wallet);
+
+    expect(snapshot).toMatchObject({ netWorth: '6000', unpricedTokenIds: [oec.id] });
+    expect(await storage.getPortfolioSnapshots(wallet.id, new Date(0))).toHaveLength(1);
+  });
+
+  it('ignores unpriced tokens with a zero balance', async () => {
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: oec.id, balance: '0', usdValue: '0' });
+
+    expect(await tracker.recordSnapshot(wallet)).toMatchObject({ unpricedTokenIds: [] });
+  });
+});
+
+describe('PortfolioTracker.refreshPortfolio', () => {
+  it('builds P&L from confirmed transactions only', async () => {
+    const buy = { walletId: wallet.id, type: 'buy', tokenId: eth.id, amount: '2', timestamp: new Date('2024-01-01T00:00:00Z') };
+    await storage.createTransaction({ ...buy, txHash: '0xconfirmed', usdValue: '4000' });
+    await storage.createTransaction({ ...buy, txHash: '0xpending', usdValue: '1000', status: 'pending' });
+
+    const { pnl } = await tracker.refreshPortfolio(wallet);
+
+    expect(pnl.totalInvested).toBe(4000);
+    expect(pnl.unrealizedPnl).toBe(2000);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Wallet, PortfolioSnapshot } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { PortfolioService, portfolioService } from './blockchain';
+import { TokenPriceResolver, tokenPriceResolver } from './priceSources';
+import { BalanceSyncService, balanceSyncService } from './balanceSync';
+import { CostBasisEngine, costBasisEngine, type CostBasisMethod, type CostBasisResult } from './costBasis';
+import { HealthScoreService, healthScoreService, type HealthReport } from './healthScore';
+
+export const historyRanges = ['7d', '30d', '1y'] as const;
+export type HistoryRange = typeof historyRanges[number];
+
+// Lookback window and bucket size used to downsample snapshots for each range
+const HISTORY_RANGE_CONFIG: Record<HistoryRange, { lookbackMs: number; bucketMs: number }> = {
+  '7d': { lookbackMs: 7 * 24 * 60 * 60 * 1000, bucketMs: 60 * 60 * 1000 },
+  '30d': { lookbackMs: 30 * 24 * 60 * 60 * 1000, bucketMs: 6 * 60 * 60 * 1000 },
+  '1y': { lookbackMs: 365 * 24 * 60 * 60 * 1000, bucketMs: 24 * 60 * 60 * 1000 },
+};
+
+export interface PortfolioHistoryPoint {
+  timestamp: string;
+  netWorth: number;
+}
+
+type PortfolioMetrics = Awaited<ReturnType<PortfolioService['calculatePortfolioMetrics']>>;
+
+// Computes current portfolio metrics and records them as a net-worth time series
+export class PortfolioTracker {
+  constructor(
+    private storage: IStorage,
+    private portfolio: PortfolioService,
+    private prices: TokenPriceResolver,
+    private balances: BalanceSyncService,
+    private costBasis: CostBasisEngine,
+    private health: HealthScoreService
+  ) {}
+
+  // Recalculate metrics from stored token balances and persist them to the wallet's portfolio row
+  async refreshPortfolio(wallet: Wallet, method: CostBasisMethod = 'fifo'): Promise<{
+    metrics: PortfolioMetrics;
+    healthScore: string;
+    healthReport: HealthReport;
+    pnl: CostBasisResult;
+    // Oldest price behind the valuation, whether any of them was a stale fallback, and held tokens with no price
+    prices: { asOf: string | null; stale: boolean; unpriced: string[] };
+  }> {
+    const tokenBalances = await this.storage.getTokenBalances(wallet.id);
+    const tokens = await this.storage.getAllTokens();
+    const priceData = await this.prices.resolvePrices(tokens);
+
+    const portfolioTokens = tokenBalances.map(balance => {
+      const token = tokens.find(t => t.id === balance.tokenId);
+      const price = priceData[balance.tokenId]?.usd ?? 0;
+
+      return {
+        tokenId: balance.tokenId,
+        tokenAddress: token?.address || '',
+        balance: balance.balance,
+        decimals: token?.decimals || 18,
+        priceUsd: price
+      };
+    });
+
+    const metrics = await this.portfolio.calculatePortfolioMetrics(wallet.address, portfolioTokens);
+
+    const currentPrices: Record<string, number> = {};
+    for (const [tokenId, price] of Object.entries(priceData)) {
+      currentPrices[tokenId] = price.usd;
+    }
+
+    const healthReport = await this.health.assess({
+      holdings: tokenBalances.map((balance, i) => ({ tokenId: balance.tokenId, usdValue: metrics.tokens[i].usdValue })),
+      stakes: await this.storage.getActiveStakingPositions(wallet.id),
+      prices: currentPrices
+    });
+    const healthScore = healthReport.label;
+
+    // Build tax lots from the wallet's confirmed transactions to get realized and unrealized P&L
+    const transactions = (await this.storage.getAllTransactions(wallet.id)).filter(tx => tx.status === 'confirmed');
+    const pnl = this.costBasis.calculate(transactions, currentPrices, method);
+
+    // Update or create portfolio record
+    const portfolioData = {
+      walletId: wallet.id,
+      netWorth: metrics.netWorth.toString(),
+      pnl: pnl.totalPnl.toFixed(8),
+      pnlPercentage: pnl.pnlPercentage.toFixed(4),
+      totalTrades: pnl.totalTrades,
+      healthScore,
+      healthReport
+    };
+
+    const existingPortfolio = await this.storage.getPortfolio(wallet.id);
+    if (existingPortfolio) {
+      await this.storage.updatePortfolio(wallet.id, portfolioData);
+    } else {
+      await this.storage.createPortfolio(portfolioData);
+    }
+
+    const heldPrices = tokenBalances.map(balance => priceData[balance.tokenId]).filter(price => !!price);
+    const oldest = heldPrices.reduce<Date | null>((min, price) => (!min || price.asOf < min ? price.asOf : min), null);
+
+    return {
+      metrics,
+      healthScore,
+      healthReport,
+      pnl,
+      prices: {
+        asOf: oldest ? oldest.toISOString() : null,
+        stale: heldPrices.some(price => price.stale),
+        unpriced: tokenBalances
+          .filter(balance => parseFloat(balance.balance) > 0 && !priceData[balance.tokenId])
+          .map(balance => balance.tokenId)
+      }
+    };
+  }
+
+  // Sync on-chain balances, refresh the portfolio row and append a snapshot to the history.
+  // Net worth covers the priced tokens; held tokens without a price are listed on the row so
+  // readers can tell a dip in value from a token dropping out of the valuation.
+  async recordSnapshot(wallet: Wallet): Promise<PortfolioSnapshot> {
+    await this.balances.syncBalances(wallet.address, wallet);
+    const { metrics, prices } = await this.refreshPortfolio(wallet);
+
+    return await this.storage.createPortfolioSnapshot({
+      walletId: wallet.id,
+      netWorth: metrics.netWorth.toString(),
+      tokenValues: metrics.tokens,
+      unpricedTokenIds: prices.unpriced,
+      timestamp: new Date()
+    });
+  }
+
+  // Net-worth series for a range, keeping the latest snapshot in each bucket
+  async getHistory(walletId: string, range: HistoryRange): Promise<PortfolioHistoryPoint[]> {
+    const { lookbackMs, bucketMs } = HISTORY_RANGE_CONFIG[range];
+    const snapshots = await this.storage.getPortfolioSnapshots(walletId, new Date(Date.now() - lookbackMs));
+
+    const buckets = new Map<number, PortfolioSnapshot>();
+    for (const snapshot of snapshots) {
+      buckets.set(Math.floor(snapshot.timestamp.getTime() / bucketMs), snapshot);
+    }
+
+    return Array.from(buckets.values()).map(snapshot => ({
+      timestamp: snapshot.timestamp.toISOString(),
+      netWorth: parseFloat(snapshot.netWorth)
+    }));
+  }
+}
+
+export const portfolioTracker = new PortfolioTracker(storage, portfolioService, tokenPriceResolver, balanceSyncService, costBasisEngine, healthScoreService);
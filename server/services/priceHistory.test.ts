@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Token } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import type { ResolvedTokenPrice } from './priceSources';
+import { PriceHistoryRecorder, bucketStart, candleCloseAt } from './priceHistory';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+let storage: MemStorage;
+let recorder: PriceHistoryRecorder;
+let eth: Token;
+
+function quote(usd: number, asOf: string, stale = false): Record<string, ResolvedTokenPrice> {
+  return {
+    [eth.id]: { usd, usd_24h_change: 0, provider: 'coingecko', sourceType: 'coingecko', sourceRef: 'ethereum', asOf: new Date(asOf), stale }
+  };
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  eth = await storage.createToken({ chainId: 1, symbol: 'ETH', name: 'Ethereum', address: '0x0000000000000000000000000000000000000000', decimals: 18 });
+  recorder = new PriceHistoryRecorder(storage, {
+    recordIntervalMs: 5 * MINUTE,
+    retentionMs: { raw: 7 * DAY, '1m': 2 * DAY, '1h': 90 * DAY }
+  });
+});
+
+describe('PriceHistoryRecorder', () => {
+  it('records a repeated quote only once', async () => {
+    await recorder.record(quote(3000, '2024-06-01T12:00:00Z'));
+    const second = await recorder.record(quote(3000, '2024-06-01T12:00:00Z'));
+
+    expect(second).toEqual({ candles: 0, rawPoints: 0 });
+    const raw = await storage.getPriceHistory(eth.id, { from: new Date('2024-06-01T00:00:00Z'), resolution: 'raw' });
+    expect(raw).toHaveLength(1);
+  });
+
+  it('skips stale quotes', async () => {
+    const result = await recorder.record(quote(3000, '2024-06-01T12:00:00Z', true));
+    expect(result).toEqual({ candles: 0, rawPoints: 0 });
+  });
+
+  it('writes at most one raw point per interval but folds every quote into the candles', async () => {
+    await recorder.record(quote(3000, '2024-06-01T12:00:10Z'));
+    await recorder.record(quote(3050, '2024-06-01T12:00:40Z'));
+    await recorder.record(quote(2990, '2024-06-01T12:02:00Z'));
+    await recorder.record(quote(3010, '2024-06-01T12:05:10Z'));
+
+    const from = new Date('2024-06-01T00:00:00Z');
+    const raw = await storage.getPriceHistory(eth.id, { from, resolution: 'raw' });
+    expect(raw.map(point => point.timestamp.toISOString())).toEqual([
+      '2024-06-01T12:00:10.000Z',
+      '2024-06-01T12:05:10.000Z'
+    ]);
+
+    const minutes = await storage.getPriceHistory(eth.id, { from, resolution: '1m' });
+    expect(minutes).toHaveLength(3);
+    expect(minutes[0]).toMatchObject({ open: '3000', high: '3050', low: '3000', close: '3050' });
+
+    const [hour] = await storage.getPriceHistory(eth.id, { from, resolution: '1h' });
+    expect(hour).toMatchObject({ timestamp: new Date('2024-06-01T12:00:00Z'), open: '3000', high: '3050', low: '2990', close: '3010' });
+  });
+
+  it('resumes the interval from the latest stored point after a restart', async () => {
+    await recorder.record(quote(3000, '2024-06-01T12:00:00Z'));
+
+    const restarted = new PriceHistoryRecorder(storage, { recordIntervalMs: 5 * MINUTE, retentionMs: { raw: DAY, '1m': DAY, '1h': DAY } });
+    const result = await restarted.record(quote(3010, '2024-06-01T12:01:00Z'));
+
+    expect(result.rawPoints).toBe(0);
+  });
+
+  it('compacts raw points and fine candles past their retention', async () => {
+    await recorder.record(quote(3000, '2024-05-01T12:00:00Z'));
+    await recorder.record(quote(3100, '2024-05-29T12:00:00Z'));
+    await recorder.record(quote(3200, '2024-06-01T11:00:00Z'));
+
+    const result = await recorder.compact(new Date('2024-06-01T12:00:00Z'));
+
+    expect(result).toEqual({ raw: 1, rolledUp: { '1h': 0, '1d': 0 }, candles: { '1m': 2, '1h': 0 } });
+    const from = new Date('2024-01-01T00:00:00Z');
+    expect(await storage.getPriceHistory(eth.id, { from, resolution: 'raw' })).toHaveLength(2);
+    expect(await storage.getPriceHistory(eth.id, { from, resolution: '1m' })).toHaveLength(1);
+    expect(await storage.getPriceHistory(eth.id, { from, resolution: '1d' })).toHaveLength(3);
+  });
+
+  it('rolls raw points without candles into 1h and 1d candles before dropping them', async () => {
+    // Recorded before candles existed
+    for (const [price, time] of [[10, '2024-05-01T09:10:00Z'], [12, '2024-05-01T09:40:00Z'], [11, '2024-05-01T15:00:00Z']] as const) {
+      await storage.createPriceHistory({ tokenId: eth.id, price: price.toString(), timestamp: new Date(time) });
+    }
+    // The live recorder already covered this hour, and its candle wins
+    await storage.upsertPriceCandle('1h', eth.id, new Date('2024-05-01T15:00:00Z'), '20');
+
+    const result = await recorder.compact(new Date('2024-06-01T12:00:00Z'));
+
+    expect(result).toMatchObject({ raw: 3, rolledUp: { '1h': 1, '1d': 1 } });
+    const from = new Date('2024-01-01T00:00:00Z');
+    expect(await storage.getPriceHistory(eth.id, { from, resolution: 'raw' })).toHaveLength(0);
+    expect(await storage.getPriceHistory(eth.id, { from, resolution: '1h' })).toMatchObject([
+      { timestamp: new Date('2024-05-01T09:00:00Z'), open: '10', high: '12', low: '10', close: '12' },
+      { timestamp: new Date('2024-05-01T15:00:00Z'), close: '20' }
+    ]);
+    expect(await storage.getPriceHistory(eth.id, { from, resolution: '1d' })).toMatchObject([
+      { timestamp: new Date('2024-05-01T00:00:00Z'), open: '10', high: '12', low: '10', close: '11' }
+    ]);
+  });
+});
+
+describe('bucketStart', () => {
+  it('aligns to UTC minute, hour and day boundaries', () => {
+    const time = new Date('2024-06-01T12:34:56.789Z');
+    expect(bucketStart(time, '1m').toISOString()).toBe('2024-06-01T12:34:00.000Z');
+    expect(bucketStart(time, '1h').toISOString()).toBe('2024-06-01T12:00:00.000Z');
+    expect(bucketStart(time, '1d').toISOString()).toBe('2024-06-01T00:00:00.000Z');
+  });
+});
+
+describe('candleCloseAt', () => {
+  it('prefers the hourly candle covering the time, then the daily one', async () => {
+    const at = new Date('2024-06-01T12:34:00Z');
+    expect(await candleCloseAt(storage, eth.id, at)).toBeNull();
+
+    await storage.upsertPriceCandle('1d', eth.id, new Date('2024-06-01T00:00:00Z'), '2900');
+    await storage.upsertPriceCandle('1h', eth.id, new Date('2024-06-01T11:00:00Z'), '3100');
+    expect(await candleCloseAt(storage, eth.id, at)).toBe(2900);
+
+    await storage.upsertPriceCandle('1h', eth.id, new Date('2024-06-01T12:00:00Z'), '3000');
+    expect(await candleCloseAt(storage, eth.id, at)).toBe(3000);
+  });
+});
@@ -0,0 +1,148 @@
+import { candleResolutions, type CandleResolution, type InsertPriceCandle } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { config, type PriceHistoryConfig } from '../config';
+import type { ResolvedTokenPrice } from './priceSources';
+
+export const RESOLUTION_MS: Record<CandleResolution, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+// Start of the UTC-aligned bucket that `time` falls in
+export function bucketStart(time: Date, resolution: CandleResolution): Date {
+  const size = RESOLUTION_MS[resolution];
+  return new Date(Math.floor(time.getTime() / size) * size);
+}
+
+// Folds a time-ordered price series into one candle per bucket
+export function foldCandles(tokenId: string, series: Array<{ timestamp: Date; price: number }>, resolution: CandleResolution): InsertPriceCandle[] {
+  const candles = new Map<number, InsertPriceCandle>();
+  for (const { timestamp, price } of series) {
+    const start = bucketStart(timestamp, resolution);
+    const value = price.toString();
+    const candle = candles.get(start.getTime());
+    if (!candle) {
+      candles.set(start.getTime(), { tokenId, bucketStart: start, open: value, high: value, low: value, close: value, samples: 1 });
+      continue;
+    }
+    if (price > parseFloat(candle.high)) candle.high = value;
+    if (price < parseFloat(candle.low)) candle.low = value;
+    candle.close = value;
+    candle.samples = (candle.samples ?? 1) + 1;
+  }
+  return Array.from(candles.values());
+}
+
+// Close of the hourly candle containing `at`, falling back to its daily candle; null when neither
+// was recorded. Used to value past transfers, where today's price would be wrong.
+export async function candleCloseAt(store: IStorage, tokenId: string, at: Date): Promise<number | null> {
+  for (const resolution of ['1h', '1d'] as const) {
+    const start = bucketStart(at, resolution);
+    const [candle] = await store.getPriceHistory(tokenId, { from: start, to: start, resolution });
+    if (candle) return parseFloat(candle.close);
+  }
+  return null;
+}
+
+export interface RecordResult {
+  candles: number;
+  rawPoints: number;
+}
+
+export interface CompactResult {
+  raw: number;
+  // Candles built from raw points that had none yet, before those points were dropped
+  rolledUp: Partial<Record<CandleResolution, number>>;
+  candles: Partial<Record<CandleResolution, number>>;
+}
+
+// Records resolved prices: every new quote is folded into the 1m/1h/1d candles, while raw
+// price_history points are thinned to one per token per interval. Old rows are compacted away.
+export class PriceHistoryRecorder {
+  // Provider update time of the last quote recorded per token, so a cached quote isn't counted twice
+  private lastQuoteAt = new Map<string, number>();
+  // Timestamp of the last raw point written per token
+  private lastRawAt = new Map<string, number>();
+
+  constructor(
+    private storage: IStorage,
+    private options: PriceHistoryConfig = config.priceHistory
+  ) {}
+
+  async record(priceData: Record<string, ResolvedTokenPrice>): Promise<RecordResult> {
+    const result: RecordResult = { candles: 0, rawPoints: 0 };
+
+    for (const [tokenId, quote] of Object.entries(priceData)) {
+      // Stale quotes were recorded when they were fresh
+      if (quote.stale) continue;
+
+      try {
+        const asOf = quote.asOf.getTime();
+        const lastQuoteAt = await this.lastQuoteTime(tokenId);
+        if (lastQuoteAt !== undefined && asOf <= lastQuoteAt) continue;
+        this.lastQuoteAt.set(tokenId, asOf);
+
+        const price = quote.usd.toString();
+        for (const resolution of candleResolutions) {
+          await this.storage.upsertPriceCandle(resolution, tokenId, bucketStart(quote.asOf, resolution), price);
+          result.candles += 1;
+        }
+
+        const lastRawAt = this.lastRawAt.get(tokenId);
+        if (lastRawAt === undefined || asOf - lastRawAt >= this.options.recordIntervalMs) {
+          this.lastRawAt.set(tokenId, asOf);
+          await this.storage.createPriceHistory({ tokenId, price, timestamp: quote.asOf });
+          result.rawPoints += 1;
+        }
+      } catch (error) {
+        console.error(`Failed to record price history for token ${tokenId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  // Drops raw points and 1m/1h candles past their retention; coarser candles still cover that time.
+  // Raw points are first rolled into 1h/1d candles for buckets that have none, which covers
+  // history recorded before candles existed.
+  async compact(now: Date = new Date()): Promise<CompactResult> {
+    const { retentionMs } = this.options;
+    const cutoff = (ms: number) => new Date(now.getTime() - ms);
+    const rawCutoff = cutoff(retentionMs.raw);
+
+    const rolledUp = { '1h': 0, '1d': 0 };
+    for (const token of await this.storage.getAllTokens()) {
+      const points = await this.storage.getPriceHistory(token.id, { from: new Date(0), to: rawCutoff, resolution: 'raw' });
+      if (points.length === 0) continue;
+
+      const series = points.map(point => ({ timestamp: point.timestamp, price: parseFloat(point.close) }));
+      for (const resolution of ['1h', '1d'] as const) {
+        rolledUp[resolution] += await this.storage.insertPriceCandles(resolution, foldCandles(token.id, series, resolution));
+      }
+    }
+
+    return {
+      raw: await this.storage.deletePriceHistoryBefore(rawCutoff),
+      rolledUp,
+      candles: {
+        '1m': await this.storage.deletePriceCandlesBefore('1m', cutoff(retentionMs['1m'])),
+        '1h': await this.storage.deletePriceCandlesBefore('1h', cutoff(retentionMs['1h']))
+      }
+    };
+  }
+
+  // After a restart, resume from the latest stored raw point
+  private async lastQuoteTime(tokenId: string): Promise<number | undefined> {
+    if (!this.lastQuoteAt.has(tokenId)) {
+      const latest = await this.storage.getLatestPrice(tokenId);
+      if (latest && !this.lastQuoteAt.has(tokenId)) {
+        this.lastQuoteAt.set(tokenId, latest.timestamp.getTime());
+        this.lastRawAt.set(tokenId, latest.timestamp.getTime());
+      }
+    }
+    return this.lastQuoteAt.get(tokenId);
+  }
+}
+
+export const priceHistoryRecorder = new PriceHistoryRecorder(storage);
@@ -0,0 +1,377 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import type { Token, TokenPriceSource, PriceSourceType } from '@shared/schema';
+import { CoinGeckoService, RateLimitError } from './blockchain';
+
+export interface PriceQuote {
+  usd: number;
+  usd_24h_change: number;
+  provider: string;
+  sourceType: PriceSourceType | null;
+  sourceRef: string | null;
+  // When the provider last updated this price, not when we fetched it
+  asOf: Date;
+  // Set when a cached quote is served because the providers failed
+  stale?: boolean;
+}
+
+export interface PriceRequest {
+  token: Token;
+  // Registry entry that routed this token to the provider; null for catch-all providers
+  source: TokenPriceSource | null;
+}
+
+export interface PriceProvider {
+  readonly name: string;
+  // Registry source type this provider answers; null means it can price any token on its own
+  readonly sourceType: PriceSourceType | null;
+  // Returns quotes keyed by token id, omitting tokens it could not price. Throws when the provider itself is down.
+  getPrices(requests: PriceRequest[]): Promise<Record<string, PriceQuote>>;
+}
+
+export interface ProviderHealth {
+  name: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  // While set in the future, the chain skips this provider
+  cooldownUntil: string | null;
+}
+
+// CoinGecko simple/price lookups for 'coingecko' registry sources
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly name = 'coingecko';
+  readonly sourceType = 'coingecko' as const;
+
+  constructor(private coinGecko: CoinGeckoService) {}
+
+  async getPrices(requests: PriceRequest[]): Promise<Record<string, PriceQuote>> {
+    const ids = Array.from(new Set(
+      requests.map(request => request.source?.sourceRef).filter((id): id is string => !!id)
+    ));
+    if (ids.length === 0) return {};
+
+    const priceData = await this.coinGecko.getMultipleTokenPrices(ids);
+    const fetchedAt = new Date();
+    const results: Record<string, PriceQuote> = {};
+
+    for (const { token, source } of requests) {
+      const price = source?.sourceRef ? priceData[source.sourceRef] : undefined;
+      if (!price) continue;
+      results[token.id] = {
+        usd: price.usd,
+        usd_24h_change: price.usd_24h_change,
+        provider: this.name,
+        sourceType: 'coingecko',
+        sourceRef: source!.sourceRef,
+        asOf: price.last_updated_at ? new Date(price.last_updated_at * 1000) : fetchedAt
+      };
+    }
+
+    return results;
+  }
+}
+
+const UNISWAP_V2_PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+];
+
+const UNISWAP_V3_POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)'
+];
+
+const ERC20_DECIMALS_ABI = ['function decimals() view returns (uint8)'];
+
+interface PoolSourceConfig {
+  // 'uniswap_v2' reads spot reserves, 'uniswap_v3' reads a time-weighted average tick
+  kind?: 'uniswap_v2' | 'uniswap_v3';
+  twapSeconds?: number;
+  // USD price of the pool's quote token; defaults to 1 for stablecoin pairs
+  quoteUsdPrice?: number;
+}
+
+// Reads prices from on-chain DEX pools for 'onchain_pool' registry sources.
+// Pools are read on the token's own chain.
+export class OnchainPoolPriceProvider implements PriceProvider {
+  readonly name = 'onchain';
+  readonly sourceType = 'onchain_pool' as const;
+
+  constructor(private providerForChain: (chainId: number) => ethers.Provider) {}
+
+  async getPrices(requests: PriceRequest[]): Promise<Record<string, PriceQuote>> {
+    const results: Record<string, PriceQuote> = {};
+    const asOf = new Date();
+
+    const settled = await Promise.allSettled(requests.map(async ({ token, source }) => {
+      if (!source?.sourceRef) return;
+      const config = (source.config || {}) as PoolSourceConfig;
+      const rpcProvider = this.providerForChain(token.chainId);
+      const usd = config.kind === 'uniswap_v3'
+        ? await this.readV3TwapPrice(rpcProvider, token, source.sourceRef, config)
+        : await this.readV2SpotPrice(rpcProvider, token, source.sourceRef, config);
+
+      results[token.id] = {
+        usd,
+        usd_24h_change: 0, // Pools expose no 24h reference without an archive read
+        provider: this.name,
+        sourceType: 'onchain_pool',
+        sourceRef: source.sourceRef,
+        asOf
+      };
+    }));
+
+    const failures = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length > 0 && failures.length === requests.length) {
+      throw failures[0].reason;
+    }
+
+    return results;
+  }
+
+  private async readPoolTokens(rpcProvider: ethers.Provider, pool: ethers.Contract, token: Token) {
+    const [token0, token1]: [string, string] = await Promise.all([pool.token0(), pool.token1()]);
+    const tokenIsToken0 = token0.toLowerCase() === token.address.toLowerCase();
+    if (!tokenIsToken0 && token1.toLowerCase() !== token.address.toLowerCase()) {
+      throw new Error(`Pool ${await pool.getAddress()} does not contain ${token.symbol}`);
+    }
+
+    const quoteAddress = tokenIsToken0 ? token1 : token0;
+    const quote = new ethers.Contract(quoteAddress, ERC20_DECIMALS_ABI, rpcProvider);
+    const quoteDecimals = Number(await quote.decimals());
+
+    return { tokenIsToken0, quoteDecimals };
+  }
+
+  private async readV2SpotPrice(rpcProvider: ethers.Provider, token: Token, poolAddress: string, config: PoolSourceConfig): Promise<number> {
+    const pool = new ethers.Contract(poolAddress, UNISWAP_V2_PAIR_ABI, rpcProvider);
+    const { tokenIsToken0, quoteDecimals } = await this.readPoolTokens(rpcProvider, pool, token);
+    const [reserve0, reserve1]: [bigint, bigint] = await pool.getReserves();
+
+    const tokenReserve = parseFloat(ethers.formatUnits(tokenIsToken0 ? reserve0 : reserve1, token.decimals));
+    const quoteReserve = parseFloat(ethers.formatUnits(tokenIsToken0 ? reserve1 : reserve0, quoteDecimals));
+    if (tokenReserve === 0) {
+      throw new Error(`Pool ${poolAddress} has no ${token.symbol} liquidity`);
+    }
+
+    return (quoteReserve / tokenReserve) * (config.quoteUsdPrice ?? 1);
+  }
+
+  private async readV3TwapPrice(rpcProvider: ethers.Provider, token: Token, poolAddress: string, config: PoolSourceConfig): Promise<number> {
+    const pool = new ethers.Contract(poolAddress, UNISWAP_V3_POOL_ABI, rpcProvider);
+    const { tokenIsToken0, quoteDecimals } = await this.readPoolTokens(rpcProvider, pool, token);
+    const twapSeconds = config.twapSeconds ?? 1800;
+
+    const [tickCumulatives]: [bigint[]] = await pool.observe([twapSeconds, 0]);
+    const averageTick = Number(tickCumulatives[1] - tickCumulatives[0]) / twapSeconds;
+
+    // Price of token0 denominated in token1, adjusted for decimals
+    const decimals0 = tokenIsToken0 ? token.decimals : quoteDecimals;
+    const decimals1 = tokenIsToken0 ? quoteDecimals : token.decimals;
+    const price0In1 = Math.pow(1.0001, averageTick) * Math.pow(10, decimals0 - decimals1);
+    const priceInQuote = tokenIsToken0 ? price0In1 : 1 / price0In1;
+
+    return priceInQuote * (config.quoteUsdPrice ?? 1);
+  }
+}
+
+// Constant prices for 'fixed_peg' registry sources such as stablecoins
+export class FixedPegPriceProvider implements PriceProvider {
+  readonly name = 'fixed_peg';
+  readonly sourceType = 'fixed_peg' as const;
+
+  async getPrices(requests: PriceRequest[]): Promise<Record<string, PriceQuote>> {
+    const results: Record<string, PriceQuote> = {};
+    const asOf = new Date();
+
+    for (const { token, source } of requests) {
+      if (!source?.pegPrice) continue;
+      results[token.id] = {
+        usd: parseFloat(source.pegPrice),
+        usd_24h_change: 0,
+        provider: this.name,
+        sourceType: 'fixed_peg',
+        sourceRef: source.sourceRef,
+        asOf
+      };
+    }
+
+    return results;
+  }
+}
+
+// Deterministic prices read from a JSON file keyed by token symbol, for offline development and tests
+export class FixturePriceProvider implements PriceProvider {
+  readonly name = 'fixture';
+  readonly sourceType = null;
+
+  constructor(private fixturePath: string) {}
+
+  async getPrices(requests: PriceRequest[]): Promise<Record<string, PriceQuote>> {
+    const fixture = JSON.parse(await fs.promises.readFile(this.fixturePath, 'utf-8')) as Record<string, {
+      usd: number;
+      usd_24h_change?: number;
+      asOf?: string;
+    }>;
+    const results: Record<string, PriceQuote> = {};
+
+    for (const { token } of requests) {
+      const price = fixture[token.symbol];
+      if (!price || typeof price.usd !== 'number') continue;
+      results[token.id] = {
+        usd: price.usd,
+        usd_24h_change: price.usd_24h_change ?? 0,
+        provider: this.name,
+        sourceType: null,
+        sourceRef: null,
+        asOf: price.asOf ? new Date(price.asOf) : new Date()
+      };
+    }
+
+    return results;
+  }
+}
+
+class ProviderTimeoutError extends Error {
+  constructor(providerName: string, timeoutMs: number) {
+    super(`Price provider ${providerName} timed out after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export interface ChainedProvider {
+  provider: PriceProvider;
+  timeoutMs?: number;
+}
+
+interface PriceProviderChainOptions {
+  defaultTimeoutMs?: number;
+  // Consecutive failures before a provider is put on cooldown
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
+
+// Tries providers in registry priority order per token, falling back when a provider fails, times out or has no quote
+export class PriceProviderChain {
+  private readonly entries: ChainedProvider[];
+  private readonly health = new Map<string, ProviderHealth>();
+  private readonly defaultTimeoutMs: number;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+
+  constructor(entries: ChainedProvider[], options: PriceProviderChainOptions = {}) {
+    this.entries = entries;
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? 5000;
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 60000;
+
+    for (const { provider } of entries) {
+      this.health.set(provider.name, {
+        name: provider.name,
+        healthy: true,
+        consecutiveFailures: 0,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        cooldownUntil: null
+      });
+    }
+  }
+
+  async getPrices(tokens: Token[], sources: TokenPriceSource[]): Promise<Record<string, PriceQuote>> {
+    // Build each token's ordered candidate list: registry sources by priority, then catch-all providers
+    const candidates = new Map<string, Array<{ entry: ChainedProvider; source: TokenPriceSource | null }>>();
+    for (const token of tokens) {
+      const tokenSources = sources
+        .filter(source => source.tokenId === token.id)
+        .sort((a, b) => a.priority - b.priority);
+
+      const list: Array<{ entry: ChainedProvider; source: TokenPriceSource | null }> = [];
+      for (const source of tokenSources) {
+        const entry = this.entries.find(e => e.provider.sourceType === source.sourceType);
+        if (entry) list.push({ entry, source });
+      }
+      for (const entry of this.entries) {
+        if (entry.provider.sourceType === null) list.push({ entry, source: null });
+      }
+      candidates.set(token.id, list);
+    }
+
+    const results: Record<string, PriceQuote> = {};
+    const tokensById = new Map(tokens.map(token => [token.id, token]));
+
+    // Each round asks every unresolved token's next candidate, batching requests per provider
+    while (true) {
+      const batches = new Map<ChainedProvider, PriceRequest[]>();
+      candidates.forEach((list, tokenId) => {
+        if (results[tokenId]) return;
+        const next = list.shift();
+        if (!next) return;
+        const batch = batches.get(next.entry) || [];
+        batch.push({ token: tokensById.get(tokenId)!, source: next.source });
+        batches.set(next.entry, batch);
+      });
+
+      if (batches.size === 0) break;
+
+      await Promise.all(Array.from(batches.entries()).map(async ([entry, requests]) => {
+        const quotes = await this.callProvider(entry, requests);
+        for (const [tokenId, quote] of Object.entries(quotes)) {
+          if (!results[tokenId]) results[tokenId] = quote;
+        }
+      }));
+    }
+
+    return results;
+  }
+
+  getHealth(): ProviderHealth[] {
+    return this.entries.map(({ provider }) => ({ ...this.health.get(provider.name)! }));
+  }
+
+  private async callProvider(entry: ChainedProvider, requests: PriceRequest[]): Promise<Record<string, PriceQuote>> {
+    const health = this.health.get(entry.provider.name)!;
+    if (health.cooldownUntil && new Date(health.cooldownUntil).getTime() > Date.now()) {
+      return {};
+    }
+
+    const timeoutMs = entry.timeoutMs ?? this.defaultTimeoutMs;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const quotes = await Promise.race([
+        entry.provider.getPrices(requests),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new ProviderTimeoutError(entry.provider.name, timeoutMs)), timeoutMs);
+        })
+      ]);
+
+      health.healthy = true;
+      health.consecutiveFailures = 0;
+      health.lastSuccessAt = new Date().toISOString();
+      health.cooldownUntil = null;
+      return quotes;
+    } catch (error) {
+      health.consecutiveFailures += 1;
+      health.lastFailureAt = new Date().toISOString();
+      health.lastError = error instanceof Error ? error.message : String(error);
+      if (error instanceof RateLimitError) {
+        // Wait out the upstream's Retry-After instead of the usual cooldown
+        health.healthy = false;
+        health.cooldownUntil = error.retryAt.toISOString();
+      } else if (health.consecutiveFailures >= this.failureThreshold) {
+        health.healthy = false;
+        health.cooldownUntil = new Date(Date.now() + this.cooldownMs).toISOString();
+      }
+      console.error(`Price provider ${entry.provider.name} failed:`, health.lastError);
+      return {};
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import type { Token } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { loadConfig } from '../config';
+import { CoinGeckoService, RateLimitError } from './blockchain';
+import { CoinGeckoPriceProvider, PriceProviderChain } from './priceProviders';
+import { TokenPriceResolver } from './priceSources';
+
+const TTL_MS = 60000;
+const MAX_STALE_MS = 600000;
+
+let storage: MemStorage;
+let coinGecko: CoinGeckoService;
+let getPrices: ReturnType<typeof vi.spyOn>;
+let eth: Token;
+
+function createResolver() {
+  const chain = new PriceProviderChain([{ provider: new CoinGeckoPriceProvider(coinGecko) }], { failureThreshold: Infinity });
+  return new TokenPriceResolver(storage, chain, { ttlMs: TTL_MS, maxStaleMs: MAX_STALE_MS });
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-06-01T12:00:00Z'));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  storage = new MemStorage();
+  eth = await storage.createToken({ chainId: 1, symbol: 'ETH', name: 'Ethereum', address: '0x0000000000000000000000000000000000000000', decimals: 18 });
+  await storage.createTokenPriceSource({ tokenId: eth.id, sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 });
+
+  coinGecko = new CoinGeckoService(loadConfig({}).coinGecko);
+  getPrices = vi.spyOn(coinGecko, 'getMultipleTokenPrices').mockResolvedValue({
+    ethereum: { usd: 3000, usd_24h_change: 1, last_updated_at: Date.parse('2024-06-01T11:59:30Z') / 1000 }
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('TokenPriceResolver', () => {
+  it('reports the provider update time as asOf', async () => {
+    const prices = await createResolver().resolvePrices([eth]);
+
+    expect(prices[eth.id]).toMatchObject({ usd: 3000, provider: 'coingecko' });
+    expect(prices[eth.id].asOf.toISOString()).toBe('2024-06-01T11:59:30.000Z');
+    expect(prices[eth.id].stale).toBeUndefined();
+  });
+
+  it('serves cached prices until the TTL runs out', async () => {
+    const resolver = createResolver();
+
+    await resolver.resolvePrices([eth]);
+    vi.setSystemTime(Date.now() + TTL_MS - 1);
+    await resolver.resolvePrices([eth]);
+    expect(getPrices).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 1);
+    await resolver.resolvePrices([eth]);
+    expect(getPrices).toHaveBeenCalledTimes(2);
+  });
+
+  it('coalesces concurrent lookups into one upstream request', async () => {
+    const resolver = createResolver();
+
+    const [first, second] = await Promise.all([resolver.resolvePrices([eth]), resolver.resolvePrices([eth])]);
+
+    expect(getPrices).toHaveBeenCalledTimes(1);
+    expect(first[eth.id].usd).toBe(3000);
+    expect(second[eth.id].usd).toBe(3000);
+  });
+
+  it('falls back to the last known price, flagged stale, when the provider fails', async () => {
+    const resolver = createResolver();
+    await resolver.resolvePrices([eth]);
+
+    getPrices.mockRejectedValue(new Error('CoinGecko API error: 503'));
+    vi.setSystemTime(Date.now() + TTL_MS);
+    const prices = await resolver.resolvePrices([eth]);
+
+    expect(prices[eth.id]).toMatchObject({ usd: 3000, stale: true });
+    expect(prices[eth.id].asOf.toISOString()).toBe('2024-06-01T11:59:30.000Z');
+  });
+
+  it('drops prices older than the stale limit', async () => {
+    const resolver = createResolver();
+    await resolver.resolvePrices([eth]);
+
+    getPrices.mockRejectedValue(new Error('CoinGecko API error: 503'));
+    vi.setSystemTime(Date.now() + MAX_STALE_MS);
+
+    expect(await resolver.resolvePrices([eth])).toEqual({});
+  });
+
+  it('refetches after invalidation', async () => {
+    const resolver = createResolver();
+    await resolver.resolvePrices([eth]);
+
+    resolver.invalidate(eth.id);
+    await resolver.resolvePrices([eth]);
+
+    expect(getPrices).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('CoinGeckoService rate limiting', () => {
+  function rateLimited(retryAfter?: string) {
+    return Object.assign(new Error('Request failed with status code 429'), {
+      isAxiosError: true,
+      response: { status: 429, headers: retryAfter ? { 'retry-after': retryAfter } : {} }
+    });
+  }
+
+  it('backs off for the Retry-After period without calling upstream', async () => {
+    const service = new CoinGeckoService({ ...loadConfig({}).coinGecko, minIntervalMs: 0 });
+    const get = vi.spyOn(axios, 'get').mockRejectedValueOnce(rateLimited('30'));
+
+    await expect(service.getMultipleTokenPrices(['ethereum'])).rejects.toBeInstanceOf(RateLimitError);
+    await expect(service.getMultipleTokenPrices(['ethereum'])).rejects.toMatchObject({
+      retryAt: new Date(Date.now() + 30000)
+    });
+    expect(get).toHaveBeenCalledTimes(1);
+
+    get.mockResolvedValue({ data: { ethereum: { usd: 3100, usd_24h_change: 0 } } });
+    vi.setSystemTime(Date.now() + 30000);
+    expect(await service.getMultipleTokenPrices(['ethereum'])).toMatchObject({ ethereum: { usd: 3100 } });
+  });
+
+  it('puts the provider on cooldown until the retry time', async () => {
+    getPrices.mockRejectedValue(new RateLimitError(new Date(Date.now() + 45000)));
+    const chain = new PriceProviderChain([{ provider: new CoinGeckoPriceProvider(coinGecko) }]);
+    const resolver = new TokenPriceResolver(storage, chain);
+
+    await resolver.resolvePrices([eth]);
+    await resolver.resolvePrices([eth]);
+
+    expect(getPrices).toHaveBeenCalledTimes(1);
+    expect(chain.getHealth()[0]).toMatchObject({ healthy: false, cooldownUntil: '2024-06-01T12:00:45.000Z' });
+  });
+});
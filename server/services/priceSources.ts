@@ -0,0 +1,170 @@
+import type { Token } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { coinGeckoService, chainServices } from './blockchain';
+import { config, type PriceConfig } from '../config';
+import {
+  PriceProviderChain,
+  CoinGeckoPriceProvider,
+  OnchainPoolPriceProvider,
+  FixedPegPriceProvider,
+  FixturePriceProvider,
+  type ChainedProvider,
+  type PriceQuote,
+  type ProviderHealth
+} from './priceProviders';
+
+export type ResolvedTokenPrice = PriceQuote;
+
+// Price entry served by /api/blockchain/prices and pushed to realtime subscribers
+export interface TokenPriceEntry {
+  symbol: string;
+  name: string;
+  price: number | null;
+  change24h: number | null;
+  provider: string | null;
+  // When the provider last updated the price; null when unpriced
+  asOf: string | null;
+  // True when the providers failed and this is the last known price
+  stale: boolean;
+}
+
+export interface PriceCacheOptions {
+  // Cached prices younger than this are served without asking the providers
+  ttlMs: number;
+  // Cached prices younger than this stand in, flagged stale, for tokens the providers failed to price
+  maxStaleMs: number;
+}
+
+interface CachedPrice {
+  quote: ResolvedTokenPrice;
+  fetchedAt: number;
+}
+
+// Resolves token prices through the per-token price source registry stored in the database.
+// Prices are cached per token, and concurrent lookups for the same tokens share one provider round.
+export class TokenPriceResolver {
+  private cache = new Map<string, CachedPrice>();
+  private inflight = new Map<string, Promise<Record<string, ResolvedTokenPrice>>>();
+
+  constructor(
+    private storage: IStorage,
+    private chain: PriceProviderChain,
+    private options: PriceCacheOptions = { ttlMs: 0, maxStaleMs: 0 }
+  ) {}
+
+  // Returns prices keyed by token id; tokens no provider could price and with no usable cached price are omitted
+  async resolvePrices(tokens: Token[]): Promise<Record<string, ResolvedTokenPrice>> {
+    const results: Record<string, ResolvedTokenPrice> = {};
+    const missing: Token[] = [];
+    const now = Date.now();
+
+    for (const token of tokens) {
+      const cached = this.cache.get(token.id);
+      if (cached && now - cached.fetchedAt < this.options.ttlMs) {
+        results[token.id] = cached.quote;
+      } else {
+        missing.push(token);
+      }
+    }
+    if (missing.length === 0) return results;
+
+    const fetched = await this.fetchShared(missing);
+    const fetchedAt = Date.now();
+
+    for (const token of missing) {
+      const quote = fetched[token.id];
+      if (quote) {
+        this.cache.set(token.id, { quote, fetchedAt });
+        results[token.id] = quote;
+        continue;
+      }
+      const cached = this.cache.get(token.id);
+      if (cached && fetchedAt - cached.fetchedAt < this.options.maxStaleMs) {
+        results[token.id] = { ...cached.quote, stale: true };
+      }
+    }
+
+    return results;
+  }
+
+  // Drops cached prices, e.g. after a token's price sources change
+  invalidate(tokenId?: string): void {
+    if (tokenId) {
+      this.cache.delete(tokenId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  // Single-flight: a lookup for the same token set that is already running is joined, not repeated
+  private fetchShared(tokens: Token[]): Promise<Record<string, ResolvedTokenPrice>> {
+    const key = tokens.map(token => token.id).sort().join(',');
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.storage.getActiveTokenPriceSources()
+        .then(sources => this.chain.getPrices(tokens, sources))
+        .finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  getProviderHealth(): ProviderHealth[] {
+    return this.chain.getHealth();
+  }
+}
+
+// Prices keyed by symbol. The first chain that prices a symbol wins; tokens no provider
+// could price are reported as unavailable rather than $0.
+export function buildPriceTable(tokens: Token[], priceData: Record<string, ResolvedTokenPrice>): Record<string, TokenPriceEntry> {
+  const prices: Record<string, TokenPriceEntry> = {};
+
+  for (const token of tokens) {
+    const resolved = priceData[token.id];
+    if (resolved && (!prices[token.symbol] || prices[token.symbol].price === null)) {
+      prices[token.symbol] = {
+        symbol: token.symbol,
+        name: token.name,
+        price: resolved.usd,
+        change24h: resolved.usd_24h_change,
+        provider: resolved.provider,
+        asOf: resolved.asOf.toISOString(),
+        stale: !!resolved.stale
+      };
+    } else if (!prices[token.symbol]) {
+      prices[token.symbol] = {
+        symbol: token.symbol,
+        name: token.name,
+        price: null,
+        change24h: null,
+        provider: null,
+        asOf: null,
+        stale: false
+      };
+    }
+  }
+
+  return prices;
+}
+
+// A fixture path adds the fixture provider as a last-resort fallback;
+// offline mode drops the network providers entirely.
+function createDefaultPriceChain({ offline, fixturePath }: PriceConfig): PriceProviderChain {
+  const entries: ChainedProvider[] = [];
+
+  if (!offline) {
+    entries.push({ provider: new CoinGeckoPriceProvider(coinGeckoService), timeoutMs: 8000 });
+    entries.push({ provider: new OnchainPoolPriceProvider(chainId => chainServices.get(chainId).getProvider()), timeoutMs: 6000 });
+  }
+  entries.push({ provider: new FixedPegPriceProvider(), timeoutMs: 1000 });
+  if (fixturePath) {
+    entries.push({ provider: new FixturePriceProvider(fixturePath), timeoutMs: 1000 });
+  }
+
+  return new PriceProviderChain(entries);
+}
+
+export const tokenPriceResolver = new TokenPriceResolver(storage, createDefaultPriceChain(config.prices), {
+  ttlMs: config.prices.cacheTtlMs,
+  maxStaleMs: config.prices.maxStaleMs
+});
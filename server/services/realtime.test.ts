@@ -0,0 +1,126 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { once } from 'events';
+import request from 'supertest';
+import { WebSocket } from 'ws';
+import { ethers } from 'ethers';
+import { createTestApp, serverUrl, verifyWallet, type TestApp } from '../test/app';
+import { PRICES_CHANNEL, REALTIME_PATH, walletChannel } from './realtime';
+
+interface TestSocket {
+  send(message: unknown): void;
+  next(): Promise<any>;
+}
+
+let app: TestApp;
+let userCount = 0;
+const sockets: WebSocket[] = [];
+
+// Registers a user and returns its agent with the session cookie the browser would send on upgrade
+async function newSession() {
+  userCount += 1;
+  const agent = request.agent(serverUrl(app.server));
+  const res = await agent
+    .post('/api/auth/register')
+    .send({ username: `realtime-test-user-${userCount}`, password: 'correct-horse-battery' })
+    .expect(201);
+  const cookie = (res.headers['set-cookie'] as unknown as string[]).map(header => header.split(';')[0]).join('; ');
+  return { agent, cookie };
+}
+
+async function newOwner() {
+  const session = await newSession();
+  const address = await verifyWallet(session.agent, ethers.Wallet.createRandom());
+  return { ...session, address };
+}
+
+// Opens the push channel, queueing server messages until the test reads them
+async function connect(cookie?: string): Promise<TestSocket> {
+  const url = `${serverUrl(app.server).replace('http', 'ws')}${REALTIME_PATH}`;
+  const socket = new WebSocket(url, { headers: cookie ? { Cookie: cookie } : {} });
+  sockets.push(socket);
+
+  const queued: any[] = [];
+  const waiting: Array<(message: any) => void> = [];
+  socket.on('message', data => {
+    const message = JSON.parse(data.toString());
+    const waiter = waiting.shift();
+    if (waiter) waiter(message);
+    else queued.push(message);
+  });
+  await once(socket, 'open');
+
+  return {
+    send: message => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    next: () => (queued.length > 0 ? Promise.resolve(queued.shift()) : new Promise(resolve => waiting.push(resolve)))
+  };
+}
+
+beforeAll(async () => {
+  app = await createTestApp();
+});
+
+afterEach(() => {
+  sockets.splice(0).forEach(socket => socket.terminate());
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('RealtimeHub', () => {
+  it('lets a connection without a session follow prices', async () => {
+    const socket = await connect();
+    socket.send({ type: 'subscribe', channels: [PRICES_CHANNEL] });
+    expect(await socket.next()).toEqual({ type: 'subscribed', channels: [PRICES_CHANNEL] });
+
+    app.realtime.publish(PRICES_CHANNEL, { type: 'prices', prices: {}, at: '2024-06-01T00:00:00.000Z' });
+
+    expect(await socket.next()).toEqual({ channel: PRICES_CHANNEL, type: 'prices', prices: {}, at: '2024-06-01T00:00:00.000Z' });
+  });
+
+  it('rejects wallet channels without a session', async () => {
+    const { address } = await newOwner();
+    const socket = await connect();
+
+    socket.send({ type: 'subscribe', channels: [`wallet:${address}`] });
+
+    expect(await socket.next()).toEqual({ type: 'error', message: 'Subscription rejected', channels: [`wallet:${address}`] });
+    expect(await socket.next()).toEqual({ type: 'subscribed', channels: [] });
+  });
+
+  it('rejects wallet channels for a wallet another user owns', async () => {
+    const { address } = await newOwner();
+    const { cookie } = await newSession();
+    const socket = await connect(cookie);
+
+    socket.send({ type: 'subscribe', channels: [`wallet:${address}`, PRICES_CHANNEL] });
+
+    expect(await socket.next()).toMatchObject({ type: 'error', channels: [`wallet:${address}`] });
+    expect(await socket.next()).toEqual({ type: 'subscribed', channels: [PRICES_CHANNEL] });
+  });
+
+  it('normalizes the owner\'s wallet channel so events reach it whatever the letter case', async () => {
+    const { cookie, address } = await newOwner();
+    const socket = await connect(cookie);
+
+    socket.send({ type: 'subscribe', channels: [`wallet:${address.toLowerCase()}`] });
+    expect(await socket.next()).toEqual({ type: 'subscribed', channels: [walletChannel(address)] });
+
+    const event = { type: 'balances' as const, address, balances: {}, at: '2024-06-01T00:00:00.000Z' };
+    app.realtime.publish(walletChannel(address), event);
+    expect(await socket.next()).toEqual({ channel: walletChannel(address), ...event });
+
+    socket.send({ type: 'unsubscribe', channels: [`wallet:${address}`] });
+    expect(await socket.next()).toEqual({ type: 'subscribed', channels: [] });
+  });
+
+  it('answers malformed messages with an error', async () => {
+    const socket = await connect();
+
+    socket.send('not json');
+    expect(await socket.next()).toEqual({ type: 'error', message: 'Invalid JSON' });
+
+    socket.send({ type: 'publish', channels: [] });
+    expect(await socket.next()).toEqual({ type: 'error', message: 'Unknown message type' });
+  });
+});
@@ -0,0 +1,213 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import type { Request, RequestHandler, Response } from 'express';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { ethers } from 'ethers';
+import { storage, type IStorage } from '../storage';
+import { ChainServiceRegistry, chainServices } from './blockchain';
+import type { TokenPriceEntry } from './priceSources';
+import type { SyncedTokenBalance } from './balanceSync';
+import type { TransactionHistory } from './transactionIndexer';
+
+export const REALTIME_PATH = '/api/realtime';
+
+// Channels a client can subscribe to; wallet channels are `wallet:<address>` and need an owning session
+export const PRICES_CHANNEL = 'prices';
+export const BLOCKS_CHANNEL = 'blocks';
+
+export function walletChannel(address: string): string {
+  return `wallet:${address.toLowerCase()}`;
+}
+
+function normalizeChannel(channel: string): string {
+  return channel.startsWith('wallet:') ? walletChannel(channel.slice('wallet:'.length)) : channel;
+}
+
+export type RealtimeEvent =
+  | { type: 'prices'; prices: Record<string, TokenPriceEntry>; at: string }
+  | { type: 'block'; chainId: number; blockNumber: number; at: string }
+  | { type: 'balances'; address: string; balances: Record<string, SyncedTokenBalance>; at: string }
+  | { type: 'transactions'; address: string; history: TransactionHistory; at: string };
+
+type ClientMessage = { type: 'subscribe' | 'unsubscribe'; channels: string[] };
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: string | null;
+  channels: Set<string>;
+  alive: boolean;
+}
+
+// Server side of the push channel: authenticates the upgrade with the HTTP session, tracks
+// per-connection subscriptions and fans published events out to subscribers.
+export class RealtimeHub {
+  private wss: WebSocketServer | null = null;
+  private clients = new Set<RealtimeClient>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  // Block listeners per chain, attached only while someone is subscribed to blocks
+  private blockListeners = new Map<number, (blockNumber: number) => void>();
+
+  constructor(
+    private storage: IStorage,
+    private chains: ChainServiceRegistry,
+    private heartbeatMs: number = 30000
+  ) {}
+
+  attach(server: Server, sessionParser: RequestHandler): void {
+    if (this.wss) return;
+    this.wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      // Other upgrade handlers (e.g. Vite HMR in development) share this server
+      if (new URL(req.url || '/', 'http://localhost').pathname !== REALTIME_PATH) return;
+
+      sessionParser(req as Request, {} as Response, () => {
+        const userId = (req as Request).session?.passport?.user ?? null;
+        this.wss!.handleUpgrade(req, socket, head, ws => this.onConnection(ws, userId));
+      });
+    });
+
+    this.heartbeat = setInterval(() => this.checkAlive(), this.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  close(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    this.clients.forEach(client => client.socket.terminate());
+    this.clients.clear();
+    this.stopBlockWatch();
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  hasSubscribers(channel: string): boolean {
+    for (const client of Array.from(this.clients)) {
+      if (client.channels.has(channel)) return true;
+    }
+    return false;
+  }
+
+  publish(channel: string, event: RealtimeEvent): void {
+    const payload = JSON.stringify({ channel, ...event });
+    this.clients.forEach(client => {
+      if (client.channels.has(channel) && client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(payload);
+      }
+    });
+  }
+
+  private onConnection(socket: WebSocket, userId: string | null): void {
+    const client: RealtimeClient = { socket, userId, channels: new Set(), alive: true };
+    this.clients.add(client);
+
+    socket.on('pong', () => { client.alive = true; });
+    socket.on('message', data => {
+      this.onMessage(client, data).catch(error => {
+        console.error('Error handling realtime message:', error);
+        this.send(client, { type: 'error', message: 'Failed to handle message' });
+      });
+    });
+    socket.on('close', () => {
+      this.clients.delete(client);
+      this.updateBlockWatch();
+    });
+  }
+
+  private async onMessage(client: RealtimeClient, data: RawData): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return this.send(client, { type: 'error', message: 'Invalid JSON' });
+    }
+    if ((message.type !== 'subscribe' && message.type !== 'unsubscribe') || !Array.isArray(message.channels)) {
+      return this.send(client, { type: 'error', message: 'Unknown message type' });
+    }
+
+    if (message.type === 'unsubscribe') {
+      message.channels.forEach(channel => client.channels.delete(normalizeChannel(String(channel))));
+    } else {
+      const rejected: string[] = [];
+      for (const raw of message.channels) {
+        const channel = String(raw);
+        if (await this.canSubscribe(client, channel)) {
+          client.channels.add(normalizeChannel(channel));
+        } else {
+          rejected.push(channel);
+        }
+      }
+      if (rejected.length > 0) {
+        this.send(client, { type: 'error', message: 'Subscription rejected', channels: rejected });
+      }
+    }
+
+    this.updateBlockWatch();
+    this.send(client, { type: 'subscribed', channels: Array.from(client.channels) });
+  }
+
+  // Price and block channels are public; wallet channels only for wallets the session owns
+  private async canSubscribe(client: RealtimeClient, channel: string): Promise<boolean> {
+    if (channel === PRICES_CHANNEL || channel === BLOCKS_CHANNEL) return true;
+    if (!channel.startsWith('wallet:') || !client.userId) return false;
+
+    // Channels carry the address in any letter case; wallets are stored checksummed
+    const address = channel.slice('wallet:'.length);
+    if (!ethers.isAddress(address)) return false;
+    const wallet = await this.storage.getWalletByAddress(ethers.getAddress(address));
+    return !!wallet && wallet.userId === client.userId;
+  }
+
+  private send(client: RealtimeClient, message: Record<string, unknown>): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(message));
+    }
+  }
+
+  // Drop connections that didn't answer the previous ping
+  private checkAlive(): void {
+    this.clients.forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }
+
+  private updateBlockWatch(): void {
+    const watching = this.blockListeners.size > 0;
+    const wanted = this.hasSubscribers(BLOCKS_CHANNEL);
+    if (wanted && !watching) {
+      this.startBlockWatch().catch(error => console.error('Failed to start block watch:', error));
+    } else if (!wanted && watching) {
+      this.stopBlockWatch();
+    }
+  }
+
+  // Follows new blocks on every chain that has registered tokens
+  private async startBlockWatch(): Promise<void> {
+    const tokens = await this.storage.getAllTokens();
+    const chainIds = Array.from(new Set(tokens.map(token => token.chainId)))
+      .filter(chainId => this.chains.isSupported(chainId));
+
+    for (const chainId of chainIds) {
+      if (this.blockListeners.has(chainId)) continue;
+      const listener = (blockNumber: number) => {
+        this.publish(BLOCKS_CHANNEL, { type: 'block', chainId, blockNumber, at: new Date().toISOString() });
+      };
+      this.blockListeners.set(chainId, listener);
+      await this.chains.get(chainId).getProvider().on('block', listener);
+    }
+  }
+
+  private stopBlockWatch(): void {
+    this.blockListeners.forEach((listener, chainId) => {
+      void this.chains.get(chainId).getProvider().off('block', listener);
+    });
+    this.blockListeners.clear();
+  }
+}
+
+export const realtimeHub = new RealtimeHub(storage, chainServices);
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Token, Wallet } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { RiskAnalyticsService } from './riskAnalytics';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-07-01T12:00:00Z');
+const TODAY = Date.parse('2024-07-01T00:00:00Z');
+
+let storage: MemStorage;
+let service: RiskAnalyticsService;
+let wallet: Wallet;
+let eth: Token;
+let oec: Token;
+
+// Daily closes for the 30 days up to today, from `price(daysAgo)`
+async function seedCloses(token: Token, price: (daysAgo: number) => number) {
+  for (let daysAgo = 30; daysAgo >= 0; daysAgo--) {
+    await storage.upsertPriceCandle('1d', token.id, new Date(TODAY - daysAgo * DAY), price(daysAgo).toString());
+  }
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  service = new RiskAnalyticsService(storage);
+  wallet = await storage.createWallet({ address: '0x1111111111111111111111111111111111111111' });
+  eth = await storage.createToken({ chainId: 1, symbol: 'ETH', name: 'Ethereum', address: '0x0000000000000000000000000000000000000000', decimals: 18 });
+  oec = await storage.createToken({ chainId: 1, symbol: 'OEC', name: 'Oeconomia', address: '0x1234567890123456789012345678901234567890', decimals: 18 });
+  await storage.createTokenPriceSource({ tokenId: eth.id, sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 });
+
+  await seedCloses(eth, daysAgo => 3000 * (daysAgo % 2 === 0 ? 1 : 1.02));
+  await seedCloses(oec, daysAgo => 10 - daysAgo * 0.1);
+});
+
+describe('RiskAnalyticsService', () => {
+  it('values current balances over the window when there are no snapshots', async () => {
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: eth.id, balance: '2', usdValue: '0' });
+
+    const report = await service.analyze(wallet, '30d', 0, NOW);
+
+    expect(report.holdingsSource).toBe('current');
+    expect(report.series).toHaveLength(31);
+    expect(report.series[30]).toEqual({ date: new Date(TODAY), value: 6000 });
+    expect(report.benchmarks[0]).toMatchObject({ symbol: 'ETH', observations: 30 });
+    expect(report.benchmarks[0].beta).toBeCloseTo(1);
+    expect(report.benchmarks[1]).toMatchObject({ symbol: 'BTC', beta: null, observations: 0 });
+  });
+
+  it('follows holdings through snapshots, matching tokens by id or address', async () => {
+    await storage.createPortfolioSnapshot({
+      walletId: wallet.id,
+      netWorth: '0',
+      tokenValues: [{ tokenId: oec.id, address: oec.address, balance: '100', usdValue: 0, percentage: 100 }],
+      timestamp: new Date(TODAY - 20 * DAY + 3600000)
+    });
+    // Written before snapshots carried token ids
+    await storage.createPortfolioSnapshot({
+      walletId: wallet.id,
+      netWorth: '0',
+      tokenValues: [{ address: eth.address, balance: '1', usdValue: 0, percentage: 100 }],
+      timestamp: new Date(TODAY - 10 * DAY + 3600000)
+    });
+
+    const report = await service.analyze(wallet, '30d', 0, NOW);
+
+    expect(report.holdingsSource).toBe('snapshots');
+    expect(report.series[0]).toEqual({ date: new Date(TODAY - 20 * DAY), value: 800 });
+    expect(report.series[10].value).toBe(3000);
+    expect(report.series).toHaveLength(21);
+    // Switching from $900 of OEC to $3000 of ETH is a rise, not a drawdown
+    expect(report.maxDrawdown).toBeCloseTo(1 - 3000 / 3060);
+  });
+
+  it('measures returns on the holdings carried into each day, so a deposit is not a gain', async () => {
+    const ethSnapshot = (target: Wallet, balance: string, daysAgo: number) => storage.createPortfolioSnapshot({
+      walletId: target.id,
+      netWorth: '0',
+      tokenValues: [{ tokenId: eth.id, address: eth.address, balance, usdValue: 0, percentage: 100 }],
+      timestamp: new Date(TODAY - daysAgo * DAY + 3600000)
+    });
+    await ethSnapshot(wallet, '1', 20);
+    await ethSnapshot(wallet, '3', 10);
+    const steady = await storage.createWallet({ address: '0x2222222222222222222222222222222222222222' });
+    await ethSnapshot(steady, '1', 20);
+
+    const report = await service.analyze(wallet, '30d', 0, NOW);
+    const baseline = await service.analyze(steady, '30d', 0, NOW);
+
+    // The value triples on the deposit day, but every return is just ETH's own ±2% move
+    expect(report.series[10].value / report.series[9].value).toBeGreaterThan(2.5);
+    expect(report.volatility).toBeCloseTo(baseline.volatility!);
+    expect(report.valueAtRisk).toBeCloseTo(baseline.valueAtRisk!);
+    expect(report.benchmarks[0].beta).toBeCloseTo(1);
+  });
+
+  it('leaves out days a held token has no price for', async () => {
+    const unpriced = await storage.createToken({ chainId: 1, symbol: 'NEW', name: 'New', address: '0x4444444444444444444444444444444444444444', decimals: 18 });
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: eth.id, balance: '1', usdValue: '0' });
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: unpriced.id, balance: '5', usdValue: '0' });
+    await storage.upsertPriceCandle('1d', unpriced.id, new Date(TODAY - 2 * DAY), '1');
+
+    const report = await service.analyze(wallet, '30d', 0, NOW);
+
+    expect(report.series.map(point => point.date.getTime())).toEqual([TODAY - 2 * DAY, TODAY - DAY, TODAY]);
+    expect(report.unpricedTokens).toEqual([]);
+  });
+
+  it('values the rest of the holdings when a token has no price anywhere in the window', async () => {
+    const unpriced = await storage.createToken({ chainId: 1, symbol: 'NEW', name: 'New', address: '0x4444444444444444444444444444444444444444', decimals: 18 });
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: eth.id, balance: '2', usdValue: '0' });
+    await storage.upsertTokenBalance({ walletId: wallet.id, tokenId: unpriced.id, balance: '5', usdValue: '0' });
+
+    const report = await service.analyze(wallet, '30d', 0, NOW);
+
+    expect(report.unpricedTokens).toEqual([unpriced.id]);
+    expect(report.series).toHaveLength(31);
+    expect(report.series[30].value).toBe(6000);
+  });
+});
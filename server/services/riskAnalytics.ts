@@ -0,0 +1,257 @@
+import type { PortfolioSnapshot, Token, Wallet } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { bucketStart } from './priceHistory';
+import {
+  alignReturns,
+  annualizedVolatility,
+  beta,
+  correlation,
+  maxDrawdown,
+  periodReturns,
+  sharpeRatio,
+  sortinoRatio,
+  valueAtRisk,
+  type SeriesPoint
+} from './analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far before the window to look for the holdings and prices in effect on its first day
+const LOOKBACK_MS = 7 * DAY_MS;
+
+export const riskRanges = ['30d', '90d', '1y'] as const;
+export type RiskRange = typeof riskRanges[number];
+
+const RANGE_DAYS: Record<RiskRange, number> = { '30d': 30, '90d': 90, '1y': 365 };
+
+// Benchmarks are found in price history through any registry token priced from their CoinGecko id
+const BENCHMARKS = [
+  { symbol: 'ETH', coingeckoId: 'ethereum' },
+  { symbol: 'BTC', coingeckoId: 'bitcoin' }
+];
+
+const VAR_CONFIDENCE = 0.95;
+
+export interface BenchmarkComparison {
+  symbol: string;
+  beta: number | null;
+  correlation: number | null;
+  // Days both series had a return on
+  observations: number;
+}
+
+export interface RiskReport {
+  range: RiskRange;
+  from: Date;
+  to: Date;
+  riskFreeRate: number;
+  // 'snapshots' when holdings come from the wallet's snapshot history; 'current' when there
+  // were no snapshots and today's balances are assumed for the whole window
+  holdingsSource: 'snapshots' | 'current';
+  // Held tokens with no daily close anywhere in the window, left out of the value series
+  unpricedTokens: string[];
+  series: SeriesPoint[];
+  volatility: number | null;
+  maxDrawdown: number;
+  drawdownPeak: Date | null;
+  drawdownTrough: Date | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  // One-day historical VaR at 95%, as a fraction of value and in USD at the latest value
+  valueAtRisk: number | null;
+  valueAtRiskUsd: number | null;
+  benchmarks: BenchmarkComparison[];
+}
+
+type Holdings = Map<string, number>;
+
+// Rebuilds a wallet's daily USD value from its holdings history and daily closes, then runs the risk math on it
+export class RiskAnalyticsService {
+  constructor(private storage: IStorage) {}
+
+  async analyze(wallet: Wallet, range: RiskRange, riskFreeRate: number = 0, now: Date = new Date()): Promise<RiskReport> {
+    const to = bucketStart(now, '1d');
+    const from = new Date(to.getTime() - RANGE_DAYS[range] * DAY_MS);
+
+    const { timeline, source } = await this.holdingsTimeline(wallet, from);
+    const tokenIds = new Set<string>();
+    for (const { holdings } of timeline) {
+      for (const tokenId of Array.from(holdings.keys())) tokenIds.add(tokenId);
+    }
+
+    const closes = new Map<string, Map<number, number>>();
+    const unpricedTokens: string[] = [];
+    for (const tokenId of Array.from(tokenIds)) {
+      const tokenCloses = await this.dailyCloses(tokenId, from, now);
+      if (tokenCloses.size > 0) {
+        closes.set(tokenId, tokenCloses);
+      } else {
+        unpricedTokens.push(tokenId);
+      }
+    }
+
+    const series: SeriesPoint[] = [];
+    // Each day's return is on the holdings carried into it, so deposits and withdrawals
+    // change the value series without counting as gains or losses
+    const returns = new Map<number, number>();
+    let next = 0;
+    let holdings: Holdings | undefined;
+    for (let day = from.getTime(); day <= to.getTime(); day += DAY_MS) {
+      const carried = holdings;
+      // Holdings as of the end of the day
+      while (next < timeline.length && timeline[next].at.getTime() < day + DAY_MS) {
+        holdings = timeline[next].holdings;
+        next++;
+      }
+      if (!holdings) continue;
+
+      // A day missing a held token's price would show up as a fake crash
+      const value = holdingsValue(holdings, closes, day);
+      if (value !== null) series.push({ date: new Date(day), value });
+
+      if (carried) {
+        const start = holdingsValue(carried, closes, day - DAY_MS);
+        const end = holdingsValue(carried, closes, day);
+        if (start !== null && end !== null && start > 0) returns.set(day, end / start - 1);
+      }
+    }
+
+    const returnValues = Array.from(returns.values());
+    const drawdown = maxDrawdown(series);
+    const var95 = valueAtRisk(returnValues, VAR_CONFIDENCE);
+    const latest = series[series.length - 1]?.value;
+
+    const benchmarks: BenchmarkComparison[] = [];
+    for (const benchmark of BENCHMARKS) {
+      const benchmarkReturns = periodReturns(await this.benchmarkSeries(benchmark.coingeckoId, from, now));
+      const aligned = alignReturns(returns, benchmarkReturns);
+      benchmarks.push({
+        symbol: benchmark.symbol,
+        beta: beta(aligned.asset, aligned.benchmark),
+        correlation: correlation(aligned.asset, aligned.benchmark),
+        observations: aligned.asset.length
+      });
+    }
+
+    return {
+      range,
+      from,
+      to,
+      riskFreeRate,
+      holdingsSource: source,
+      unpricedTokens,
+      series,
+      volatility: annualizedVolatility(returnValues),
+      maxDrawdown: drawdown.maxDrawdown,
+      drawdownPeak: drawdown.peak,
+      drawdownTrough: drawdown.trough,
+      sharpeRatio: sharpeRatio(returnValues, riskFreeRate),
+      sortinoRatio: sortinoRatio(returnValues, riskFreeRate),
+      valueAtRisk: var95,
+      valueAtRiskUsd: var95 !== null && latest !== undefined ? var95 * latest : null,
+      benchmarks
+    };
+  }
+
+  // Holdings over time from snapshots, oldest first; today's balances when the wallet has none
+  private async holdingsTimeline(wallet: Wallet, from: Date): Promise<{
+    timeline: Array<{ at: Date; holdings: Holdings }>;
+    source: RiskReport['holdingsSource'];
+  }> {
+    const snapshots = await this.storage.getPortfolioSnapshots(wallet.id, new Date(from.getTime() - LOOKBACK_MS));
+    const balances = await this.storage.getTokenBalances(wallet.id);
+
+    if (snapshots.length === 0) {
+      const holdings: Holdings = new Map();
+      for (const balance of balances) {
+        const amount = parseFloat(balance.balance);
+        if (amount > 0) holdings.set(balance.tokenId, amount);
+      }
+      return { timeline: [{ at: new Date(0), holdings }], source: 'current' };
+    }
+
+    const tokens = await this.storage.getAllTokens();
+    const heldIds = new Set(balances.map(balance => balance.tokenId));
+    const timeline = snapshots
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(snapshot => ({ at: snapshot.timestamp, holdings: snapshotHoldings(snapshot, tokens, heldIds) }));
+    return { timeline, source: 'snapshots' };
+  }
+
+  // Close per UTC day, carried forward over days without a candle. Starts from the last close
+  // before the window so the first day is priced.
+  private async dailyCloses(tokenId: string, from: Date, now: Date): Promise<Map<number, number>> {
+    const points = await this.storage.getPriceHistory(tokenId, {
+      from: new Date(from.getTime() - LOOKBACK_MS),
+      to: now,
+      resolution: '1d'
+    });
+
+    const closes = new Map<number, number>();
+    let index = 0;
+    let last: number | undefined;
+    for (let day = from.getTime() - LOOKBACK_MS; day <= now.getTime(); day += DAY_MS) {
+      while (index < points.length && points[index].timestamp.getTime() <= day) {
+        last = parseFloat(points[index].close);
+        index++;
+      }
+      if (last !== undefined) closes.set(day, last);
+    }
+    return closes;
+  }
+
+  private async benchmarkSeries(coingeckoId: string, from: Date, now: Date): Promise<SeriesPoint[]> {
+    const sources = await this.storage.getActiveTokenPriceSources();
+    const tokenIds = Array.from(new Set(
+      sources.filter(source => source.sourceType === 'coingecko' && source.sourceRef === coingeckoId).map(source => source.tokenId)
+    ));
+
+    // Tokens share the id, so their closes are the same series; take the one with the most history
+    let best: SeriesPoint[] = [];
+    for (const tokenId of tokenIds) {
+      const closes = await this.dailyCloses(tokenId, from, now);
+      const series = Array.from(closes.entries())
+        .filter(([day]) => day >= from.getTime())
+        .map(([day, value]) => ({ date: new Date(day), value }));
+      if (series.length > best.length) best = series;
+    }
+    return best;
+  }
+}
+
+// USD value of `holdings` at the day's closes, or null when a priced token has no close that day.
+// Tokens missing from `closes` were never priced in the window and don't count.
+function holdingsValue(holdings: Holdings, closes: Map<string, Map<number, number>>, day: number): number | null {
+  let value = 0;
+  for (const [tokenId, balance] of Array.from(holdings.entries())) {
+    const tokenCloses = closes.get(tokenId);
+    if (!tokenCloses) continue;
+    const close = tokenCloses.get(day);
+    if (close === undefined) return null;
+    value += balance * close;
+  }
+  return value;
+}
+
+// Snapshots written before token ids were recorded only carry the address, which native
+// currencies share across chains; prefer a token the wallet still holds in that case
+function snapshotHoldings(snapshot: PortfolioSnapshot, tokens: Token[], heldIds: Set<string>): Holdings {
+  const holdings: Holdings = new Map();
+  const entries = Array.isArray(snapshot.tokenValues) ? snapshot.tokenValues as Array<{ tokenId?: string; address?: string; balance?: string }> : [];
+
+  for (const entry of entries) {
+    const amount = parseFloat(entry.balance ?? '0');
+    if (!(amount > 0)) continue;
+
+    let tokenId = entry.tokenId;
+    if (!tokenId && entry.address) {
+      const candidates = tokens.filter(token => token.address.toLowerCase() === entry.address!.toLowerCase());
+      tokenId = (candidates.find(token => heldIds.has(token.id)) ?? candidates[0])?.id;
+    }
+    if (tokenId) holdings.set(tokenId, (holdings.get(tokenId) ?? 0) + amount);
+  }
+
+  return holdings;
+}
+
+export const riskAnalyticsService = new RiskAnalyticsService(storage);
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import type { User } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { SiweService, buildSiweMessage, parseSiweMessage } from './siwe';
+
+const DOMAIN = 'dashboard.example';
+
+let storage: MemStorage;
+let service: SiweService;
+let user: User;
+let signer: ethers.HDNodeWallet;
+
+function challenge(chainId = 1, userId = user.id) {
+  return service.createChallenge({ address: signer.address.toLowerCase(), userId, domain: DOMAIN, uri: `https://${DOMAIN}`, chainId });
+}
+
+async function verify(message: string, wallet: ethers.HDNodeWallet = signer, domain = DOMAIN) {
+  return service.verify({ message, signature: await wallet.signMessage(message), userId: user.id, domain });
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  service = new SiweService(storage);
+  user = await storage.createUser({ username: 'siwe-user', password: 'correct-horse-battery' });
+  signer = ethers.Wallet.createRandom();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseSiweMessage', () => {
+  it('reads back every field buildSiweMessage writes', () => {
+    const fields = {
+      domain: DOMAIN,
+      address: signer.address,
+      statement: 'Sign in.',
+      uri: `https://${DOMAIN}`,
+      version: '1',
+      chainId: 56,
+      nonce: 'abc123',
+      issuedAt: '2024-06-01T00:00:00.000Z',
+      expirationTime: '2024-06-01T00:10:00.000Z'
+    };
+    expect(parseSiweMessage(buildSiweMessage(fields))).toEqual(fields);
+    expect(parseSiweMessage('Sign in to example.com')).toBeNull();
+  });
+});
+
+describe('SiweService', () => {
+  it('issues a challenge for the checksummed address and verifies it once', async () => {
+    const { message } = await challenge();
+    expect(message).toContain(`\n${signer.address}\n`);
+
+    expect(await verify(message)).toBe(signer.address);
+    await expect(verify(message)).rejects.toThrow('Nonce already used');
+  });
+
+  it('refuses challenges for invalid addresses and unsupported chains', async () => {
+    await expect(service.createChallenge({ address: '0x123', userId: user.id, domain: DOMAIN, uri: DOMAIN, chainId: 1 }))
+      .rejects.toThrow('Invalid Ethereum address');
+    await expect(challenge(999999)).rejects.toThrow('Unsupported chain 999999');
+  });
+
+  it('rejects a message signed for another domain', async () => {
+    const { message } = await challenge();
+    await expect(verify(message, signer, 'evil.example')).rejects.toThrow('Sign-in message domain mismatch');
+  });
+
+  it('rejects a message whose chain differs from the one the challenge was issued for', async () => {
+    const { message } = await challenge(1);
+    await expect(verify(message.replace('Chain ID: 1', 'Chain ID: 56'))).rejects.toThrow('Sign-in message chain mismatch');
+  });
+
+  it('rejects an expired nonce', async () => {
+    const { message } = await challenge();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+    await expect(verify(message)).rejects.toThrow('Nonce expired');
+  });
+
+  it('rejects a nonce issued to another user', async () => {
+    const other = await storage.createUser({ username: 'other-user', password: 'correct-horse-battery' });
+    const { message } = await challenge(1, other.id);
+
+    await expect(verify(message)).rejects.toThrow('Unknown nonce');
+  });
+
+  it('rejects a message rewritten for another address', async () => {
+    const intruder = ethers.Wallet.createRandom();
+    const { message } = await challenge();
+
+    await expect(verify(message.replace(signer.address, intruder.address), intruder)).rejects.toThrow('Address does not match nonce');
+  });
+
+  it('rejects a signature from another wallet without burning the nonce', async () => {
+    const { message } = await challenge();
+
+    await expect(verify(message, ethers.Wallet.createRandom())).rejects.toThrow('Signature does not match address');
+    expect(await verify(message)).toBe(signer.address);
+  });
+});
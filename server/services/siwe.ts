@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { getChain } from '@shared/chains';
+import { storage, type IStorage } from '../storage';
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+// Formats an EIP-4361 message
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+  ];
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  );
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+  return lines.join('\n');
+}
+
+// Parses the EIP-4361 fields this server issues; returns null for anything malformed
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const header = message.match(/^(.+) wants you to sign in with your Ethereum account:\n(0x[a-fA-F0-9]{40})\n/);
+  if (!header) return null;
+
+  const field = (name: string) => message.match(new RegExp(`^${name}: (.+)$`, 'm'))?.[1];
+  const uri = field('URI');
+  const version = field('Version');
+  const chainId = field('Chain ID');
+  const nonce = field('Nonce');
+  const issuedAt = field('Issued At');
+  if (!uri || !version || !chainId || !nonce || !issuedAt) return null;
+
+  const statement = message.split('\n')[3];
+
+  return {
+    domain: header[1],
+    address: header[2],
+    statement: statement && !statement.startsWith('URI: ') ? statement : undefined,
+    uri,
+    version,
+    chainId: parseInt(chainId, 10),
+    nonce,
+    issuedAt,
+    expirationTime: field('Expiration Time'),
+  };
+}
+
+// Issues single-use Sign-In With Ethereum challenges and verifies the signed responses
+export class SiweService {
+  constructor(private storage: IStorage) {}
+
+  async createChallenge(params: {
+    address: string;
+    userId: string;
+    domain: string;
+    uri: string;
+    chainId: number;
+  }): Promise<{ message: string; nonce: string; expiresAt: Date }> {
+    if (!ethers.isAddress(params.address)) {
+      throw new SiweError('Invalid Ethereum address');
+    }
+    if (!getChain(params.chainId)) {
+      throw new SiweError(`Unsupported chain ${params.chainId}`);
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+    const address = ethers.getAddress(params.address);
+
+    await this.storage.createSiweNonce({ nonce, address, userId: params.userId, chainId: params.chainId, expiresAt });
+
+    const message = buildSiweMessage({
+      domain: params.domain,
+      address,
+      statement: 'Sign in to Oeconomia Dashboard to verify you control this wallet.',
+      uri: params.uri,
+      version: '1',
+      chainId: params.chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString(),
+    });
+
+    return { message, nonce, expiresAt };
+  }
+
+  // Returns the checksummed address that signed the message, or throws SiweError
+  async verify(params: { message: string; signature: string; userId: string; domain: string }): Promise<string> {
+    const fields = parseSiweMessage(params.message);
+    if (!fields) throw new SiweError('Malformed sign-in message');
+    if (fields.domain !== params.domain) throw new SiweError('Sign-in message domain mismatch');
+
+    const nonce = await this.storage.getSiweNonce(fields.nonce);
+    if (!nonce || nonce.userId !== params.userId) throw new SiweError('Unknown nonce');
+    if (nonce.usedAt) throw new SiweError('Nonce already used');
+    if (nonce.expiresAt.getTime() < Date.now()) throw new SiweError('Nonce expired');
+    if (nonce.address !== ethers.getAddress(fields.address)) throw new SiweError('Address does not match nonce');
+    if (fields.chainId !== nonce.chainId) throw new SiweError('Sign-in message chain mismatch');
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyMessage(params.message, params.signature);
+    } catch {
+      throw new SiweError('Invalid signature');
+    }
+    if (recovered !== nonce.address) throw new SiweError('Signature does not match address');
+
+    // Consume last so a bad signature doesn't burn the nonce, but a replay can't verify twice
+    if (!await this.storage.consumeSiweNonce(nonce.id)) throw new SiweError('Nonce already used');
+
+    return recovered;
+  }
+
+  async pruneExpiredNonces(): Promise<number> {
+    return await this.storage.deleteExpiredSiweNonces();
+  }
+}
+
+export const siweService = new SiweService(storage);
@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+
+export type StakingType = 'staking' | 'governance' | 'farming';
+export type StakingContractKind = 'staking_rewards' | 'masterchef';
+
+export interface StakingPoolConfig {
+  name: string;
+  stakingType: StakingType;
+  kind: StakingContractKind;
+  chainId: number;
+  address: string;
+  // MasterChef pool id; ignored for single-pool contracts
+  poolId?: number;
+  // Registered token the position is filed under; for farms this is the project token of the pair
+  tokenSymbol: string;
+  rewardTokenSymbol: string;
+  // Set for farms that take LP tokens, which are valued from the pair's reserves
+  lpToken?: boolean;
+  // MasterChef forks name these differently and emit per block rather than per second
+  pendingRewardFunction?: string;
+  rewardPerBlockFunction?: string;
+  blockTimeSeconds?: number;
+}
+
+// Raw on-chain reading for one wallet in one pool
+export interface PoolReading {
+  stakingTokenAddress: string;
+  stakedAmount: bigint;
+  pendingRewards: bigint;
+  totalStaked: bigint;
+  // Rewards the whole pool emits per second, used for APY
+  rewardsPerSecond: bigint;
+}
+
+export interface StakingAdapter {
+  readonly kind: StakingContractKind;
+  readPosition(provider: ethers.Provider, pool: StakingPoolConfig, walletAddress: string): Promise<PoolReading>;
+}
+
+const STAKING_REWARDS_ABI = [
+  'function stakingToken() view returns (address)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function earned(address account) view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  'function rewardRate() view returns (uint256)',
+  'function periodFinish() view returns (uint256)'
+];
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address) view returns (uint256)'];
+
+// Synthetix StakingRewards and its forks, used by the Oeconomia staking and governance pools
+export class StakingRewardsAdapter implements StakingAdapter {
+  readonly kind = 'staking_rewards' as const;
+
+  async readPosition(provider: ethers.Provider, pool: StakingPoolConfig, walletAddress: string): Promise<PoolReading> {
+    const contract = new ethers.Contract(pool.address, STAKING_REWARDS_ABI, provider);
+    const [stakingTokenAddress, stakedAmount, pendingRewards, totalStaked, rewardRate, periodFinish]: [string, bigint, bigint, bigint, bigint, bigint] =
+      await Promise.all([
+        contract.stakingToken(),
+        contract.balanceOf(walletAddress),
+        contract.earned(walletAddress),
+        contract.totalSupply(),
+        contract.rewardRate(),
+        contract.periodFinish()
+      ]);
+
+    // Emissions stop once the reward period has ended
+    const active = periodFinish > BigInt(Math.floor(Date.now() / 1000));
+
+    return {
+      stakingTokenAddress,
+      stakedAmount,
+      pendingRewards,
+      totalStaked,
+      rewardsPerSecond: active ? rewardRate : BigInt(0)
+    };
+  }
+}
+
+// SushiSwap-style MasterChef farms, used by the Eloqura liquidity farms
+export class MasterChefAdapter implements StakingAdapter {
+  readonly kind = 'masterchef' as const;
+
+  async readPosition(provider: ethers.Provider, pool: StakingPoolConfig, walletAddress: string): Promise<PoolReading> {
+    const pendingFunction = pool.pendingRewardFunction || 'pendingReward';
+    const rewardPerBlockFunction = pool.rewardPerBlockFunction || 'rewardPerBlock';
+    const contract = new ethers.Contract(pool.address, [
+      'function userInfo(uint256 pid, address user) view returns (uint256 amount, uint256 rewardDebt)',
+      'function poolInfo(uint256 pid) view returns (address lpToken, uint256 allocPoint, uint256 lastRewardBlock, uint256 accRewardPerShare)',
+      'function totalAllocPoint() view returns (uint256)',
+      `function ${pendingFunction}(uint256 pid, address user) view returns (uint256)`,
+      `function ${rewardPerBlockFunction}() view returns (uint256)`
+    ], provider);
+    const pid = pool.poolId ?? 0;
+
+    const [userInfo, poolInfo, totalAllocPoint, pendingRewards, rewardPerBlock] = await Promise.all([
+      contract.userInfo(pid, walletAddress),
+      contract.poolInfo(pid),
+      contract.totalAllocPoint() as Promise<bigint>,
+      contract[pendingFunction](pid, walletAddress) as Promise<bigint>,
+      contract[rewardPerBlockFunction]() as Promise<bigint>
+    ]);
+
+    const lpToken = new ethers.Contract(poolInfo.lpToken, ERC20_BALANCE_ABI, provider);
+    const totalStaked: bigint = await lpToken.balanceOf(pool.address);
+
+    const poolRewardsPerBlock = totalAllocPoint > BigInt(0)
+      ? (rewardPerBlock * poolInfo.allocPoint) / totalAllocPoint
+      : BigInt(0);
+
+    return {
+      stakingTokenAddress: poolInfo.lpToken,
+      stakedAmount: userInfo.amount,
+      pendingRewards,
+      totalStaked,
+      rewardsPerSecond: poolRewardsPerBlock / BigInt(pool.blockTimeSeconds ?? 12)
+    };
+  }
+}
+
+export const stakingAdapters: Record<StakingContractKind, StakingAdapter> = {
+  staking_rewards: new StakingRewardsAdapter(),
+  masterchef: new MasterChefAdapter()
+};
+
+// Oeconomia pools tracked for every wallet. Pools without deployed code are skipped at sync time.
+export const oeconomiaStakingPools: StakingPoolConfig[] = [
+  {
+    name: 'OEC Staking',
+    stakingType: 'staking',
+    kind: 'staking_rewards',
+    chainId: 1,
+    address: '0x1111111111111111111111111111111111111111', // Placeholder address
+    tokenSymbol: 'OEC',
+    rewardTokenSymbol: 'OEC'
+  },
+  {
+    name: 'OEC Governance',
+    stakingType: 'governance',
+    kind: 'staking_rewards',
+    chainId: 1,
+    address: '0x2222222222222222222222222222222222222222', // Placeholder address
+    tokenSymbol: 'OEC',
+    rewardTokenSymbol: 'OEC'
+  },
+  {
+    name: 'ELOQ Solo Staking',
+    stakingType: 'staking',
+    kind: 'staking_rewards',
+    chainId: 1,
+    address: '0x3333333333333333333333333333333333333333', // Placeholder address
+    tokenSymbol: 'ELOQ',
+    rewardTokenSymbol: 'ELOQ'
+  },
+  {
+    name: 'ELOQ/ETH Farm',
+    stakingType: 'farming',
+    kind: 'masterchef',
+    chainId: 1,
+    address: '0x4444444444444444444444444444444444444444', // Placeholder address
+    poolId: 0,
+    tokenSymbol: 'ELOQ',
+    rewardTokenSymbol: 'ELOQ',
+    lpToken: true
+  }
+];
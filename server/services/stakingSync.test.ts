@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import type { ChainConfig } from '@shared/chains';
+import type { Wallet } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { loadConfig } from '../config';
+import { seedDatabase } from '../seed';
+import { ChainServiceRegistry, CoinGeckoService, EthereumService } from './blockchain';
+import { CoinGeckoPriceProvider, PriceProviderChain } from './priceProviders';
+import { TokenPriceResolver } from './priceSources';
+import { oeconomiaStakingPools, type PoolReading, type StakingAdapter } from './stakingAdapters';
+import { StakingSyncService } from './stakingSync';
+
+const PAIR_ADDRESS = '0x5555555555555555555555555555555555555555';
+const ELOQ_ADDRESS = '0x0987654321098765432109876543210987654321';
+const WETH_ADDRESS = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const ONE = ethers.parseEther('1');
+
+const pairInterface = new ethers.Interface([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)'
+]);
+
+// An ELOQ/WETH pair holding 1 ELOQ and 2 WETH against 10 LP tokens
+const pairResults: Record<string, unknown[]> = {
+  token0: [ELOQ_ADDRESS],
+  token1: [WETH_ADDRESS],
+  getReserves: [ONE, ONE * BigInt(2), 0],
+  totalSupply: [ONE * BigInt(10)]
+};
+
+// Answers contract calls to the pair; every pool address has code
+const provider = {
+  async getCode() {
+    return '0x6080';
+  },
+  async call(tx: { data: string }) {
+    const fragment = pairInterface.getFunction(tx.data.slice(0, 10))!;
+    return pairInterface.encodeFunctionResult(fragment, pairResults[fragment.name]);
+  }
+};
+
+class FakeChain extends EthereumService {
+  constructor(chain: ChainConfig) {
+    super(chain);
+  }
+
+  override getProvider(): ethers.JsonRpcProvider {
+    return provider as unknown as ethers.JsonRpcProvider;
+  }
+}
+
+// The wallet holds 1 LP token of the 10 staked in the farm
+const farmAdapter: StakingAdapter = {
+  kind: 'masterchef',
+  async readPosition(): Promise<PoolReading> {
+    return { stakingTokenAddress: PAIR_ADDRESS, stakedAmount: ONE, pendingRewards: BigInt(0), totalStaked: ONE * BigInt(10), rewardsPerSecond: BigInt(0) };
+  }
+};
+
+let storage: MemStorage;
+let sync: StakingSyncService;
+let wallet: Wallet;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  storage = new MemStorage();
+  await seedDatabase(storage);
+  wallet = await storage.createWallet({ address: '0x1111111111111111111111111111111111111111' });
+
+  const coinGecko = new CoinGeckoService(loadConfig({}).coinGecko);
+  vi.spyOn(coinGecko, 'getMultipleTokenPrices').mockResolvedValue({
+    ethereum: { usd: 3000, usd_24h_change: 0 }
+  });
+  const prices = new TokenPriceResolver(
+    storage,
+    new PriceProviderChain([{ provider: new CoinGeckoPriceProvider(coinGecko) }], { failureThreshold: Infinity })
+  );
+  const chains = new ChainServiceRegistry({}, chainConfig => new FakeChain(chainConfig));
+  const farm = oeconomiaStakingPools.filter(pool => pool.name === 'ELOQ/ETH Farm');
+  sync = new StakingSyncService(storage, chains, prices, farm, { masterchef: farmAdapter, staking_rewards: farmAdapter });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('StakingSyncService', () => {
+  it('values the ELOQ/ETH farm from pair reserves, pricing WETH like ETH', async () => {
+    const [position] = await sync.syncWallet(wallet);
+
+    // (1 ELOQ + 2 WETH) * $3000 over 10 LP tokens, 1 of them staked
+    expect(position).toMatchObject({ poolName: 'ELOQ/ETH Farm', lpToken: true, stakedAmount: '1.0' });
+    expect(parseFloat(position.stakedUsdValue!)).toBeCloseTo(900);
+  });
+});
@@ -0,0 +1,186 @@
+import { ethers } from 'ethers';
+import type { StakingPosition, Token, Transaction, Wallet } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { ChainServiceRegistry, chainServices } from './blockchain';
+import { TokenPriceResolver, tokenPriceResolver, type ResolvedTokenPrice } from './priceSources';
+import {
+  stakingAdapters,
+  oeconomiaStakingPools,
+  type PoolReading,
+  type StakingAdapter,
+  type StakingContractKind,
+  type StakingPoolConfig
+} from './stakingAdapters';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// The apy column holds up to 6 integer digits
+const MAX_APY = 999999;
+
+const UNISWAP_V2_PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)'
+];
+
+// USD value of a staked position, or null when it can't be priced. LP stakes carry their own value
+// from the last sync; the price of the token they are filed under doesn't apply to LP units.
+export function stakedUsdValue(stake: StakingPosition, pricesUsd: Record<string, number>): number | null {
+  if (stake.lpToken) return stake.stakedUsdValue !== null ? parseFloat(stake.stakedUsdValue) : null;
+  const price = pricesUsd[stake.tokenId];
+  return price !== undefined ? parseFloat(stake.stakedAmount) * price : null;
+}
+
+// Reads each wallet's positions in the configured staking pools and upserts them into staking_positions
+export class StakingSyncService {
+  constructor(
+    private storage: IStorage,
+    private chains: ChainServiceRegistry,
+    private prices: TokenPriceResolver,
+    private pools: StakingPoolConfig[] = oeconomiaStakingPools,
+    private adapters: Record<StakingContractKind, StakingAdapter> = stakingAdapters
+  ) {}
+
+  // Returns the positions that were written; a failing pool is logged and skipped
+  async syncWallet(wallet: Wallet): Promise<StakingPosition[]> {
+    const tokens = await this.storage.getAllTokens();
+    const priceData = await this.prices.resolvePrices(tokens);
+    const existing = await this.storage.getStakingPositions(wallet.id);
+    const claims = (await this.storage.getAllTransactions(wallet.id)).filter(tx => tx.type === 'claim');
+
+    const positions: StakingPosition[] = [];
+    for (const pool of this.pools) {
+      try {
+        const position = await this.syncPool(wallet, pool, tokens, priceData, existing, claims);
+        if (position) positions.push(position);
+      } catch (error) {
+        console.error(`Error syncing staking pool ${pool.name} for ${wallet.address}:`, error);
+      }
+    }
+
+    return positions;
+  }
+
+  private async syncPool(
+    wallet: Wallet,
+    pool: StakingPoolConfig,
+    tokens: Token[],
+    priceData: Record<string, ResolvedTokenPrice>,
+    existing: StakingPosition[],
+    claims: Transaction[]
+  ): Promise<StakingPosition | null> {
+    if (!this.chains.isSupported(pool.chainId)) return null;
+
+    const token = tokens.find(t => t.chainId === pool.chainId && t.symbol === pool.tokenSymbol);
+    const rewardToken = tokens.find(t => t.chainId === pool.chainId && t.symbol === pool.rewardTokenSymbol);
+    if (!token || !rewardToken) return null;
+
+    const provider = this.chains.get(pool.chainId).getProvider();
+
+    // Pools that aren't deployed (or are still placeholders) have no code to call
+    if (await provider.getCode(pool.address) === '0x') return null;
+
+    const reading = await this.adapters[pool.kind].readPosition(provider, pool, wallet.address);
+    const poolId = pool.poolId ?? 0;
+    const previous = existing.find(position =>
+      position.chainId === pool.chainId
+      && position.poolAddress.toLowerCase() === pool.address.toLowerCase()
+      && position.poolId === poolId
+    );
+
+    // Fully unstaked with nothing left to claim; only an existing row needs updating
+    const isActive = reading.stakedAmount > BigInt(0) || reading.pendingRewards > BigInt(0);
+    if (!isActive && !previous) return null;
+
+    const unclaimedRewards = ethers.formatUnits(reading.pendingRewards, rewardToken.decimals);
+
+    // Lifetime yield is what has been claimed from this pool plus what is still pending
+    const claimed = claims
+      .filter(tx => tx.tokenId === rewardToken.id
+        && (tx.metadata as { from?: string } | null)?.from?.toLowerCase() === pool.address.toLowerCase())
+      .reduce((sum, tx) => sum + parseFloat(tx.amount), 0);
+
+    const lpPrice = pool.lpToken
+      ? await this.lpTokenPrice(provider, pool.chainId, reading.stakingTokenAddress, tokens, priceData)
+      : undefined;
+    const stakedAmount = ethers.formatUnits(reading.stakedAmount, pool.lpToken ? 18 : token.decimals);
+    const lpValue = lpPrice !== undefined
+      ? (parseFloat(stakedAmount) * lpPrice).toFixed(8)
+      : reading.stakedAmount === BigInt(0) ? '0' : null;
+
+    const apy = this.calculateApy(pool, reading, token, rewardToken, priceData, lpPrice);
+
+    return await this.storage.upsertStakingPosition({
+      walletId: wallet.id,
+      tokenId: token.id,
+      rewardTokenId: rewardToken.id,
+      chainId: pool.chainId,
+      poolAddress: pool.address,
+      poolId,
+      poolName: pool.name,
+      stakingType: pool.stakingType,
+      stakedAmount,
+      lpToken: !!pool.lpToken,
+      stakedUsdValue: pool.lpToken ? lpValue : null,
+      rewardsEarned: (claimed + parseFloat(unclaimedRewards)).toFixed(18),
+      unclaimedRewards,
+      // Keep the last known APY when prices are unavailable
+      apy: apy !== null ? Math.min(apy, MAX_APY).toFixed(4) : (previous?.apy ?? '0'),
+      isActive
+    });
+  }
+
+  // Yearly reward emissions at market price over the value staked in the pool
+  private calculateApy(
+    pool: StakingPoolConfig,
+    reading: PoolReading,
+    token: Token,
+    rewardToken: Token,
+    priceData: Record<string, ResolvedTokenPrice>,
+    lpPrice: number | undefined
+  ): number | null {
+    if (reading.totalStaked === BigInt(0)) return null;
+
+    const rewardPrice = priceData[rewardToken.id]?.usd;
+    const stakingPrice = pool.lpToken ? lpPrice : priceData[token.id]?.usd;
+    if (!rewardPrice || !stakingPrice) return null;
+
+    const yearlyRewardsUsd = parseFloat(ethers.formatUnits(reading.rewardsPerSecond, rewardToken.decimals)) * SECONDS_PER_YEAR * rewardPrice;
+    const stakedUsd = parseFloat(ethers.formatUnits(reading.totalStaked, pool.lpToken ? 18 : token.decimals)) * stakingPrice;
+
+    return stakedUsd > 0 ? (yearlyRewardsUsd / stakedUsd) * 100 : null;
+  }
+
+  // Value of one LP token from the pair's reserves; both pair tokens must be registered and priced
+  private async lpTokenPrice(
+    provider: ethers.Provider,
+    chainId: number,
+    pairAddress: string,
+    tokens: Token[],
+    priceData: Record<string, ResolvedTokenPrice>
+  ): Promise<number | undefined> {
+    const pair = new ethers.Contract(pairAddress, UNISWAP_V2_PAIR_ABI, provider);
+    const [token0, token1, reserves, totalSupply]: [string, string, [bigint, bigint], bigint] = await Promise.all([
+      pair.token0(),
+      pair.token1(),
+      pair.getReserves(),
+      pair.totalSupply()
+    ]);
+    if (totalSupply === BigInt(0)) return undefined;
+
+    let reserveValue = 0;
+    const pairAddresses = [token0, token1];
+    for (let index = 0; index < pairAddresses.length; index++) {
+      const address = pairAddresses[index];
+      const pairToken = tokens.find(t => t.chainId === chainId && t.address.toLowerCase() === address.toLowerCase());
+      const price = pairToken ? priceData[pairToken.id]?.usd : undefined;
+      if (!pairToken || price === undefined) return undefined;
+      reserveValue += parseFloat(ethers.formatUnits(reserves[index], pairToken.decimals)) * price;
+    }
+
+    return reserveValue / parseFloat(ethers.formatUnits(totalSupply, 18));
+  }
+}
+
+export const stakingSyncService = new StakingSyncService(storage, chainServices, tokenPriceResolver);
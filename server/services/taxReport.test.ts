@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { InsertTransaction, Token, User, Wallet } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { CostBasisEngine } from './costBasis';
+import { TaxReportService } from './taxReport';
+import { taxReportCsv, taxReportPdf } from './taxReportFormats';
+
+let storage: MemStorage;
+let service: TaxReportService;
+let user: User;
+let wallet: Wallet;
+let oec: Token;
+let txCount = 0;
+
+async function tx(fields: Pick<InsertTransaction, 'type' | 'amount' | 'timestamp'> & Partial<InsertTransaction>) {
+  txCount += 1;
+  return storage.createTransaction({ walletId: wallet.id, tokenId: oec.id, txHash: `0x${txCount}`, status: 'confirmed', ...fields });
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  service = new TaxReportService(storage, new CostBasisEngine());
+  user = await storage.createUser({ username: 'taxpayer', password: 'hash' });
+  wallet = await storage.createWallet({ userId: user.id, address: '0x1111111111111111111111111111111111111111' });
+  oec = await storage.createToken({ chainId: 1, symbol: 'OEC', name: 'Oeconomia', address: '0x1234567890123456789012345678901234567890', decimals: 18 });
+});
+
+describe('TaxReportService', () => {
+  it('splits a sale across lots into short- and long-term disposals', async () => {
+    await tx({ type: 'buy', amount: '10', usdValue: '100', timestamp: new Date('2023-01-10T00:00:00Z') });
+    await tx({ type: 'buy', amount: '10', usdValue: '200', timestamp: new Date('2024-01-05T00:00:00Z') });
+    await tx({ type: 'sell', amount: '15', usdValue: '450', timestamp: new Date('2024-03-01T00:00:00Z') });
+
+    const report = await service.generate(user.id, 2024, 'fifo');
+
+    expect(report.disposals).toEqual([
+      expect.objectContaining({ symbol: 'OEC', amount: 10, proceeds: 300, costBasis: 100, gain: 200, term: 'long' }),
+      expect.objectContaining({ amount: 5, proceeds: 150, costBasis: 100, gain: 50, term: 'short' })
+    ]);
+    expect(report.summary).toMatchObject({ proceeds: 450, costBasis: 200, shortTermGain: 50, longTermGain: 200 });
+  });
+
+  it('keeps each lot\'s holding period under the average cost method', async () => {
+    await tx({ type: 'buy', amount: '10', usdValue: '100', timestamp: new Date('2023-01-10T00:00:00Z') });
+    await tx({ type: 'buy', amount: '10', usdValue: '200', timestamp: new Date('2024-01-05T00:00:00Z') });
+    await tx({ type: 'sell', amount: '15', usdValue: '450', timestamp: new Date('2024-03-01T00:00:00Z') });
+
+    const report = await service.generate(user.id, 2024, 'average');
+
+    expect(report.disposals).toEqual([
+      expect.objectContaining({ amount: 10, costBasis: 150, acquiredAt: new Date('2023-01-10T00:00:00Z'), term: 'long' }),
+      expect.objectContaining({ amount: 5, costBasis: 75, acquiredAt: new Date('2024-01-05T00:00:00Z'), term: 'short' })
+    ]);
+    expect(report.summary).toMatchObject({ longTermGain: 150, shortTermGain: 75 });
+  });
+
+  it('treats a sale exactly one year after purchase as short-term', async () => {
+    await tx({ type: 'buy', amount: '1', usdValue: '10', timestamp: new Date('2023-06-01T00:00:00Z') });
+    await tx({ type: 'sell', amount: '1', usdValue: '20', timestamp: new Date('2024-06-01T00:00:00Z') });
+
+    const [disposal] = (await service.generate(user.id, 2024)).disposals;
+    expect(disposal.term).toBe('short');
+  });
+
+  it('only reports disposals and income from the requested year', async () => {
+    await tx({ type: 'buy', amount: '10', usdValue: '100', timestamp: new Date('2022-01-01T00:00:00Z') });
+    await tx({ type: 'sell', amount: '5', usdValue: '100', timestamp: new Date('2023-12-31T23:59:59Z') });
+    await tx({ type: 'sell', amount: '5', usdValue: '150', timestamp: new Date('2024-01-01T00:00:00Z') });
+
+    const report = await service.generate(user.id, 2024);
+    expect(report.disposals).toHaveLength(1);
+    expect(report.disposals[0]).toMatchObject({ proceeds: 150, costBasis: 50, acquiredAt: new Date('2022-01-01T00:00:00Z') });
+  });
+
+  it('values claims at the candle covering them and uses that as the basis when sold', async () => {
+    await storage.upsertPriceCandle('1h', oec.id, new Date('2024-03-01T10:00:00Z'), '2');
+    await storage.upsertPriceCandle('1d', oec.id, new Date('2024-03-01T00:00:00Z'), '7');
+    // A month before the second claim; too far away to value it
+    await storage.createPriceHistory({ tokenId: oec.id, price: '9', timestamp: new Date('2023-12-15T00:00:00Z') });
+    await tx({ type: 'claim', amount: '50', timestamp: new Date('2024-03-01T10:30:00Z') });
+    await tx({ type: 'claim', amount: '5', timestamp: new Date('2024-01-15T00:00:00Z') });
+    await tx({ type: 'sell', amount: '50', usdValue: '150', timestamp: new Date('2024-06-01T00:00:00Z') });
+
+    const report = await service.generate(user.id, 2024);
+
+    expect(report.income).toEqual([
+      expect.objectContaining({ amount: 5, priceUsd: null, valueUsd: null }),
+      expect.objectContaining({ amount: 50, priceUsd: 2, valueUsd: 100 })
+    ]);
+    expect(report.summary).toMatchObject({ income: 100, unpricedIncomeEvents: 1 });
+    // FIFO sells the unpriced 5 first at zero basis, then 45 of the claimed 50 at $2
+    expect(report.summary.costBasis).toBeCloseTo(90);
+  });
+
+  it('falls back to the daily candle once hourly candles are compacted away', async () => {
+    await storage.upsertPriceCandle('1d', oec.id, new Date('2024-03-01T00:00:00Z'), '7');
+    await tx({ type: 'claim', amount: '10', timestamp: new Date('2024-03-01T18:00:00Z') });
+
+    const [event] = (await service.generate(user.id, 2024)).income;
+    expect(event).toMatchObject({ priceUsd: 7, valueUsd: 70 });
+  });
+
+  it('reports sales beyond the known lots with an unknown acquisition date', async () => {
+    await tx({ type: 'sell', amount: '3', usdValue: '30', timestamp: new Date('2024-04-01T00:00:00Z') });
+
+    const [disposal] = (await service.generate(user.id, 2024)).disposals;
+    expect(disposal).toMatchObject({ acquiredAt: null, costBasis: 0, gain: 30, term: 'short' });
+  });
+
+  it('ignores transfers between the user\'s own wallets', async () => {
+    const other = await storage.createWallet({ userId: user.id, address: '0x2222222222222222222222222222222222222222' });
+    await tx({ type: 'buy', amount: '10', usdValue: '100', timestamp: new Date('2024-01-01T00:00:00Z') });
+    await tx({
+      type: 'transfer',
+      amount: '-10',
+      usdValue: '150',
+      timestamp: new Date('2024-02-01T00:00:00Z'),
+      metadata: { direction: 'out', from: wallet.address, to: other.address }
+    });
+    await tx({ type: 'sell', amount: '10', usdValue: '200', timestamp: new Date('2024-03-01T00:00:00Z') });
+
+    const [disposal] = (await service.generate(user.id, 2024)).disposals;
+    expect(disposal).toMatchObject({ costBasis: 100, gain: 100 });
+  });
+});
+
+describe('tax report formats', () => {
+  beforeEach(async () => {
+    await tx({ type: 'buy', amount: '1.5', usdValue: '15', timestamp: new Date('2024-01-02T00:00:00Z') });
+    await tx({ type: 'sell', amount: '1.5', usdValue: '30', timestamp: new Date('2024-02-03T00:00:00Z'), txHash: '0xsale' });
+  });
+
+  it('writes Form 8949 rows as CSV', async () => {
+    const csv = taxReportCsv(await service.generate(user.id, 2024));
+
+    expect(csv.split('\r\n')).toEqual([
+      'Description of property,Date acquired,Date sold or disposed of,Proceeds,Cost or other basis,Gain or (loss),Term,Transaction hash',
+      '1.5 OEC,01/02/2024,02/03/2024,30.00,15.00,15.00,Short-term,0xsale',
+      ''
+    ]);
+  });
+
+  it('renders a PDF', async () => {
+    const pdf = await taxReportPdf(await service.generate(user.id, 2024));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+});
@@ -0,0 +1,146 @@
+import type { Transaction } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { CostBasisEngine, costBasisEngine, type CostBasisMethod } from './costBasis';
+import { isInternalTransfer } from './portfolioAggregator';
+import { candleCloseAt } from './priceHistory';
+
+export type HoldingTerm = 'short' | 'long';
+
+// One row of Form 8949: a slice of a sale matched to the lot it came from
+export interface TaxDisposal {
+  txHash: string;
+  tokenId: string;
+  symbol: string;
+  amount: number;
+  // Null when the sale exceeded the known lots and the basis is unknown (reported as zero)
+  acquiredAt: Date | null;
+  disposedAt: Date;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;
+}
+
+// Staking rewards claimed during the year, taxed as ordinary income when received
+export interface TaxIncomeEvent {
+  txHash: string;
+  tokenId: string;
+  symbol: string;
+  amount: number;
+  receivedAt: Date;
+  // Close of the 1h candle containing the claim, else of its 1d candle; null when neither was recorded
+  priceUsd: number | null;
+  valueUsd: number | null;
+}
+
+export interface TaxReport {
+  year: number;
+  method: CostBasisMethod;
+  disposals: TaxDisposal[];
+  income: TaxIncomeEvent[];
+  summary: {
+    proceeds: number;
+    costBasis: number;
+    shortTermGain: number;
+    longTermGain: number;
+    income: number;
+    // Claims that couldn't be valued and are left out of `income`
+    unpricedIncomeEvents: number;
+  };
+  generatedAt: Date;
+}
+
+// Held for more than one year, anniversary day excluded
+function holdingTerm(acquiredAt: Date | null, disposedAt: Date): HoldingTerm {
+  if (!acquiredAt) return 'short';
+  const anniversary = new Date(acquiredAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return disposedAt > anniversary ? 'long' : 'short';
+}
+
+function inYear(date: Date, year: number): boolean {
+  return date.getUTCFullYear() === year;
+}
+
+// Capital gains and staking income for one calendar year (UTC) across all of a user's wallets.
+// Lots are built from the full transaction history so sales are matched to earlier years' buys.
+export class TaxReportService {
+  constructor(
+    private storage: IStorage,
+    private costBasis: CostBasisEngine
+  ) {}
+
+  async generate(userId: string, year: number, method: CostBasisMethod = 'fifo'): Promise<TaxReport> {
+    const wallets = await this.storage.getUserWallets(userId);
+    const tokens = await this.storage.getAllTokens();
+    const symbolOf = (tokenId: string) => tokens.find(token => token.id === tokenId)?.symbol || tokenId;
+
+    const transactions: Transaction[] = [];
+    for (const wallet of wallets) {
+      transactions.push(...await this.storage.getAllTransactions(wallet.id));
+    }
+
+    // Moving funds between the user's own wallets is not a taxable event
+    const addresses = new Set(wallets.map(wallet => wallet.address.toLowerCase()));
+    const confirmed = transactions.filter(tx => tx.status === 'confirmed' && !isInternalTransfer(tx, addresses));
+
+    // Claims are income at their market value when received, and that value becomes the lot's basis.
+    // Only the candle containing the claim is used; an older price could be arbitrarily stale.
+    const income: TaxIncomeEvent[] = [];
+    const prepared: Transaction[] = [];
+    for (const tx of confirmed) {
+      if (tx.type !== 'claim') {
+        prepared.push(tx);
+        continue;
+      }
+
+      const amount = Math.abs(parseFloat(tx.amount));
+      const priceUsd = await candleCloseAt(this.storage, tx.tokenId, tx.timestamp);
+      const valueUsd = priceUsd !== null ? amount * priceUsd : null;
+      prepared.push(valueUsd !== null ? { ...tx, usdValue: valueUsd.toFixed(8) } : tx);
+
+      if (inYear(tx.timestamp, year)) {
+        income.push({ txHash: tx.txHash, tokenId: tx.tokenId, symbol: symbolOf(tx.tokenId), amount, receivedAt: tx.timestamp, priceUsd, valueUsd });
+      }
+    }
+
+    const result = this.costBasis.calculate(prepared, {}, method);
+    const disposals: TaxDisposal[] = result.disposals
+      .filter(disposal => inYear(disposal.disposedAt, year))
+      .map(disposal => {
+        const acquiredAt = disposal.lotTxHash ? disposal.acquiredAt : null;
+        return {
+          txHash: disposal.txHash,
+          tokenId: disposal.tokenId,
+          symbol: symbolOf(disposal.tokenId),
+          amount: disposal.amount,
+          acquiredAt,
+          disposedAt: disposal.disposedAt,
+          proceeds: disposal.proceeds,
+          costBasis: disposal.costBasis,
+          gain: disposal.gain,
+          term: holdingTerm(acquiredAt, disposal.disposedAt)
+        };
+      });
+
+    income.sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+
+    return {
+      year,
+      method,
+      disposals,
+      income,
+      summary: {
+        proceeds: disposals.reduce((sum, disposal) => sum + disposal.proceeds, 0),
+        costBasis: disposals.reduce((sum, disposal) => sum + disposal.costBasis, 0),
+        shortTermGain: disposals.filter(d => d.term === 'short').reduce((sum, disposal) => sum + disposal.gain, 0),
+        longTermGain: disposals.filter(d => d.term === 'long').reduce((sum, disposal) => sum + disposal.gain, 0),
+        income: income.reduce((sum, event) => sum + (event.valueUsd ?? 0), 0),
+        unpricedIncomeEvents: income.filter(event => event.valueUsd === null).length
+      },
+      generatedAt: new Date()
+    };
+  }
+}
+
+export const taxReportService = new TaxReportService(storage, costBasisEngine);
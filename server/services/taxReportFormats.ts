@@ -0,0 +1,188 @@
+import PDFDocument from 'pdfkit';
+import type { TaxReport } from './taxReport';
+import { toCsv } from './csv';
+
+export const taxCsvSections = ['gains', 'income'] as const;
+export type TaxCsvSection = typeof taxCsvSections[number];
+
+// MM/DD/YYYY in UTC, as Form 8949 expects
+function formatDate(date: Date | null): string {
+  if (!date) return 'VARIOUS';
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  return `${mm}/${dd}/${date.getUTCFullYear()}`;
+}
+
+function usd(value: number): string {
+  return value.toFixed(2);
+}
+
+// Trims float noise from token amounts without switching to exponent notation
+function quantity(value: number): string {
+  return value.toFixed(8).replace(/\.?0+$/, '');
+}
+
+// Form 8949 columns (a)–(e) and (h), plus the holding term and the sale's transaction hash;
+// or one row per staking reward for the income section
+export function taxReportCsv(report: TaxReport, section: TaxCsvSection = 'gains'): string {
+  if (section === 'income') {
+    return toCsv([
+      ['Date received', 'Asset', 'Amount', 'Price (USD)', 'Income (USD)', 'Transaction hash'],
+      ...report.income.map(event => [
+        formatDate(event.receivedAt),
+        event.symbol,
+        quantity(event.amount),
+        event.priceUsd === null ? '' : event.priceUsd.toString(),
+        event.valueUsd === null ? '' : usd(event.valueUsd),
+        event.txHash
+      ])
+    ]);
+  }
+
+  return toCsv([
+    [
+      'Description of property',
+      'Date acquired',
+      'Date sold or disposed of',
+      'Proceeds',
+      'Cost or other basis',
+      'Gain or (loss)',
+      'Term',
+      'Transaction hash'
+    ],
+    ...report.disposals.map(disposal => [
+      `${quantity(disposal.amount)} ${disposal.symbol}`,
+      formatDate(disposal.acquiredAt),
+      formatDate(disposal.disposedAt),
+      usd(disposal.proceeds),
+      usd(disposal.costBasis),
+      usd(disposal.gain),
+      disposal.term === 'long' ? 'Long-term' : 'Short-term',
+      disposal.txHash
+    ])
+  ]);
+}
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+
+// Printable summary plus the full disposal and income tables, on landscape letter pages
+export function taxReportPdf(report: TaxReport): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'LETTER', layout: 'landscape', margin: MARGIN });
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const bottom = () => doc.page.height - MARGIN;
+  let y = MARGIN;
+
+  const table = (title: string, columns: PdfColumn[], rows: string[][]) => {
+    const header = () => {
+      doc.font('Helvetica-Bold').fontSize(8);
+      let x = MARGIN;
+      for (const column of columns) {
+        doc.text(column.header, x, y, { width: column.width - 6, align: column.align ?? 'left', lineBreak: false });
+        x += column.width;
+      }
+      y += ROW_HEIGHT;
+      doc.moveTo(MARGIN, y - 4).lineTo(doc.page.width - MARGIN, y - 4).lineWidth(0.5).stroke();
+      doc.font('Helvetica');
+    };
+
+    if (y + 3 * ROW_HEIGHT > bottom()) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    doc.font('Helvetica-Bold').fontSize(12).text(title, MARGIN, y);
+    y += 20;
+
+    if (rows.length === 0) {
+      doc.font('Helvetica').fontSize(9).text('None for this year.', MARGIN, y);
+      y += 2 * ROW_HEIGHT;
+      return;
+    }
+
+    header();
+    for (const row of rows) {
+      if (y + ROW_HEIGHT > bottom()) {
+        doc.addPage();
+        y = MARGIN;
+        header();
+      }
+      let x = MARGIN;
+      row.forEach((cell, i) => {
+        doc.text(cell, x, y, { width: columns[i].width - 6, align: columns[i].align ?? 'left', lineBreak: false, ellipsis: true });
+        x += columns[i].width;
+      });
+      y += ROW_HEIGHT;
+    }
+    y += ROW_HEIGHT;
+  };
+
+  const { summary } = report;
+  doc.font('Helvetica-Bold').fontSize(16).text(`Crypto Tax Report ${report.year}`, MARGIN, y);
+  y += 24;
+  doc.font('Helvetica').fontSize(9)
+    .text(`Cost basis method: ${report.method.toUpperCase()}. Generated ${report.generatedAt.toISOString()}. All values in USD.`, MARGIN, y);
+  y += 20;
+
+  const summaryLines = [
+    `Proceeds: ${usd(summary.proceeds)}    Cost basis: ${usd(summary.costBasis)}`,
+    `Short-term gain or (loss): ${usd(summary.shortTermGain)}    Long-term gain or (loss): ${usd(summary.longTermGain)}`,
+    `Staking income: ${usd(summary.income)}${summary.unpricedIncomeEvents > 0 ? ` (${summary.unpricedIncomeEvents} reward(s) without a recorded price are excluded)` : ''}`
+  ];
+  doc.fontSize(10);
+  for (const line of summaryLines) {
+    doc.text(line, MARGIN, y);
+    y += 15;
+  }
+  y += 15;
+
+  table('Capital Gains and Losses (Form 8949)', [
+    { header: 'Description', width: 140 },
+    { header: 'Acquired', width: 70 },
+    { header: 'Disposed', width: 70 },
+    { header: 'Proceeds', width: 80, align: 'right' },
+    { header: 'Cost basis', width: 80, align: 'right' },
+    { header: 'Gain or (loss)', width: 80, align: 'right' },
+    { header: 'Term', width: 60 },
+    { header: 'Transaction', width: 132 }
+  ], report.disposals.map(disposal => [
+    `${quantity(disposal.amount)} ${disposal.symbol}`,
+    formatDate(disposal.acquiredAt),
+    formatDate(disposal.disposedAt),
+    usd(disposal.proceeds),
+    usd(disposal.costBasis),
+    usd(disposal.gain),
+    disposal.term === 'long' ? 'Long' : 'Short',
+    disposal.txHash
+  ]));
+
+  table('Staking Income', [
+    { header: 'Received', width: 70 },
+    { header: 'Asset', width: 60 },
+    { header: 'Amount', width: 110, align: 'right' },
+    { header: 'Price', width: 90, align: 'right' },
+    { header: 'Income', width: 90, align: 'right' },
+    { header: 'Transaction', width: 292 }
+  ], report.income.map(event => [
+    formatDate(event.receivedAt),
+    event.symbol,
+    quantity(event.amount),
+    event.priceUsd === null ? 'n/a' : event.priceUsd.toString(),
+    event.valueUsd === null ? 'n/a' : usd(event.valueUsd),
+    event.txHash
+  ]));
+
+  doc.end();
+  return done;
+}
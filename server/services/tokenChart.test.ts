@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Token } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { loadConfig } from '../config';
+import { CoinGeckoService } from './blockchain';
+import { InvalidChartResolutionError, TokenChartService } from './tokenChart';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2024-06-08T00:00:00Z');
+
+let storage: MemStorage;
+let coinGecko: CoinGeckoService;
+let marketChart: ReturnType<typeof vi.spyOn>;
+let service: TokenChartService;
+let eth: Token;
+
+// Hourly market_chart series covering the week before NOW, priced 3000 + hours elapsed
+function hourlySeries() {
+  const start = NOW.getTime() - 7 * 24 * HOUR;
+  return Array.from({ length: 7 * 24 }, (_, i) => ({ timestamp: new Date(start + i * HOUR + 60000), price: 3000 + i }));
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  storage = new MemStorage();
+  eth = await storage.createToken({ chainId: 1, symbol: 'ETH', name: 'Ethereum', address: '0x0000000000000000000000000000000000000000', decimals: 18 });
+  await storage.createTokenPriceSource({ tokenId: eth.id, sourceType: 'coingecko', sourceRef: 'ethereum', priority: 0 });
+
+  coinGecko = new CoinGeckoService(loadConfig({}).coinGecko);
+  marketChart = vi.spyOn(coinGecko, 'getMarketChart').mockResolvedValue(hourlySeries());
+  service = new TokenChartService(storage, coinGecko);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('TokenChartService', () => {
+  it('backfills gaps from market_chart without overwriting recorded candles', async () => {
+    const recorded = new Date(NOW.getTime() - 2 * HOUR);
+    await storage.upsertPriceCandle('1h', eth.id, recorded, '9999');
+
+    const chart = await service.getChart(eth, '7d', undefined, NOW);
+
+    expect(marketChart).toHaveBeenCalledWith('ethereum', 7);
+    expect(chart.resolution).toBe('1h');
+    expect(chart.backfilled).toBe(7 * 24 - 1);
+    expect(chart.points).toHaveLength(7 * 24);
+    expect(chart.points.find(point => point.timestamp.getTime() === recorded.getTime())?.close).toBe('9999');
+  });
+
+  it('serves stored history without calling CoinGecko when there are no gaps', async () => {
+    await service.getChart(eth, '7d', undefined, NOW);
+    marketChart.mockClear();
+
+    const chart = await service.getChart(eth, '7d', undefined, new Date(NOW.getTime() + HOUR));
+
+    expect(marketChart).not.toHaveBeenCalled();
+    expect(chart.backfilled).toBe(0);
+  });
+
+  it('serves what is stored when the backfill fails, and waits before retrying', async () => {
+    marketChart.mockRejectedValue(new Error('CoinGecko API error: 503'));
+
+    const chart = await service.getChart(eth, '7d', undefined, NOW);
+    await service.getChart(eth, '7d', undefined, new Date(NOW.getTime() + 60000));
+
+    expect(chart.points).toEqual([]);
+    expect(marketChart).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a resolution the range does not offer', async () => {
+    await expect(service.getChart(eth, '1y', '1m', NOW)).rejects.toBeInstanceOf(InvalidChartResolutionError);
+  });
+
+  it("lists the user's confirmed buys and sells of the token in the range", async () => {
+    const user = await storage.createUser({ username: 'trader', password: 'hash' });
+    const wallet = await storage.createWallet({ userId: user.id, address: '0x1111111111111111111111111111111111111111', chainId: 1 });
+    const trade = { walletId: wallet.id, tokenId: eth.id, amount: '2', usdValue: '6000', status: 'confirmed' };
+    await storage.createTransaction({ ...trade, txHash: '0xsell', type: 'sell', timestamp: new Date('2024-06-05T00:00:00Z') });
+    await storage.createTransaction({ ...trade, txHash: '0xbuy', type: 'buy', timestamp: new Date('2024-06-03T00:00:00Z') });
+    await storage.createTransaction({ ...trade, txHash: '0xstake', type: 'stake', timestamp: new Date('2024-06-04T00:00:00Z') });
+    await storage.createTransaction({ ...trade, txHash: '0xold', type: 'buy', timestamp: new Date('2024-05-01T00:00:00Z') });
+
+    const trades = await service.getTrades(user.id, eth, new Date('2024-06-01T00:00:00Z'));
+
+    expect(trades.map(t => [t.txHash, t.type, t.price])).toEqual([
+      ['0xbuy', 'buy', '3000'],
+      ['0xsell', 'sell', '3000']
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import type { CandleResolution, PriceHistoryResolution, Token, Transaction } from '@shared/schema';
+import { storage, type IStorage, type PricePoint } from '../storage';
+import { coinGeckoService, type CoinGeckoService } from './blockchain';
+import { RESOLUTION_MS, foldCandles } from './priceHistory';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const chartRanges = ['24h', '7d', '30d', '1y'] as const;
+export type ChartRange = typeof chartRanges[number];
+
+interface RangeSpec {
+  durationMs: number;
+  // Resolutions that make sense for the range; the first is the default
+  resolutions: PriceHistoryResolution[];
+  // market_chart `days` covering the range, and the spacing CoinGecko returns for it
+  backfillDays: number;
+  backfillStepMs: number;
+}
+
+const RANGES: Record<ChartRange, RangeSpec> = {
+  '24h': { durationMs: DAY, resolutions: ['1m', 'raw', '1h'], backfillDays: 1, backfillStepMs: 5 * MINUTE },
+  '7d': { durationMs: 7 * DAY, resolutions: ['1h', '1d'], backfillDays: 7, backfillStepMs: HOUR },
+  '30d': { durationMs: 30 * DAY, resolutions: ['1h', '1d'], backfillDays: 30, backfillStepMs: HOUR },
+  '1y': { durationMs: 365 * DAY, resolutions: ['1d'], backfillDays: 365, backfillStepMs: DAY }
+};
+
+// A failed or pointless backfill isn't retried for the same series until this has passed
+const BACKFILL_COOLDOWN_MS = 10 * MINUTE;
+
+export class InvalidChartResolutionError extends Error {
+  constructor(readonly range: ChartRange, readonly resolution: PriceHistoryResolution) {
+    super(`Resolution ${resolution} is not available for range ${range}; use one of ${RANGES[range].resolutions.join(', ')}`);
+    this.name = 'InvalidChartResolutionError';
+  }
+}
+
+export interface ChartTrade {
+  timestamp: Date;
+  type: 'buy' | 'sell';
+  amount: string;
+  // USD price per token at the time of the trade, when the indexer recorded a value
+  price: string | null;
+  txHash: string;
+}
+
+export interface TokenChart {
+  range: ChartRange;
+  resolution: PriceHistoryResolution;
+  from: Date;
+  points: PricePoint[];
+  // Candles filled in from CoinGecko on this request
+  backfilled: number;
+}
+
+// Serves token price series from stored history, filling gaps from CoinGecko's market_chart
+export class TokenChartService {
+  // Last backfill attempt per token/resolution/range
+  private lastBackfillAt = new Map<string, number>();
+
+  constructor(
+    private storage: IStorage,
+    private coinGecko: CoinGeckoService
+  ) {}
+
+  async getChart(token: Token, range: ChartRange, resolution?: PriceHistoryResolution, now: Date = new Date()): Promise<TokenChart> {
+    const spec = RANGES[range];
+    const chosen = resolution ?? spec.resolutions[0];
+    if (!spec.resolutions.includes(chosen)) {
+      throw new InvalidChartResolutionError(range, chosen);
+    }
+
+    const from = new Date(now.getTime() - spec.durationMs);
+    const query = { from, to: now, resolution: chosen };
+    let points = await this.storage.getPriceHistory(token.id, query);
+
+    // Raw points are only ever recorded live, so there is nothing to backfill them with
+    let backfilled = 0;
+    if (chosen !== 'raw' && this.hasGaps(points, from, now, chosen, spec)) {
+      backfilled = await this.backfill(token, range, chosen, from, now);
+      if (backfilled > 0) points = await this.storage.getPriceHistory(token.id, query);
+    }
+
+    return { range, resolution: chosen, from, points, backfilled };
+  }
+
+  // The user's buys and sells of the token since `from`, across all of their wallets, oldest first
+  async getTrades(userId: string, token: Token, from: Date): Promise<ChartTrade[]> {
+    const wallets = await this.storage.getUserWallets(userId);
+    const trades: ChartTrade[] = [];
+
+    for (const wallet of wallets) {
+      const transactions = await this.storage.getAllTransactions(wallet.id);
+      for (const tx of transactions) {
+        if (tx.tokenId !== token.id || tx.timestamp < from || tx.status !== 'confirmed') continue;
+        if (tx.type !== 'buy' && tx.type !== 'sell') continue;
+        trades.push({ timestamp: tx.timestamp, type: tx.type, amount: tx.amount, price: unitPrice(tx), txHash: tx.txHash });
+      }
+    }
+
+    return trades.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  // A gap is any stretch, including the edges of the range, wider than two steps of the sparser of
+  // the stored resolution and what CoinGecko could fill it with
+  private hasGaps(points: PricePoint[], from: Date, now: Date, resolution: CandleResolution, spec: RangeSpec): boolean {
+    const tolerance = 2 * Math.max(RESOLUTION_MS[resolution], spec.backfillStepMs);
+    const times = [from.getTime(), ...points.map(point => point.timestamp.getTime()), now.getTime()];
+    for (let i = 1; i < times.length; i++) {
+      if (times[i] - times[i - 1] > tolerance) return true;
+    }
+    return false;
+  }
+
+  // Folds the market_chart series into candles and stores those for empty buckets only, so live
+  // candles always win. Returns how many candles were added.
+  private async backfill(token: Token, range: ChartRange, resolution: CandleResolution, from: Date, now: Date): Promise<number> {
+    const key = `${token.id}:${resolution}:${range}`;
+    const lastAttempt = this.lastBackfillAt.get(key);
+    if (lastAttempt !== undefined && now.getTime() - lastAttempt < BACKFILL_COOLDOWN_MS) return 0;
+    this.lastBackfillAt.set(key, now.getTime());
+
+    const coinGeckoId = await this.coinGeckoId(token);
+    if (!coinGeckoId) return 0;
+
+    try {
+      const series = await this.coinGecko.getMarketChart(coinGeckoId, RANGES[range].backfillDays);
+
+      const inRange = series.filter(({ timestamp }) => timestamp >= from && timestamp <= now);
+      return await this.storage.insertPriceCandles(resolution, foldCandles(token.id, inRange, resolution));
+    } catch (error) {
+      console.error(`Failed to backfill ${range} ${resolution} chart for ${token.symbol}:`, error);
+      return 0;
+    }
+  }
+
+  // Backfill only works for tokens priced from CoinGecko
+  private async coinGeckoId(token: Token): Promise<string | null> {
+    const sources = await this.storage.getTokenPriceSources(token.id);
+    const source = sources
+      .filter(s => s.isActive && s.sourceType === 'coingecko' && s.sourceRef)
+      .sort((a, b) => a.priority - b.priority)[0];
+    return source?.sourceRef ?? null;
+  }
+}
+
+function unitPrice(tx: Transaction): string | null {
+  const amount = parseFloat(tx.amount);
+  if (!tx.usdValue || !(amount > 0)) return null;
+  return (parseFloat(tx.usdValue) / amount).toString();
+}
+
+export const tokenChartService = new TokenChartService(storage, coinGeckoService);
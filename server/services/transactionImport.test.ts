@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Token, Wallet } from '@shared/schema';
+import { MemStorage } from '../memStorage';
+import { parseCsv, toCsv } from './csv';
+import { TransactionImporter, csvToRecords, importMappers, ImportError } from './transactionImport';
+
+let storage: MemStorage;
+let importer: TransactionImporter;
+let wallet: Wallet;
+let oec: Token;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  importer = new TransactionImporter(storage);
+  wallet = await storage.createWallet({ address: '0x1111111111111111111111111111111111111111' });
+  oec = await storage.createToken({ chainId: 1, symbol: 'OEC', name: 'Oeconomia', address: '0x1234567890123456789012345678901234567890', decimals: 18 });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and mixed line endings', () => {
+    const text = '﻿a,b,c\r\n"1,5","say ""hi""","two\nlines"\n\nx,,z';
+
+    expect(parseCsv(text)).toEqual([
+      ['a', 'b', 'c'],
+      ['1,5', 'say "hi"', 'two\nlines'],
+      ['x', '', 'z']
+    ]);
+  });
+
+  it('round-trips what toCsv writes', () => {
+    const rows = [['name', 'note'], ['OEC', 'a, "b"\r\nc']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => parseCsv('a,"b\nc')).toThrow('Unterminated quoted field on line 2');
+  });
+});
+
+describe('TransactionImporter', () => {
+  const generic = [
+    'date,type,asset,amount,usd_value,fee_usd,id,notes',
+    '2024-01-05 10:00:00,buy,oec,100,250,1.5,A1,first buy',
+    '2024-02-01,sell,OEC,-40,"$1,000.00",,A2,',
+    '2024-02-02,convert,OEC,1,,,A3,',
+    'not a date,buy,XYZ,0,,,A4,'
+  ].join('\n');
+
+  it('previews rows with per-row errors without writing anything', async () => {
+    const result = await importer.run(wallet, 'generic', csvToRecords(generic, importMappers.generic), { dryRun: true });
+
+    expect(result.summary).toEqual({ total: 4, new: 2, imported: 0, duplicates: 0, invalid: 2 });
+    expect(result.rows[0]).toMatchObject({
+      row: 1,
+      status: 'new',
+      transaction: { type: 'buy', symbol: 'OEC', amount: '100', usdValue: '250', timestamp: new Date('2024-01-05T10:00:00Z') }
+    });
+    expect(result.rows[1].transaction).toMatchObject({ type: 'sell', amount: '40', usdValue: '1000.00' });
+    expect(result.rows[2]).toMatchObject({ row: 3, status: 'invalid', errors: ["type: Unsupported transaction type 'convert'"] });
+    expect(result.rows[3].errors).toEqual(["timestamp: Unrecognized date 'not a date'", 'amount: Amount must be greater than zero']);
+    expect(await storage.getAllTransactions(wallet.id)).toEqual([]);
+  });
+
+  it('stores valid rows as off-chain transactions and skips them on re-import', async () => {
+    const records = csvToRecords(generic, importMappers.generic);
+    const first = await importer.run(wallet, 'generic', records, { dryRun: false });
+    const second = await importer.run(wallet, 'generic', records, { dryRun: false });
+
+    expect(first.summary).toMatchObject({ imported: 2, invalid: 2 });
+    expect(second.summary).toMatchObject({ imported: 0, duplicates: 2, invalid: 2 });
+
+    const stored = await storage.getAllTransactions(wallet.id);
+    expect(stored).toHaveLength(2);
+    const buy = stored.find(tx => tx.type === 'buy')!;
+    expect(buy.txHash).toMatch(/^import:generic:[0-9a-f]{32}$/);
+    expect(buy.metadata).toMatchObject({ source: 'import', offchain: true, importSource: 'generic', direction: 'in', externalId: 'A1', feeUsd: '1.5', notes: 'first buy' });
+  });
+
+  it('dedupes against the wallet\'s own transaction hashes and within the batch', async () => {
+    await storage.createTransaction({ walletId: wallet.id, tokenId: oec.id, txHash: '0xabc', type: 'transfer', amount: '5', status: 'confirmed', timestamp: new Date('2024-01-01T00:00:00Z') });
+
+    const result = await importer.run(wallet, 'generic', [
+      { date: '2024-01-01', type: 'transfer_in', asset: 'OEC', amount: 5, tx_hash: '0xabc' },
+      { date: '2024-02-01', type: 'buy', asset: 'OEC', amount: 1, id: 'B1' },
+      { date: '2024-02-02', type: 'buy', asset: 'OEC', amount: 1, id: 'B1' }
+    ], { dryRun: false });
+
+    expect(result.rows.map(row => row.status)).toEqual(['duplicate', 'imported', 'duplicate']);
+  });
+
+  it('matches file hashes in any case, including indexed rows stored under a per-log id', async () => {
+    const hash = `0x${'ab'.repeat(32)}`;
+    await storage.createTransaction({ walletId: wallet.id, tokenId: oec.id, txHash: hash, type: 'transfer', amount: '5', status: 'confirmed', timestamp: new Date('2024-01-01T00:00:00Z') });
+    await storage.createTransaction({
+      walletId: wallet.id, tokenId: oec.id, txHash: `0x${'cd'.repeat(32)}-3`, type: 'transfer', amount: '2', status: 'confirmed',
+      metadata: { source: 'indexer', onchainTxHash: `0x${'cd'.repeat(32)}` }, timestamp: new Date('2024-01-02T00:00:00Z')
+    });
+
+    const result = await importer.run(wallet, 'generic', [
+      { date: '2024-01-01', type: 'transfer_in', asset: 'OEC', amount: 5, tx_hash: hash.toUpperCase().replace('0X', '0x') },
+      { date: '2024-01-02', type: 'transfer_in', asset: 'OEC', amount: 2, tx_hash: `0x${'CD'.repeat(32)}` }
+    ], { dryRun: true });
+
+    expect(result.rows.map(row => row.status)).toEqual(['duplicate', 'duplicate']);
+  });
+
+  it('keeps identical fills apart, and still skips them on re-import', async () => {
+    const fills = [
+      { date: '2024-03-01', type: 'buy', asset: 'OEC', amount: 2 },
+      { date: '2024-03-01', type: 'buy', asset: 'OEC', amount: 2 }
+    ];
+
+    const first = await importer.run(wallet, 'generic', fills, { dryRun: false });
+    const second = await importer.run(wallet, 'generic', fills, { dryRun: false });
+
+    expect(first.rows.map(row => row.status)).toEqual(['imported', 'imported']);
+    expect(second.rows.map(row => row.status)).toEqual(['duplicate', 'duplicate']);
+    expect(await storage.getAllTransactions(wallet.id)).toHaveLength(2);
+  });
+
+  it('stores a hash from the file under an import id, per wallet', async () => {
+    const other = await storage.createWallet({ address: '0x2222222222222222222222222222222222222222' });
+    const row = { date: '2024-01-01', type: 'transfer_in', asset: 'OEC', amount: 5, tx_hash: '0xdef' };
+
+    await importer.run(wallet, 'generic', [row], { dryRun: false });
+    const result = await importer.run(other, 'generic', [row], { dryRun: false });
+
+    expect(result.rows[0].status).toBe('imported');
+    const [stored] = await storage.getAllTransactions(other.id);
+    expect(stored.txHash).toMatch(/^import:generic:[0-9a-f]{32}$/);
+    expect(stored.metadata).toMatchObject({ sourceTxHash: '0xdef' });
+  });
+
+  it('reports assets that are not in the token registry', async () => {
+    const result = await importer.run(wallet, 'generic', [{ date: '2024-01-01', type: 'buy', asset: 'DOGE', amount: '1' }], { dryRun: true });
+    expect(result.rows[0]).toMatchObject({ status: 'invalid', errors: ["asset: Unknown asset 'DOGE'"] });
+  });
+
+  it('maps Binance trade history, valuing only USD-quoted pairs', async () => {
+    const csv = [
+      'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+      '2024-01-05 10:00:00,OECUSDT,BUY,2.5,100OEC,250USDT,0.25USDT',
+      '2024-01-06 10:00:00,OECBTC,SELL,0.00005,"1,000OEC",0.05BTC,0.001OEC'
+    ].join('\r\n');
+
+    const result = await importer.run(wallet, 'binance', csvToRecords(csv, importMappers.binance), { dryRun: false });
+
+    expect(result.rows.map(row => row.transaction)).toEqual([
+      { type: 'buy', symbol: 'OEC', amount: '100', usdValue: '250', timestamp: new Date('2024-01-05T10:00:00Z') },
+      { type: 'sell', symbol: 'OEC', amount: '1000', usdValue: null, timestamp: new Date('2024-01-06T10:00:00Z') }
+    ]);
+    const [buy] = await storage.getAllTransactions(wallet.id);
+    expect(buy.metadata).toMatchObject({ feeUsd: '0.25' });
+  });
+
+  it('maps a Coinbase report below its preamble, valuing rewards at the spot price', async () => {
+    const csv = [
+      'Transactions',
+      'User,someone@example.com,abc',
+      'ID,Timestamp,Transaction Type,Asset,Quantity Transacted,Price Currency,Price at Transaction,Subtotal,Total (inclusive of fees and/or spread),Fees and/or Spread,Notes',
+      'cb-1,2024-01-05 10:00:00 UTC,Buy,OEC,10,USD,$2.00,$20.00,$21.00,$1.00,Bought 10 OEC',
+      'cb-2,2024-01-06 10:00:00 UTC,Staking Income,OEC,0.5,USD,$3.00,,,,'
+    ].join('\n');
+
+    const result = await importer.run(wallet, 'coinbase', csvToRecords(csv, importMappers.coinbase), { dryRun: true });
+
+    expect(result.rows.map(row => row.transaction)).toEqual([
+      { type: 'buy', symbol: 'OEC', amount: '10', usdValue: '20.00', timestamp: new Date('2024-01-05T10:00:00Z') },
+      { type: 'claim', symbol: 'OEC', amount: '0.5', usdValue: '1.50000000', timestamp: new Date('2024-01-06T10:00:00Z') }
+    ]);
+  });
+
+  it('rejects a file without a recognizable header', () => {
+    expect(() => csvToRecords('foo,bar\n1,2', importMappers.generic)).toThrow(ImportError);
+  });
+});
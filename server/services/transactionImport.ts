@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import type { InsertTransaction, Token, Wallet } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import { parseCsv } from './csv';
+import { z } from 'zod';
+
+export const importSources = ['generic', 'binance', 'coinbase'] as const;
+export type ImportSource = typeof importSources[number];
+
+export const importTypes = ['buy', 'sell', 'claim', 'stake', 'unstake', 'transfer_in', 'transfer_out'] as const;
+export type ImportType = typeof importTypes[number];
+
+const importFields = ['timestamp', 'type', 'asset', 'amount', 'usdValue', 'feeUsd', 'externalId', 'txHash', 'notes'] as const;
+type ImportField = typeof importFields[number];
+
+// One source row with its values renamed to import fields but not yet validated
+export type RawImportRow = Partial<Record<ImportField, string>>;
+
+// How one export format's columns and transaction types map onto import rows
+export interface ImportMapper {
+  // Accepted header names per field, lower-case; the first one present in a row wins
+  columns: Partial<Record<ImportField, string[]>>;
+  // Source transaction type, lower-case, to import type
+  types: Record<string, ImportType>;
+  // Fills in fields that take more than a column rename, given the row keyed by lower-case header
+  transform?: (record: Record<string, string>) => RawImportRow;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Quote currencies valued 1:1 with USD when they price a trade or its fee
+const USD_QUOTES = new Set(['USD', 'USDT', 'USDC', 'BUSD', 'FDUSD', 'TUSD', 'DAI']);
+const BINANCE_QUOTES = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'TUSD', 'USD', 'DAI', 'BTC', 'ETH', 'BNB', 'EUR'];
+
+// "1,234.5OEC" → { value: '1234.5', asset: 'OEC' }, as Binance writes executed amounts and fees
+function splitQuantity(value: string | undefined): { value?: string; asset?: string } {
+  const match = /^\s*([-\d.,]+)\s*([A-Za-z0-9]*)\s*$/.exec(value ?? '');
+  return match ? { value: match[1].replace(/,/g, ''), asset: match[2].toUpperCase() || undefined } : {};
+}
+
+function splitPair(pair: string): { base: string; quote?: string } {
+  const [base, quote] = pair.toUpperCase().split(/[/-]/);
+  if (quote) return { base, quote };
+  const suffix = BINANCE_QUOTES.find(q => base.endsWith(q) && base.length > q.length);
+  return suffix ? { base: base.slice(0, -suffix.length), quote: suffix } : { base };
+}
+
+export const importMappers: Record<ImportSource, ImportMapper> = {
+  // Template for hand-written files and other trackers' exports
+  generic: {
+    columns: {
+      timestamp: ['date', 'timestamp', 'time'],
+      type: ['type'],
+      asset: ['asset', 'symbol', 'token'],
+      amount: ['amount', 'quantity'],
+      usdValue: ['usd_value', 'usd value', 'value'],
+      feeUsd: ['fee_usd', 'fee usd', 'fee'],
+      externalId: ['id', 'external_id'],
+      txHash: ['tx_hash', 'txhash', 'hash'],
+      notes: ['notes', 'note', 'description']
+    },
+    types: {
+      ...Object.fromEntries(importTypes.map(type => [type, type])),
+      reward: 'claim',
+      deposit: 'transfer_in',
+      receive: 'transfer_in',
+      withdrawal: 'transfer_out',
+      send: 'transfer_out'
+    }
+  },
+  // Spot trade history, both the Pair/Side/Executed layout and the older Market/Type/Total one
+  binance: {
+    columns: {
+      timestamp: ['date(utc)', 'date'],
+      type: ['side', 'type']
+    },
+    types: { buy: 'buy', sell: 'sell' },
+    transform: record => {
+      const { base, quote } = splitPair(record['pair'] ?? record['market'] ?? '');
+      const executedLayout = 'executed' in record;
+      const amount = splitQuantity(executedLayout ? record['executed'] : record['amount']);
+      const total = splitQuantity(executedLayout ? record['amount'] : record['total']);
+      const fee = splitQuantity(record['fee']);
+      const feeAsset = fee.asset ?? record['fee coin']?.toUpperCase();
+      return {
+        asset: base,
+        amount: amount.value,
+        usdValue: quote && USD_QUOTES.has(quote) ? total.value : undefined,
+        feeUsd: feeAsset && USD_QUOTES.has(feeAsset) ? fee.value : undefined
+      };
+    }
+  },
+  // Transaction history report; the preamble above the header row is skipped
+  coinbase: {
+    columns: {
+      timestamp: ['timestamp'],
+      type: ['transaction type'],
+      asset: ['asset'],
+      amount: ['quantity transacted'],
+      externalId: ['id'],
+      notes: ['notes']
+    },
+    types: {
+      buy: 'buy',
+      'advanced trade buy': 'buy',
+      sell: 'sell',
+      'advanced trade sell': 'sell',
+      receive: 'transfer_in',
+      deposit: 'transfer_in',
+      send: 'transfer_out',
+      withdrawal: 'transfer_out',
+      'rewards income': 'claim',
+      'staking income': 'claim',
+      'inflation reward': 'claim',
+      'learning reward': 'claim'
+    },
+    transform: record => {
+      const currency = (record['spot price currency'] || record['price currency'] || 'USD').toUpperCase();
+      if (!USD_QUOTES.has(currency)) return {};
+      const subtotal = record['subtotal']?.replace(/[$,]/g, '');
+      const price = parseFloat((record['spot price at transaction'] ?? record['price at transaction'] ?? '').replace(/[$,]/g, ''));
+      const quantity = Math.abs(parseFloat(record['quantity transacted'] ?? ''));
+      return {
+        // Rewards and receives have no subtotal, so value them at the spot price
+        usdValue: subtotal || (Number.isFinite(price) && Number.isFinite(quantity) ? (price * quantity).toFixed(8) : undefined),
+        feeUsd: record['fees and/or spread']?.replace(/[$,]/g, '') || undefined
+      };
+    }
+  }
+};
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Source files write dates without a zone in UTC; "2024-01-05 10:00:00" and "... UTC" both parse as such
+function parseTimestamp(value: string): Date | null {
+  let text = value.trim().replace(/\s+UTC$/i, 'Z').replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2');
+  if (/^\d{4}-\d{2}-\d{2}T[\d:.]+$/.test(text)) text += 'Z';
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Signs are dropped because direction comes from the type; exports disagree on writing sends as negative
+const decimalSchema = z.string()
+  .transform(value => value.replace(/[$,\s]/g, ''))
+  .pipe(z.string().regex(/^-?\d*\.?\d+$/, 'Not a number'))
+  .transform(value => value.replace(/^-/, ''));
+
+const optionalUsdSchema = z.string().optional()
+  .transform(value => value?.trim() || undefined)
+  .pipe(decimalSchema.optional());
+
+const importRowSchema = z.object({
+  timestamp: z.string({ required_error: 'Missing date' }).transform((value, ctx) => {
+    const date = parseTimestamp(value);
+    if (!date || date.getTime() > Date.now()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: date ? 'Date is in the future' : `Unrecognized date '${value}'` });
+      return z.NEVER;
+    }
+    return date;
+  }),
+  type: z.enum(importTypes, {
+    errorMap: (issue, ctx) => ({ message: ctx.data === undefined ? 'Missing type' : `Unsupported transaction type '${ctx.data}'` })
+  }),
+  asset: z.string({ required_error: 'Missing asset' }).trim().min(1, 'Missing asset').max(20).transform(value => value.toUpperCase()),
+  amount: z.string({ required_error: 'Missing amount' }).pipe(decimalSchema)
+    .refine(value => parseFloat(value) > 0, 'Amount must be greater than zero'),
+  usdValue: optionalUsdSchema,
+  feeUsd: optionalUsdSchema,
+  externalId: z.string().trim().max(200).optional().transform(value => value || undefined),
+  txHash: z.string().trim().max(200).optional().transform(value => value || undefined),
+  notes: z.string().trim().max(500).optional().transform(value => value || undefined)
+});
+
+export type ImportRow = z.infer<typeof importRowSchema>;
+
+export interface ImportRowResult {
+  // 1-based position among the data rows, not counting the header
+  row: number;
+  // 'new' in a preview becomes 'imported' once committed
+  status: 'new' | 'imported' | 'duplicate' | 'invalid';
+  errors: string[];
+  txHash?: string;
+  transaction?: {
+    type: ImportType;
+    symbol: string;
+    amount: string;
+    usdValue: string | null;
+    timestamp: Date;
+  };
+}
+
+export interface ImportResult {
+  source: ImportSource;
+  dryRun: boolean;
+  rows: ImportRowResult[];
+  summary: {
+    total: number;
+    new: number;
+    imported: number;
+    duplicates: number;
+    invalid: number;
+  };
+}
+
+// Maps one source record onto import fields through the mapper's columns, type table and transform
+export function mapRecord(mapper: ImportMapper, record: Record<string, unknown>): RawImportRow {
+  const lowered: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value === null || value === undefined) continue;
+    lowered[key.trim().toLowerCase()] = String(value).trim();
+  }
+
+  const raw: RawImportRow = {};
+  for (const field of importFields) {
+    const column = mapper.columns[field]?.find(name => lowered[name] !== undefined && lowered[name] !== '');
+    if (column) raw[field] = lowered[column];
+  }
+  Object.assign(raw, Object.fromEntries(Object.entries(mapper.transform?.(lowered) ?? {}).filter(([, value]) => value !== undefined)));
+
+  if (raw.type !== undefined) {
+    raw.type = mapper.types[raw.type.toLowerCase()] ?? raw.type;
+  }
+  return raw;
+}
+
+// CSV text to records keyed by header, starting from the first row that names the mapper's date column
+export function csvToRecords(text: string, mapper: ImportMapper): Array<Record<string, string>> {
+  const rows = parseCsv(text);
+  const dateColumns = mapper.columns.timestamp ?? [];
+  const headerIndex = rows.findIndex(row => row.some(cell => dateColumns.includes(cell.trim().toLowerCase())));
+  if (headerIndex === -1) {
+    throw new ImportError(`No header row with a date column (${dateColumns.join(', ')})`);
+  }
+
+  const header = rows[headerIndex].map(cell => cell.trim());
+  return rows.slice(headerIndex + 1).map(row => Object.fromEntries(header.map((column, i) => [column, row[i] ?? ''])));
+}
+
+// Validates and dedupes rows from an exchange or tracker export and stores the new ones as
+// off-chain transactions on a wallet, flagged with `metadata.source = 'import'`
+export class TransactionImporter {
+  constructor(private storage: IStorage) {}
+
+  async run(wallet: Wallet, source: ImportSource, records: Array<Record<string, unknown>>, options: { dryRun: boolean; chainId?: number }): Promise<ImportResult> {
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new ImportError(`Too many rows: ${records.length} (at most ${MAX_IMPORT_ROWS} per import)`);
+    }
+
+    const mapper = importMappers[source];
+    const tokens = new Map<string, Token | undefined>();
+    const seen = new Set<string>();
+    // How often each row content has come up so far, so identical fills get distinct ids
+    const occurrences = new Map<string, number>();
+    const rows: ImportRowResult[] = [];
+    const indexed = await this.indexedHashes(wallet);
+
+    for (let index = 0; index < records.length; index++) {
+      const row = index + 1;
+      const parsed = importRowSchema.safeParse(mapRecord(mapper, records[index]));
+      if (!parsed.success) {
+        rows.push({ row, status: 'invalid', errors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`) });
+        continue;
+      }
+
+      const data = parsed.data;
+      if (!tokens.has(data.asset)) {
+        tokens.set(data.asset, await this.storage.getTokenBySymbol(data.asset, options.chainId));
+      }
+      const token = tokens.get(data.asset);
+      if (!token) {
+        rows.push({ row, status: 'invalid', errors: [`asset: Unknown asset '${data.asset}'`] });
+        continue;
+      }
+
+      const content = rowContent(data).join('|');
+      const occurrence = occurrences.get(content) ?? 0;
+      occurrences.set(content, occurrence + 1);
+      const txHash = importId(wallet, source, data, occurrence);
+      const transaction = {
+        type: data.type,
+        symbol: token.symbol,
+        amount: data.amount,
+        usdValue: data.usdValue ?? null,
+        timestamp: data.timestamp
+      };
+
+      // A hash given in the file may also be one the indexer already stored for this wallet
+      const stored = await this.storage.getTransaction(wallet.id, txHash)
+        || (data.txHash !== undefined && indexed.has(data.txHash.toLowerCase()));
+      if (seen.has(txHash) || stored) {
+        rows.push({ row, status: 'duplicate', errors: [], txHash, transaction });
+        continue;
+      }
+      seen.add(txHash);
+
+      if (!options.dryRun) {
+        await this.storage.createTransaction(toInsertTransaction(wallet, token, source, txHash, data));
+      }
+      rows.push({ row, status: options.dryRun ? 'new' : 'imported', errors: [], txHash, transaction });
+    }
+
+    const count = (status: ImportRowResult['status']) => rows.filter(result => result.status === status).length;
+    return {
+      source,
+      dryRun: options.dryRun,
+      rows,
+      summary: {
+        total: rows.length,
+        new: count('new'),
+        imported: count('imported'),
+        duplicates: count('duplicate'),
+        invalid: count('invalid')
+      }
+    };
+  }
+
+  // Lowercased hashes already stored for the wallet: each row's own hash plus the on-chain hash
+  // behind indexed rows, since a transaction with several transfers is stored under per-log ids
+  private async indexedHashes(wallet: Wallet): Promise<Set<string>> {
+    const hashes = new Set<string>();
+    for (const tx of await this.storage.getAllTransactions(wallet.id)) {
+      hashes.add(tx.txHash.toLowerCase());
+      const onchainTxHash = (tx.metadata as { onchainTxHash?: string } | null)?.onchainTxHash;
+      if (onchainTxHash) hashes.add(onchainTxHash.toLowerCase());
+    }
+    return hashes;
+  }
+}
+
+function rowContent(row: ImportRow): string[] {
+  return [row.timestamp.toISOString(), row.type, row.asset, row.amount, row.usdValue ?? ''];
+}
+
+// Stable per wallet, so re-importing the same export finds the rows it already stored. Always
+// namespaced, so a hash from the file can't collide with indexed rows or another wallet's imports.
+// Rows without an id are told apart by their content and how many identical rows preceded them.
+function importId(wallet: Wallet, source: ImportSource, row: ImportRow, occurrence: number): string {
+  const identity = row.txHash
+    ? ['hash', row.txHash.toLowerCase()]
+    : row.externalId
+      ? ['id', row.externalId]
+      : ['row', ...rowContent(row), String(occurrence)];
+  const digest = crypto.createHash('sha256').update([wallet.id, ...identity].join('|')).digest('hex').slice(0, 32);
+  return `import:${source}:${digest}`;
+}
+
+function toInsertTransaction(wallet: Wallet, token: Token, source: ImportSource, txHash: string, row: ImportRow): InsertTransaction {
+  const isTransfer = row.type === 'transfer_in' || row.type === 'transfer_out';
+  const direction = row.type === 'sell' || row.type === 'stake' || row.type === 'transfer_out' ? 'out' : 'in';
+  return {
+    walletId: wallet.id,
+    txHash,
+    type: isTransfer ? 'transfer' : row.type,
+    tokenId: token.id,
+    amount: row.amount,
+    usdValue: row.usdValue ?? null,
+    status: 'confirmed',
+    metadata: {
+      source: 'import',
+      offchain: true,
+      importSource: source,
+      chainId: token.chainId,
+      direction,
+      externalId: row.externalId ?? null,
+      // The hash as given in the file; the stored txHash is always an import id
+      sourceTxHash: row.txHash ?? null,
+      feeUsd: row.feeUsd ?? null,
+      notes: row.notes ?? null,
+      importedAt: new Date().toISOString()
+    },
+    timestamp: row.timestamp
+  };
+}
+
+export const transactionImporter = new TransactionImporter(storage);
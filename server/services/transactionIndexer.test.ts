@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Token, Wallet } from '@shared/schema';
+import type { ChainConfig } from '@shared/chains';
+import { MemStorage } from '../memStorage';
+import { ChainServiceRegistry, EthereumService } from './blockchain';
+import { RealtimeHub } from './realtime';
+import { TransactionIndexer } from './transactionIndexer';
+
+interface FakeLog {
+  tokenAddress: string;
+  from: string;
+  to: string;
+  value: bigint;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+}
+
+// Chain stand-in serving `logs` and `native` transfers; transactions listed in `missing` can't be fetched
+class FakeChain extends EthereumService {
+  head = 200;
+  logs: FakeLog[] = [];
+  native: Array<Omit<FakeLog, 'tokenAddress' | 'logIndex'>> = [];
+  nativeScans: Array<{ wallets: string[]; fromBlock: number; toBlock: number }> = [];
+  missing = new Set<string>();
+
+  constructor(chain: ChainConfig) {
+    super(chain);
+  }
+
+  override async getCurrentBlockNumber(): Promise<number> {
+    return this.head;
+  }
+
+  override async getTransferLogs(walletAddress: string, _tokens: string[], fromBlock: number, toBlock: number): Promise<FakeLog[]> {
+    const wallet = walletAddress.toLowerCase();
+    return this.logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock
+      && (log.from.toLowerCase() === wallet || log.to.toLowerCase() === wallet));
+  }
+
+  override async getNativeTransfers(walletAddresses: string[], fromBlock: number, toBlock: number) {
+    this.nativeScans.push({ wallets: walletAddresses, fromBlock, toBlock });
+    const wallets = walletAddresses.map(address => address.toLowerCase());
+    return this.native.filter(transfer => transfer.blockNumber >= fromBlock && transfer.blockNumber <= toBlock
+      && (wallets.includes(transfer.from.toLowerCase()) || wallets.includes(transfer.to.toLowerCase())));
+  }
+
+  override async getTransactionDetails(txHash: string) {
+    if (this.missing.has(txHash)) return null;
+    return {
+      from: '0x0000000000000000000000000000000000000000',
+      to: null,
+      input: '0x',
+      gasUsed: null,
+      gasPrice: null,
+      status: 'confirmed' as const,
+      timestamp: new Date('2024-06-01T00:00:00Z')
+    };
+  }
+}
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+let storage: MemStorage;
+let chains: ChainServiceRegistry;
+let chain: FakeChain;
+let indexer: TransactionIndexer;
+let alice: Wallet;
+let bob: Wallet;
+let oec: Token;
+let eth: Token;
+
+function transfer(txHash: string, blockNumber: number, from = ALICE, to = BOB): FakeLog {
+  return { tokenAddress: oec.address, from, to, value: BigInt('1000000000000000000'), txHash, logIndex: 0, blockNumber };
+}
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  alice = await storage.createWallet({ address: ALICE });
+  bob = await storage.createWallet({ address: BOB });
+  oec = await storage.createToken({ chainId: 1, symbol: 'OEC', name: 'Oeconomia', address: '0x1234567890123456789012345678901234567890', decimals: 18 });
+  eth = await storage.createToken({ chainId: 1, symbol: 'ETH', name: 'Ethereum', address: '0x0000000000000000000000000000000000000000', decimals: 18 });
+
+  chains = new ChainServiceRegistry({}, chainConfig => {
+    chain = new FakeChain(chainConfig);
+    return chain;
+  });
+  chains.get(1);
+  indexer = createIndexer();
+});
+
+function createIndexer(options: { scanNativeTransfers?: boolean } = {}): TransactionIndexer {
+  return new TransactionIndexer(storage, chains, new RealtimeHub(storage, chains), {
+    initialLookbackBlocks: 100,
+    logChunkSize: 50,
+    ...options
+  });
+}
+
+describe('TransactionIndexer', () => {
+  it('stores a transfer between two tracked wallets once for each wallet', async () => {
+    chain.logs = [transfer('0xshared', 150)];
+
+    await indexer.indexWallet(alice);
+    await indexer.indexWallet(bob);
+
+    const [sent] = await storage.getAllTransactions(alice.id);
+    const [received] = await storage.getAllTransactions(bob.id);
+    expect(sent).toMatchObject({ txHash: '0xshared', metadata: expect.objectContaining({ direction: 'out' }) });
+    expect(received).toMatchObject({ txHash: '0xshared', metadata: expect.objectContaining({ direction: 'in' }) });
+  });
+
+  it('holds the cursor before a transfer it could not record and picks it up on the next run', async () => {
+    chain.logs = [transfer('0xfirst', 120), transfer('0xunavailable', 130), transfer('0xlater', 180)];
+    chain.missing.add('0xunavailable');
+
+    const first = await indexer.indexWallet(alice);
+
+    expect(first.chains[0]).toMatchObject({ inserted: 1, toBlock: 129 });
+    expect((await storage.getIndexCursor(alice.id, 1))!.lastIndexedBlock).toBe(129);
+
+    chain.missing.clear();
+    const second = await indexer.indexWallet(alice);
+
+    expect(second.inserted).toBe(2);
+    expect((await storage.getAllTransactions(alice.id)).map(tx => tx.txHash).sort()).toEqual(['0xfirst', '0xlater', '0xunavailable']);
+    expect((await storage.getIndexCursor(alice.id, 1))!.lastIndexedBlock).toBe(200);
+  });
+
+  it('reads native transfers once per block range for every wallet indexed together', async () => {
+    const nativeIndexer = createIndexer({ scanNativeTransfers: true });
+    chain.native = [{ from: ALICE, to: BOB, value: BigInt('500000000000000000'), txHash: '0xnative', blockNumber: 140 }];
+
+    const [sent, received] = await nativeIndexer.indexWallets([alice, bob]);
+
+    expect(chain.nativeScans).toEqual([{ wallets: [ALICE, BOB], fromBlock: 100, toBlock: 200 }]);
+    expect(sent.inserted).toBe(1);
+    expect(received.inserted).toBe(1);
+    expect(await storage.getAllTransactions(bob.id)).toEqual([
+      expect.objectContaining({ txHash: '0xnative', tokenId: eth.id, amount: '0.5', metadata: expect.objectContaining({ direction: 'in' }) })
+    ]);
+  });
+
+  it('caps the blocks scanned by an on-demand run', async () => {
+    const result = await indexer.indexWallet(alice, 30);
+
+    expect(result.chains[0]).toMatchObject({ fromBlock: 100, toBlock: 129 });
+    expect((await storage.getIndexCursor(alice.id, 1))!.lastIndexedBlock).toBe(129);
+  });
+
+  it('values a transfer from the candle covering it and never from the current price', async () => {
+    // Transfers happen at 2024-06-01T00:00Z on the fake chain
+    chain.logs = [transfer('0xshared', 150)];
+    await storage.upsertPriceCandle('1h', oec.id, new Date(), '3');
+
+    await indexer.indexWallet(alice);
+    await storage.upsertPriceCandle('1d', oec.id, new Date('2024-06-01T00:00:00Z'), '2');
+    await indexer.indexWallet(bob);
+
+    const [sent] = await storage.getAllTransactions(alice.id);
+    const [received] = await storage.getAllTransactions(bob.id);
+    expect(sent.usdValue).toBeNull();
+    expect(received.usdValue).toBe('2.00000000');
+  });
+});
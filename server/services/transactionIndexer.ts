@@ -0,0 +1,451 @@
+import { ethers } from 'ethers';
+import type { Token, Transaction, Wallet, WalletIndexCursor } from '@shared/schema';
+import { storage, type IStorage, type TransactionQuery, type TransactionSortField } from '../storage';
+import { config } from '../config';
+import { ChainServiceRegistry, chainServices, type EthereumService } from './blockchain';
+import { RealtimeHub, realtimeHub, walletChannel } from './realtime';
+import { candleCloseAt } from './priceHistory';
+
+// Function selectors used to classify transfers by the call that caused them
+const SWAP_SELECTORS = new Set([
+  '0x38ed1739', // swapExactTokensForTokens
+  '0x8803dbee', // swapTokensForExactTokens
+  '0x7ff36ab5', // swapExactETHForTokens
+  '0xfb3bdb41', // swapETHForExactTokens
+  '0x18cbafe5', // swapExactTokensForETH
+  '0x4a25d94a', // swapTokensForExactETH
+  '0x5c11d795', // swapExactTokensForTokensSupportingFeeOnTransferTokens
+  '0xb6f9de95', // swapExactETHForTokensSupportingFeeOnTransferTokens
+  '0x791ac947', // swapExactTokensForETHSupportingFeeOnTransferTokens
+  '0x414bf389', // exactInputSingle (SwapRouter)
+  '0x04e45aaf', // exactInputSingle (SwapRouter02)
+  '0xc04b8d59', // exactInput
+  '0x5ae401dc', // multicall(uint256,bytes[])
+  '0x3593564c', // execute (UniversalRouter)
+]);
+const STAKE_SELECTORS = new Set([
+  '0xa694fc3a', // stake(uint256)
+  '0xb6b55f25', // deposit(uint256)
+  '0xe2bbb158', // deposit(uint256,uint256)
+]);
+const UNSTAKE_SELECTORS = new Set([
+  '0x2e1a7d4d', // withdraw(uint256)
+  '0x2e17de78', // unstake(uint256)
+  '0x441a3e70', // withdraw(uint256,uint256)
+  '0xe9fad8ee', // exit()
+]);
+const CLAIM_SELECTORS = new Set([
+  '0x3d18b912', // getReward()
+  '0x4e71d92d', // claim()
+  '0x372500ab', // claimRewards()
+  '0xe6f1daf2', // claim(address)
+]);
+
+export const transactionTypes = ['buy', 'sell', 'stake', 'unstake', 'claim', 'transfer'] as const;
+export type IndexedTransactionType = typeof transactionTypes[number];
+
+// Classifies a wallet-relative transfer from its direction and the selector of the originating call
+export function classifyTransfer(direction: 'in' | 'out', selector: string): IndexedTransactionType {
+  if (SWAP_SELECTORS.has(selector)) return direction === 'in' ? 'buy' : 'sell';
+  if (STAKE_SELECTORS.has(selector) && direction === 'out') return 'stake';
+  if (UNSTAKE_SELECTORS.has(selector) && direction === 'in') return 'unstake';
+  if (CLAIM_SELECTORS.has(selector) && direction === 'in') return 'claim';
+  return 'transfer';
+}
+
+// Page of history served by /api/blockchain/transactions/:address; realtime subscribers are pushed the first page
+export interface TransactionHistory {
+  address: string;
+  transactions: Array<Pick<Transaction, 'id' | 'txHash' | 'type' | 'tokenId' | 'amount' | 'usdValue' | 'gasUsed' | 'gasPrice' | 'blockNumber' | 'status' | 'metadata' | 'timestamp'> & {
+    symbol: string | null;
+    chainId: number | null;
+  }>;
+  // Opaque position to pass back as `cursor` for the next page; null on the last one
+  nextCursor: string | null;
+  // Last indexed block per chain id
+  indexedThroughBlock: Record<string, number>;
+  lastUpdated: string;
+}
+
+export function toTransactionHistory(
+  address: string,
+  transactions: Transaction[],
+  cursors: WalletIndexCursor[],
+  tokens: Token[] = [],
+  nextCursor: string | null = null
+): TransactionHistory {
+  const tokensById = new Map(tokens.map(token => [token.id, token]));
+  return {
+    address,
+    transactions: transactions.map(tx => ({
+      id: tx.id,
+      txHash: tx.txHash,
+      type: tx.type,
+      tokenId: tx.tokenId,
+      symbol: tokensById.get(tx.tokenId)?.symbol ?? null,
+      chainId: tokensById.get(tx.tokenId)?.chainId ?? null,
+      amount: tx.amount,
+      usdValue: tx.usdValue,
+      gasUsed: tx.gasUsed,
+      gasPrice: tx.gasPrice,
+      blockNumber: tx.blockNumber,
+      status: tx.status,
+      metadata: tx.metadata,
+      timestamp: tx.timestamp
+    })),
+    nextCursor,
+    indexedThroughBlock: Object.fromEntries(cursors.map(cursor => [cursor.chainId, cursor.lastIndexedBlock])),
+    lastUpdated: new Date().toISOString()
+  };
+}
+
+export class InvalidTransactionCursorError extends Error {
+  constructor() {
+    super('Invalid or expired cursor');
+    this.name = 'InvalidTransactionCursorError';
+  }
+}
+
+interface TransactionCursor {
+  sort: TransactionSortField;
+  order: 'asc' | 'desc';
+  value: string;
+  id: string;
+}
+
+function sortValue(tx: Transaction, sort: TransactionSortField): string {
+  if (sort === 'timestamp') return tx.timestamp.toISOString();
+  if (sort === 'amount') return tx.amount;
+  return tx.usdValue ?? '0';
+}
+
+// The cursor records the ordering it was made for, so it can't be replayed against a different sort
+function encodeCursor(cursor: TransactionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(encoded: string, sort: TransactionSortField, order: 'asc' | 'desc'): { value: string; id: string } {
+  let cursor: Partial<TransactionCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+  } catch {
+    throw new InvalidTransactionCursorError();
+  }
+  if (cursor?.sort !== sort || cursor.order !== order || typeof cursor.value !== 'string' || typeof cursor.id !== 'string') {
+    throw new InvalidTransactionCursorError();
+  }
+  return { value: cursor.value, id: cursor.id };
+}
+
+// Filters as the API takes them: a token symbol (on any chain) and an opaque cursor instead of ids and positions
+export type TransactionHistoryQuery = Partial<Omit<TransactionQuery, 'tokenIds' | 'after'>> & {
+  token?: string;
+  cursor?: string;
+};
+
+// One page of a wallet's transactions, newest first unless another order is asked for
+export async function loadTransactionHistory(store: IStorage, wallet: Wallet, query: TransactionHistoryQuery = {}): Promise<TransactionHistory> {
+  const { token, cursor, sort = 'timestamp', order = 'desc', limit = 50, ...filters } = query;
+  const after = cursor ? decodeCursor(cursor, sort, order) : undefined;
+
+  const [tokens, cursors] = await Promise.all([store.getAllTokens(), store.getIndexCursors(wallet.id)]);
+  const tokenIds = token ? tokens.filter(t => t.symbol.toUpperCase() === token.toUpperCase()).map(t => t.id) : undefined;
+  if (tokenIds && tokenIds.length === 0) {
+    return toTransactionHistory(wallet.address, [], cursors, tokens);
+  }
+
+  // One extra row tells whether there is a next page
+  const rows = await store.queryTransactions(wallet.id, { ...filters, tokenIds, sort, order, after, limit: limit + 1 });
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit ? encodeCursor({ sort, order, value: sortValue(last, sort), id: last.id }) : null;
+
+  return toTransactionHistory(wallet.address, page, cursors, tokens, nextCursor);
+}
+
+interface TransferEvent {
+  token: Token;
+  from: string;
+  to: string;
+  value: bigint;
+  txHash: string;
+  logIndex: number | null;
+  blockNumber: number;
+}
+
+export interface ChainIndexResult {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  inserted: number;
+  // Set when this chain's RPC failed; its cursor is left where it was
+  error?: string;
+}
+
+export interface WalletIndexResult {
+  inserted: number;
+  chains: ChainIndexResult[];
+}
+
+interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+interface IndexerOptions {
+  // Blocks to scan back from the chain head on a wallet's first run
+  initialLookbackBlocks: number;
+  // Largest block range requested from eth_getLogs at once
+  logChunkSize: number;
+  // Upper bound on blocks processed per run so a single wallet can't stall the job
+  maxBlocksPerRun: number;
+  // Native transfers need full block reads, which many public RPCs throttle; off unless enabled
+  scanNativeTransfers: boolean;
+}
+
+// Scans Transfer events and native transfers for tracked wallets and records them as transactions.
+// Each chain with registered tokens is indexed separately with its own cursor.
+export class TransactionIndexer {
+  private options: IndexerOptions;
+
+  constructor(
+    private storage: IStorage,
+    private chains: ChainServiceRegistry,
+    private realtime: RealtimeHub,
+    options: Partial<IndexerOptions> = {}
+  ) {
+    this.options = {
+      initialLookbackBlocks: 5000,
+      logChunkSize: 1000,
+      maxBlocksPerRun: 10000,
+      scanNativeTransfers: false,
+      ...options
+    };
+  }
+
+  // Indexes one wallet; `maxBlocks` caps the blocks scanned per chain, e.g. for on-demand syncs
+  async indexWallet(wallet: Wallet, maxBlocks?: number): Promise<WalletIndexResult> {
+    const [result] = await this.indexWallets([wallet], maxBlocks);
+
+    if (result.chains.length > 0 && result.chains.every(chain => chain.error)) {
+      throw new Error(`Indexing failed on every chain for ${wallet.address}`);
+    }
+
+    return result;
+  }
+
+  // Indexes several wallets in one pass so each chain's block range is read once for all of them.
+  // Results are in the order of `wallets`.
+  async indexWallets(wallets: Wallet[], maxBlocks: number = this.options.maxBlocksPerRun): Promise<WalletIndexResult[]> {
+    const tokens = await this.storage.getAllTokens();
+    const chainIds = Array.from(new Set(tokens.map(token => token.chainId)))
+      .filter(chainId => this.chains.isSupported(chainId));
+
+    const results: WalletIndexResult[] = wallets.map(() => ({ inserted: 0, chains: [] }));
+
+    // A failing RPC on one chain shouldn't hold back the others
+    for (const chainId of chainIds) {
+      const chainTokens = tokens.filter(token => token.chainId === chainId);
+      let chainResults: ChainIndexResult[];
+      try {
+        chainResults = await this.indexChain(wallets, chainId, chainTokens, maxBlocks);
+      } catch (error) {
+        console.error(`Error indexing chain ${chainId}:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        chainResults = wallets.map(() => ({ chainId, fromBlock: 0, toBlock: 0, inserted: 0, error: message }));
+      }
+      chainResults.forEach((chainResult, index) => {
+        results[index].chains.push(chainResult);
+        results[index].inserted += chainResult.inserted;
+      });
+    }
+
+    for (let index = 0; index < wallets.length; index++) {
+      if (results[index].inserted > 0) await this.publishHistory(wallets[index]);
+    }
+
+    return results;
+  }
+
+  // Pushes the refreshed recent history to anyone watching this wallet
+  private async publishHistory(wallet: Wallet): Promise<void> {
+    const channel = walletChannel(wallet.address);
+    if (!this.realtime.hasSubscribers(channel)) return;
+
+    this.realtime.publish(channel, {
+      type: 'transactions',
+      address: wallet.address,
+      history: await loadTransactionHistory(this.storage, wallet),
+      at: new Date().toISOString()
+    });
+  }
+
+  // Index one chain for each wallet from its cursor up to the chain head (bounded by maxBlocks).
+  // Native transfers are read once for the whole block range and shared out between the wallets.
+  private async indexChain(
+    wallets: Wallet[],
+    chainId: number,
+    tokens: Token[],
+    maxBlocks: number
+  ): Promise<ChainIndexResult[]> {
+    const ethereum = this.chains.get(chainId);
+    const head = await ethereum.getCurrentBlockNumber();
+    if (!head) throw new Error(`Could not read the current block number on chain ${chainId}`);
+
+    const ranges: BlockRange[] = await Promise.all(wallets.map(async wallet => {
+      const cursor = await this.storage.getIndexCursor(wallet.id, chainId);
+      const fromBlock = cursor
+        ? cursor.lastIndexedBlock + 1
+        : Math.max(0, head - this.options.initialLookbackBlocks);
+      return { fromBlock, toBlock: Math.min(head, fromBlock + maxBlocks - 1) };
+    }));
+
+    const nativeToken = tokens.find(token => token.address === ethers.ZeroAddress);
+    const erc20Tokens = tokens.filter(token => token.address !== ethers.ZeroAddress);
+
+    let nativeTransfers: TransferEvent[] = [];
+    const behind = wallets.filter((_, index) => ranges[index].fromBlock <= ranges[index].toBlock);
+    if (nativeToken && this.options.scanNativeTransfers && behind.length > 0) {
+      // One scan from the furthest-behind cursor; wallets further ahead stop where it ends
+      // rather than widening it past maxBlocks
+      const scanFrom = Math.min(...ranges.map(range => range.fromBlock));
+      const scanTo = Math.min(head, scanFrom + maxBlocks - 1);
+      ranges.forEach(range => { range.toBlock = Math.min(range.toBlock, scanTo); });
+
+      const transfers = await ethereum.getNativeTransfers(behind.map(wallet => wallet.address), scanFrom, scanTo);
+      nativeTransfers = transfers.map(transfer => ({ ...transfer, token: nativeToken, logIndex: null }));
+    }
+
+    // A failure for one wallet (e.g. its log query) leaves the others' progress intact
+    const results: ChainIndexResult[] = [];
+    for (let index = 0; index < wallets.length; index++) {
+      const wallet = wallets[index];
+      try {
+        results.push(await this.indexRange(ethereum, wallet, chainId, ranges[index], erc20Tokens, nativeTransfers));
+      } catch (error) {
+        console.error(`Error indexing chain ${chainId} for ${wallet.address}:`, error);
+        results.push({ chainId, fromBlock: 0, toBlock: 0, inserted: 0, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return results;
+  }
+
+  // Records one wallet's transfers in a block range chunk by chunk.
+  // The cursor only advances after a chunk has been fully written.
+  private async indexRange(
+    ethereum: EthereumService,
+    wallet: Wallet,
+    chainId: number,
+    { fromBlock, toBlock }: BlockRange,
+    erc20Tokens: Token[],
+    nativeTransfers: TransferEvent[]
+  ): Promise<ChainIndexResult> {
+    if (fromBlock > toBlock) return { chainId, fromBlock, toBlock, inserted: 0 };
+
+    const address = wallet.address.toLowerCase();
+    const walletNativeTransfers = nativeTransfers.filter(transfer =>
+      transfer.from.toLowerCase() === address || transfer.to.toLowerCase() === address);
+
+    let inserted = 0;
+
+    for (let start = fromBlock; start <= toBlock; start += this.options.logChunkSize) {
+      const end = Math.min(toBlock, start + this.options.logChunkSize - 1);
+      const events = await this.collectTransfers(ethereum, wallet.address, erc20Tokens, walletNativeTransfers, start, end);
+
+      // Group by transaction so several transfers in one tx get stable, distinct hashes
+      const seenPerTx = new Map<string, number>();
+      let stalledAt: number | null = null;
+      for (const event of events) {
+        const occurrence = seenPerTx.get(event.txHash) || 0;
+        seenPerTx.set(event.txHash, occurrence + 1);
+        const storedHash = occurrence === 0 ? event.txHash : `${event.txHash}-${event.logIndex ?? occurrence}`;
+
+        if (await this.storage.getTransaction(wallet.id, storedHash)) continue;
+        if (!await this.recordTransfer(ethereum, wallet, event, storedHash)) {
+          stalledAt = event.blockNumber;
+          break;
+        }
+        inserted += 1;
+      }
+
+      // Stop short of a transfer that couldn't be recorded so the next run retries its block;
+      // transfers already stored from that block are skipped then
+      if (stalledAt !== null) {
+        await this.storage.upsertIndexCursor({ walletId: wallet.id, chainId, lastIndexedBlock: stalledAt - 1 });
+        return { chainId, fromBlock, toBlock: stalledAt - 1, inserted };
+      }
+
+      await this.storage.upsertIndexCursor({ walletId: wallet.id, chainId, lastIndexedBlock: end });
+    }
+
+    return { chainId, fromBlock, toBlock, inserted };
+  }
+
+  private async collectTransfers(
+    ethereum: EthereumService,
+    walletAddress: string,
+    erc20Tokens: Token[],
+    nativeTransfers: TransferEvent[],
+    fromBlock: number,
+    toBlock: number
+  ): Promise<TransferEvent[]> {
+    const tokensByAddress = new Map(erc20Tokens.map(token => [token.address.toLowerCase(), token]));
+
+    const logs = await ethereum.getTransferLogs(walletAddress, erc20Tokens.map(token => token.address), fromBlock, toBlock);
+    const events: TransferEvent[] = logs.flatMap(log => {
+      const token = tokensByAddress.get(log.tokenAddress.toLowerCase());
+      return token ? [{ ...log, token }] : [];
+    });
+
+    events.push(...nativeTransfers.filter(transfer => transfer.blockNumber >= fromBlock && transfer.blockNumber <= toBlock));
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || (a.logIndex ?? -1) - (b.logIndex ?? -1));
+  }
+
+  private async recordTransfer(ethereum: EthereumService, wallet: Wallet, event: TransferEvent, storedHash: string): Promise<boolean> {
+    const details = await ethereum.getTransactionDetails(event.txHash);
+    if (!details) return false;
+
+    const direction: 'in' | 'out' = event.to.toLowerCase() === wallet.address.toLowerCase() ? 'in' : 'out';
+    const selector = details.input.slice(0, 10).toLowerCase();
+    const type = classifyTransfer(direction, selector);
+    const amount = ethers.formatUnits(event.value, event.token.decimals);
+
+    // Value at the time of the transfer; it becomes cost basis, so it is left unset rather than
+    // taken from today's price when no candle covers the transfer
+    const priceUsd = await candleCloseAt(this.storage, event.token.id, details.timestamp);
+
+    // Gas is only paid by the wallet on transactions it sent
+    const paidGas = details.from.toLowerCase() === wallet.address.toLowerCase();
+
+    await this.storage.createTransaction({
+      walletId: wallet.id,
+      txHash: storedHash,
+      type,
+      tokenId: event.token.id,
+      amount,
+      usdValue: priceUsd !== null ? (parseFloat(amount) * priceUsd).toFixed(8) : null,
+      gasUsed: paidGas && details.gasUsed !== null ? details.gasUsed.toString() : null,
+      gasPrice: paidGas && details.gasPrice !== null ? details.gasPrice.toString() : null,
+      blockNumber: event.blockNumber,
+      status: details.status,
+      metadata: {
+        source: 'indexer',
+        chainId: event.token.chainId,
+        direction,
+        from: event.from,
+        to: event.to,
+        onchainTxHash: event.txHash,
+        logIndex: event.logIndex,
+        selector,
+        priceSource: priceUsd !== null ? 'price_history' : null
+      },
+      timestamp: details.timestamp
+    });
+
+    return true;
+  }
+}
+
+export const transactionIndexer = new TransactionIndexer(storage, chainServices, realtimeHub, config.indexer);
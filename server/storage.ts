@@ -3,57 +3,151 @@ import {
   type InsertUser,
   type Wallet,
   type InsertWallet,
+  type SiweNonce,
+  type InsertSiweNonce,
   type Token,
   type InsertToken,
+  type TokenPriceSource,
+  type InsertTokenPriceSource,
   type Portfolio,
   type InsertPortfolio,
+  type PortfolioSnapshot,
+  type InsertPortfolioSnapshot,
   type TokenBalance,
   type InsertTokenBalance,
   type StakingPosition,
   type InsertStakingPosition,
   type Transaction,
   type InsertTransaction,
+  type WalletIndexCursor,
+  type InsertWalletIndexCursor,
+  type Proposal,
+  type InsertProposal,
+  type Vote,
+  type InsertVote,
+  type GovernanceCursor,
+  type InsertGovernanceCursor,
   type PriceHistory,
   type InsertPriceHistory,
+  type PriceCandle,
+  type InsertPriceCandle,
+  type CandleResolution,
+  type PriceHistoryResolution,
   users,
   wallets,
+  siweNonces,
   tokens,
+  tokenPriceSources,
   portfolios,
+  portfolioSnapshots,
   tokenBalances,
   stakingPositions,
   transactions,
-  priceHistory
+  walletIndexCursors,
+  proposals,
+  votes,
+  governanceCursors,
+  priceHistory,
+  priceCandles1m,
+  priceCandleTables
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { createDatabase, type Database, type DatabaseConnection } from "./db";
+import { MemStorage } from "./memStorage";
+import { eq, desc, and, or, asc, gt, gte, lte, lt, ilike, inArray, isNull, sql } from "drizzle-orm";
+import { DEFAULT_CHAIN_ID } from "@shared/chains";
 import bcrypt from "bcrypt";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type * as pg from "pg";
+
+const PostgresSessionStore = connectPg(session);
+
+export interface PriceHistoryQuery {
+  from: Date;
+  to?: Date;
+  resolution: PriceHistoryResolution;
+}
+
+export const transactionSortFields = ['timestamp', 'amount', 'usdValue'] as const;
+export type TransactionSortField = typeof transactionSortFields[number];
+
+// Filters and keyset position for paging through a wallet's transactions. Rows sort by the field,
+// then id; a missing usdValue sorts as zero.
+export interface TransactionQuery {
+  types?: string[];
+  statuses?: string[];
+  tokenIds?: string[];
+  from?: Date;
+  to?: Date;
+  minUsdValue?: number;
+  // Case-insensitive substring of the transaction hash
+  search?: string;
+  sort: TransactionSortField;
+  order: 'asc' | 'desc';
+  // Only rows after this sort value and id, in the requested order
+  after?: { value: string; id: string };
+  limit: number;
+}
+
+// One point of a price series, oldest first. Raw points have open = high = low = close.
+export interface PricePoint {
+  timestamp: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  setUserAdmin(id: string, isAdmin: boolean): Promise<User | undefined>;
   verifyPassword(plainPassword: string, hashedPassword: string): Promise<boolean>;
 
   // Wallet operations
   getWallet(id: string): Promise<Wallet | undefined>;
   getWalletByAddress(address: string): Promise<Wallet | undefined>;
   getUserWallets(userId: string): Promise<Wallet[]>;
+  getConnectedWallets(): Promise<Wallet[]>;
   createWallet(wallet: InsertWallet): Promise<Wallet>;
   updateWallet(id: string, updates: Partial<InsertWallet>): Promise<Wallet | undefined>;
   deleteWallet(address: string): Promise<boolean>;
 
+  // SIWE nonce operations
+  createSiweNonce(nonce: InsertSiweNonce): Promise<SiweNonce>;
+  getSiweNonce(nonce: string): Promise<SiweNonce | undefined>;
+  consumeSiweNonce(id: string): Promise<boolean>;
+  deleteExpiredSiweNonces(): Promise<number>;
+
   // Token operations
   getToken(id: string): Promise<Token | undefined>;
-  getTokenBySymbol(symbol: string): Promise<Token | undefined>;
+  getTokenBySymbol(symbol: string, chainId?: number): Promise<Token | undefined>;
+  getTokenByAddress(chainId: number, address: string): Promise<Token | undefined>;
   getAllTokens(): Promise<Token[]>;
   createToken(token: InsertToken): Promise<Token>;
+  updateToken(id: string, updates: Partial<InsertToken>): Promise<Token | undefined>;
+
+  // Token price source operations
+  getTokenPriceSources(tokenId: string): Promise<TokenPriceSource[]>;
+  getActiveTokenPriceSources(): Promise<TokenPriceSource[]>;
+  getTokenPriceSource(id: string): Promise<TokenPriceSource | undefined>;
+  createTokenPriceSource(source: InsertTokenPriceSource): Promise<TokenPriceSource>;
+  updateTokenPriceSource(id: string, updates: Partial<InsertTokenPriceSource>): Promise<TokenPriceSource | undefined>;
+  deleteTokenPriceSource(id: string): Promise<boolean>;
 
   // Portfolio operations
   getPortfolio(walletId: string): Promise<Portfolio | undefined>;
   createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio>;
   updatePortfolio(walletId: string, updates: Partial<InsertPortfolio>): Promise<Portfolio | undefined>;
 
+  // Portfolio snapshot operations
+  getPortfolioSnapshots(walletId: string, since: Date): Promise<PortfolioSnapshot[]>;
+  createPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot>;
+
   // Token balance operations
   getTokenBalances(walletId: string): Promise<TokenBalance[]>;
   getTokenBalance(walletId: string, tokenId: string): Promise<TokenBalance | undefined>;
@@ -64,66 +158,113 @@ export interface IStorage {
   getActiveStakingPositions(walletId: string): Promise<StakingPosition[]>;
   createStakingPosition(position: InsertStakingPosition): Promise<StakingPosition>;
   updateStakingPosition(id: string, updates: Partial<InsertStakingPosition>): Promise<StakingPosition | undefined>;
+  upsertStakingPosition(position: InsertStakingPosition): Promise<StakingPosition>;
 
   // Transaction operations
   getTransactions(walletId: string, limit?: number): Promise<Transaction[]>;
-  getTransaction(txHash: string): Promise<Transaction | undefined>;
+  getAllTransactions(walletId: string): Promise<Transaction[]>;
+  queryTransactions(walletId: string, query: TransactionQuery): Promise<Transaction[]>;
+  getTransaction(walletId: string, txHash: string): Promise<Transaction | undefined>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
 
+  // Indexer cursor operations
+  getIndexCursor(walletId: string, chainId: number): Promise<WalletIndexCursor | undefined>;
+  getIndexCursors(walletId: string): Promise<WalletIndexCursor[]>;
+  upsertIndexCursor(cursor: InsertWalletIndexCursor): Promise<WalletIndexCursor>;
+
+  // Governance operations
+  getProposals(filters?: { status?: string; limit?: number }): Promise<Proposal[]>;
+  getProposal(id: string): Promise<Proposal | undefined>;
+  getProposalByOnchainId(chainId: number, governorAddress: string, proposalId: string): Promise<Proposal | undefined>;
+  upsertProposal(proposal: InsertProposal): Promise<Proposal>;
+  updateProposal(id: string, updates: Partial<InsertProposal>): Promise<Proposal | undefined>;
+  getProposalVotes(proposalId: string): Promise<Vote[]>;
+  getVotesByVoter(voter: string): Promise<Vote[]>;
+  createVote(vote: InsertVote): Promise<Vote | undefined>;
+  getGovernanceCursor(chainId: number, governorAddress: string): Promise<GovernanceCursor | undefined>;
+  upsertGovernanceCursor(cursor: InsertGovernanceCursor): Promise<GovernanceCursor>;
+
   // Price history operations
   getLatestPrice(tokenId: string): Promise<PriceHistory | undefined>;
-  getPriceHistory(tokenId: string, limit?: number): Promise<PriceHistory[]>;
+  getPriceHistory(tokenId: string, query: PriceHistoryQuery): Promise<PricePoint[]>;
   createPriceHistory(priceData: InsertPriceHistory): Promise<PriceHistory>;
+  deletePriceHistoryBefore(before: Date): Promise<number>;
+  // Folds a price into the token's candle for the bucket, creating it if needed
+  upsertPriceCandle(resolution: CandleResolution, tokenId: string, bucketStart: Date, price: string): Promise<PriceCandle>;
+  // Inserts whole candles (e.g. backfilled ones), leaving buckets that already have a candle untouched
+  insertPriceCandles(resolution: CandleResolution, candles: InsertPriceCandle[]): Promise<number>;
+  deletePriceCandlesBefore(resolution: CandleResolution, before: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: Database;
+
+  constructor(connection: DatabaseConnection = createDatabase()) {
+    this.db = connection.db;
+    this.sessionStore = new PostgresSessionStore({
+      // Neon's Pool is wire-compatible with pg.Pool
+      pool: connection.pool as unknown as pg.Pool,
+      createTableIfMissing: true
+    });
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(insertUser.password, saltRounds);
-    const [user] = await db.insert(users).values({
+    const [user] = await this.db.insert(users).values({
       ...insertUser,
       password: hashedPassword
     }).returning();
     return user;
   }
 
+  async setUserAdmin(id: string, isAdmin: boolean): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ isAdmin }).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
   async verifyPassword(plainPassword: string, hashedPassword: string): Promise<boolean> {
     return await bcrypt.compare(plainPassword, hashedPassword);
   }
 
   // Wallet operations
   async getWallet(id: string): Promise<Wallet | undefined> {
-    const [wallet] = await db.select().from(wallets).where(eq(wallets.id, id));
+    const [wallet] = await this.db.select().from(wallets).where(eq(wallets.id, id));
     return wallet || undefined;
   }
 
   async getWalletByAddress(address: string): Promise<Wallet | undefined> {
-    const [wallet] = await db.select().from(wallets).where(eq(wallets.address, address));
+    const [wallet] = await this.db.select().from(wallets).where(eq(wallets.address, address));
     return wallet || undefined;
   }
 
   async getUserWallets(userId: string): Promise<Wallet[]> {
-    return await db.select().from(wallets).where(eq(wallets.userId, userId));
+    return await this.db.select().from(wallets).where(eq(wallets.userId, userId));
+  }
+
+  async getConnectedWallets(): Promise<Wallet[]> {
+    return await this.db.select().from(wallets).where(eq(wallets.isConnected, true));
   }
 
   async createWallet(wallet: InsertWallet): Promise<Wallet> {
-    const [newWallet] = await db.insert(wallets).values(wallet).returning();
+    const [newWallet] = await this.db.insert(wallets).values(wallet).returning();
     return newWallet;
   }
 
   async updateWallet(id: string, updates: Partial<InsertWallet>): Promise<Wallet | undefined> {
-    const [wallet] = await db.update(wallets).set({
+    const [wallet] = await this.db.update(wallets).set({
       ...updates,
       updatedAt: new Date()
     }).where(eq(wallets.id, id)).returning();
@@ -131,62 +272,148 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteWallet(address: string): Promise<boolean> {
-    const result = await db.delete(wallets).where(eq(wallets.address, address));
-    return result.rowCount > 0;
+    const result = await this.db.delete(wallets).where(eq(wallets.address, address));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // SIWE nonce operations
+  async createSiweNonce(nonce: InsertSiweNonce): Promise<SiweNonce> {
+    const [newNonce] = await this.db.insert(siweNonces).values(nonce).returning();
+    return newNonce;
+  }
+
+  async getSiweNonce(nonce: string): Promise<SiweNonce | undefined> {
+    const [result] = await this.db.select().from(siweNonces).where(eq(siweNonces.nonce, nonce));
+    return result || undefined;
+  }
+
+  // Marks a nonce used; returns false if it was already consumed, so each nonce verifies once
+  async consumeSiweNonce(id: string): Promise<boolean> {
+    const result = await this.db.update(siweNonces)
+      .set({ usedAt: new Date() })
+      .where(and(eq(siweNonces.id, id), isNull(siweNonces.usedAt)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async deleteExpiredSiweNonces(): Promise<number> {
+    const result = await this.db.delete(siweNonces).where(lt(siweNonces.expiresAt, new Date()));
+    return result.rowCount ?? 0;
   }
 
   // Token operations
   async getToken(id: string): Promise<Token | undefined> {
-    const [token] = await db.select().from(tokens).where(eq(tokens.id, id));
+    const [token] = await this.db.select().from(tokens).where(eq(tokens.id, id));
+    return token || undefined;
+  }
+
+  async getTokenBySymbol(symbol: string, chainId: number = DEFAULT_CHAIN_ID): Promise<Token | undefined> {
+    const [token] = await this.db.select().from(tokens).where(and(eq(tokens.symbol, symbol), eq(tokens.chainId, chainId)));
     return token || undefined;
   }
 
-  async getTokenBySymbol(symbol: string): Promise<Token | undefined> {
-    const [token] = await db.select().from(tokens).where(eq(tokens.symbol, symbol));
+  async getTokenByAddress(chainId: number, address: string): Promise<Token | undefined> {
+    const [token] = await this.db.select().from(tokens).where(and(
+      eq(tokens.chainId, chainId),
+      eq(sql`lower(${tokens.address})`, address.toLowerCase())
+    ));
     return token || undefined;
   }
 
   async getAllTokens(): Promise<Token[]> {
-    return await db.select().from(tokens);
+    return await this.db.select().from(tokens);
   }
 
   async createToken(token: InsertToken): Promise<Token> {
-    const [newToken] = await db.insert(tokens).values(token).returning();
+    const [newToken] = await this.db.insert(tokens).values(token).returning();
     return newToken;
   }
 
+  async updateToken(id: string, updates: Partial<InsertToken>): Promise<Token | undefined> {
+    const [token] = await this.db.update(tokens).set(updates).where(eq(tokens.id, id)).returning();
+    return token || undefined;
+  }
+
+  // Token price source operations
+  async getTokenPriceSources(tokenId: string): Promise<TokenPriceSource[]> {
+    return await this.db.select().from(tokenPriceSources)
+      .where(eq(tokenPriceSources.tokenId, tokenId))
+      .orderBy(asc(tokenPriceSources.priority));
+  }
+
+  async getActiveTokenPriceSources(): Promise<TokenPriceSource[]> {
+    return await this.db.select().from(tokenPriceSources)
+      .where(eq(tokenPriceSources.isActive, true))
+      .orderBy(asc(tokenPriceSources.priority));
+  }
+
+  async getTokenPriceSource(id: string): Promise<TokenPriceSource | undefined> {
+    const [source] = await this.db.select().from(tokenPriceSources).where(eq(tokenPriceSources.id, id));
+    return source || undefined;
+  }
+
+  async createTokenPriceSource(source: InsertTokenPriceSource): Promise<TokenPriceSource> {
+    const [newSource] = await this.db.insert(tokenPriceSources).values(source).returning();
+    return newSource;
+  }
+
+  async updateTokenPriceSource(id: string, updates: Partial<InsertTokenPriceSource>): Promise<TokenPriceSource | undefined> {
+    const [source] = await this.db.update(tokenPriceSources).set({
+      ...updates,
+      updatedAt: new Date()
+    }).where(eq(tokenPriceSources.id, id)).returning();
+    return source || undefined;
+  }
+
+  async deleteTokenPriceSource(id: string): Promise<boolean> {
+    const result = await this.db.delete(tokenPriceSources).where(eq(tokenPriceSources.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // Portfolio operations
   async getPortfolio(walletId: string): Promise<Portfolio | undefined> {
-    const [portfolio] = await db.select().from(portfolios).where(eq(portfolios.walletId, walletId));
+    const [portfolio] = await this.db.select().from(portfolios).where(eq(portfolios.walletId, walletId));
     return portfolio || undefined;
   }
 
   async createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio> {
-    const [newPortfolio] = await db.insert(portfolios).values(portfolio).returning();
+    const [newPortfolio] = await this.db.insert(portfolios).values(portfolio).returning();
     return newPortfolio;
   }
 
   async updatePortfolio(walletId: string, updates: Partial<InsertPortfolio>): Promise<Portfolio | undefined> {
-    const [portfolio] = await db.update(portfolios).set({
+    const [portfolio] = await this.db.update(portfolios).set({
       ...updates,
       lastUpdated: new Date()
     }).where(eq(portfolios.walletId, walletId)).returning();
     return portfolio || undefined;
   }
 
+  // Portfolio snapshot operations
+  async getPortfolioSnapshots(walletId: string, since: Date): Promise<PortfolioSnapshot[]> {
+    return await this.db.select().from(portfolioSnapshots)
+      .where(and(eq(portfolioSnapshots.walletId, walletId), gte(portfolioSnapshots.timestamp, since)))
+      .orderBy(asc(portfolioSnapshots.timestamp));
+  }
+
+  async createPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const [newSnapshot] = await this.db.insert(portfolioSnapshots).values(snapshot).returning();
+    return newSnapshot;
+  }
+
   // Token balance operations
   async getTokenBalances(walletId: string): Promise<TokenBalance[]> {
-    return await db.select().from(tokenBalances).where(eq(tokenBalances.walletId, walletId));
+    return await this.db.select().from(tokenBalances).where(eq(tokenBalances.walletId, walletId));
   }
 
   async getTokenBalance(walletId: string, tokenId: string): Promise<TokenBalance | undefined> {
-    const [balance] = await db.select().from(tokenBalances)
+    const [balance] = await this.db.select().from(tokenBalances)
       .where(and(eq(tokenBalances.walletId, walletId), eq(tokenBalances.tokenId, tokenId)));
     return balance || undefined;
   }
 
   async upsertTokenBalance(balance: InsertTokenBalance): Promise<TokenBalance> {
-    const [result] = await db.insert(tokenBalances)
+    const [result] = await this.db.insert(tokenBalances)
       .values(balance)
       .onConflictDoUpdate({
         target: [tokenBalances.walletId, tokenBalances.tokenId],
@@ -202,65 +429,312 @@ export class DatabaseStorage implements IStorage {
 
   // Staking operations
   async getStakingPositions(walletId: string): Promise<StakingPosition[]> {
-    return await db.select().from(stakingPositions).where(eq(stakingPositions.walletId, walletId));
+    return await this.db.select().from(stakingPositions).where(eq(stakingPositions.walletId, walletId));
   }
 
   async getActiveStakingPositions(walletId: string): Promise<StakingPosition[]> {
-    return await db.select().from(stakingPositions)
+    return await this.db.select().from(stakingPositions)
       .where(and(eq(stakingPositions.walletId, walletId), eq(stakingPositions.isActive, true)));
   }
 
   async createStakingPosition(position: InsertStakingPosition): Promise<StakingPosition> {
-    const [newPosition] = await db.insert(stakingPositions).values(position).returning();
+    const [newPosition] = await this.db.insert(stakingPositions).values(position).returning();
     return newPosition;
   }
 
   async updateStakingPosition(id: string, updates: Partial<InsertStakingPosition>): Promise<StakingPosition | undefined> {
-    const [position] = await db.update(stakingPositions).set({
+    const [position] = await this.db.update(stakingPositions).set({
       ...updates,
       updatedAt: new Date()
     }).where(eq(stakingPositions.id, id)).returning();
     return position || undefined;
   }
 
+  async upsertStakingPosition(position: InsertStakingPosition): Promise<StakingPosition> {
+    const [result] = await this.db.insert(stakingPositions)
+      .values(position)
+      .onConflictDoUpdate({
+        target: [stakingPositions.walletId, stakingPositions.chainId, stakingPositions.poolAddress, stakingPositions.poolId],
+        set: {
+          ...position,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return result;
+  }
+
   // Transaction operations
   async getTransactions(walletId: string, limit: number = 50): Promise<Transaction[]> {
-    return await db.select().from(transactions)
+    return await this.db.select().from(transactions)
       .where(eq(transactions.walletId, walletId))
       .orderBy(desc(transactions.timestamp))
       .limit(limit);
   }
 
-  async getTransaction(txHash: string): Promise<Transaction | undefined> {
-    const [transaction] = await db.select().from(transactions).where(eq(transactions.txHash, txHash));
+  async getAllTransactions(walletId: string): Promise<Transaction[]> {
+    return await this.db.select().from(transactions)
+      .where(eq(transactions.walletId, walletId))
+      .orderBy(asc(transactions.timestamp));
+  }
+
+  async queryTransactions(walletId: string, query: TransactionQuery): Promise<Transaction[]> {
+    const column = query.sort === 'timestamp' ? sql`${transactions.timestamp}`
+      : query.sort === 'amount' ? sql`${transactions.amount}`
+      : sql`coalesce(${transactions.usdValue}, 0)`;
+    const direction = query.order === 'asc' ? asc : desc;
+
+    const conditions = [eq(transactions.walletId, walletId)];
+    if (query.types?.length) conditions.push(inArray(transactions.type, query.types));
+    if (query.statuses?.length) conditions.push(inArray(transactions.status, query.statuses));
+    if (query.tokenIds?.length) conditions.push(inArray(transactions.tokenId, query.tokenIds));
+    if (query.from) conditions.push(gte(transactions.timestamp, query.from));
+    if (query.to) conditions.push(lte(transactions.timestamp, query.to));
+    if (query.minUsdValue !== undefined) conditions.push(gte(transactions.usdValue, query.minUsdValue.toString()));
+    if (query.search) conditions.push(ilike(transactions.txHash, `%${query.search.replace(/[\\%_]/g, '\\$&')}%`));
+    if (query.after) {
+      const beyond = query.order === 'asc' ? gt : lt;
+      conditions.push(or(
+        beyond(column, query.after.value),
+        and(eq(column, query.after.value), beyond(transactions.id, query.after.id))
+      )!);
+    }
+
+    return await this.db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(direction(column), direction(transactions.id))
+      .limit(query.limit);
+  }
+
+  async getTransaction(walletId: string, txHash: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions).where(and(
+      eq(transactions.walletId, walletId),
+      eq(transactions.txHash, txHash)
+    ));
     return transaction || undefined;
   }
 
   async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const [newTransaction] = await db.insert(transactions).values(transaction).returning();
+    const [newTransaction] = await this.db.insert(transactions).values(transaction).returning();
     return newTransaction;
   }
 
+  // Indexer cursor operations
+  async getIndexCursor(walletId: string, chainId: number): Promise<WalletIndexCursor | undefined> {
+    const [cursor] = await this.db.select().from(walletIndexCursors).where(and(
+      eq(walletIndexCursors.walletId, walletId),
+      eq(walletIndexCursors.chainId, chainId)
+    ));
+    return cursor || undefined;
+  }
+
+  async getIndexCursors(walletId: string): Promise<WalletIndexCursor[]> {
+    return await this.db.select().from(walletIndexCursors).where(eq(walletIndexCursors.walletId, walletId));
+  }
+
+  async upsertIndexCursor(cursor: InsertWalletIndexCursor): Promise<WalletIndexCursor> {
+    const [result] = await this.db.insert(walletIndexCursors)
+      .values(cursor)
+      .onConflictDoUpdate({
+        target: [walletIndexCursors.walletId, walletIndexCursors.chainId],
+        set: {
+          lastIndexedBlock: cursor.lastIndexedBlock,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return result;
+  }
+
+  // Governance operations
+  async getProposals(filters: { status?: string; limit?: number } = {}): Promise<Proposal[]> {
+    return await this.db.select().from(proposals)
+      .where(filters.status ? eq(proposals.status, filters.status) : undefined)
+      .orderBy(desc(proposals.createdBlock))
+      .limit(filters.limit ?? 100);
+  }
+
+  async getProposal(id: string): Promise<Proposal | undefined> {
+    const [proposal] = await this.db.select().from(proposals).where(eq(proposals.id, id));
+    return proposal || undefined;
+  }
+
+  async getProposalByOnchainId(chainId: number, governorAddress: string, proposalId: string): Promise<Proposal | undefined> {
+    const [proposal] = await this.db.select().from(proposals).where(and(
+      eq(proposals.chainId, chainId),
+      eq(proposals.governorAddress, governorAddress),
+      eq(proposals.proposalId, proposalId)
+    ));
+    return proposal || undefined;
+  }
+
+  async upsertProposal(proposal: InsertProposal): Promise<Proposal> {
+    const [result] = await this.db.insert(proposals)
+      .values(proposal)
+      .onConflictDoUpdate({
+        target: [proposals.chainId, proposals.governorAddress, proposals.proposalId],
+        set: {
+          status: proposal.status,
+          forVotes: proposal.forVotes,
+          againstVotes: proposal.againstVotes,
+          abstainVotes: proposal.abstainVotes,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return result;
+  }
+
+  async updateProposal(id: string, updates: Partial<InsertProposal>): Promise<Proposal | undefined> {
+    const [updated] = await this.db
+      .update(proposals)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(proposals.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getProposalVotes(proposalId: string): Promise<Vote[]> {
+    return await this.db.select().from(votes)
+      .where(eq(votes.proposalId, proposalId))
+      .orderBy(desc(votes.blockNumber));
+  }
+
+  async getVotesByVoter(voter: string): Promise<Vote[]> {
+    return await this.db.select().from(votes)
+      .where(sql`lower(${votes.voter}) = ${voter.toLowerCase()}`)
+      .orderBy(desc(votes.blockNumber));
+  }
+
+  // A voter can only vote once per proposal, so a replayed VoteCast event is ignored
+  async createVote(vote: InsertVote): Promise<Vote | undefined> {
+    const [newVote] = await this.db.insert(votes).values(vote).onConflictDoNothing().returning();
+    return newVote || undefined;
+  }
+
+  async getGovernanceCursor(chainId: number, governorAddress: string): Promise<GovernanceCursor | undefined> {
+    const [cursor] = await this.db.select().from(governanceCursors).where(and(
+      eq(governanceCursors.chainId, chainId),
+      eq(governanceCursors.governorAddress, governorAddress)
+    ));
+    return cursor || undefined;
+  }
+
+  async upsertGovernanceCursor(cursor: InsertGovernanceCursor): Promise<GovernanceCursor> {
+    const [result] = await this.db.insert(governanceCursors)
+      .values(cursor)
+      .onConflictDoUpdate({
+        target: [governanceCursors.chainId, governanceCursors.governorAddress],
+        set: {
+          lastScannedBlock: cursor.lastScannedBlock,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return result;
+  }
+
   // Price history operations
   async getLatestPrice(tokenId: string): Promise<PriceHistory | undefined> {
-    const [price] = await db.select().from(priceHistory)
+    const [price] = await this.db.select().from(priceHistory)
       .where(eq(priceHistory.tokenId, tokenId))
       .orderBy(desc(priceHistory.timestamp))
       .limit(1);
     return price || undefined;
   }
 
-  async getPriceHistory(tokenId: string, limit: number = 100): Promise<PriceHistory[]> {
-    return await db.select().from(priceHistory)
-      .where(eq(priceHistory.tokenId, tokenId))
-      .orderBy(desc(priceHistory.timestamp))
-      .limit(limit);
+  async getPriceHistory(tokenId: string, { from, to = new Date(), resolution }: PriceHistoryQuery): Promise<PricePoint[]> {
+    if (resolution === 'raw') {
+      const rows = await this.db.select().from(priceHistory)
+        .where(and(
+          eq(priceHistory.tokenId, tokenId),
+          gte(priceHistory.timestamp, from),
+          lte(priceHistory.timestamp, to)
+        ))
+        .orderBy(asc(priceHistory.timestamp));
+      return rows.map(row => ({ timestamp: row.timestamp, open: row.price, high: row.price, low: row.price, close: row.price }));
+    }
+
+    // The candle tables share one shape, so any of them types the query
+    const candles = priceCandleTables[resolution] as typeof priceCandles1m;
+    const rows = await this.db.select().from(candles)
+      .where(and(
+        eq(candles.tokenId, tokenId),
+        gte(candles.bucketStart, from),
+        lte(candles.bucketStart, to)
+      ))
+      .orderBy(asc(candles.bucketStart));
+    return rows.map(row => ({ timestamp: row.bucketStart, open: row.open, high: row.high, low: row.low, close: row.close }));
   }
 
   async createPriceHistory(priceData: InsertPriceHistory): Promise<PriceHistory> {
-    const [newPrice] = await db.insert(priceHistory).values(priceData).returning();
+    const [newPrice] = await this.db.insert(priceHistory).values(priceData).returning();
     return newPrice;
   }
+
+  async deletePriceHistoryBefore(before: Date): Promise<number> {
+    const result = await this.db.delete(priceHistory).where(lt(priceHistory.timestamp, before));
+    return result.rowCount ?? 0;
+  }
+
+  async upsertPriceCandle(resolution: CandleResolution, tokenId: string, bucketStart: Date, price: string): Promise<PriceCandle> {
+    const candles = priceCandleTables[resolution] as typeof priceCandles1m;
+    const [candle] = await this.db.insert(candles)
+      .values({ tokenId, bucketStart, open: price, high: price, low: price, close: price, samples: 1 })
+      .onConflictDoUpdate({
+        target: [candles.tokenId, candles.bucketStart],
+        set: {
+          high: sql`greatest(${candles.high}, excluded.high)`,
+          low: sql`least(${candles.low}, excluded.low)`,
+          close: sql`excluded.close`,
+          samples: sql`${candles.samples} + 1`,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return candle;
+  }
+
+  async insertPriceCandles(resolution: CandleResolution, rows: InsertPriceCandle[]): Promise<number> {
+    if (rows.length === 0) return 0;
+    const candles = priceCandleTables[resolution] as typeof priceCandles1m;
+    const inserted = await this.db.insert(candles)
+      .values(rows)
+      .onConflictDoNothing({ target: [candles.tokenId, candles.bucketStart] })
+      .returning({ id: candles.id });
+    return inserted.length;
+  }
+
+  async deletePriceCandlesBefore(resolution: CandleResolution, before: Date): Promise<number> {
+    const candles = priceCandleTables[resolution] as typeof priceCandles1m;
+    const result = await this.db.delete(candles).where(lt(candles.bucketStart, before));
+    return result.rowCount ?? 0;
+  }
+}
+
+export const storageDrivers = ['postgres', 'memory'] as const;
+export type StorageDriver = typeof storageDrivers[number];
+
+// STORAGE_DRIVER picks the backend explicitly; otherwise Postgres is used whenever DATABASE_URL is set.
+// Production never falls back to memory, since that would silently lose every write on restart.
+export function resolveStorageDriver(env: NodeJS.ProcessEnv = process.env): StorageDriver {
+  const requested = env.STORAGE_DRIVER;
+  if (requested) {
+    if (!(storageDrivers as readonly string[]).includes(requested)) {
+      throw new Error(`Unknown STORAGE_DRIVER "${requested}"; expected one of ${storageDrivers.join(', ')}`);
+    }
+    return requested as StorageDriver;
+  }
+  if (env.DATABASE_URL) return 'postgres';
+  if (env.NODE_ENV === 'production') {
+    throw new Error("DATABASE_URL must be set in production");
+  }
+  return 'memory';
+}
+
+export function createStorage(driver: StorageDriver = resolveStorageDriver()): IStorage {
+  return driver === 'memory' ? new MemStorage() : new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
+export const storageDriver = resolveStorageDriver();
+export const storage = createStorage(storageDriver);
@@ -0,0 +1,159 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import type { ethers } from 'ethers';
+import type { ChainConfig } from '@shared/chains';
+import { registerRoutes } from '../routes';
+import { storage } from '../storage';
+import { loadConfig } from '../config';
+import { ChainServiceRegistry, CoinGeckoService, EthereumService, PortfolioService } from '../services/blockchain';
+import { TokenPriceResolver } from '../services/priceSources';
+import { PriceHistoryRecorder } from '../services/priceHistory';
+import { CoinGeckoPriceProvider, PriceProviderChain } from '../services/priceProviders';
+import { BalanceSyncService } from '../services/balanceSync';
+import { PortfolioTracker } from '../services/portfolioTracker';
+import { TransactionIndexer } from '../services/transactionIndexer';
+import { StakingSyncService } from '../services/stakingSync';
+import { RealtimeHub } from '../services/realtime';
+import { costBasisEngine } from '../services/costBasis';
+import { HealthScoreService } from '../services/healthScore';
+import { SiweService } from '../services/siwe';
+import { PortfolioAggregator } from '../services/portfolioAggregator';
+import { GovernanceService } from '../services/governance';
+import { TokenChartService } from '../services/tokenChart';
+import { RiskAnalyticsService } from '../services/riskAnalytics';
+import { TaxReportService } from '../services/taxReport';
+import { TransactionImporter } from '../services/transactionImport';
+
+type CoinGeckoPrices = Record<string, { usd: number; usd_24h_change: number }>;
+
+// CoinGecko stand-in serving `prices`, or throwing `failure` when set
+export class FakeCoinGecko extends CoinGeckoService {
+  prices: CoinGeckoPrices = {};
+  failure: Error | null = null;
+
+  constructor() {
+    super(loadConfig({}).coinGecko);
+  }
+
+  override async getMultipleTokenPrices(tokenIds: string[]): Promise<CoinGeckoPrices> {
+    if (this.failure) throw this.failure;
+    return Object.fromEntries(tokenIds.filter(id => this.prices[id]).map(id => [id, this.prices[id]]));
+  }
+}
+
+// Balance reads answered from memory, shared by every chain
+export interface FakeRpc {
+  // Formatted balances keyed by lowercased token address
+  balances: Record<string, string>;
+  failure: Error | null;
+}
+
+class FakeEthereumService extends EthereumService {
+  constructor(chain: ChainConfig, private rpc: FakeRpc) {
+    super(chain);
+  }
+
+  override async getTokenBalances(): Promise<Record<string, string>> {
+    if (this.rpc.failure) throw this.rpc.failure;
+    return { ...this.rpc.balances };
+  }
+}
+
+export interface TestApp {
+  server: Server;
+  coinGecko: FakeCoinGecko;
+  rpc: FakeRpc;
+  realtime: RealtimeHub;
+  close(): Promise<void>;
+}
+
+export interface TestAppOptions {
+  // Replaces the service reading the Oeconomia governors, which needs a live RPC
+  governance?: GovernanceService;
+}
+
+// Boots the API as server/index.ts does, minus Vite and background jobs, with CoinGecko and the
+// chain RPCs replaced by fakes. The server listens on a fixed ephemeral port so the Host header
+// (the SIWE domain) is stable across requests.
+export async function createTestApp(options: TestAppOptions = {}): Promise<TestApp> {
+  const coinGecko = new FakeCoinGecko();
+  const rpc: FakeRpc = { balances: {}, failure: null };
+  const chain = new ChainServiceRegistry({}, chainConfig => new FakeEthereumService(chainConfig, rpc));
+  // Never put the fake on cooldown, so a failure test can't leak into the next one
+  const prices = new TokenPriceResolver(
+    storage,
+    new PriceProviderChain([{ provider: new CoinGeckoPriceProvider(coinGecko) }], { failureThreshold: Infinity })
+  );
+  const realtime = new RealtimeHub(storage, chain);
+  const balances = new BalanceSyncService(storage, chain, prices, realtime);
+  const health = new HealthScoreService(storage);
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const server = await registerRoutes(app, {
+    auth: { storage, siwe: new SiweService(storage) },
+    blockchain: {
+      storage,
+      prices,
+      priceHistory: new PriceHistoryRecorder(storage, loadConfig({}).priceHistory),
+      chain,
+      portfolio: new PortfolioTracker(storage, new PortfolioService(coinGecko, chain.get(1)), prices, balances, costBasisEngine, health),
+      balances,
+      transactions: new TransactionIndexer(storage, chain, realtime),
+      staking: new StakingSyncService(storage, chain, prices)
+    },
+    portfolio: { aggregator: new PortfolioAggregator(storage, prices, costBasisEngine, health) },
+    governance: { storage, prices, chain, governance: options.governance ?? new GovernanceService(storage, chain) },
+    admin: { storage, prices },
+    tokens: { storage, charts: new TokenChartService(storage, coinGecko) },
+    analytics: { storage, risk: new RiskAnalyticsService(storage) },
+    reports: { taxReports: new TaxReportService(storage, costBasisEngine) },
+    imports: { storage, importer: new TransactionImporter(storage) },
+    realtime
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    server,
+    coinGecko,
+    rpc,
+    realtime,
+    close: () => new Promise<void>((resolve, reject) => {
+      realtime.close();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
+
+export function serverUrl(server: Server): string {
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+}
+
+// Cookie-keeping client with a freshly registered, logged-in user
+export async function loggedInAgent(server: Server, username: string) {
+  const agent = request.agent(serverUrl(server));
+  await agent
+    .post('/api/auth/register')
+    .send({ username, password: 'correct-horse-battery' })
+    .expect(201);
+  return agent;
+}
+
+// Links `signer`'s wallet to the agent's user through the SIWE challenge flow
+export async function verifyWallet(agent: ReturnType<typeof request.agent>, signer: ethers.Wallet | ethers.HDNodeWallet): Promise<string> {
+  const nonce = await agent
+    .post('/api/auth/siwe/nonce')
+    .send({ address: signer.address })
+    .expect(200);
+  const signature = await signer.signMessage(nonce.body.message);
+  const verified = await agent
+    .post('/api/auth/siwe/verify')
+    .send({ message: nonce.body.message, signature })
+    .expect(200);
+  return verified.body.address;
+}
@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+import type { ChainConfig } from '@shared/chains';
+import { ChainServiceRegistry, EthereumService } from '../services/blockchain';
+import type { GovernorAdapter, GovernorConfig, ProposalStatus, ProposalTallies } from '../services/governanceAdapters';
+
+export const TEST_GOVERNOR: GovernorConfig = {
+  name: 'Test Governor',
+  kind: 'oz_governor',
+  chainId: 1,
+  address: '0x5555555555555555555555555555555555555555',
+  tokenSymbol: 'OEC'
+};
+
+export const VOTING_TOKEN = '0x6666666666666666666666666666666666666666';
+
+// Governor and voting token reads answered from memory
+export class FakeGovernorAdapter implements GovernorAdapter {
+  readonly kind = 'oz_governor' as const;
+  // Keyed by on-chain proposal id; unknown proposals are pending with no votes
+  states = new Map<string, ProposalStatus>();
+  tallies = new Map<string, ProposalTallies>();
+  currentVotes = BigInt(0);
+  // Checkpointed votes by block; blocks without an entry had none
+  priorVotes = new Map<number, bigint>();
+  delegate = ethers.ZeroAddress;
+  // Blocks getPriorVotes was asked about, in order
+  priorVoteReads: number[] = [];
+
+  async getState(_provider: ethers.Provider, _governor: GovernorConfig, proposalId: bigint): Promise<ProposalStatus> {
+    return this.states.get(proposalId.toString()) ?? 'pending';
+  }
+
+  async getTallies(_provider: ethers.Provider, _governor: GovernorConfig, proposalId: bigint): Promise<ProposalTallies> {
+    return this.tallies.get(proposalId.toString()) ?? { forVotes: BigInt(0), againstVotes: BigInt(0), abstainVotes: BigInt(0) };
+  }
+
+  async getVotingToken(): Promise<string> {
+    return VOTING_TOKEN;
+  }
+
+  async getCurrentVotes(): Promise<bigint> {
+    return this.currentVotes;
+  }
+
+  async getPriorVotes(_provider: ethers.Provider, _token: string, _account: string, blockNumber: number): Promise<bigint> {
+    this.priorVoteReads.push(blockNumber);
+    return this.priorVotes.get(blockNumber) ?? BigInt(0);
+  }
+
+  async getDelegate(): Promise<string> {
+    return this.delegate;
+  }
+}
+
+// What the fake provider serves: the chain head, addresses with deployed code and governor logs
+export interface FakeGovernorNode {
+  head: number;
+  deployed: Set<string>;
+  logs: ethers.Log[];
+}
+
+class FakeGovernorChain extends EthereumService {
+  constructor(chain: ChainConfig, private node: FakeGovernorNode) {
+    super(chain);
+  }
+
+  override getProvider(): ethers.JsonRpcProvider {
+    const node = this.node;
+    const provider = {
+      async getBlockNumber() {
+        return node.head;
+      },
+      async getCode(address: string) {
+        return node.deployed.has(address.toLowerCase()) ? '0x6080' : '0x';
+      },
+      async getLogs(filter: { address: string; fromBlock: number; toBlock: number }) {
+        return node.logs.filter(log => log.address.toLowerCase() === filter.address.toLowerCase()
+          && log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock);
+      }
+    };
+    return provider as unknown as ethers.JsonRpcProvider;
+  }
+}
+
+// Chains whose providers all read from `node`
+export function fakeGovernorChains(node: FakeGovernorNode): ChainServiceRegistry {
+  return new ChainServiceRegistry({}, chain => new FakeGovernorChain(chain, node));
+}
+
+const governorEvents = new ethers.Interface([
+  'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)',
+  'event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)'
+]);
+
+// A governor event as eth_getLogs would return it
+export function governorLog(governor: string, blockNumber: number, event: 'ProposalCreated' | 'VoteCast', args: unknown[]): ethers.Log {
+  const { topics, data } = governorEvents.encodeEventLog(event, args);
+  return {
+    address: governor,
+    blockNumber,
+    transactionHash: ethers.keccak256(ethers.toUtf8Bytes(`${event}:${blockNumber}:${String(args[0])}`)),
+    topics,
+    data
+  } as unknown as ethers.Log;
+}
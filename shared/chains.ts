@@ -0,0 +1,98 @@
+// Registry of EVM chains the dashboard can read balances, prices and transfers from
+
+export interface ChainConfig {
+  id: number;
+  // Value stored in wallets.network
+  network: string;
+  name: string;
+  // First entry is used by the server unless RPC_URL_<chainId> overrides it
+  rpcUrls: string[];
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  explorerUrl: string;
+  multicallAddress: string;
+}
+
+// Multicall3 is deployed at the same address on every chain listed here
+const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const DEFAULT_CHAIN_ID = 1;
+
+export const chains: ChainConfig[] = [
+  {
+    id: 1,
+    network: "ethereum",
+    name: "Ethereum",
+    rpcUrls: ["https://ethereum-rpc.publicnode.com", "https://cloudflare-eth.com"],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    explorerUrl: "https://etherscan.io",
+    multicallAddress: MULTICALL3,
+  },
+  {
+    id: 56,
+    network: "bsc",
+    name: "BNB Smart Chain",
+    rpcUrls: ["https://bsc-rpc.publicnode.com", "https://bsc-dataseed.binance.org"],
+    nativeCurrency: { name: "BNB", symbol: "BNB", decimals: 18 },
+    explorerUrl: "https://bscscan.com",
+    multicallAddress: MULTICALL3,
+  },
+  {
+    id: 137,
+    network: "polygon",
+    name: "Polygon",
+    rpcUrls: ["https://polygon-bor-rpc.publicnode.com", "https://polygon-rpc.com"],
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    explorerUrl: "https://polygonscan.com",
+    multicallAddress: MULTICALL3,
+  },
+  {
+    id: 42161,
+    network: "arbitrum",
+    name: "Arbitrum One",
+    rpcUrls: ["https://arbitrum-one-rpc.publicnode.com", "https://arb1.arbitrum.io/rpc"],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    explorerUrl: "https://arbiscan.io",
+    multicallAddress: MULTICALL3,
+  },
+  {
+    id: 10,
+    network: "optimism",
+    name: "OP Mainnet",
+    rpcUrls: ["https://optimism-rpc.publicnode.com", "https://mainnet.optimism.io"],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    explorerUrl: "https://optimistic.etherscan.io",
+    multicallAddress: MULTICALL3,
+  },
+  {
+    id: 8453,
+    network: "base",
+    name: "Base",
+    rpcUrls: ["https://base-rpc.publicnode.com", "https://mainnet.base.org"],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    explorerUrl: "https://basescan.org",
+    multicallAddress: MULTICALL3,
+  },
+  {
+    id: 11155111,
+    network: "sepolia",
+    name: "Sepolia",
+    rpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com", "https://rpc.sepolia.org"],
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    explorerUrl: "https://sepolia.etherscan.io",
+    multicallAddress: MULTICALL3,
+  },
+];
+
+export const supportedChainIds = chains.map(chain => chain.id);
+
+export function getChain(chainId: number): ChainConfig | undefined {
+  return chains.find(chain => chain.id === chainId);
+}
+
+export function getChainByNetwork(network: string): ChainConfig | undefined {
+  return chains.find(chain => chain.network === network);
+}
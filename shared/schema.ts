@@ -8,6 +8,8 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Granted out of band (there is no API for it); unlocks the token registry admin routes
+  isAdmin: boolean("is_admin").notNull().default(false),
 });
 
 export const wallets = pgTable("wallets", {
@@ -16,6 +18,7 @@ export const wallets = pgTable("wallets", {
   address: text("address").notNull().unique(),
   network: text("network").notNull().default("ethereum"),
   isConnected: boolean("is_connected").notNull().default(false),
+  verifiedAt: timestamp("verified_at"), // Set once the owner proves control with a SIWE signature
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
@@ -23,19 +26,51 @@ export const wallets = pgTable("wallets", {
   addressIdx: index("wallets_address_idx").on(table.address),
 }));
 
+export const siweNonces = pgTable("siwe_nonces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  nonce: text("nonce").notNull().unique(),
+  address: text("address").notNull(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  chainId: integer("chain_id").notNull().default(1), // Chain the challenge was issued for
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  expiresAtIdx: index("siwe_nonces_expires_at_idx").on(table.expiresAt),
+}));
+
+// Tokens are chain-scoped: the same symbol can be registered once per chain
 export const tokens = pgTable("tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  symbol: text("symbol").notNull().unique(),
+  chainId: integer("chain_id").notNull().default(1), // See shared/chains.ts
+  symbol: text("symbol").notNull(),
   name: text("name").notNull(),
   address: text("address").notNull(),
   decimals: integer("decimals").notNull().default(18),
   logoUrl: text("logo_url"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
+  chainAddressUnique: unique("tokens_chain_address_unique").on(table.chainId, table.address),
   symbolIdx: index("tokens_symbol_idx").on(table.symbol),
   addressIdx: index("tokens_address_idx").on(table.address),
 }));
 
+export const tokenPriceSources = pgTable("token_price_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tokenId: varchar("token_id").notNull().references(() => tokens.id, { onDelete: "cascade" }),
+  sourceType: text("source_type").notNull(), // 'coingecko', 'onchain_pool', 'fixed_peg'
+  sourceRef: text("source_ref"), // CoinGecko id or pool address; unused for fixed pegs
+  pegPrice: decimal("peg_price", { precision: 20, scale: 8 }),
+  config: jsonb("config"), // Source-specific options, e.g. quote token for pools
+  priority: integer("priority").notNull().default(0), // Lower values are tried first
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  tokenIdIdx: index("token_price_sources_token_id_idx").on(table.tokenId),
+  tokenSourceUnique: unique("token_price_sources_token_source_unique").on(table.tokenId, table.sourceType, table.sourceRef),
+}));
+
 export const portfolios = pgTable("portfolios", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: "cascade" }),
@@ -44,11 +79,23 @@ export const portfolios = pgTable("portfolios", {
   pnlPercentage: decimal("pnl_percentage", { precision: 10, scale: 4 }).notNull().default("0"),
   totalTrades: integer("total_trades").notNull().default(0),
   healthScore: text("health_score").notNull().default("Unknown"),
+  healthReport: jsonb("health_report"), // Overall score with per-factor sub-scores and explanations
   lastUpdated: timestamp("last_updated").notNull().defaultNow(),
 }, (table) => ({
   walletIdUnique: unique("portfolios_wallet_id_unique").on(table.walletId),
 }));
 
+export const portfolioSnapshots = pgTable("portfolio_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: "cascade" }),
+  netWorth: decimal("net_worth", { precision: 20, scale: 8 }).notNull().default("0"),
+  tokenValues: jsonb("token_values"), // Per-token balance and USD value at snapshot time
+  unpricedTokenIds: text("unpriced_token_ids").array().notNull().default(sql`ARRAY[]::text[]`), // Held tokens left out of net worth for lack of a price
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+}, (table) => ({
+  walletTimestampIdx: index("portfolio_snapshots_wallet_timestamp_idx").on(table.walletId, table.timestamp),
+}));
+
 export const tokenBalances = pgTable("token_balances", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: "cascade" }),
@@ -66,9 +113,17 @@ export const stakingPositions = pgTable("staking_positions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: "cascade" }),
   tokenId: varchar("token_id").notNull().references(() => tokens.id, { onDelete: "cascade" }),
+  rewardTokenId: varchar("reward_token_id").references(() => tokens.id, { onDelete: "set null" }),
+  chainId: integer("chain_id").notNull().default(1),
+  poolAddress: text("pool_address").notNull(),
+  poolId: integer("pool_id").notNull().default(0), // MasterChef pool id; 0 for single-pool contracts
   poolName: text("pool_name").notNull(),
   stakingType: text("staking_type").notNull(), // 'governance', 'staking', 'farming'
   stakedAmount: decimal("staked_amount", { precision: 30, scale: 18 }).notNull().default("0"),
+  // Farms that take LP tokens: stakedAmount is in LP units and is valued from the pair's reserves
+  lpToken: boolean("lp_token").notNull().default(false),
+  // LP stakes only: USD value at the last sync, null when the pair couldn't be priced
+  stakedUsdValue: decimal("staked_usd_value", { precision: 20, scale: 8 }),
   rewardsEarned: decimal("rewards_earned", { precision: 30, scale: 18 }).notNull().default("0"),
   unclaimedRewards: decimal("unclaimed_rewards", { precision: 30, scale: 18 }).notNull().default("0"),
   apy: decimal("apy", { precision: 10, scale: 4 }).notNull().default("0"),
@@ -76,6 +131,7 @@ export const stakingPositions = pgTable("staking_positions", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
+  walletPoolUnique: unique("staking_positions_wallet_pool_unique").on(table.walletId, table.chainId, table.poolAddress, table.poolId),
   walletIdIdx: index("staking_positions_wallet_id_idx").on(table.walletId),
   tokenIdIdx: index("staking_positions_token_id_idx").on(table.tokenId),
   isActiveIdx: index("staking_positions_is_active_idx").on(table.isActive),
@@ -84,7 +140,7 @@ export const stakingPositions = pgTable("staking_positions", {
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: "cascade" }),
-  txHash: text("tx_hash").notNull().unique(),
+  txHash: text("tx_hash").notNull(),
   type: text("type").notNull(), // 'buy', 'sell', 'stake', 'unstake', 'claim', 'transfer'
   tokenId: varchar("token_id").notNull().references(() => tokens.id, { onDelete: "cascade" }),
   amount: decimal("amount", { precision: 30, scale: 18 }).notNull(),
@@ -102,6 +158,67 @@ export const transactions = pgTable("transactions", {
   txHashIdx: index("transactions_tx_hash_idx").on(table.txHash),
   timestampIdx: index("transactions_timestamp_idx").on(table.timestamp),
   statusIdx: index("transactions_status_idx").on(table.status),
+  // Each wallet keeps its own leg of a transfer between two tracked wallets
+  walletTxHashUnique: unique("transactions_wallet_tx_hash_unique").on(table.walletId, table.txHash),
+}));
+
+export const walletIndexCursors = pgTable("wallet_index_cursors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: "cascade" }),
+  chainId: integer("chain_id").notNull().default(1),
+  lastIndexedBlock: integer("last_indexed_block").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  walletChainUnique: unique("wallet_index_cursors_wallet_chain_unique").on(table.walletId, table.chainId),
+}));
+
+export const proposals = pgTable("proposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(1),
+  governorAddress: text("governor_address").notNull(),
+  proposalId: text("proposal_id").notNull(), // uint256 from the governor, stored as a decimal string
+  proposer: text("proposer").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  snapshotBlock: integer("snapshot_block").notNull(), // Voting power is measured at this block
+  endBlock: integer("end_block").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'active', 'canceled', 'defeated', 'succeeded', 'queued', 'expired', 'executed'
+  forVotes: decimal("for_votes", { precision: 40, scale: 18 }).notNull().default("0"),
+  againstVotes: decimal("against_votes", { precision: 40, scale: 18 }).notNull().default("0"),
+  abstainVotes: decimal("abstain_votes", { precision: 40, scale: 18 }).notNull().default("0"),
+  createdBlock: integer("created_block").notNull(),
+  createdTxHash: text("created_tx_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  governorProposalUnique: unique("proposals_governor_proposal_unique").on(table.chainId, table.governorAddress, table.proposalId),
+  statusIdx: index("proposals_status_idx").on(table.status),
+}));
+
+export const votes = pgTable("votes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+  voter: text("voter").notNull(),
+  support: integer("support").notNull(), // 0 = against, 1 = for, 2 = abstain
+  weight: decimal("weight", { precision: 40, scale: 18 }).notNull(),
+  reason: text("reason"),
+  txHash: text("tx_hash").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  proposalVoterUnique: unique("votes_proposal_voter_unique").on(table.proposalId, table.voter),
+  voterIdx: index("votes_voter_idx").on(table.voter),
+}));
+
+// Last block scanned for ProposalCreated/VoteCast events, per governor contract
+export const governanceCursors = pgTable("governance_cursors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chainId: integer("chain_id").notNull().default(1),
+  governorAddress: text("governor_address").notNull(),
+  lastScannedBlock: integer("last_scanned_block").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  governorUnique: unique("governance_cursors_governor_unique").on(table.chainId, table.governorAddress),
 }));
 
 export const priceHistory = pgTable("price_history", {
@@ -118,6 +235,41 @@ export const priceHistory = pgTable("price_history", {
   timestampIdx: index("price_history_timestamp_idx").on(table.timestamp),
 }));
 
+// OHLC rollups of recorded prices. Each resolution has its own table so it can be kept for its own retention period.
+export const candleResolutions = ['1m', '1h', '1d'] as const;
+export type CandleResolution = typeof candleResolutions[number];
+
+// Resolutions getPriceHistory can serve; 'raw' reads price_history itself
+export const priceHistoryResolutions = ['raw', ...candleResolutions] as const;
+export type PriceHistoryResolution = typeof priceHistoryResolutions[number];
+
+function priceCandleTable(name: string) {
+  return pgTable(name, {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tokenId: varchar("token_id").notNull().references(() => tokens.id, { onDelete: "cascade" }),
+    bucketStart: timestamp("bucket_start").notNull(),
+    open: decimal("open", { precision: 20, scale: 8 }).notNull(),
+    high: decimal("high", { precision: 20, scale: 8 }).notNull(),
+    low: decimal("low", { precision: 20, scale: 8 }).notNull(),
+    close: decimal("close", { precision: 20, scale: 8 }).notNull(),
+    samples: integer("samples").notNull().default(1),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  }, (table) => ({
+    tokenBucketUnique: unique(`${name}_token_bucket_unique`).on(table.tokenId, table.bucketStart),
+    bucketStartIdx: index(`${name}_bucket_start_idx`).on(table.bucketStart),
+  }));
+}
+
+export const priceCandles1m = priceCandleTable("price_candles_1m");
+export const priceCandles1h = priceCandleTable("price_candles_1h");
+export const priceCandles1d = priceCandleTable("price_candles_1d");
+
+export const priceCandleTables = {
+  '1m': priceCandles1m,
+  '1h': priceCandles1h,
+  '1d': priceCandles1d,
+} satisfies Record<CandleResolution, typeof priceCandles1m>;
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   wallets: many(wallets),
@@ -126,9 +278,11 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const walletsRelations = relations(wallets, ({ one, many }) => ({
   user: one(users, { fields: [wallets.userId], references: [users.id] }),
   portfolio: one(portfolios),
+  portfolioSnapshots: many(portfolioSnapshots),
   tokenBalances: many(tokenBalances),
   stakingPositions: many(stakingPositions),
   transactions: many(transactions),
+  indexCursor: one(walletIndexCursors),
 }));
 
 export const tokensRelations = relations(tokens, ({ many }) => ({
@@ -136,12 +290,21 @@ export const tokensRelations = relations(tokens, ({ many }) => ({
   stakingPositions: many(stakingPositions),
   transactions: many(transactions),
   priceHistory: many(priceHistory),
+  priceSources: many(tokenPriceSources),
+}));
+
+export const tokenPriceSourcesRelations = relations(tokenPriceSources, ({ one }) => ({
+  token: one(tokens, { fields: [tokenPriceSources.tokenId], references: [tokens.id] }),
 }));
 
 export const portfoliosRelations = relations(portfolios, ({ one }) => ({
   wallet: one(wallets, { fields: [portfolios.walletId], references: [wallets.id] }),
 }));
 
+export const portfolioSnapshotsRelations = relations(portfolioSnapshots, ({ one }) => ({
+  wallet: one(wallets, { fields: [portfolioSnapshots.walletId], references: [wallets.id] }),
+}));
+
 export const tokenBalancesRelations = relations(tokenBalances, ({ one }) => ({
   wallet: one(wallets, { fields: [tokenBalances.walletId], references: [wallets.id] }),
   token: one(tokens, { fields: [tokenBalances.tokenId], references: [tokens.id] }),
@@ -150,6 +313,7 @@ export const tokenBalancesRelations = relations(tokenBalances, ({ one }) => ({
 export const stakingPositionsRelations = relations(stakingPositions, ({ one }) => ({
   wallet: one(wallets, { fields: [stakingPositions.walletId], references: [wallets.id] }),
   token: one(tokens, { fields: [stakingPositions.tokenId], references: [tokens.id] }),
+  rewardToken: one(tokens, { fields: [stakingPositions.rewardTokenId], references: [tokens.id] }),
 }));
 
 export const transactionsRelations = relations(transactions, ({ one }) => ({
@@ -157,6 +321,18 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   token: one(tokens, { fields: [transactions.tokenId], references: [tokens.id] }),
 }));
 
+export const walletIndexCursorsRelations = relations(walletIndexCursors, ({ one }) => ({
+  wallet: one(wallets, { fields: [walletIndexCursors.walletId], references: [wallets.id] }),
+}));
+
+export const proposalsRelations = relations(proposals, ({ many }) => ({
+  votes: many(votes),
+}));
+
+export const votesRelations = relations(votes, ({ one }) => ({
+  proposal: one(proposals, { fields: [votes.proposalId], references: [proposals.id] }),
+}));
+
 export const priceHistoryRelations = relations(priceHistory, ({ one }) => ({
   token: one(tokens, { fields: [priceHistory.tokenId], references: [tokens.id] }),
 }));
@@ -173,16 +349,36 @@ export const insertWalletSchema = createInsertSchema(wallets).omit({
   updatedAt: true,
 });
 
+export const insertSiweNonceSchema = createInsertSchema(siweNonces).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
 export const insertTokenSchema = createInsertSchema(tokens).omit({
   id: true,
   createdAt: true,
 });
 
+export const priceSourceTypes = ["coingecko", "onchain_pool", "fixed_peg"] as const;
+
+export const insertTokenPriceSourceSchema = createInsertSchema(tokenPriceSources, {
+  sourceType: z.enum(priceSourceTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertPortfolioSchema = createInsertSchema(portfolios).omit({
   id: true,
   lastUpdated: true,
 });
 
+export const insertPortfolioSnapshotSchema = createInsertSchema(portfolioSnapshots).omit({
+  id: true,
+});
+
 export const insertTokenBalanceSchema = createInsertSchema(tokenBalances).omit({
   id: true,
   lastUpdated: true,
@@ -199,11 +395,37 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
   createdAt: true,
 });
 
+export const insertWalletIndexCursorSchema = createInsertSchema(walletIndexCursors).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertProposalSchema = createInsertSchema(proposals).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertVoteSchema = createInsertSchema(votes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGovernanceCursorSchema = createInsertSchema(governanceCursors).omit({
+  id: true,
+  updatedAt: true,
+});
+
 export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertPriceCandleSchema = createInsertSchema(priceCandles1m).omit({
+  id: true,
+  updatedAt: true,
+});
+
 // Export types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -211,12 +433,22 @@ export type User = typeof users.$inferSelect;
 export type InsertWallet = z.infer<typeof insertWalletSchema>;
 export type Wallet = typeof wallets.$inferSelect;
 
+export type InsertSiweNonce = z.infer<typeof insertSiweNonceSchema>;
+export type SiweNonce = typeof siweNonces.$inferSelect;
+
 export type InsertToken = z.infer<typeof insertTokenSchema>;
 export type Token = typeof tokens.$inferSelect;
 
+export type PriceSourceType = typeof priceSourceTypes[number];
+export type InsertTokenPriceSource = z.infer<typeof insertTokenPriceSourceSchema>;
+export type TokenPriceSource = typeof tokenPriceSources.$inferSelect;
+
 export type InsertPortfolio = z.infer<typeof insertPortfolioSchema>;
 export type Portfolio = typeof portfolios.$inferSelect;
 
+export type InsertPortfolioSnapshot = z.infer<typeof insertPortfolioSnapshotSchema>;
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+
 export type InsertTokenBalance = z.infer<typeof insertTokenBalanceSchema>;
 export type TokenBalance = typeof tokenBalances.$inferSelect;
 
@@ -226,5 +458,20 @@ export type StakingPosition = typeof stakingPositions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 
+export type InsertWalletIndexCursor = z.infer<typeof insertWalletIndexCursorSchema>;
+export type WalletIndexCursor = typeof walletIndexCursors.$inferSelect;
+
+export type InsertProposal = z.infer<typeof insertProposalSchema>;
+export type Proposal = typeof proposals.$inferSelect;
+
+export type InsertVote = z.infer<typeof insertVoteSchema>;
+export type Vote = typeof votes.$inferSelect;
+
+export type InsertGovernanceCursor = z.infer<typeof insertGovernanceCursorSchema>;
+export type GovernanceCursor = typeof governanceCursors.$inferSelect;
+
 export type InsertPriceHistory = z.infer<typeof insertPriceHistorySchema>;
 export type PriceHistory = typeof priceHistory.$inferSelect;
+
+export type InsertPriceCandle = z.infer<typeof insertPriceCandleSchema>;
+export type PriceCandle = typeof priceCandles1m.$inferSelect;
@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "client/src/**/*.test.ts"],
+    // Client modules talk to window and localStorage
+    environmentMatchGlobs: [["client/**", "jsdom"]],
+    // Route tests run against the in-memory store, never a configured database
+    env: {
+      NODE_ENV: "test",
+      STORAGE_DRIVER: "memory",
+    },
+  },
+});